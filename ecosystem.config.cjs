@@ -1,6 +1,10 @@
 // PM2 Ecosystem Configuration
 // Usage: pm2 start ecosystem.config.cjs
 //
+// Apps:
+//   mas-api       - Next.js dashboard + API
+//   mas-sync-idle - IMAP IDLE sync daemon (npm run sync:idle)
+//
 // Note: Scheduled reports are handled by system cron (more reliable)
 // Run: sudo ./scripts/setup-cron.sh to install cron jobs
 
@@ -29,5 +33,29 @@ module.exports = {
       // Memory limit - restart if exceeded
       max_memory_restart: "500M",
     },
+    {
+      // Long-running IMAP IDLE sync: pulls new mail as soon as it arrives
+      // and refreshes dash_todos for the affected threads
+      name: "mas-sync-idle",
+      script: "npm",
+      args: "run sync:idle",
+      cwd: "/var/www/mas-email-reports",
+      env: {
+        NODE_ENV: "production",
+        TZ: "America/New_York",
+      },
+      // Restart on failure (IMAP reconnects are handled in-process)
+      max_restarts: 10,
+      min_uptime: "30s",
+      restart_delay: 10000,
+      kill_timeout: 30000,
+      watch: false,
+      // Logging
+      error_file: "/var/log/mas-sync-idle-error.log",
+      out_file: "/var/log/mas-sync-idle-out.log",
+      merge_logs: true,
+      log_date_format: "YYYY-MM-DD HH:mm:ss Z",
+      max_memory_restart: "300M",
+    },
   ],
 };
@@ -0,0 +1,17 @@
+-- Track UIDVALIDITY so incremental sync can fetch UID lastUid+1:* safely
+-- and detect when the server renumbers a folder
+
+ALTER TABLE email_sync_metadata
+ADD COLUMN IF NOT EXISTS uid_validity BIGINT DEFAULT NULL;
+
+ALTER TABLE email_messages
+ADD COLUMN IF NOT EXISTS uid_validity BIGINT DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS email_messages_mailbox_uid_idx
+  ON email_messages (mailbox, uid_validity, uid);
+
+CREATE INDEX IF NOT EXISTS email_messages_message_id_idx
+  ON email_messages (message_id);
+
+COMMENT ON COLUMN email_messages.uid_validity IS 'UIDVALIDITY the uid belongs to (NULL = synced before UIDVALIDITY tracking)';
+COMMENT ON COLUMN email_sync_metadata.uid_validity IS 'UIDVALIDITY that last_uid refers to';
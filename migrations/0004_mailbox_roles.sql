@@ -0,0 +1,21 @@
+-- Mailbox roles (inbound/outbound/archive/ignored) resolved from IMAP SPECIAL-USE
+-- flags or IMAP_MAILBOXES, used by isOutbound() instead of folder-name guessing
+
+DO $$ BEGIN
+  CREATE TYPE email_mailbox_role AS ENUM ('inbound', 'outbound', 'archive', 'ignored');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE email_messages
+ADD COLUMN IF NOT EXISTS mailbox_role email_mailbox_role DEFAULT NULL;
+
+-- Backfill existing rows from the folder names that used to be hardcoded
+UPDATE email_messages SET mailbox_role = 'inbound'
+WHERE mailbox_role IS NULL AND mailbox = 'INBOX';
+
+UPDATE email_messages SET mailbox_role = 'outbound'
+WHERE mailbox_role IS NULL
+  AND mailbox IN ('Sent', 'Sent Messages', 'Sent Items', 'INBOX.Sent', 'INBOX.Sent Messages');
+
+COMMENT ON COLUMN email_messages.mailbox_role IS 'Direction of the source folder (NULL = unknown, inferred from folder name)';
@@ -0,0 +1,26 @@
+-- Multi-account support: account dimension on emails, sync metadata and dash todos.
+-- Existing rows keep account = NULL and are claimed by the primary account
+-- (first entry of MAIL_ACCOUNTS) on its next sync.
+
+ALTER TABLE email_messages
+ADD COLUMN IF NOT EXISTS account TEXT DEFAULT NULL;
+
+DROP INDEX IF EXISTS email_messages_mailbox_uid_idx;
+CREATE INDEX IF NOT EXISTS email_messages_mailbox_uid_idx
+  ON email_messages (account, mailbox, uid_validity, uid);
+
+ALTER TABLE email_sync_metadata
+ADD COLUMN IF NOT EXISTS account TEXT DEFAULT NULL;
+
+-- Mailbox names are only unique within an account now
+ALTER TABLE email_sync_metadata
+DROP CONSTRAINT IF EXISTS email_sync_metadata_mailbox_unique;
+
+CREATE UNIQUE INDEX IF NOT EXISTS email_sync_metadata_account_mailbox_unique
+  ON email_sync_metadata (account, mailbox);
+
+ALTER TABLE dash_todos
+ADD COLUMN IF NOT EXISTS accounts TEXT[] DEFAULT NULL;
+
+COMMENT ON COLUMN email_messages.account IS 'Mail account id from MAIL_ACCOUNTS (NULL = synced before multi-account support)';
+COMMENT ON COLUMN dash_todos.accounts IS 'Mail accounts the thread was seen in';
@@ -0,0 +1,16 @@
+-- CC / BCC / Reply-To recipients and the HTML body part.
+-- Existing rows keep NULL; contact detection falls back to From/To for them.
+
+ALTER TABLE email_messages
+ADD COLUMN IF NOT EXISTS cc_addresses TEXT DEFAULT NULL;
+
+ALTER TABLE email_messages
+ADD COLUMN IF NOT EXISTS bcc_addresses TEXT DEFAULT NULL;
+
+ALTER TABLE email_messages
+ADD COLUMN IF NOT EXISTS reply_to TEXT DEFAULT NULL;
+
+ALTER TABLE email_messages
+ADD COLUMN IF NOT EXISTS body_html TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN email_messages.body_html IS 'Raw HTML part as received - sanitize before rendering';
@@ -0,0 +1,19 @@
+-- Reconciliation of stored rows with the IMAP server: messages deleted or
+-- filed into another folder in a mail client are marked instead of living forever.
+
+DO $$ BEGIN
+  CREATE TYPE email_server_state AS ENUM ('present', 'deleted', 'moved');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE email_messages
+ADD COLUMN IF NOT EXISTS server_state email_server_state NOT NULL DEFAULT 'present';
+
+ALTER TABLE email_messages
+ADD COLUMN IF NOT EXISTS moved_to TEXT DEFAULT NULL;
+
+ALTER TABLE email_messages
+ADD COLUMN IF NOT EXISTS removed_at TIMESTAMP DEFAULT NULL;
+
+COMMENT ON COLUMN email_messages.server_state IS 'present | deleted (expunged, flagged \Deleted, or moved to Trash/Junk) | moved (filed into another folder)';
@@ -0,0 +1,7 @@
+-- Offline importer (mbox, Maildir, .eml): where each imported message came from,
+-- so attachments can be read back from disk instead of IMAP.
+
+ALTER TABLE email_messages
+ADD COLUMN IF NOT EXISTS import_source TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN email_messages.import_source IS 'File path, or "path#offset:length" inside an mbox (NULL = synced from IMAP)';
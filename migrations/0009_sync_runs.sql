@@ -0,0 +1,30 @@
+-- Sync run history: one row per syncEmails() call (or IDLE daemon mailbox sync),
+-- used by /api/sync/runs and the dashboard sync health indicator.
+
+DO $$ BEGIN
+  CREATE TYPE sync_run_trigger AS ENUM ('cron', 'button', 'daemon', 'cli');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE sync_run_status AS ENUM ('running', 'success', 'partial', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id SERIAL PRIMARY KEY,
+  trigger sync_run_trigger NOT NULL,
+  status sync_run_status NOT NULL DEFAULT 'running',
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP,
+  duration_ms INTEGER,
+  emails_synced INTEGER NOT NULL DEFAULT 0,
+  emails_deleted INTEGER NOT NULL DEFAULT 0,
+  emails_moved INTEGER NOT NULL DEFAULT 0,
+  mailboxes JSONB,
+  errors JSONB
+);
+
+CREATE INDEX IF NOT EXISTS sync_runs_started_at_idx ON sync_runs (started_at);
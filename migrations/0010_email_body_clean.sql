@@ -0,0 +1,9 @@
+-- Cleaned body text for AI prompts and the thread view: bodyText with quoted
+-- replies, signatures and legal disclaimers removed (see src/imap/body-cleaner.ts).
+-- Existing rows stay NULL and are cleaned on read until backfilled with
+-- `npm run db:backfill-clean-bodies`.
+
+ALTER TABLE email_messages
+ADD COLUMN IF NOT EXISTS body_clean TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN email_messages.body_clean IS 'body_text without quoted history, signature and disclaimers (NULL = not cleaned yet)';
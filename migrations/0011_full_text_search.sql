@@ -0,0 +1,20 @@
+-- Full-text search for /api/search: GIN expression indexes over email
+-- subject/sender/body and over the text layer of stored PO attachments.
+-- The expressions must stay identical to emailSearchDocument() and
+-- attachmentSearchDocument() in src/db/schema.ts or the planner won't use them.
+
+ALTER TABLE email_po_attachments
+ADD COLUMN IF NOT EXISTS extracted_text TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN email_po_attachments.extracted_text IS 'PDF text layer for search ('''' = none or extraction failed, NULL = not extracted yet)';
+
+CREATE INDEX IF NOT EXISTS email_messages_search_idx ON email_messages USING gin ((
+  setweight(to_tsvector('english', coalesce(subject, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(from_name, '') || ' ' || coalesce(from_address, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(body_text, '')), 'C')
+));
+
+CREATE INDEX IF NOT EXISTS email_po_attachments_search_idx ON email_po_attachments USING gin ((
+  setweight(to_tsvector('english', coalesce(filename, '') || ' ' || coalesce(po_number, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(extracted_text, '')), 'C')
+));
@@ -0,0 +1,48 @@
+-- Persistent thread identity. Threads used to be recomputed from headers and
+-- subjects on every run, so a thread key could change when an older message
+-- entered the window and orphan todos, alerts and dismissals.
+--
+-- Emails get a thread_id as they are synced or imported (src/sync/thread-assigner.ts).
+-- Existing rows are threaded by the next sync, or ahead of time with
+-- `npm run db:backfill-threads`. Until then they are grouped from headers as before.
+
+CREATE TABLE IF NOT EXISTS email_threads (
+  id SERIAL PRIMARY KEY,
+  thread_key TEXT NOT NULL UNIQUE,
+  subject TEXT,
+  normalized_subject TEXT,
+  first_email_date TIMESTAMP,
+  last_email_date TIMESTAMP,
+  email_count INTEGER NOT NULL DEFAULT 0,
+  merged_into INTEGER,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS email_threads_normalized_subject_idx
+ON email_threads (normalized_subject);
+
+COMMENT ON COLUMN email_threads.thread_key IS 'Key of the email that created the thread; never changes';
+COMMENT ON COLUMN email_threads.merged_into IS 'Surviving thread after two threads were linked (NULL = active)';
+
+ALTER TABLE email_messages
+ADD COLUMN IF NOT EXISTS thread_id INTEGER REFERENCES email_threads(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS email_messages_thread_id_idx
+ON email_messages (thread_id);
+
+-- Rows keyed by thread_key keep working; thread_id is filled in as they are written
+ALTER TABLE dash_todos
+ADD COLUMN IF NOT EXISTS thread_id INTEGER REFERENCES email_threads(id);
+
+CREATE INDEX IF NOT EXISTS dash_todos_thread_id_idx
+ON dash_todos (thread_id);
+
+ALTER TABLE qb_sync_alerts
+ADD COLUMN IF NOT EXISTS thread_id INTEGER REFERENCES email_threads(id);
+
+CREATE INDEX IF NOT EXISTS qb_sync_alerts_thread_id_idx
+ON qb_sync_alerts (thread_id);
+
+ALTER TABLE email_dismissed_threads
+ADD COLUMN IF NOT EXISTS thread_id INTEGER REFERENCES email_threads(id);
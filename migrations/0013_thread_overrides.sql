@@ -0,0 +1,35 @@
+-- Manual thread merge/split (POST /api/threads/merge, /api/threads/split).
+-- Every merge and split, including the automatic merges the thread assigner does
+-- when an email links two threads, is recorded with the todos, alerts and
+-- dismissals it re-pointed. Overrides are applied to email_threads directly, so
+-- later syncs keep them: merged keys resolve to the survivor, and threads split
+-- apart are never merged again automatically.
+
+DO $$ BEGIN
+  CREATE TYPE email_thread_override_action AS ENUM ('merge', 'split');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE email_threads
+ADD COLUMN IF NOT EXISTS split_from INTEGER;
+
+COMMENT ON COLUMN email_threads.split_from IS 'Thread this one was manually split off from (never auto-merged with it)';
+
+CREATE TABLE IF NOT EXISTS email_thread_overrides (
+  id SERIAL PRIMARY KEY,
+  action email_thread_override_action NOT NULL,
+  thread_id INTEGER NOT NULL REFERENCES email_threads(id),
+  thread_key TEXT NOT NULL,
+  other_thread_ids INTEGER[] NOT NULL,
+  other_thread_keys TEXT[] NOT NULL,
+  email_ids INTEGER[],
+  message_ids TEXT[],
+  repointed JSONB,
+  reason TEXT,
+  created_by TEXT NOT NULL DEFAULT 'dashboard',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS email_thread_overrides_thread_id_idx
+ON email_thread_overrides (thread_id, created_at);
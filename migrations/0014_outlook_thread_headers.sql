@@ -0,0 +1,19 @@
+-- Outlook/Exchange thread headers. Outlook often omits References but sends
+-- Thread-Index (base64: 6-byte FILETIME + 16-byte conversation GUID + 5 bytes per
+-- reply) and Thread-Topic. The decoded GUID joins emails to a thread before the
+-- subject heuristics run. Rows synced earlier stay NULL (headers weren't kept).
+--
+-- thread_match records which rule joined each email to its thread, for
+-- `npm run threads:explain` and GET /api/threads/[threadKey]/emails?explain=true.
+
+ALTER TABLE email_messages
+ADD COLUMN IF NOT EXISTS thread_index TEXT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS thread_index_guid TEXT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS thread_topic TEXT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS thread_match JSONB DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS email_messages_thread_index_guid_idx
+ON email_messages (thread_index_guid);
+
+COMMENT ON COLUMN email_messages.thread_index_guid IS 'Conversation GUID decoded from the Thread-Index header (hex)';
+COMMENT ON COLUMN email_messages.thread_match IS 'How the email joined its thread: { rule, via }';
@@ -0,0 +1,35 @@
+-- User-defined classification rules (GET/POST /api/classification-rules).
+-- categorizeThreads() tries enabled rules before the AI; a thread matching one is
+-- decided by the rule and never sent to the model. The deciding rule is kept on
+-- the report thread and the dashboard todo.
+
+CREATE TABLE IF NOT EXISTS email_classification_rules (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  priority INTEGER NOT NULL DEFAULT 100,
+  sender_domain TEXT,
+  subject_pattern TEXT,
+  attachment_pattern TEXT,
+  mailbox TEXT,
+  category email_category,
+  item_type email_item_type,
+  needs_response BOOLEAN,
+  notes TEXT,
+  match_count INTEGER NOT NULL DEFAULT 0,
+  last_matched_at TIMESTAMP,
+  created_by TEXT DEFAULT 'dashboard',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS email_classification_rules_enabled_priority_idx
+ON email_classification_rules (enabled, priority);
+
+COMMENT ON COLUMN email_classification_rules.priority IS 'Lower runs first; the first matching rule decides the thread';
+
+ALTER TABLE email_report_threads
+ADD COLUMN IF NOT EXISTS classification_rule_id INTEGER REFERENCES email_classification_rules(id) ON DELETE SET NULL;
+
+ALTER TABLE dash_todos
+ADD COLUMN IF NOT EXISTS classification_rule_id INTEGER REFERENCES email_classification_rules(id) ON DELETE SET NULL;
@@ -0,0 +1,23 @@
+-- AI call ledger (GET /api/ai/usage). Every model call is recorded with its
+-- token counts, latency and estimated cost; AI_DAILY_BUDGET_USD is checked
+-- against today's sum before each call.
+
+CREATE TABLE IF NOT EXISTS ai_calls (
+  id SERIAL PRIMARY KEY,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  purpose TEXT NOT NULL,
+  thread_key TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  cost_micros INTEGER NOT NULL DEFAULT 0,
+  success BOOLEAN NOT NULL DEFAULT TRUE,
+  error_message TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS ai_calls_created_at_idx ON ai_calls (created_at);
+CREATE INDEX IF NOT EXISTS ai_calls_thread_key_idx ON ai_calls (thread_key);
+
+COMMENT ON COLUMN ai_calls.cost_micros IS 'Estimated cost in millionths of a dollar, from the model price table (AI_PRICE_* for other models)';
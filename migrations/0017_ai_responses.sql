@@ -0,0 +1,27 @@
+-- Recorded AI responses, keyed by SHA-256 of model + prompt + attachment hash.
+-- Identical prompts are answered from here instead of the model
+-- (AI_CACHE_MODE=readwrite); AI_CACHE_MODE=replay answers only from here, to
+-- reproduce a past report exactly. `npm run ai:fixtures` exports rows as
+-- regression fixtures.
+
+CREATE TABLE IF NOT EXISTS ai_responses (
+  id SERIAL PRIMARY KEY,
+  cache_key TEXT NOT NULL,
+  purpose TEXT NOT NULL,
+  model TEXT NOT NULL,
+  system_prompt TEXT,
+  prompt TEXT NOT NULL,
+  attachment_hash TEXT,
+  response_text TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ai_responses_cache_key_unique ON ai_responses (cache_key);
+CREATE INDEX IF NOT EXISTS ai_responses_purpose_idx ON ai_responses (purpose, created_at);
+
+-- Ledger rows for calls answered from ai_responses (no tokens, no cost)
+ALTER TABLE ai_calls ADD COLUMN IF NOT EXISTS cached BOOLEAN NOT NULL DEFAULT FALSE;
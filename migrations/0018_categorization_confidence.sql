@@ -0,0 +1,14 @@
+-- Per-field confidence and rationale for categorizations (GET /api/review-queue).
+-- confidence is the lowest of the category / itemType / needsResponse
+-- confidences; confidence_details holds each one with its rationale.
+
+ALTER TABLE email_report_threads ADD COLUMN IF NOT EXISTS confidence REAL;
+ALTER TABLE email_report_threads ADD COLUMN IF NOT EXISTS confidence_details JSONB;
+
+ALTER TABLE dash_todos ADD COLUMN IF NOT EXISTS confidence REAL;
+ALTER TABLE dash_todos ADD COLUMN IF NOT EXISTS confidence_details JSONB;
+ALTER TABLE dash_todos ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS dash_todos_confidence_idx ON dash_todos (status, confidence);
+
+COMMENT ON COLUMN dash_todos.reviewed_at IS 'Set when staff confirm or correct the classification via /api/todos/correct; reviewed todos leave the review queue';
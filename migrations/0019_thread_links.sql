@@ -0,0 +1,26 @@
+-- Typed links between threads of one deal (GET /api/threads/[threadKey]/related).
+-- Written by the categorizer from the model's relatedTo answer and from PO
+-- numbers shared across threads. Edges point from the earlier stage to the
+-- later one: rfq_to_quote, quote_to_po, po_to_invoice, forward_of (original →
+-- forward), related (linked, stage unknown).
+
+DO $$ BEGIN
+  CREATE TYPE thread_link_type AS ENUM ('rfq_to_quote', 'quote_to_po', 'po_to_invoice', 'forward_of', 'related');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS thread_links (
+  id SERIAL PRIMARY KEY,
+  from_thread_key TEXT NOT NULL,
+  to_thread_key TEXT NOT NULL,
+  from_thread_id INTEGER REFERENCES email_threads(id) ON DELETE SET NULL,
+  to_thread_id INTEGER REFERENCES email_threads(id) ON DELETE SET NULL,
+  link_type thread_link_type NOT NULL,
+  source TEXT NOT NULL,
+  po_number TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS thread_links_edge_unique ON thread_links (from_thread_key, to_thread_key, link_type);
+CREATE INDEX IF NOT EXISTS thread_links_to_thread_key_idx ON thread_links (to_thread_key);
@@ -0,0 +1,12 @@
+-- Numeric urgency priority with reasons (src/report/urgency.ts): todo type,
+-- deadlines, escalation language, repeat follow-ups, QB customer balance and
+-- age, 0-100. Default sort of GET /api/todos and the report action items.
+-- email_todo_items carries it between reports.
+
+ALTER TABLE dash_todos ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE dash_todos ADD COLUMN IF NOT EXISTS priority_reasons JSONB;
+
+CREATE INDEX IF NOT EXISTS dash_todos_priority_idx ON dash_todos (status, priority);
+
+ALTER TABLE email_todo_items ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE email_todo_items ADD COLUMN IF NOT EXISTS priority_reasons JSONB;
@@ -0,0 +1,14 @@
+-- Requested and promised dates (src/report/deadlines.ts): quote due dates and
+-- required-by dates from emails, order / required / promised dates from PO PDFs.
+-- GET /api/deadlines lists them; overdue and due-today ones go in the morning report.
+
+ALTER TABLE email_report_threads ADD COLUMN IF NOT EXISTS deadlines JSONB;
+
+ALTER TABLE email_po_attachments ADD COLUMN IF NOT EXISTS order_date DATE;
+ALTER TABLE email_po_attachments ADD COLUMN IF NOT EXISTS required_date DATE;
+ALTER TABLE email_po_attachments ADD COLUMN IF NOT EXISTS promised_date DATE;
+CREATE INDEX IF NOT EXISTS email_po_attachments_required_date_idx ON email_po_attachments (required_date);
+
+ALTER TABLE dash_todos ADD COLUMN IF NOT EXISTS deadlines JSONB;
+ALTER TABLE dash_todos ADD COLUMN IF NOT EXISTS due_date DATE;
+CREATE INDEX IF NOT EXISTS dash_todos_due_date_idx ON dash_todos (status, due_date);
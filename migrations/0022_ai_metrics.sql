@@ -0,0 +1,16 @@
+-- Classifier accuracy metrics (GET /api/ai/metrics, src/ai/metrics.ts).
+-- Which model and prompt version classified each thread, copied onto the
+-- corrections made to it, and how often each correction was used as a prompt
+-- example by loadCorrectionsForPrompt().
+
+ALTER TABLE email_report_threads ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE email_report_threads ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+ALTER TABLE dash_todos ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE dash_todos ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+ALTER TABLE dash_ai_corrections ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE dash_ai_corrections ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+ALTER TABLE dash_ai_corrections ADD COLUMN IF NOT EXISTS injected_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE dash_ai_corrections ADD COLUMN IF NOT EXISTS first_injected_at TIMESTAMP;
+ALTER TABLE dash_ai_corrections ADD COLUMN IF NOT EXISTS last_injected_at TIMESTAMP;
@@ -0,0 +1,6 @@
+-- Categorization provenance (src/ai/prompts.ts): the provider and the hash of
+-- the corrections injected into the prompt, next to the model and prompt
+-- version added in 0022. prompt_version is now "<template>@<version>".
+
+ALTER TABLE email_report_threads ADD COLUMN IF NOT EXISTS provider TEXT;
+ALTER TABLE email_report_threads ADD COLUMN IF NOT EXISTS corrections_hash TEXT;
@@ -0,0 +1,18 @@
+-- Messages that failed to parse or store during sync. After a few attempts the
+-- UID is skipped and the lastUid checkpoint moves past it (src/sync/syncer.ts).
+
+CREATE TABLE IF NOT EXISTS email_sync_failed_uids (
+  id SERIAL PRIMARY KEY,
+  account TEXT NOT NULL,
+  mailbox TEXT NOT NULL,
+  uid_validity BIGINT NOT NULL,
+  uid INTEGER NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  last_error TEXT,
+  first_failed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_failed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  skipped BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS email_sync_failed_uids_uid_unique
+  ON email_sync_failed_uids (account, mailbox, uid_validity, uid);
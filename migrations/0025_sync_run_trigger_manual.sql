@@ -0,0 +1,4 @@
+-- Reports run by hand (npm run report) record their email sync as 'manual';
+-- 'cron' is kept for scheduled runs (scripts/run-report.sh passes --cron).
+
+ALTER TYPE sync_run_trigger ADD VALUE IF NOT EXISTS 'manual';
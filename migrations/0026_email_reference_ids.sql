@@ -0,0 +1,15 @@
+-- References header split into message IDs with a GIN index, so finding the
+-- stored replies to a message (thread-assigner findLinkedEmails) is an index
+-- lookup instead of a LIKE scan over every row.
+
+ALTER TABLE email_messages
+ADD COLUMN IF NOT EXISTS reference_ids TEXT[] DEFAULT NULL;
+
+UPDATE email_messages
+SET reference_ids = regexp_split_to_array(btrim("references"), '\s+')
+WHERE reference_ids IS NULL AND btrim(coalesce("references", '')) <> '';
+
+CREATE INDEX IF NOT EXISTS email_messages_reference_ids_idx
+  ON email_messages USING gin (reference_ids);
+
+COMMENT ON COLUMN email_messages.reference_ids IS 'References header split into message IDs';
@@ -0,0 +1,6 @@
+-- Categorizations made while the daily AI budget was spent (rules-only guess or
+-- a stale cached answer) are stored with the report but never reused as the
+-- cached categorization of the thread (src/report/categorizer.ts).
+
+ALTER TABLE email_report_threads
+ADD COLUMN IF NOT EXISTS degraded BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,10 @@
+-- Replay key: the response cache key computed without the prompt parts that
+-- change between runs (staff corrections injected into the batch prompt), so
+-- AI_CACHE_MODE=replay still finds a past report's responses after new
+-- corrections. Older rows keep their exact key only.
+
+ALTER TABLE ai_responses
+ADD COLUMN IF NOT EXISTS replay_key TEXT DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS ai_responses_replay_key_idx
+  ON ai_responses (replay_key, created_at);
@@ -0,0 +1,8 @@
+-- Provider that classified a todo, next to its model, so re-categorization
+-- (src/report/recategorize.ts) recognizes rules-only classifications by either
+-- column. Older rows get 'rules' where the model says so; the rest stay NULL.
+
+ALTER TABLE dash_todos
+ADD COLUMN IF NOT EXISTS provider TEXT DEFAULT NULL;
+
+UPDATE dash_todos SET provider = 'rules' WHERE model = 'rules' AND provider IS NULL;
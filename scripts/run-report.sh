@@ -69,19 +69,19 @@ run_report() {
     # Run appropriate report
     if [ "$REPORT_TYPE" = "morning" ]; then
         echo "Generating morning report..."
-        if ! npm run report:morning; then
+        if ! npm run report:morning -- --cron; then
             echo "ERROR: Morning report generation failed"
             return 1
         fi
     elif [ "$REPORT_TYPE" = "midday" ]; then
         echo "Generating midday report..."
-        if ! npm run report:midday; then
+        if ! npm run report:midday -- --cron; then
             echo "ERROR: Midday report generation failed"
             return 1
         fi
     else
         echo "Generating daily summary..."
-        if ! npm run report; then
+        if ! npm run report -- --cron; then
             echo "ERROR: Daily report generation failed"
             return 1
         fi
@@ -0,0 +1,22 @@
+import "dotenv/config";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { registerTools } from "@/tools";
+
+// stdout carries the MCP protocol. The sync/report modules log progress with
+// console.log, so route it to stderr before any tool runs.
+console.log = console.error;
+console.info = console.error;
+
+async function main() {
+  const server = new McpServer({ name: "mcp-bluehost-imap-readonly", version: "1.0.0" });
+  registerTools(server);
+
+  await server.connect(new StdioServerTransport());
+  console.error("MCP server running on stdio");
+}
+
+main().catch((error) => {
+  console.error("MCP server failed:", error);
+  process.exit(1);
+});
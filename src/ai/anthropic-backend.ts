@@ -0,0 +1,69 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { ChatBackend, ChatRequest, ChatResponse, ModelTier } from "./types";
+
+const DEFAULT_MODELS: Record<ModelTier, string> = {
+  smart: "claude-sonnet-4-20250514",
+  fast: "claude-3-5-haiku-latest",
+};
+
+/**
+ * Claude via the Anthropic API (ANTHROPIC_API_KEY).
+ * AI_MODEL / AI_FAST_MODEL override the default models.
+ */
+export function createAnthropicBackend(): ChatBackend {
+  if (!process.env.ANTHROPIC_API_KEY) {
+    throw new Error("Missing ANTHROPIC_API_KEY for the anthropic AI provider");
+  }
+
+  const anthropic = new Anthropic();
+  const models: Record<ModelTier, string> = {
+    smart: process.env.AI_MODEL || DEFAULT_MODELS.smart,
+    fast: process.env.AI_FAST_MODEL || DEFAULT_MODELS.fast,
+  };
+
+  return {
+    name: "anthropic",
+    model: (tier) => models[tier],
+
+    async complete(request: ChatRequest): Promise<ChatResponse> {
+      // Claude reads PDFs natively (tables, logos, handwriting) as a base64 document block
+      const content: Anthropic.MessageParam["content"] = request.pdf
+        ? [
+            {
+              type: "document",
+              source: {
+                type: "base64",
+                media_type: "application/pdf",
+                data: request.pdf.toString("base64"),
+              },
+            },
+            { type: "text", text: request.prompt },
+          ]
+        : request.prompt;
+
+      const messages: Anthropic.MessageParam[] = [{ role: "user", content }];
+      // Prefilling "{" keeps Claude from wrapping the JSON in prose
+      if (request.json) {
+        messages.push({ role: "assistant", content: "{" });
+      }
+
+      const response = await anthropic.messages.create({
+        model: models[request.tier],
+        max_tokens: request.maxTokens,
+        ...(request.system ? { system: request.system } : {}),
+        messages,
+      });
+
+      const block = response.content[0];
+      if (block?.type !== "text") {
+        throw new Error("Unexpected response type");
+      }
+
+      return {
+        text: request.json ? "{" + block.text : block.text,
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      };
+    },
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * AI Provider Selection
+ *
+ * AI_PROVIDER picks the backend for categorization, summaries, attachment
+ * ranking and PDF analysis:
+ * - anthropic: Claude (ANTHROPIC_API_KEY). The default.
+ * - openai:    an OpenAI-compatible server, e.g. a local model (AI_BASE_URL, AI_MODEL)
+ * - rules:     deterministic keyword rules, no network, for development and CI.
+ *              Only used when set explicitly - a missing key is an error, not a
+ *              silent downgrade of production reports.
+ *
+ * Model calls are recorded in the ai_calls ledger (./ledger.ts). Once today's
+ * estimated spend reaches AI_DAILY_BUDGET_USD the model providers answer with
+ * the rules provider until midnight (REPORT_TIMEZONE) instead of overspending.
+ * Responses are recorded for reuse and replay (AI_CACHE_MODE, ./response-cache.ts).
+ */
+
+import { createAnthropicBackend } from "./anthropic-backend";
+import { createOpenAiBackend } from "./openai-backend";
+import { createLlmProvider } from "./llm-provider";
+import { createRulesProvider } from "./rules-provider";
+import { isAiBudgetExhausted } from "./ledger";
+import { getAiCacheMode } from "./response-cache";
+import type { AiProvider, AiProviderName } from "./types";
+
+const PROVIDER_NAMES: AiProviderName[] = ["anthropic", "openai", "rules"];
+
+let provider: AiProvider | null = null;
+
+export function getAiProviderName(): AiProviderName {
+  const configured = process.env.AI_PROVIDER?.trim().toLowerCase() || "anthropic";
+  if (!PROVIDER_NAMES.includes(configured as AiProviderName)) {
+    throw new Error(`Unknown AI_PROVIDER "${configured}" (expected ${PROVIDER_NAMES.join(", ")})`);
+  }
+  if (configured === "anthropic" && !process.env.ANTHROPIC_API_KEY) {
+    throw new Error("Missing ANTHROPIC_API_KEY for the anthropic AI provider (set AI_PROVIDER=rules to run without a model)");
+  }
+  return configured as AiProviderName;
+}
+
+/**
+ * Route each call to the rules provider while the daily budget is spent.
+ * Categorizations and PDF results are flagged degraded so they aren't cached
+ * as the answer.
+ */
+function withDailyBudget(model: AiProvider): AiProvider {
+  const rules = createRulesProvider();
+  let warned = false;
+
+  const pick = async (): Promise<AiProvider> => {
+    // Replay costs nothing and must give the recorded answers, not rules guesses
+    if (getAiCacheMode() === "replay" || !(await isAiBudgetExhausted())) return model;
+    if (!warned) {
+      console.warn(`AI daily budget reached - using the rules-only provider instead of ${model.name}`);
+      warned = true;
+    }
+    return rules;
+  };
+
+  return {
+    name: model.name,
+    categorizeBatch: async (threads) => {
+      const selected = await pick();
+      const results = await selected.categorizeBatch(threads);
+      if (selected === model) return results;
+      return Object.fromEntries(
+        Object.entries(results).map(([threadKey, result]) => [threadKey, { ...result, degraded: true }])
+      );
+    },
+    categorizeThread: async (emails, initialCategory, context) => {
+      const selected = await pick();
+      const result = await selected.categorizeThread(emails, initialCategory, context);
+      return selected === model ? result : { ...result, degraded: true };
+    },
+    summarizeThread: async (emails, context) => (await pick()).summarizeThread(emails, context),
+    rankAttachments: async (attachments, subject, sender, context) =>
+      (await pick()).rankAttachments(attachments, subject, sender, context),
+    analyzePdf: async (pdf, context) => {
+      const selected = await pick();
+      const result = await selected.analyzePdf(pdf, context);
+      return selected === model ? result : { ...result, degraded: true };
+    },
+  };
+}
+
+/**
+ * The configured provider, created on first use
+ */
+export function getAiProvider(): AiProvider {
+  if (provider) return provider;
+
+  const name = getAiProviderName();
+  provider =
+    name === "anthropic"
+      ? withDailyBudget(createLlmProvider(createAnthropicBackend()))
+      : name === "openai"
+        ? withDailyBudget(createLlmProvider(createOpenAiBackend()))
+        : createRulesProvider();
+  return provider;
+}
+
+export { isAiBudgetExhausted } from "./ledger";
+
+export type {
+  AiCallContext,
+  AiProvider,
+  AiProviderName,
+  AttachmentInfo,
+  BatchCategorizationResult,
+  PoValidationResult,
+  RankedAttachment,
+  ThreadForBatch,
+} from "./types";
@@ -0,0 +1,230 @@
+/**
+ * AI Call Ledger
+ *
+ * Every model call goes through recordedComplete(), which times it and writes
+ * an ai_calls row: model, purpose, tokens, latency, thread and estimated cost.
+ * Identical prompts are answered from the response cache (./response-cache.ts)
+ * and recorded as cached calls with no cost.
+ * GET /api/ai/usage reads it back as daily spend by purpose, and the provider
+ * checks today's spend against AI_DAILY_BUDGET_USD before each call (see
+ * ./index.ts).
+ */
+
+import { db, schema } from "@/db";
+import { gte, sql } from "drizzle-orm";
+import { toZonedTime, fromZonedTime } from "date-fns-tz";
+import { findRecordedResponse, getAiCacheMode, getResponseCacheKey, storeRecordedResponse } from "./response-cache";
+import type { AiCallContext, AiPurpose, ChatBackend, ChatRequest } from "./types";
+
+const TIMEZONE = process.env.REPORT_TIMEZONE || "America/New_York";
+
+// USD per million tokens, matched by model-name prefix (first match wins)
+const MODEL_PRICES: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: "claude-opus-4", input: 15, output: 75 },
+  { prefix: "claude-sonnet-4", input: 3, output: 15 },
+  { prefix: "claude-3-7-sonnet", input: 3, output: 15 },
+  { prefix: "claude-3-5-sonnet", input: 3, output: 15 },
+  { prefix: "claude-3-5-haiku", input: 0.8, output: 4 },
+  { prefix: "claude-3-haiku", input: 0.25, output: 1.25 },
+  { prefix: "gpt-4o-mini", input: 0.15, output: 0.6 },
+  { prefix: "gpt-4o", input: 2.5, output: 10 },
+];
+
+function parsePrice(value: string | undefined): number | null {
+  if (!value) return null;
+  const price = parseFloat(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+}
+
+/**
+ * Estimated cost of a call in millionths of a dollar. AI_PRICE_INPUT_PER_MTOK /
+ * AI_PRICE_OUTPUT_PER_MTOK override the table (e.g. a hosted OpenAI-compatible
+ * model); models not in the table (local ones) cost nothing.
+ */
+export function estimateCostMicros(model: string, inputTokens: number, outputTokens: number): number {
+  const known = MODEL_PRICES.find((p) => model.toLowerCase().startsWith(p.prefix));
+  const inputPrice = parsePrice(process.env.AI_PRICE_INPUT_PER_MTOK) ?? known?.input ?? 0;
+  const outputPrice = parsePrice(process.env.AI_PRICE_OUTPUT_PER_MTOK) ?? known?.output ?? 0;
+  // $ per million tokens × tokens = millionths of a dollar
+  return Math.round(inputTokens * inputPrice + outputTokens * outputPrice);
+}
+
+/**
+ * Run a chat completion and record it in the ledger. Failed calls are recorded
+ * too (no tokens, no cost) and rethrown. A ledger or cache write failure is
+ * logged and never fails the call; in replay mode a prompt with no recorded
+ * response throws. context.onModelCall runs only when the backend was called.
+ */
+export async function recordedComplete(
+  backend: ChatBackend,
+  purpose: AiPurpose,
+  request: ChatRequest,
+  context?: AiCallContext
+): Promise<string> {
+  const model = backend.model(request.tier);
+  const cacheMode = getAiCacheMode();
+  const cacheKey = getResponseCacheKey(model, request);
+  const started = Date.now();
+
+  if (cacheMode === "readwrite" || cacheMode === "replay") {
+    const recorded = await findRecordedResponse(cacheKey, { replay: cacheMode === "replay" }).catch((error) => {
+      console.error("Failed to read AI response cache:", error);
+      return null;
+    });
+    if (recorded !== null) {
+      await recordCall({
+        provider: backend.name,
+        model,
+        purpose,
+        threadKey: context?.threadKey ?? null,
+        latencyMs: Date.now() - started,
+        cached: true,
+      });
+      return recorded;
+    }
+    if (cacheMode === "replay") {
+      throw new Error(`No recorded ${purpose} response for ${model} (key ${cacheKey.cacheKey.slice(0, 12)}) - AI_CACHE_MODE=replay`);
+    }
+  }
+
+  try {
+    const response = await backend.complete(request);
+    if (cacheMode !== "off") {
+      await storeRecordedResponse({
+        key: cacheKey,
+        purpose,
+        model,
+        request,
+        responseText: response.text,
+        inputTokens: response.inputTokens,
+        outputTokens: response.outputTokens,
+      }).catch((error) => console.error("Failed to record AI response:", error));
+    }
+    await recordCall({
+      provider: backend.name,
+      model,
+      purpose,
+      threadKey: context?.threadKey ?? null,
+      inputTokens: response.inputTokens,
+      outputTokens: response.outputTokens,
+      latencyMs: Date.now() - started,
+      costMicros: estimateCostMicros(model, response.inputTokens, response.outputTokens),
+    });
+    await context?.onModelCall?.().catch((error) => console.error("AI call hook failed:", error));
+    return response.text;
+  } catch (error) {
+    await recordCall({
+      provider: backend.name,
+      model,
+      purpose,
+      threadKey: context?.threadKey ?? null,
+      latencyMs: Date.now() - started,
+      success: false,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+async function recordCall(values: typeof schema.aiCalls.$inferInsert): Promise<void> {
+  try {
+    await db.insert(schema.aiCalls).values(values);
+  } catch (error) {
+    console.error("Failed to record AI call:", error);
+  }
+}
+
+// ============================================================
+// Daily Budget
+// ============================================================
+
+/**
+ * AI_DAILY_BUDGET_USD, or null when unset (no limit)
+ */
+export function getDailyBudgetUsd(): number | null {
+  const budget = parsePrice(process.env.AI_DAILY_BUDGET_USD);
+  return budget && budget > 0 ? budget : null;
+}
+
+// Midnight in the report timezone, `daysAgo` days back - the budget resets with the business day
+export function getStartOfDay(daysAgo: number = 0): Date {
+  const zoned = toZonedTime(new Date(), TIMEZONE);
+  zoned.setDate(zoned.getDate() - daysAgo);
+  zoned.setHours(0, 0, 0, 0);
+  return fromZonedTime(zoned, TIMEZONE);
+}
+
+/**
+ * Estimated spend since midnight, in millionths of a dollar
+ */
+export async function getSpentTodayMicros(): Promise<number> {
+  const [row] = await db
+    .select({ total: sql<string | null>`SUM(${schema.aiCalls.costMicros})` })
+    .from(schema.aiCalls)
+    .where(gte(schema.aiCalls.createdAt, getStartOfDay()));
+  return Number(row?.total ?? 0);
+}
+
+/**
+ * Whether today's spend has reached the daily budget. Always false without a
+ * budget; if the ledger can't be read the call goes ahead.
+ */
+export async function isAiBudgetExhausted(): Promise<boolean> {
+  const budget = getDailyBudgetUsd();
+  if (budget === null) return false;
+
+  try {
+    return (await getSpentTodayMicros()) >= budget * 1_000_000;
+  } catch (error) {
+    console.error("Failed to check AI budget:", error);
+    return false;
+  }
+}
+
+// ============================================================
+// Usage Reporting
+// ============================================================
+
+export interface DailyAiUsage {
+  date: string; // YYYY-MM-DD in the report timezone
+  purpose: AiPurpose;
+  calls: number;
+  cachedCalls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Spend by day and purpose for the last `days` days (today included), newest first
+ */
+export async function getDailyAiUsage(days: number): Promise<DailyAiUsage[]> {
+  const rows = await db
+    .select({
+      date: sql<string>`to_char((${schema.aiCalls.createdAt} AT TIME ZONE 'UTC') AT TIME ZONE ${TIMEZONE}, 'YYYY-MM-DD')`,
+      purpose: schema.aiCalls.purpose,
+      calls: sql<string>`COUNT(*)`,
+      cachedCalls: sql<string>`COUNT(*) FILTER (WHERE ${schema.aiCalls.cached})`,
+      failedCalls: sql<string>`COUNT(*) FILTER (WHERE NOT ${schema.aiCalls.success})`,
+      inputTokens: sql<string>`SUM(${schema.aiCalls.inputTokens})`,
+      outputTokens: sql<string>`SUM(${schema.aiCalls.outputTokens})`,
+      costMicros: sql<string>`SUM(${schema.aiCalls.costMicros})`,
+    })
+    .from(schema.aiCalls)
+    .where(gte(schema.aiCalls.createdAt, getStartOfDay(days - 1)))
+    // By position: the timezone is a bind parameter, so the date expression can't be repeated
+    .groupBy(sql`1`, sql`2`)
+    .orderBy(sql`1 DESC`, sql`2`);
+
+  return rows.map((row) => ({
+    date: row.date,
+    purpose: row.purpose as AiPurpose,
+    calls: Number(row.calls),
+    cachedCalls: Number(row.cachedCalls),
+    failedCalls: Number(row.failedCalls),
+    inputTokens: Number(row.inputTokens),
+    outputTokens: Number(row.outputTokens),
+    costUsd: Number(row.costMicros) / 1_000_000,
+  }));
+}
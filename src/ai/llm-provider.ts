@@ -0,0 +1,505 @@
+/**
+ * LLM-backed AI provider
+ *
+ * The classification, summary, attachment ranking and PO validation prompts,
+ * shared by the chat backends (Anthropic, OpenAI-compatible). Backends only
+ * move text; prompts and response parsing live here, the versioned
+ * categorization templates in ./prompts.ts.
+ */
+
+import type { Category, ItemType } from "@/db/schema";
+import type { CategorizationConfidence, CategorizationResult, EmailForPrompt, PoDetails } from "@/report/types";
+import { clampConfidence, uniformConfidence } from "@/report/confidence";
+import { normalizeDeadlineDate, parseModelDeadlines } from "@/report/deadlines";
+import { loadCorrectionsForPrompt, recordCorrectionInjections, type PromptCorrections } from "@/dashboard/todo-sync";
+import { recordedComplete } from "./ledger";
+import {
+  CATEGORIZE_BATCH_PROMPT,
+  CATEGORIZE_THREAD_PROMPT,
+  hashCorrectionSet,
+  promptVersionOf,
+} from "./prompts";
+import type {
+  AiCallContext,
+  AiProvider,
+  AttachmentInfo,
+  BatchCategorizationResult,
+  ChatBackend,
+  PoValidationResult,
+  RankedAttachment,
+  ThreadForBatch,
+} from "./types";
+
+// Truncation limits
+const BODY_LIMIT_SINGLE = 1500;
+const BODY_LIMIT_BATCH = 800;  // Increased from 300 for better context
+const MAX_EMAILS_PER_THREAD = 6;  // Keep first 2 + last 3, or all if <= 6
+
+// 32MB max for the Anthropic API, but be conservative
+const MAX_PDF_MB = 25;
+
+const VALID_CATEGORIES: Category[] = ["customer", "vendor", "other"];
+const VALID_ITEM_TYPES: ItemType[] = ["po_sent", "po_received", "quote_request", "general", "other"];
+
+function sortByDate(emails: EmailForPrompt[]): EmailForPrompt[] {
+  return [...emails].sort((a, b) => {
+    const dateA = a.date ? new Date(a.date).getTime() : 0;
+    const dateB = b.date ? new Date(b.date).getTime() : 0;
+    return dateA - dateB;
+  });
+}
+
+function formatEmailForPrompt(email: EmailForPrompt, bodyLimit: number = BODY_LIMIT_SINGLE): string {
+  const direction = email.isOutbound ? "[SENT]" : "[RECEIVED]";
+  const date = email.date ? email.date.toISOString().split("T")[0] : "unknown";
+  const attachments = email.hasAttachments ? " [HAS ATTACHMENTS]" : "";
+  return `${direction} ${date}${attachments}
+From: ${email.from}
+To: ${email.to}${email.cc ? `\nCc: ${email.cc}` : ""}
+Subject: ${email.subject}
+---
+${email.body.slice(0, bodyLimit)}${email.body.length > bodyLimit ? "..." : ""}
+`;
+}
+
+// Truncate long threads to keep first 2 + last 3 emails
+// This preserves: who initiated (first emails) and current state (last emails)
+function truncateThreadEmails(emails: EmailForPrompt[]): EmailForPrompt[] {
+  if (emails.length <= MAX_EMAILS_PER_THREAD) {
+    return emails;
+  }
+
+  // Sort by date (should already be sorted, but ensure it)
+  const sorted = sortByDate(emails);
+
+  // Keep first 2 and last 3
+  const first = sorted.slice(0, 2);
+  const last = sorted.slice(-3);
+  const omittedCount = sorted.length - 5;
+
+  // Create a placeholder email to indicate omission
+  const placeholder: EmailForPrompt = {
+    from: "---",
+    to: "---",
+    date: null,
+    subject: `[... ${omittedCount} emails omitted for brevity ...]`,
+    body: "",
+    isOutbound: false,
+    hasAttachments: false,
+  };
+
+  return [...first, placeholder, ...last];
+}
+
+// Models sometimes wrap JSON in prose or code fences; take the outermost object
+function parseJsonObject<T>(text: string): T {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error("No JSON found in model response");
+  }
+  return JSON.parse(jsonMatch[0]) as T;
+}
+
+// Shape both classification prompts ask for
+interface ModelConfidence {
+  confidence?: { category?: unknown; item_type?: unknown; needs_response?: unknown };
+  rationale?: { category?: unknown; item_type?: unknown; needs_response?: unknown };
+}
+
+// Missing or malformed fields make the whole assessment null rather than half-made-up
+function parseModelConfidence(result: ModelConfidence): CategorizationConfidence | null {
+  const field = (key: "category" | "item_type" | "needs_response") => {
+    const confidence = clampConfidence(result.confidence?.[key]);
+    const rationale = result.rationale?.[key];
+    return confidence === null ? null : { confidence, rationale: typeof rationale === "string" ? rationale : "" };
+  };
+
+  const category = field("category");
+  const itemType = field("item_type");
+  const needsResponse = field("needs_response");
+  return category && itemType && needsResponse ? { category, itemType, needsResponse } : null;
+}
+
+// ============================================================
+// Categorization
+// ============================================================
+
+async function categorizeBatch(backend: ChatBackend, threads: ThreadForBatch[]): Promise<BatchCategorizationResult> {
+  if (threads.length === 0) {
+    return {};
+  }
+
+  // Format threads as JSON for the prompt - use indices instead of threadKeys
+  const threadsJson = threads.map((thread, index) => {
+    const sorted = sortByDate(thread.emails);
+    const truncated = truncateThreadEmails(sorted);
+
+    return {
+      index,
+      initialCategory: thread.initialCategory,
+      emailCount: sorted.length,
+      emails: truncated.map((email) => ({
+        direction: email.isOutbound ? "SENT" : "RECEIVED",
+        date: email.date ? email.date.toISOString().split("T")[0] : "unknown",
+        from: email.from,
+        to: email.to,
+        cc: email.cc,
+        subject: email.subject,
+        body: email.body.slice(0, BODY_LIMIT_BATCH) + (email.body.length > BODY_LIMIT_BATCH ? "..." : ""),
+        hasAttachments: email.hasAttachments,
+      })),
+    };
+  });
+
+  // Load AI corrections to inject as few-shot examples
+  let corrections: PromptCorrections = { block: "", correctionIds: [] };
+  try {
+    corrections = await loadCorrectionsForPrompt(20);
+  } catch (err) {
+    // Non-critical — continue without corrections
+    console.warn("Failed to load AI corrections for prompt:", err);
+  }
+
+  const provenance = {
+    model: backend.model("smart"),
+    provider: backend.name,
+    promptVersion: promptVersionOf(CATEGORIZE_BATCH_PROMPT),
+    correctionsHash: hashCorrectionSet(corrections.block),
+  };
+
+  try {
+    const text = await recordedComplete(backend, "categorize_batch", {
+      tier: "smart",
+      maxTokens: CATEGORIZE_BATCH_PROMPT.maxTokens,
+      system: CATEGORIZE_BATCH_PROMPT.system,
+      prompt: CATEGORIZE_BATCH_PROMPT.render({ threads: threadsJson, correctionsBlock: corrections.block }),
+      replayPrompt: CATEGORIZE_BATCH_PROMPT.render({ threads: threadsJson, correctionsBlock: "" }),
+      json: true,
+    }, {
+      // Count the examples only when a model actually saw them
+      onModelCall: () => recordCorrectionInjections(corrections.correctionIds),
+    });
+
+    const parsed = parseJsonObject<{
+      results: Array<ModelConfidence & {
+        index: number;
+        category: string;
+        item_type: string;
+        contact_name: string | null;
+        summary: string;
+        needs_response: boolean;
+        related_to: number | null;
+        deadlines?: unknown;
+      }>;
+    }>(text);
+
+    const resultMap: BatchCategorizationResult = {};
+    const resultsByIndex = new Map<number, typeof parsed.results[0]>();
+    for (const result of parsed.results) {
+      resultsByIndex.set(result.index, result);
+    }
+
+    for (let i = 0; i < threads.length; i++) {
+      const thread = threads[i];
+      const result = resultsByIndex.get(i);
+
+      if (result) {
+        const category = VALID_CATEGORIES.includes(result.category as Category)
+          ? (result.category as Category)
+          : thread.initialCategory;
+
+        const itemType = VALID_ITEM_TYPES.includes(result.item_type as ItemType)
+          ? (result.item_type as ItemType)
+          : "general";
+
+        let relatedTo: string | null = null;
+        if (result.related_to != null && result.related_to >= 0 && result.related_to < threads.length) {
+          relatedTo = threads[result.related_to].threadKey;
+        }
+
+        resultMap[thread.threadKey] = {
+          category,
+          itemType,
+          contactName: result.contact_name,
+          summary: result.summary,
+          needsResponse: result.needs_response !== false,
+          relatedTo,
+          confidence: parseModelConfidence(result),
+          deadlines: parseModelDeadlines(result.deadlines),
+          ...provenance,
+        };
+      } else {
+        console.warn(`Batch response missing thread index ${i} (${thread.threadKey.slice(0, 40)}...), using defaults`);
+        resultMap[thread.threadKey] = {
+          category: thread.initialCategory,
+          itemType: "general",
+          contactName: null,
+          summary: "Classification incomplete - needs review",
+          needsResponse: true,
+          relatedTo: null,
+          confidence: uniformConfidence(0, "Missing from the model's batch response"),
+          deadlines: [],
+          model: null,
+          provider: null,
+          promptVersion: null,
+          correctionsHash: null,
+        };
+      }
+    }
+
+    return resultMap;
+  } catch (error) {
+    console.error(`Batch categorization error (${backend.model("smart")}):`, error);
+    throw error;
+  }
+}
+
+async function categorizeThread(
+  backend: ChatBackend,
+  emails: EmailForPrompt[],
+  initialCategory: Category,
+  context?: AiCallContext
+): Promise<CategorizationResult> {
+  // Sort emails by date (oldest first)
+  const sorted = sortByDate(emails);
+
+  const threadFormatted = sorted.map((email) => formatEmailForPrompt(email)).join("\n---\n\n");
+
+  // Sonnet-class model for the individual fallback - more reliable
+  const text = await recordedComplete(
+    backend,
+    "categorize_thread",
+    {
+      tier: "smart",
+      maxTokens: CATEGORIZE_THREAD_PROMPT.maxTokens,
+      system: CATEGORIZE_THREAD_PROMPT.system,
+      prompt: CATEGORIZE_THREAD_PROMPT.render({ thread: threadFormatted }),
+      json: true,
+    },
+    context
+  );
+
+  const result = parseJsonObject<ModelConfidence & {
+    category: string;
+    item_type: string;
+    contact_name: string | null;
+    summary: string;
+    needs_response: boolean;
+    deadlines?: unknown;
+  }>(text);
+
+  const category = VALID_CATEGORIES.includes(result.category as Category)
+    ? (result.category as Category)
+    : initialCategory;
+
+  const itemType = VALID_ITEM_TYPES.includes(result.item_type as ItemType)
+    ? (result.item_type as ItemType)
+    : "general";
+
+  return {
+    category,
+    itemType,
+    contactName: result.contact_name,
+    summary: result.summary,
+    needsResponse: result.needs_response !== false,
+    relatedTo: null, // Single thread can't be related to others
+    confidence: parseModelConfidence(result),
+    deadlines: parseModelDeadlines(result.deadlines),
+    model: backend.model("smart"),
+    provider: backend.name,
+    promptVersion: promptVersionOf(CATEGORIZE_THREAD_PROMPT),
+    correctionsHash: null, // Only the batch prompt carries corrections
+  };
+}
+
+// ============================================================
+// Summaries
+// ============================================================
+
+async function summarizeThread(
+  backend: ChatBackend,
+  emails: EmailForPrompt[],
+  context?: AiCallContext
+): Promise<string> {
+  const threadFormatted = sortByDate(emails).map((email) => formatEmailForPrompt(email)).join("\n---\n\n");
+
+  const prompt = `Summarize this email thread in 1-2 sentences. Focus on: what was discussed, current status, and any pending actions.
+
+Thread:
+${threadFormatted}
+
+Respond with just the summary text, no JSON or formatting.`;
+
+  const text = await recordedComplete(backend, "summarize", { tier: "fast", maxTokens: 150, prompt }, context);
+  return text.trim();
+}
+
+// ============================================================
+// Attachment Ranking
+// ============================================================
+
+async function rankAttachments(
+  backend: ChatBackend,
+  candidateAttachments: AttachmentInfo[],
+  subject: string,
+  sender: string,
+  context?: AiCallContext
+): Promise<RankedAttachment[]> {
+  const attachmentsJson = candidateAttachments.map((att, idx) => ({
+    index: idx,
+    filename: att.filename,
+    size_kb: Math.round(att.size / 1024),
+  }));
+
+  const prompt = `Rank these email attachments by likelihood of being a Purchase Order (PO).
+
+Email subject: "${subject}"
+From: ${sender}
+
+Attachments:
+${JSON.stringify(attachmentsJson, null, 2)}
+
+RANKING RULES:
+- HIGH priority: Files with "PO", "Purchase Order", "Order" in filename
+- MEDIUM priority: Generic PDFs/docs without clear naming
+- LOW priority: Files with "terms", "conditions", "T&C", "agreement" in name
+- EXCLUDE: Files that are clearly not POs (logos, signatures, catalogs)
+
+Return JSON only:
+{"rankings": [{"index": 0, "rank": 1, "is_po_candidate": true, "reason": "..."}, ...]}
+
+Rank 1 = most likely PO. Include ALL attachments.`;
+
+  // Filename analysis is simple - the fast model is enough
+  const text = await recordedComplete(
+    backend,
+    "rank_attachments",
+    {
+      tier: "fast",
+      maxTokens: 500,
+      system: "You are a JSON-only classifier. Always respond with valid JSON.",
+      prompt,
+      json: true,
+    },
+    context
+  );
+
+  const parsed = parseJsonObject<{
+    rankings: Array<{
+      index: number;
+      rank: number;
+      is_po_candidate: boolean;
+      reason: string;
+    }>;
+  }>(text);
+
+  // Map back to filenames and sort by rank
+  const results: RankedAttachment[] = parsed.rankings.map((r) => ({
+    filename: candidateAttachments[r.index]?.filename || `unknown-${r.index}`,
+    rank: r.rank,
+    isPoCandidate: r.is_po_candidate,
+    reason: r.reason,
+  }));
+
+  return results.sort((a, b) => a.rank - b.rank);
+}
+
+// ============================================================
+// PDF Analysis
+// ============================================================
+
+async function analyzePdf(backend: ChatBackend, pdf: Buffer, context?: AiCallContext): Promise<PoValidationResult> {
+  const sizeMB = pdf.length / (1024 * 1024);
+  if (sizeMB > MAX_PDF_MB) {
+    console.warn(`PDF too large for analysis: ${sizeMB.toFixed(1)}MB`);
+    return { details: null, isValidPo: false, notPoReason: "PDF too large for analysis" };
+  }
+
+  const text = await recordedComplete(backend, "analyze_pdf", {
+    tier: "smart",
+    maxTokens: 1500,
+    pdf,
+    prompt: `Analyze this document and determine if it's a Purchase Order (PO).
+
+STEP 1: Determine document type
+- Is this a Purchase Order? Look for: PO number, "Purchase Order" header, ordered items with quantities
+- NOT a PO: Quotations, Invoices, Estimates, Terms & Conditions, Catalogs, Packing slips
+
+STEP 2: Extract the details (also for quotations and invoices)
+
+Return JSON only:
+{
+  "isValidPo": true/false,
+  "notPoReason": "string explaining why not a PO, or null if it is a PO",
+  "poNumber": "string or null",
+  "vendor": "vendor/supplier name or null",
+  "items": [{"description": "string", "quantity": number or null, "unitPrice": number or null, "lineTotal": number or null}],
+  "total": number or null,
+  "currency": "USD",
+  "orderDate": "YYYY-MM-DD or null",
+  "requiredDate": "required ship/delivery/due date, YYYY-MM-DD or null",
+  "promisedDate": "promised/acknowledged ship date, YYYY-MM-DD or null"
+}
+
+Dates: only ones printed on the document. With several line-item dates, use the earliest.
+
+Examples of notPoReason: "This is a quotation/estimate", "This is an invoice", "This is a terms and conditions document", "This is a product catalog"`,
+  }, context);
+
+  const result = parseJsonObject<{
+    isValidPo?: boolean;
+    notPoReason?: string | null;
+    poNumber?: string | null;
+    vendor?: string | null;
+    items?: Array<{
+      description: string;
+      quantity: number | null;
+      unitPrice: number | null;
+      lineTotal: number | null;
+    }>;
+    total?: number | null;
+    currency?: string;
+    orderDate?: string | null;
+    requiredDate?: string | null;
+    promisedDate?: string | null;
+  }>(text);
+
+  const details: PoDetails = {
+    poNumber: result.poNumber || null,
+    vendor: result.vendor || null,
+    items: (result.items || []).map((item) => ({
+      description: item.description,
+      quantity: item.quantity ?? null,
+      unitPrice: item.unitPrice ?? null,
+      lineTotal: item.lineTotal ?? null,
+    })),
+    total: result.total ?? null,
+    currency: result.currency || "USD",
+    orderDate: normalizeDeadlineDate(result.orderDate),
+    requiredDate: normalizeDeadlineDate(result.requiredDate),
+    promisedDate: normalizeDeadlineDate(result.promisedDate),
+  };
+
+  return {
+    details: result.isValidPo ? details : null,
+    documentDetails: details,
+    isValidPo: result.isValidPo ?? false,
+    notPoReason: result.notPoReason || null,
+  };
+}
+
+// ============================================================
+// Provider
+// ============================================================
+
+export function createLlmProvider(backend: ChatBackend): AiProvider {
+  return {
+    name: backend.name,
+    categorizeBatch: (threads) => categorizeBatch(backend, threads),
+    categorizeThread: (emails, initialCategory, context) => categorizeThread(backend, emails, initialCategory, context),
+    summarizeThread: (emails, context) => summarizeThread(backend, emails, context),
+    rankAttachments: (attachments, subject, sender, context) =>
+      rankAttachments(backend, attachments, subject, sender, context),
+    analyzePdf: (pdf, context) => analyzePdf(backend, pdf, context),
+  };
+}
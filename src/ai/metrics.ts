@@ -0,0 +1,337 @@
+/**
+ * Classifier Accuracy Metrics
+ *
+ * Built from the staff corrections in dash_ai_corrections against the todos
+ * the classifier produced: per-field error rates by week, confusion matrices
+ * for category and itemType, the sender domains corrected most, and which
+ * corrections fed back into prompts sent to a model (and whether
+ * the same mistake kept coming after). Every query can be narrowed to one
+ * model and prompt version, as stored with each classification.
+ * Served by GET /api/ai/metrics.
+ */
+
+import { db, schema } from "@/db";
+import { and, desc, eq, gte, inArray, isNull, sql, type SQL } from "drizzle-orm";
+import { getStartOfDay } from "./ledger";
+
+const TIMEZONE = process.env.REPORT_TIMEZONE || "America/New_York";
+
+// Field names as POST /api/todos/correct records them
+export const CORRECTED_FIELDS = ["category", "itemType", "needsResponse", "contactName"] as const;
+export type CorrectedField = (typeof CORRECTED_FIELDS)[number];
+
+const DEFAULT_DOMAIN_LIMIT = 20;
+const DEFAULT_INJECTED_LIMIT = 50;
+
+export interface MetricsFilter {
+  days: number;
+  model?: string | null;
+  promptVersion?: string | null;
+}
+
+const todos = schema.dashTodos;
+const corrections = schema.dashAiCorrections;
+
+// Classifier-decided todos created in the window (classification rules are not the classifier)
+function todoConditions(filter: MetricsFilter): SQL[] {
+  const conditions: SQL[] = [
+    gte(todos.createdAt, getStartOfDay(filter.days - 1)),
+    isNull(todos.classificationRuleId),
+  ];
+  if (filter.model) conditions.push(eq(todos.model, filter.model));
+  if (filter.promptVersion) conditions.push(eq(todos.promptVersion, filter.promptVersion));
+  return conditions;
+}
+
+// Staff looked at it: confirmed in the review queue or corrected
+const isReviewed = sql`(${todos.reviewedAt} IS NOT NULL OR ${todos.aiCorrected})`;
+
+// Corrections per thread: which fields, how many, and the first original value
+// of category / itemType (what the classifier said). Joined to the todos.
+const correctedThreads = db
+  .select({
+    threadKey: corrections.threadKey,
+    corrections: sql<string>`COUNT(*)`.as("corrections"),
+    fields: sql<string[]>`array_agg(DISTINCT ${corrections.fieldCorrected})`.as("fields"),
+    originalCategory: sql<string | null>`(array_agg(${corrections.originalValue} ORDER BY ${corrections.correctedAt}) FILTER (WHERE ${corrections.fieldCorrected} = 'category'))[1]`.as("predicted_category"),
+    originalItemType: sql<string | null>`(array_agg(${corrections.originalValue} ORDER BY ${corrections.correctedAt}) FILTER (WHERE ${corrections.fieldCorrected} = 'itemType'))[1]`.as("predicted_item_type"),
+  })
+  .from(corrections)
+  .groupBy(corrections.threadKey)
+  .as("corrected");
+
+function isCorrected(field: CorrectedField): SQL {
+  return sql`${field} = ANY(${correctedThreads.fields})`;
+}
+
+function rate(count: number, total: number): number | null {
+  return total > 0 ? Math.round((count / total) * 1000) / 1000 : null;
+}
+
+// ============================================================
+// Error Rates
+// ============================================================
+
+export interface ErrorRatePeriod {
+  period: string; // Monday of the week (YYYY-MM-DD, report timezone) the todos were created
+  classified: number;
+  reviewed: number;
+  corrected: Record<CorrectedField, number>;
+  errorRate: Record<CorrectedField, number | null>; // Corrected / reviewed
+}
+
+/**
+ * Share of reviewed classifications corrected, per field and week, oldest
+ * first. Recent weeks fill in as staff work through them.
+ */
+export async function getErrorRates(filter: MetricsFilter): Promise<ErrorRatePeriod[]> {
+  const rows = await db
+    .select({
+      period: sql<string>`to_char(date_trunc('week', (${todos.createdAt} AT TIME ZONE 'UTC') AT TIME ZONE ${TIMEZONE}), 'YYYY-MM-DD')`,
+      classified: sql<string>`COUNT(*)`,
+      reviewed: sql<string>`COUNT(*) FILTER (WHERE ${isReviewed})`,
+      category: sql<string>`COUNT(*) FILTER (WHERE ${isCorrected("category")})`,
+      itemType: sql<string>`COUNT(*) FILTER (WHERE ${isCorrected("itemType")})`,
+      needsResponse: sql<string>`COUNT(*) FILTER (WHERE ${isCorrected("needsResponse")})`,
+      contactName: sql<string>`COUNT(*) FILTER (WHERE ${isCorrected("contactName")})`,
+    })
+    .from(todos)
+    .leftJoin(correctedThreads, eq(correctedThreads.threadKey, todos.threadKey))
+    .where(and(...todoConditions(filter)))
+    // By position: the timezone is a bind parameter, so the period expression can't be repeated
+    .groupBy(sql`1`)
+    .orderBy(sql`1`);
+
+  return rows.map((row) => {
+    const reviewed = Number(row.reviewed);
+    const corrected = Object.fromEntries(CORRECTED_FIELDS.map((field) => [field, Number(row[field])])) as Record<
+      CorrectedField,
+      number
+    >;
+    return {
+      period: row.period,
+      classified: Number(row.classified),
+      reviewed,
+      corrected,
+      errorRate: Object.fromEntries(CORRECTED_FIELDS.map((field) => [field, rate(corrected[field], reviewed)])) as Record<
+        CorrectedField,
+        number | null
+      >,
+    };
+  });
+}
+
+// ============================================================
+// Confusion Matrix
+// ============================================================
+
+export interface ConfusionMatrix {
+  field: "category" | "itemType";
+  labels: string[];
+  cells: Array<{ predicted: string; actual: string; count: number }>;
+  accuracy: number | null;
+}
+
+/**
+ * What the classifier said against what staff settled on, over reviewed todos.
+ * The prediction is the original value of the first correction of the field
+ * (dash_todos.original_* only keeps the first correction of any field).
+ */
+export async function getConfusionMatrix(field: "category" | "itemType", filter: MetricsFilter): Promise<ConfusionMatrix> {
+  const [current, original] =
+    field === "category"
+      ? [todos.category, correctedThreads.originalCategory]
+      : [todos.itemType, correctedThreads.originalItemType];
+  const rows = await db
+    .select({
+      predicted: sql<string>`COALESCE(${original}, ${current}::text)`,
+      actual: sql<string>`${current}::text`,
+      count: sql<string>`COUNT(*)`,
+    })
+    .from(todos)
+    .leftJoin(correctedThreads, eq(correctedThreads.threadKey, todos.threadKey))
+    .where(and(...todoConditions(filter), isReviewed))
+    .groupBy(sql`1`, sql`2`)
+    .orderBy(sql`1`, sql`2`);
+
+  const cells = rows.map((row) => ({ predicted: row.predicted, actual: row.actual, count: Number(row.count) }));
+  const total = cells.reduce((sum, cell) => sum + cell.count, 0);
+  const correct = cells.filter((cell) => cell.predicted === cell.actual).reduce((sum, cell) => sum + cell.count, 0);
+
+  return {
+    field,
+    labels: [...new Set(cells.flatMap((cell) => [cell.predicted, cell.actual]))].sort(),
+    cells,
+    accuracy: rate(correct, total),
+  };
+}
+
+// ============================================================
+// Sender Domains
+// ============================================================
+
+export interface CorrectedDomain {
+  domain: string;
+  classified: number;
+  correctedThreads: number;
+  corrections: number;
+  errorRate: number | null; // Corrected threads / classified
+}
+
+/**
+ * Contact domains with the most corrected threads
+ */
+export async function getMostCorrectedDomains(
+  filter: MetricsFilter,
+  limit: number = DEFAULT_DOMAIN_LIMIT
+): Promise<CorrectedDomain[]> {
+  const rows = await db
+    .select({
+      domain: sql<string>`lower(split_part(${todos.contactEmail}, '@', 2))`,
+      classified: sql<string>`COUNT(*)`,
+      correctedThreads: sql<string>`COUNT(${correctedThreads.threadKey})`,
+      corrections: sql<string>`COALESCE(SUM(${correctedThreads.corrections}), 0)`,
+    })
+    .from(todos)
+    .leftJoin(correctedThreads, eq(correctedThreads.threadKey, todos.threadKey))
+    .where(and(...todoConditions(filter), sql`${todos.contactEmail} LIKE '%@%'`))
+    .groupBy(sql`1`)
+    .having(sql`COUNT(${correctedThreads.threadKey}) > 0`)
+    .orderBy(sql`3 DESC`, sql`4 DESC`, sql`1`)
+    .limit(limit);
+
+  return rows.map((row) => ({
+    domain: row.domain,
+    classified: Number(row.classified),
+    correctedThreads: Number(row.correctedThreads),
+    corrections: Number(row.corrections),
+    errorRate: rate(Number(row.correctedThreads), Number(row.classified)),
+  }));
+}
+
+// ============================================================
+// Prompt Examples
+// ============================================================
+
+export interface InjectedCorrection {
+  id: number;
+  threadKey: string;
+  subject: string | null;
+  field: string;
+  originalValue: string | null;
+  correctedValue: string | null;
+  correctedAt: Date | null;
+  injectedCount: number;
+  firstInjectedAt: Date | null;
+  lastInjectedAt: Date | null;
+  repeatsSinceInjected: number; // Later corrections of the same mistake (same field, same wrong → right value)
+}
+
+/**
+ * Corrections sent to a model as prompt examples within the
+ * window, most recently used first. The repeat count only includes later
+ * corrections of classifications by the filtered model / prompt version.
+ */
+export async function getInjectedCorrections(
+  filter: MetricsFilter,
+  limit: number = DEFAULT_INJECTED_LIMIT
+): Promise<InjectedCorrection[]> {
+  const injected = await db
+    .select({
+      id: corrections.id,
+      threadKey: corrections.threadKey,
+      subject: todos.subject,
+      field: corrections.fieldCorrected,
+      originalValue: corrections.originalValue,
+      correctedValue: corrections.correctedValue,
+      correctedAt: corrections.correctedAt,
+      injectedCount: corrections.injectedCount,
+      firstInjectedAt: corrections.firstInjectedAt,
+      lastInjectedAt: corrections.lastInjectedAt,
+    })
+    .from(corrections)
+    .leftJoin(todos, eq(todos.threadKey, corrections.threadKey))
+    .where(gte(corrections.lastInjectedAt, getStartOfDay(filter.days - 1)))
+    .orderBy(desc(corrections.lastInjectedAt))
+    .limit(limit);
+
+  if (injected.length === 0) return [];
+
+  const laterConditions: SQL[] = [
+    inArray(corrections.fieldCorrected, [...new Set(injected.map((c) => c.field))]),
+  ];
+  const earliest = injected.reduce<Date | null>(
+    (min, c) => (c.firstInjectedAt && (!min || c.firstInjectedAt < min) ? c.firstInjectedAt : min),
+    null
+  );
+  if (earliest) laterConditions.push(gte(corrections.correctedAt, earliest));
+  if (filter.model) laterConditions.push(eq(corrections.model, filter.model));
+  if (filter.promptVersion) laterConditions.push(eq(corrections.promptVersion, filter.promptVersion));
+
+  const later = await db
+    .select({
+      id: corrections.id,
+      field: corrections.fieldCorrected,
+      originalValue: corrections.originalValue,
+      correctedValue: corrections.correctedValue,
+      correctedAt: corrections.correctedAt,
+    })
+    .from(corrections)
+    .where(and(...laterConditions));
+
+  return injected.map((c) => ({
+    ...c,
+    repeatsSinceInjected: c.firstInjectedAt
+      ? later.filter(
+          (l) =>
+            l.id !== c.id &&
+            l.field === c.field &&
+            l.originalValue === c.originalValue &&
+            l.correctedValue === c.correctedValue &&
+            l.correctedAt != null &&
+            l.correctedAt > c.firstInjectedAt!
+        ).length
+      : 0,
+  }));
+}
+
+// ============================================================
+// Slices
+// ============================================================
+
+export interface ClassifierSlice {
+  model: string | null; // null = classified before models were recorded, or the classification failed
+  promptVersion: string | null;
+  classified: number;
+  reviewed: number;
+  correctedThreads: number;
+  errorRate: number | null; // Corrected threads / reviewed
+}
+
+/**
+ * Every model and prompt version that classified todos in the window, for
+ * comparing them and picking a filter
+ */
+export async function getClassifierSlices(filter: Pick<MetricsFilter, "days">): Promise<ClassifierSlice[]> {
+  const rows = await db
+    .select({
+      model: todos.model,
+      promptVersion: todos.promptVersion,
+      classified: sql<string>`COUNT(*)`,
+      reviewed: sql<string>`COUNT(*) FILTER (WHERE ${isReviewed})`,
+      correctedThreads: sql<string>`COUNT(*) FILTER (WHERE ${todos.aiCorrected})`,
+    })
+    .from(todos)
+    .where(and(...todoConditions({ days: filter.days })))
+    .groupBy(todos.model, todos.promptVersion)
+    .orderBy(desc(sql`COUNT(*)`));
+
+  return rows.map((row) => ({
+    model: row.model,
+    promptVersion: row.promptVersion,
+    classified: Number(row.classified),
+    reviewed: Number(row.reviewed),
+    correctedThreads: Number(row.correctedThreads),
+    errorRate: rate(Number(row.correctedThreads), Number(row.reviewed)),
+  }));
+}
@@ -0,0 +1,88 @@
+import { extractPdfText } from "@/storage/pdf-text";
+import type { ChatBackend, ChatRequest, ChatResponse, ModelTier } from "./types";
+
+const DEFAULT_BASE_URL = "http://localhost:11434/v1"; // Ollama
+const DEFAULT_TIMEOUT_MS = 120000;
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number }; // Not every server reports it
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API - a local model server
+ * (Ollama, llama.cpp, vLLM, LM Studio) or a hosted one.
+ *
+ * AI_BASE_URL is the API root (".../v1"), AI_MODEL the model name on that
+ * server, AI_FAST_MODEL an optional smaller one for summaries and rankings.
+ * AI_API_KEY is sent as a bearer token when set.
+ *
+ * These servers don't take PDF documents, so the PDF's text layer is sent in
+ * the prompt instead. Scanned PDFs have none and fail analysis.
+ */
+export function createOpenAiBackend(): ChatBackend {
+  const smartModel = process.env.AI_MODEL;
+  if (!smartModel) {
+    throw new Error("Missing AI_MODEL for the openai AI provider (the model name on the server)");
+  }
+
+  const baseUrl = (process.env.AI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const apiKey = process.env.AI_API_KEY;
+  const timeoutMs = parseInt(process.env.AI_TIMEOUT_MS || String(DEFAULT_TIMEOUT_MS), 10);
+  const models: Record<ModelTier, string> = {
+    smart: smartModel,
+    fast: process.env.AI_FAST_MODEL || smartModel,
+  };
+
+  return {
+    name: "openai",
+    model: (tier) => models[tier],
+
+    async complete(request: ChatRequest): Promise<ChatResponse> {
+      let prompt = request.prompt;
+      if (request.pdf) {
+        const text = await extractPdfText(request.pdf);
+        if (!text) {
+          throw new Error("PDF has no text layer (scanned?) - the openai AI provider can't read it");
+        }
+        prompt = `DOCUMENT TEXT:\n${text}\n\n${prompt}`;
+      }
+
+      const messages = [
+        ...(request.system ? [{ role: "system", content: request.system }] : []),
+        { role: "user", content: prompt },
+      ];
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: models[request.tier],
+          max_tokens: request.maxTokens,
+          temperature: 0,
+          messages,
+          ...(request.json ? { response_format: { type: "json_object" } } : {}),
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      const data = (await response.json().catch(() => null)) as ChatCompletionResponse | null;
+      if (!response.ok) {
+        throw new Error(`AI server error ${response.status}: ${JSON.stringify(data)}`);
+      }
+
+      const text = data?.choices?.[0]?.message?.content;
+      if (typeof text !== "string") {
+        throw new Error("Unexpected response from AI server");
+      }
+      return {
+        text,
+        inputTokens: data?.usage?.prompt_tokens ?? 0,
+        outputTokens: data?.usage?.completion_tokens ?? 0,
+      };
+    },
+  };
+}
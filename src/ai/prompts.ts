@@ -0,0 +1,205 @@
+/**
+ * Prompt Templates
+ *
+ * The categorization prompts, versioned. Every categorization stores the
+ * template version it was made with (e.g. "categorize_batch@3"), the model,
+ * the provider and a hash of the corrections injected into the prompt, so a
+ * cached result or an accuracy figure (./metrics.ts) can be traced to the
+ * prompt that produced it.
+ *
+ * Changing a template's text means bumping its version. AI_ON_PROMPT_CHANGE
+ * decides what happens to categorizations made with an older version:
+ * - keep (default): reused until the thread gets new email
+ * - invalidate:     not reused - classified again the next time a report or
+ *                   the IDLE daemon looks at the thread
+ * - recategorize:   as invalidate, and the IDLE daemon re-categorizes the open
+ *                   threads in the background when it starts
+ *                   (src/report/recategorize.ts)
+ */
+
+import { createHash } from "crypto";
+
+export type PromptId = "categorize_batch" | "categorize_thread";
+
+export type PromptChangePolicy = "keep" | "invalidate" | "recategorize";
+
+const PROMPT_CHANGE_POLICIES: PromptChangePolicy[] = ["keep", "invalidate", "recategorize"];
+
+export interface PromptTemplate<Vars> {
+  id: PromptId;
+  version: string;
+  system: string;
+  maxTokens: number;
+  render: (vars: Vars) => string;
+}
+
+const CONFIDENCE_INSTRUCTIONS = `CONFIDENCE - For category, item_type and needs_response give a confidence from 0.0 to 1.0 and a short rationale (under 15 words) citing the evidence.
+   1.0 = explicit (PO attached with a PO number, "please quote"); 0.5 = plausible but ambiguous; below 0.3 = a guess.`;
+
+const DEADLINE_INSTRUCTIONS = `DEADLINES - Dates asked for or promised in the thread, as YYYY-MM-DD (resolve "Friday", "next week" against the email's date):
+   "due" = a reply or quote is due ("quote due Friday"); "required_by" = parts or a shipment are needed by then; "promised" = a date someone committed to ("will ship 3/14").
+   Give a short description for each ("Quote due", "Parts needed on site"). Use [] when there are none - never invent dates.`;
+
+// ============================================================
+// Categorization
+// ============================================================
+
+// `threads` is the JSON list of threads (by index) the model classifies
+export const CATEGORIZE_BATCH_PROMPT: PromptTemplate<{ threads: unknown[]; correctionsBlock: string }> = {
+  id: "categorize_batch",
+  version: "3",
+  system: "You are a JSON-only classifier. Always respond with valid JSON, no explanations. Process ALL threads provided.",
+  maxTokens: 8000, // ~20 threads with per-field confidence
+  render: ({ threads, correctionsBlock }) => `You are classifying email threads for MAS Precision Parts, a precision manufacturing company.
+
+ABOUT US:
+- We are MAS Precision Parts (sales@masprecisionparts.com)
+- We manufacture precision parts for CUSTOMERS (they buy from us)
+- We purchase materials/equipment from VENDORS (we buy from them)
+- SENT emails are from us, RECEIVED emails are from external parties
+
+CRITICAL RULES - APPLY THESE FIRST:
+1. If WE send an Invoice → ALWAYS "customer" (we bill customers, never vendors)
+2. If WE send a Quotation/Quote/Estimate → ALWAYS "customer" (we quote customers, never vendors)
+3. If subject contains "RFQ" or "Request for Quotation" and THEY ask US for pricing → "customer" + "quote_request"
+4. If WE send a PO to them → ALWAYS "vendor" (we buy from vendors)
+
+CLASSIFICATION:
+1. CATEGORY - Who is the external party?
+   - "customer": Someone we sell to or provide quotes to
+     * They send us a PO or RFQ (buying from us)
+     * We send them an invoice, quotation, or estimate (billing/quoting them)
+     * They ask US for pricing or quotes
+   - "vendor": Someone we buy from
+     * We send them a PO or RFQ (we're purchasing)
+     * They send us quotes/pricing IN RESPONSE to our RFQ (we're the buyer)
+     * Equipment/material suppliers reaching out to sell to us
+   - "other": Automated emails, newsletters, spam, internal
+
+2. ITEM_TYPE - What kind of interaction?
+   - "po_received": Customer sent us a PURCHASE ORDER (PO) - commitment to buy with PO number
+   - "po_sent": We sent a PO to vendor
+   - "quote_request": Customer asking for quote/pricing/RFQ (NOT a PO - just asking for price)
+   - "general": General correspondence, confirmations, receipts, payment advice
+   - "other": Automated/newsletters
+   NOTE: "RFQ" = Request For Quote = quote_request, NOT po_received
+
+3. NEEDS_RESPONSE - Does the LAST email need our reply?
+   FALSE for: "Thanks", "Thank you", "Got it", receipts, order confirmations, shipping notices, payment advice, invoices FROM vendors, automated notifications
+   TRUE for: Questions needing our answer (e.g., "what thickness?", "can you send STEP file?")
+
+4. CONTACT_NAME - External party's name/company
+
+5. SUMMARY - 1-2 sentence summary of thread status
+
+6. RELATED_TO - Index of related thread if this is a response (e.g., vendor quote responding to our RFQ)
+
+7. ${CONFIDENCE_INSTRUCTIONS}
+
+8. ${DEADLINE_INSTRUCTIONS}
+${correctionsBlock}
+THREADS TO CLASSIFY:
+${JSON.stringify(threads, null, 2)}
+
+Return JSON only: {"results": [{"index": 0, "category": "...", "item_type": "...", "contact_name": "...", "summary": "...", "needs_response": true/false, "related_to": null, "confidence": {"category": 0.9, "item_type": 0.8, "needs_response": 0.7}, "rationale": {"category": "...", "item_type": "...", "needs_response": "..."}, "deadlines": [{"kind": "due", "date": "YYYY-MM-DD", "description": "..."}]}, ...]}`,
+};
+
+// `thread` is the formatted emails, oldest first
+export const CATEGORIZE_THREAD_PROMPT: PromptTemplate<{ thread: string }> = {
+  id: "categorize_thread",
+  version: "3",
+  system: "You are a JSON-only classifier. Always respond with valid JSON, no explanations.",
+  maxTokens: 700,
+  render: ({ thread }) => `You are classifying an email thread for MAS Precision Parts, a precision manufacturing company.
+
+ABOUT US:
+- We are MAS Precision Parts (sales@masprecisionparts.com)
+- We manufacture precision parts for CUSTOMERS (they buy from us)
+- We purchase materials/equipment from VENDORS (we buy from them)
+- [SENT] emails are from us, [RECEIVED] emails are from external parties
+
+CRITICAL RULES - APPLY THESE FIRST:
+1. If WE send an Invoice → ALWAYS "customer" (we bill customers, never vendors)
+2. If WE send a Quotation/Quote/Estimate → ALWAYS "customer" (we quote customers, never vendors)
+3. If subject contains "RFQ" or "Request for Quotation" and THEY ask US for pricing → "customer" + "quote_request"
+4. If WE send a PO to them → ALWAYS "vendor" (we buy from vendors)
+
+THREAD (oldest first):
+${thread}
+
+CLASSIFICATION:
+1. CATEGORY - Who is the external party?
+   - "customer": Someone we sell to or provide quotes to
+     * They send us a PO or RFQ (buying from us)
+     * We send them an invoice, quotation, or estimate (billing/quoting them)
+     * They ask US for pricing or quotes
+   - "vendor": Someone we buy from
+     * We send them a PO or RFQ (we're purchasing)
+     * They send us quotes/pricing IN RESPONSE to our RFQ (we're the buyer)
+   - "other": Automated emails, newsletters, spam
+
+2. ITEM_TYPE - What kind of interaction?
+   - "po_received": Customer sent us a PURCHASE ORDER (PO) - commitment to buy with PO number
+   - "po_sent": We sent a PO to vendor
+   - "quote_request": Customer asking for quote/pricing/RFQ (NOT a PO - just asking for price)
+   - "general": General correspondence, confirmations, receipts, payment advice
+   - "other": Automated/newsletters
+   NOTE: "RFQ" = Request For Quote = quote_request, NOT po_received
+
+3. NEEDS_RESPONSE - Does the LAST email need our reply?
+   FALSE for: "Thanks", "Thank you", "Got it", receipts, order confirmations, shipping notices, payment advice, invoices FROM vendors, automated notifications
+   TRUE for: Questions needing our answer (e.g., "what thickness?", "can you send STEP file?")
+
+4. CONTACT_NAME - External party's name/company
+
+5. SUMMARY - 1-2 sentence summary
+
+6. ${CONFIDENCE_INSTRUCTIONS}
+
+7. ${DEADLINE_INSTRUCTIONS}
+
+Return JSON only: {"category": "...", "item_type": "...", "contact_name": "...", "summary": "...", "needs_response": true/false, "confidence": {"category": 0.9, "item_type": 0.8, "needs_response": 0.7}, "rationale": {"category": "...", "item_type": "...", "needs_response": "..."}, "deadlines": [{"kind": "due", "date": "YYYY-MM-DD", "description": "..."}]}`,
+};
+
+const CURRENT_VERSIONS: Record<PromptId, string> = {
+  categorize_batch: CATEGORIZE_BATCH_PROMPT.version,
+  categorize_thread: CATEGORIZE_THREAD_PROMPT.version,
+};
+
+// ============================================================
+// Provenance
+// ============================================================
+
+// The version stored with a result: "<template id>@<version>"
+export function promptVersionOf(template: Pick<PromptTemplate<unknown>, "id" | "version">): string {
+  return `${template.id}@${template.version}`;
+}
+
+/**
+ * Whether a stored prompt version is the current version of its template
+ * (false for unknown templates and results stored before versioning)
+ */
+export function isCurrentPromptVersion(promptVersion: string | null): boolean {
+  if (!promptVersion) return false;
+  const [id, version] = promptVersion.split("@");
+  return CURRENT_VERSIONS[id as PromptId] !== undefined && CURRENT_VERSIONS[id as PromptId] === version;
+}
+
+/**
+ * Short hash of the corrections block injected into a prompt, or null when
+ * there was none - tells apart results of the same prompt version that saw
+ * different examples
+ */
+export function hashCorrectionSet(correctionsBlock: string): string | null {
+  if (!correctionsBlock) return null;
+  return createHash("sha256").update(correctionsBlock).digest("hex").slice(0, 16);
+}
+
+export function getPromptChangePolicy(): PromptChangePolicy {
+  const configured = process.env.AI_ON_PROMPT_CHANGE?.trim().toLowerCase();
+  if (!configured) return "keep";
+  if (!PROMPT_CHANGE_POLICIES.includes(configured as PromptChangePolicy)) {
+    throw new Error(`Unknown AI_ON_PROMPT_CHANGE "${configured}" (expected ${PROMPT_CHANGE_POLICIES.join(", ")})`);
+  }
+  return configured as PromptChangePolicy;
+}
@@ -0,0 +1,114 @@
+/**
+ * AI Response Cache (record and replay)
+ *
+ * Model responses are stored in ai_responses under a hash of the model, the
+ * prompt (system prompt and JSON mode included) and the SHA-256 of any PDF
+ * sent with it. AI_CACHE_MODE decides how recordedComplete() uses the store:
+ * - readwrite: answer identical prompts from the store, record new ones (default)
+ * - record:    always call the model and overwrite the stored response
+ * - replay:    answer only from the store; a prompt never seen before fails
+ *              instead of calling the model. Reproduces a past report exactly.
+ *              Matches on the replay key, which leaves out prompt parts that
+ *              change between runs (the staff corrections injected into the
+ *              batch prompt); the stored prompt keeps what was actually sent.
+ * - off:       neither read nor write
+ */
+
+import { createHash } from "crypto";
+import { db, schema } from "@/db";
+import { desc, eq, sql, type SQL } from "drizzle-orm";
+import type { AiPurpose, ChatRequest } from "./types";
+
+export type AiCacheMode = "readwrite" | "record" | "replay" | "off";
+
+const CACHE_MODES: AiCacheMode[] = ["readwrite", "record", "replay", "off"];
+
+export function getAiCacheMode(): AiCacheMode {
+  const configured = process.env.AI_CACHE_MODE?.trim().toLowerCase();
+  if (!configured) return "readwrite";
+  if (!CACHE_MODES.includes(configured as AiCacheMode)) {
+    throw new Error(`Unknown AI_CACHE_MODE "${configured}" (expected ${CACHE_MODES.join(", ")})`);
+  }
+  return configured as AiCacheMode;
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+export interface ResponseCacheKey {
+  cacheKey: string;
+  replayKey: string;
+  attachmentHash: string | null;
+}
+
+export function getResponseCacheKey(model: string, request: ChatRequest): ResponseCacheKey {
+  const attachmentHash = request.pdf ? sha256(request.pdf) : null;
+  const keyOf = (prompt: string) =>
+    sha256(JSON.stringify([model, request.system ?? "", prompt, request.json ?? false, attachmentHash]));
+  const cacheKey = keyOf(request.prompt);
+  const replayKey = request.replayPrompt !== undefined ? keyOf(request.replayPrompt) : cacheKey;
+  return { cacheKey, replayKey, attachmentHash };
+}
+
+/**
+ * Stored response text for a key, counting the hit. For replay an exact match
+ * is preferred, then the latest response recorded under the replay key.
+ */
+export async function findRecordedResponse(key: ResponseCacheKey, options: { replay?: boolean } = {}): Promise<string | null> {
+  const hit = async (where: SQL) => {
+    const [row] = await db
+      .update(schema.aiResponses)
+      .set({ hitCount: sql`${schema.aiResponses.hitCount} + 1`, lastUsedAt: new Date() })
+      .where(where)
+      .returning({ responseText: schema.aiResponses.responseText });
+    return row?.responseText ?? null;
+  };
+
+  const exact = await hit(eq(schema.aiResponses.cacheKey, key.cacheKey));
+  if (exact !== null || !options.replay || key.replayKey === key.cacheKey) return exact;
+
+  const [latest] = await db
+    .select({ id: schema.aiResponses.id })
+    .from(schema.aiResponses)
+    .where(eq(schema.aiResponses.replayKey, key.replayKey))
+    .orderBy(desc(schema.aiResponses.createdAt))
+    .limit(1);
+  return latest ? hit(eq(schema.aiResponses.id, latest.id)) : null;
+}
+
+export async function storeRecordedResponse(values: {
+  key: ResponseCacheKey;
+  purpose: AiPurpose;
+  model: string;
+  request: ChatRequest;
+  responseText: string;
+  inputTokens: number;
+  outputTokens: number;
+}): Promise<void> {
+  const row = {
+    cacheKey: values.key.cacheKey,
+    replayKey: values.key.replayKey,
+    purpose: values.purpose,
+    model: values.model,
+    systemPrompt: values.request.system ?? null,
+    prompt: values.request.prompt,
+    attachmentHash: values.key.attachmentHash,
+    responseText: values.responseText,
+    inputTokens: values.inputTokens,
+    outputTokens: values.outputTokens,
+  };
+
+  await db
+    .insert(schema.aiResponses)
+    .values(row)
+    .onConflictDoUpdate({
+      target: schema.aiResponses.cacheKey,
+      set: {
+        responseText: row.responseText,
+        inputTokens: row.inputTokens,
+        outputTokens: row.outputTokens,
+        createdAt: new Date(),
+      },
+    });
+}
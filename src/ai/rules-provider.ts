@@ -0,0 +1,230 @@
+/**
+ * Rules-only AI provider
+ *
+ * Deterministic keyword rules standing in for the model: no network, no API
+ * key, same input always gives the same output. Used in development and CI,
+ * and wherever no AI backend is configured. It is coarser than an LLM - a
+ * thread it can't place stays "general" with needsResponse erring on true,
+ * so nothing gets silently dropped from the todo list.
+ */
+
+import type { Category, ItemType } from "@/db/schema";
+import type { CategorizationResult, EmailForPrompt, FieldConfidence } from "@/report/types";
+import { extractPdfText } from "@/storage/pdf-text";
+import type {
+  AiProvider,
+  AttachmentInfo,
+  BatchCategorizationResult,
+  PoValidationResult,
+  RankedAttachment,
+  ThreadForBatch,
+} from "./types";
+
+const RFQ_PATTERN = /\b(rfq|request for quot\w*|quote request|please quote|pricing request)\b/i;
+const PO_PATTERN = /\b(purchase order|p\.?o\.?\s*(#|no\.?|number)|po\s*[-#:]?\s*\d{3,})/i;
+const INVOICE_PATTERN = /\binvoice\b/i;
+const QUOTATION_PATTERN = /\b(quotation|quote|estimate)\b/i;
+const AUTOMATED_PATTERN = /\b(newsletter|no-?reply|donotreply|unsubscribe|notification|mailer-daemon|postmaster)\b/i;
+// Last inbound messages that close the loop rather than ask for something
+const ACKNOWLEDGEMENT_PATTERN =
+  /^\s*(thanks?|thank you|got it|received|noted|sounds good|perfect|great)\b[^?]{0,80}$|order confirmation|has shipped|tracking number|payment (advice|received)|remittance/i;
+
+const SUMMARY_SNIPPET_LENGTH = 160;
+
+function sortByDate(emails: EmailForPrompt[]): EmailForPrompt[] {
+  return [...emails].sort((a, b) => (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0));
+}
+
+function threadText(emails: EmailForPrompt[]): string {
+  return emails.map((e) => `${e.subject}\n${e.body}`).join("\n");
+}
+
+// "Jane Doe <jane@acme.com>" → "Jane Doe"; bare addresses are kept as-is
+function displayName(address: string): string {
+  const match = address.match(/^\s*"?([^"<]+?)"?\s*<[^>]+>\s*$/);
+  return (match ? match[1] : address).trim();
+}
+
+function contactName(emails: EmailForPrompt[]): string | null {
+  const external = emails.find((e) => !e.isOutbound);
+  const from = external?.from ?? emails[0]?.to.split(",")[0];
+  return from ? displayName(from) || null : null;
+}
+
+interface Classification {
+  category: Category;
+  itemType: ItemType;
+  confidence: FieldConfidence; // Keyword rules can't tell category and itemType certainty apart
+}
+
+// Keyword matches are evidence, not proof - no rule answer is ever fully certain
+function classify(emails: EmailForPrompt[], initialCategory: Category): Classification {
+  const sorted = sortByDate(emails);
+  const first = sorted[0];
+  const text = threadText(sorted);
+  const sentByUs = sorted.filter((e) => e.isOutbound);
+  const sentText = threadText(sentByUs);
+  const matched = (confidence: number, rationale: string) => ({ confidence, rationale });
+
+  if (!first || AUTOMATED_PATTERN.test(`${first.from} ${first.subject}`)) {
+    return { category: "other", itemType: "other", confidence: matched(0.7, "Automated sender or subject") };
+  }
+
+  // Same precedence as the prompt's critical rules
+  if (sentByUs.some((e) => e.hasAttachments) && INVOICE_PATTERN.test(sentText)) {
+    return { category: "customer", itemType: "general", confidence: matched(0.7, "We sent an invoice") };
+  }
+  if (RFQ_PATTERN.test(text)) {
+    return first.isOutbound
+      ? { category: "vendor", itemType: "general", confidence: matched(0.6, "We asked for a quote") }
+      : { category: "customer", itemType: "quote_request", confidence: matched(0.6, "They asked us for a quote") };
+  }
+  if (sentByUs.some((e) => e.hasAttachments) && QUOTATION_PATTERN.test(sentText)) {
+    return { category: "customer", itemType: "general", confidence: matched(0.6, "We sent a quotation") };
+  }
+  if (PO_PATTERN.test(text) && sorted.some((e) => e.hasAttachments)) {
+    return first.isOutbound
+      ? { category: "vendor", itemType: "po_sent", confidence: matched(0.6, "PO wording with an attachment, sent by us") }
+      : { category: "customer", itemType: "po_received", confidence: matched(0.6, "PO wording with an attachment, sent to us") };
+  }
+
+  return {
+    category: initialCategory,
+    itemType: initialCategory === "other" ? "other" : "general",
+    confidence: matched(0.3, "No keyword matched - direction of the first email only"),
+  };
+}
+
+function needsResponse(emails: EmailForPrompt[], category: Category): { value: boolean; confidence: FieldConfidence } {
+  const last = sortByDate(emails).at(-1);
+  if (!last || last.isOutbound) {
+    return { value: false, confidence: { confidence: 0.9, rationale: "Last email is ours" } };
+  }
+  if (category === "other") {
+    return { value: false, confidence: { confidence: 0.6, rationale: "Automated or other thread" } };
+  }
+  return ACKNOWLEDGEMENT_PATTERN.test(last.body.trim())
+    ? { value: false, confidence: { confidence: 0.5, rationale: "Last email reads as an acknowledgement" } }
+    : { value: true, confidence: { confidence: 0.4, rationale: "Last email is theirs and not an acknowledgement" } };
+}
+
+function summarize(emails: EmailForPrompt[]): string {
+  const sorted = sortByDate(emails);
+  const first = sorted[0];
+  const last = sorted.at(-1);
+  if (!first || !last) return "Empty thread";
+
+  const snippet = last.body.replace(/\s+/g, " ").trim();
+  const trimmed = snippet.length > SUMMARY_SNIPPET_LENGTH ? `${snippet.slice(0, SUMMARY_SNIPPET_LENGTH)}...` : snippet;
+  const who = last.isOutbound ? "We replied" : `${displayName(last.from)} wrote`;
+  const count = sorted.length === 1 ? "1 email" : `${sorted.length} emails`;
+  return `${first.subject} (${count}). ${who}${trimmed ? `: "${trimmed}"` : "."}`;
+}
+
+function categorize(emails: EmailForPrompt[], initialCategory: Category): CategorizationResult {
+  const { category, itemType, confidence } = classify(emails, initialCategory);
+  const response = needsResponse(emails, category);
+  return {
+    category,
+    itemType,
+    contactName: contactName(emails),
+    summary: summarize(emails),
+    needsResponse: response.value,
+    relatedTo: null,
+    confidence: { category: { ...confidence }, itemType: { ...confidence }, needsResponse: response.confidence },
+    deadlines: [], // Relative dates ("quote due Friday") need the model
+    model: "rules",
+    provider: "rules",
+    promptVersion: null,
+    correctionsHash: null,
+  };
+}
+
+// Same buckets as the ranking prompt: PO-named files first, terms/conditions last
+function rankAttachments(attachments: AttachmentInfo[]): RankedAttachment[] {
+  const scored = attachments.map((att, index) => {
+    const name = att.filename.toLowerCase();
+    if (/catalog|brochure|logo|signature/.test(name)) {
+      return { att, index, rank: 4, isPoCandidate: false, reason: "Filename suggests catalog or artwork" };
+    }
+    if (/\bpo\b|p\.o\.|purchase.?order|\border\b|^po[-_ \d]/.test(name)) {
+      return { att, index, rank: 1, isPoCandidate: true, reason: "Filename mentions PO/order" };
+    }
+    if (/terms|conditions|t&c|t_c|agreement/.test(name)) {
+      return { att, index, rank: 3, isPoCandidate: true, reason: "Filename suggests terms/conditions" };
+    }
+    return { att, index, rank: 2, isPoCandidate: true, reason: "Document without clear naming" };
+  });
+
+  return scored
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map((s, position) => ({
+      filename: s.att.filename,
+      rank: position + 1,
+      isPoCandidate: s.isPoCandidate,
+      reason: s.reason,
+    }));
+}
+
+function parseAmount(value: string): number | null {
+  const amount = parseFloat(value.replace(/,/g, ""));
+  return Number.isFinite(amount) ? amount : null;
+}
+
+async function analyzePdf(pdf: Buffer): Promise<PoValidationResult> {
+  const text = await extractPdfText(pdf);
+  if (!text) {
+    return { details: null, isValidPo: false, notPoReason: "No text layer (scanned PDF) - needs an AI provider to read" };
+  }
+
+  const header = text.slice(0, 2000);
+  if (!/purchase\s+order/i.test(header) && !PO_PATTERN.test(header)) {
+    const notPoReason = /quotation|estimate/i.test(header)
+      ? "This is a quotation/estimate"
+      : INVOICE_PATTERN.test(header)
+        ? "This is an invoice"
+        : /terms\s+(and|&)\s+conditions/i.test(header)
+          ? "This is a terms and conditions document"
+          : "No purchase order header or PO number found";
+    return { details: null, isValidPo: false, notPoReason };
+  }
+
+  const poNumber =
+    text.match(/\b(?:purchase\s+order|p\.?o\.?)\s*(?:#|no\.?|number)?\s*[:#]?\s*([A-Z0-9-]*\d[A-Z0-9-]*)/i)?.[1] ?? null;
+  const totals = [...text.matchAll(/\btotal\b[^\d$\n]{0,30}\$?\s*([\d,]+\.\d{2})/gi)];
+  const total = totals.length > 0 ? parseAmount(totals[totals.length - 1][1]) : null;
+
+  return {
+    details: { poNumber, vendor: null, items: [], total, currency: "USD", orderDate: null, requiredDate: null, promisedDate: null },
+    isValidPo: true,
+    notPoReason: null,
+  };
+}
+
+export function createRulesProvider(): AiProvider {
+  return {
+    name: "rules",
+
+    async categorizeBatch(threads: ThreadForBatch[]): Promise<BatchCategorizationResult> {
+      const results: BatchCategorizationResult = {};
+      for (const thread of threads) {
+        results[thread.threadKey] = categorize(thread.emails, thread.initialCategory);
+      }
+      return results;
+    },
+
+    async categorizeThread(emails, initialCategory) {
+      return categorize(emails, initialCategory);
+    },
+
+    async summarizeThread(emails) {
+      return summarize(emails);
+    },
+
+    async rankAttachments(attachments) {
+      return rankAttachments(attachments);
+    },
+
+    analyzePdf,
+  };
+}
@@ -0,0 +1,86 @@
+import "dotenv/config";
+import fs from "fs";
+import { db, schema } from "@/db";
+import { and, desc, eq, gte, type SQL } from "drizzle-orm";
+
+function printUsage() {
+  console.log(`
+Usage: npm run ai:fixtures -- [options]
+
+Exports recorded AI responses (ai_responses) as regression fixtures: the exact
+model, prompt and attachment hash sent, and the response that came back.
+
+Options:
+  --purpose=NAME      Only one purpose (categorize_batch, categorize_thread,
+                      summarize, rank_attachments, analyze_pdf)
+  --since=YYYY-MM-DD  Only responses recorded on or after this date
+  --limit=N           At most N fixtures, newest first (default 100)
+  --out=FILE          Write to FILE instead of stdout
+
+Examples:
+  npm run ai:fixtures -- --purpose=categorize_thread --out=fixtures/categorize.json
+  npm run ai:fixtures -- --since=2025-01-01 --limit=20
+`);
+}
+
+function argValue(args: string[], name: string): string | undefined {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.includes("--help") || args.includes("-h")) {
+    printUsage();
+    process.exit(0);
+  }
+
+  const purpose = argValue(args, "purpose");
+  const sinceArg = argValue(args, "since");
+  const limit = parseInt(argValue(args, "limit") || "100", 10);
+  const out = argValue(args, "out");
+
+  const conditions: SQL[] = [];
+  if (purpose) {
+    conditions.push(eq(schema.aiResponses.purpose, purpose));
+  }
+  if (sinceArg) {
+    const since = new Date(`${sinceArg}T00:00:00`);
+    if (isNaN(since.getTime())) {
+      console.error(`Invalid date format: ${sinceArg}. Use YYYY-MM-DD`);
+      process.exit(1);
+    }
+    conditions.push(gte(schema.aiResponses.createdAt, since));
+  }
+
+  const rows = await db
+    .select()
+    .from(schema.aiResponses)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(schema.aiResponses.createdAt))
+    .limit(Number.isFinite(limit) && limit > 0 ? limit : 100);
+
+  const fixtures = rows.map((row) => ({
+    cacheKey: row.cacheKey,
+    purpose: row.purpose,
+    model: row.model,
+    system: row.systemPrompt,
+    prompt: row.prompt,
+    attachmentHash: row.attachmentHash,
+    response: row.responseText,
+    recordedAt: row.createdAt,
+  }));
+
+  const json = JSON.stringify(fixtures, null, 2);
+  if (out) {
+    fs.writeFileSync(out, json + "\n");
+    console.log(`Wrote ${fixtures.length} fixture(s) to ${out}`);
+  } else {
+    console.log(json);
+  }
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Fixture export failed:", error);
+  process.exit(1);
+});
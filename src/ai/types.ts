@@ -0,0 +1,110 @@
+/**
+ * AI provider types
+ *
+ * Every AI task in the report and alert pipeline goes through an AiProvider,
+ * so the backend can be swapped by config (see ./index.ts).
+ */
+
+import type { Category } from "@/db/schema";
+import type { CategorizationResult, EmailForPrompt, PoDetails } from "@/report/types";
+
+export type AiProviderName = "anthropic" | "openai" | "rules";
+
+// ============================================================
+// Task Inputs and Results
+// ============================================================
+
+// Input for batch categorization
+export interface ThreadForBatch {
+  threadKey: string;
+  initialCategory: Category;
+  emails: EmailForPrompt[];
+}
+
+// Batch categorization result keyed by threadKey
+export interface BatchCategorizationResult {
+  [threadKey: string]: CategorizationResult;
+}
+
+export interface AttachmentInfo {
+  filename: string;
+  contentType: string;
+  size: number; // bytes
+}
+
+export interface RankedAttachment {
+  filename: string;
+  rank: number;
+  isPoCandidate: boolean;
+  reason: string;
+}
+
+export interface PoValidationResult {
+  details: PoDetails | null; // Only for a valid PO
+  documentDetails?: PoDetails | null; // Read from any document type (PO, quote, invoice)
+  isValidPo: boolean;
+  notPoReason: string | null;
+  degraded?: boolean; // Rules-only stand-in (daily AI budget spent) - don't cache as the analysis
+}
+
+// What a call was for, recorded in the ai_calls ledger
+export type AiPurpose = "categorize_batch" | "categorize_thread" | "summarize" | "rank_attachments" | "analyze_pdf";
+
+export interface AiCallContext {
+  threadKey?: string | null; // Thread the call was about (batch calls cover many and record none)
+  onModelCall?: () => Promise<void>; // After the model answered - not on a cache hit or in replay
+}
+
+// ============================================================
+// Provider
+// ============================================================
+
+/**
+ * Providers throw on failure; callers in report/summarizer.ts and the PDF
+ * analyzers decide what a failed call degrades to.
+ */
+export interface AiProvider {
+  name: AiProviderName;
+  categorizeBatch(threads: ThreadForBatch[]): Promise<BatchCategorizationResult>;
+  categorizeThread(emails: EmailForPrompt[], initialCategory: Category, context?: AiCallContext): Promise<CategorizationResult>;
+  summarizeThread(emails: EmailForPrompt[], context?: AiCallContext): Promise<string>;
+  // Only called with two or more document attachments; pre-filtering stays with the caller
+  rankAttachments(
+    attachments: AttachmentInfo[],
+    subject: string,
+    sender: string,
+    context?: AiCallContext
+  ): Promise<RankedAttachment[]>;
+  analyzePdf(pdf: Buffer, context?: AiCallContext): Promise<PoValidationResult>;
+}
+
+// ============================================================
+// Chat Backends (for LLM providers)
+// ============================================================
+
+// "smart" for classification and documents, "fast" for short summaries and rankings
+export type ModelTier = "smart" | "fast";
+
+export interface ChatRequest {
+  tier: ModelTier;
+  system?: string;
+  prompt: string;
+  maxTokens: number;
+  json?: boolean; // Response must be a single JSON object
+  pdf?: Buffer; // Document the prompt refers to
+  // The prompt without parts that change between runs (injected staff corrections).
+  // Replay matches on it, so a new correction doesn't break reproducing a past report.
+  replayPrompt?: string;
+}
+
+export interface ChatResponse {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ChatBackend {
+  name: Exclude<AiProviderName, "rules">;
+  model(tier: ModelTier): string;
+  complete(request: ChatRequest): Promise<ChatResponse>;
+}
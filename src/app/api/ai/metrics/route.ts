@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import {
+  getClassifierSlices,
+  getConfusionMatrix,
+  getErrorRates,
+  getInjectedCorrections,
+  getMostCorrectedDomains,
+  type MetricsFilter,
+} from "@/ai/metrics";
+
+// GET /api/ai/metrics — classifier accuracy from staff corrections over the last ?days=90 (max 365),
+// optionally for one ?model= and ?promptVersion=
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filter: MetricsFilter = {
+      days: Math.min(365, Math.max(1, parseInt(searchParams.get("days") || "90", 10) || 90)),
+      model: searchParams.get("model"),
+      promptVersion: searchParams.get("promptVersion"),
+    };
+
+    const [slices, errorRates, category, itemType, domains, injectedCorrections] = await Promise.all([
+      getClassifierSlices(filter),
+      getErrorRates(filter),
+      getConfusionMatrix("category", filter),
+      getConfusionMatrix("itemType", filter),
+      getMostCorrectedDomains(filter),
+      getInjectedCorrections(filter),
+    ]);
+
+    return NextResponse.json({
+      filter,
+      slices,
+      errorRates,
+      confusion: { category, itemType },
+      domains,
+      injectedCorrections,
+    });
+  } catch (error) {
+    console.error("Error computing AI metrics:", error);
+    return NextResponse.json({ error: "Failed to compute AI metrics" }, { status: 500 });
+  }
+}
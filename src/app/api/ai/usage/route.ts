@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { getDailyAiUsage, getDailyBudgetUsd, getSpentTodayMicros } from "@/ai/ledger";
+
+// GET /api/ai/usage — daily AI spend by purpose (?days=14) plus today's budget status
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(90, Math.max(1, parseInt(searchParams.get("days") || "14", 10) || 14));
+
+    const [usage, spentMicros] = await Promise.all([getDailyAiUsage(days), getSpentTodayMicros()]);
+    const budgetUsd = getDailyBudgetUsd();
+    const spentTodayUsd = spentMicros / 1_000_000;
+
+    return NextResponse.json({
+      days: usage,
+      budget: {
+        dailyBudgetUsd: budgetUsd,
+        spentTodayUsd,
+        exhausted: budgetUsd !== null && spentTodayUsd >= budgetUsd,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching AI usage:", error);
+    return NextResponse.json({ error: "Failed to fetch AI usage" }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db, schema } from "@/db";
+import { eq } from "drizzle-orm";
+import { parseClassificationRuleInput } from "@/report/classification-rules";
+
+// PATCH /api/classification-rules/[id] — Update a rule (any subset of fields; null clears a condition)
+// Threads it decided are re-evaluated on the next categorization run
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const ruleId = parseInt(id, 10);
+
+    if (isNaN(ruleId)) {
+      return NextResponse.json(
+        { error: "Invalid rule ID" },
+        { status: 400 }
+      );
+    }
+
+    const [existing] = await db
+      .select()
+      .from(schema.classificationRules)
+      .where(eq(schema.classificationRules.id, ruleId));
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Rule not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = parseClassificationRuleInput(body ?? {}, existing);
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const [rule] = await db
+      .update(schema.classificationRules)
+      .set({ ...parsed.values, updatedAt: new Date() })
+      .where(eq(schema.classificationRules.id, ruleId))
+      .returning();
+
+    return NextResponse.json({ success: true, rule });
+  } catch (error) {
+    console.error("Error updating classification rule:", error);
+    return NextResponse.json(
+      { error: "Failed to update classification rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/classification-rules/[id] — Delete a rule (rows it decided keep their values; the rule id is cleared)
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const ruleId = parseInt(id, 10);
+
+    if (isNaN(ruleId)) {
+      return NextResponse.json(
+        { error: "Invalid rule ID" },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await db
+      .delete(schema.classificationRules)
+      .where(eq(schema.classificationRules.id, ruleId))
+      .returning({ id: schema.classificationRules.id });
+
+    if (deleted.length === 0) {
+      return NextResponse.json(
+        { error: "Rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting classification rule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete classification rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db, schema } from "@/db";
+import { asc, eq } from "drizzle-orm";
+import { parseClassificationRuleInput } from "@/report/classification-rules";
+
+// GET /api/classification-rules — Rules in evaluation order (?enabled=true for active rules only)
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const enabledOnly = url.searchParams.get("enabled") === "true";
+
+    const rules = await db
+      .select()
+      .from(schema.classificationRules)
+      .where(enabledOnly ? eq(schema.classificationRules.enabled, true) : undefined)
+      .orderBy(asc(schema.classificationRules.priority), asc(schema.classificationRules.id));
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error("Error fetching classification rules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch classification rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/classification-rules — Create a rule
+// Body: { name, senderDomain?, subjectPattern?, attachmentPattern?, mailbox?, category?, itemType?, needsResponse?, priority?, enabled?, notes? }
+// At least one condition and one decision; patterns are case-insensitive regular expressions
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = parseClassificationRuleInput(body ?? {});
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const now = new Date();
+    const [rule] = await db
+      .insert(schema.classificationRules)
+      .values({
+        ...parsed.values,
+        name: parsed.values.name!,
+        createdBy: "dashboard",
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    return NextResponse.json({ success: true, rule });
+  } catch (error) {
+    console.error("Error creating classification rule:", error);
+    return NextResponse.json(
+      { error: "Failed to create classification rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDueItems, getReportDate } from "@/report/deadlines";
+
+// GET /api/deadlines — Quote due dates, required-by and promised dates due in the next ?days=14 (max 90), overdue first
+// ?status=overdue|due_today|upcoming narrows the list
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const days = Math.min(Math.max(parseInt(url.searchParams.get("days") || "14", 10) || 14, 0), 90);
+    const status = url.searchParams.get("status");
+
+    if (status && !["overdue", "due_today", "upcoming"].includes(status)) {
+      return NextResponse.json(
+        { error: "status must be 'overdue', 'due_today' or 'upcoming'" },
+        { status: 400 }
+      );
+    }
+
+    const through = getReportDate(days);
+    const items = await getDueItems(through);
+
+    return NextResponse.json({
+      today: getReportDate(),
+      through,
+      counts: {
+        overdue: items.filter((item) => item.status === "overdue").length,
+        dueToday: items.filter((item) => item.status === "due_today").length,
+        upcoming: items.filter((item) => item.status === "upcoming").length,
+      },
+      deadlines: status ? items.filter((item) => item.status === status) : items,
+    });
+  } catch (error) {
+    console.error("Error fetching deadlines:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch deadlines" },
+      { status: 500 }
+    );
+  }
+}
@@ -66,7 +66,7 @@ export async function POST() {
   try {
     // Step 1: Sync emails first
     console.log("Syncing emails...");
-    const syncResult = await syncEmails();
+    const syncResult = await syncEmails({ trigger: "button" });
     console.log(`Synced ${syncResult.emailsSynced} emails`);
 
     // Step 2: Determine report type based on current time
@@ -114,6 +114,8 @@ export async function POST() {
           contactName: todo.contactName,
           originalDate: todo.originalDate,
           subject: todo.subject,
+          priority: todo.priority,
+          priorityReasons: todo.priorityReasons,
         });
       }
     } else {
@@ -145,6 +147,8 @@ export async function POST() {
           contactName: todo.contactName,
           originalDate: todo.originalDate,
           subject: todo.subject,
+          priority: todo.priority,
+          priorityReasons: todo.priorityReasons,
         });
       }
     }
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db, schema } from "@/db";
+import { and, asc, eq, isNull, lt, sql } from "drizzle-orm";
+import type { CategorizationConfidence } from "@/report/types";
+import { DEFAULT_REVIEW_THRESHOLD, lowConfidenceFields } from "@/report/confidence";
+
+// GET /api/review-queue — Open todos whose classification is below the confidence threshold,
+// least certain first. Confirm or correct them with POST /api/todos/correct.
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const thresholdParam = url.searchParams.get("threshold");
+    const threshold = thresholdParam !== null ? parseFloat(thresholdParam) : DEFAULT_REVIEW_THRESHOLD;
+    if (!Number.isFinite(threshold) || threshold < 0 || threshold > 1) {
+      return NextResponse.json({ error: "threshold must be between 0 and 1" }, { status: 400 });
+    }
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") || "50", 10) || 50, 1), 100);
+    const offset = Math.max(parseInt(url.searchParams.get("offset") || "0", 10) || 0, 0);
+
+    // Not yet confirmed or corrected; rule-decided and unassessed todos never queue
+    const whereClause = and(
+      eq(schema.dashTodos.status, "open"),
+      lt(schema.dashTodos.confidence, threshold),
+      isNull(schema.dashTodos.reviewedAt),
+      sql`${schema.dashTodos.aiCorrected} IS NOT TRUE`,
+      isNull(schema.dashTodos.classificationRuleId)
+    );
+
+    const [todos, countResult] = await Promise.all([
+      db
+        .select()
+        .from(schema.dashTodos)
+        .where(whereClause)
+        .orderBy(asc(schema.dashTodos.confidence), asc(schema.dashTodos.firstDetectedAt))
+        .limit(limit)
+        .offset(offset),
+
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(schema.dashTodos)
+        .where(whereClause),
+    ]);
+
+    return NextResponse.json({
+      threshold,
+      items: todos.map((todo) => ({
+        ...todo,
+        lowConfidenceFields: lowConfidenceFields(todo.confidenceDetails as CategorizationConfidence | null, threshold),
+      })),
+      total: countResult[0]?.count ?? 0,
+    });
+  } catch (error) {
+    console.error("Error fetching review queue:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch review queue" },
+      { status: 500 }
+    );
+  }
+}
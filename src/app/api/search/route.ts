@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { schema } from "@/db";
+import type { Category } from "@/db/schema";
+import { searchEmails } from "@/search/email-search";
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/search — Full-text search over emails and PO attachments, grouped by thread
+// q supports "quoted phrases", OR and -exclusions; since/until are dates (until is inclusive)
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const query = url.searchParams.get("q")?.trim();
+    const category = url.searchParams.get("category");
+    const hasPo = url.searchParams.get("hasPo");
+    const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") || "20", 10) || 20, 1), 50);
+    const offset = Math.max(parseInt(url.searchParams.get("offset") || "0", 10) || 0, 0);
+
+    if (!query) {
+      return NextResponse.json({ error: "q is required" }, { status: 400 });
+    }
+    if (category && !schema.categoryEnum.enumValues.includes(category as Category)) {
+      return NextResponse.json({ error: `Invalid category "${category}"` }, { status: 400 });
+    }
+
+    const since = parseDate(url.searchParams.get("since"));
+    const until = parseDate(url.searchParams.get("until"));
+    if (since === null || until === null) {
+      return NextResponse.json({ error: "since/until must be dates (YYYY-MM-DD)" }, { status: 400 });
+    }
+    // Include the whole "until" day
+    if (until) until.setUTCDate(until.getUTCDate() + 1);
+
+    const { total, results } = await searchEmails({
+      query,
+      since,
+      until,
+      mailbox: url.searchParams.get("mailbox") || undefined,
+      account: url.searchParams.get("account") || undefined,
+      category: (category as Category) || undefined,
+      hasPo: hasPo === null ? undefined : hasPo === "true",
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({ query, results, total });
+  } catch (error) {
+    console.error("Error searching emails:", error);
+    return NextResponse.json(
+      { error: "Failed to search emails" },
+      { status: 500 }
+    );
+  }
+}
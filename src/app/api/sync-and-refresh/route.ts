@@ -43,7 +43,7 @@ export async function POST() {
   try {
     // Step 1: Sync emails from IMAP
     console.log("[sync-and-refresh] Syncing emails from IMAP...");
-    const syncResult = await syncEmails();
+    const syncResult = await syncEmails({ trigger: "button" });
     console.log(`[sync-and-refresh] Synced ${syncResult.emailsSynced} emails`);
 
     // Step 2: Determine time window
@@ -61,7 +61,7 @@ export async function POST() {
 
     // Step 5: Upsert into dash_todos
     console.log("[sync-and-refresh] Syncing to dash_todos...");
-    const todoResult = await syncDashTodos(threads, todos);
+    const todoResult = await syncDashTodos(threads, todos, { resolveDeleted: true });
     console.log(`[sync-and-refresh] Result: ${todoResult.newTodos} new, ${todoResult.resolvedTodos} resolved, ${todoResult.updatedThreads} updated`);
 
     return NextResponse.json({
@@ -4,7 +4,7 @@ import { syncEmails } from "@/sync/syncer";
 export async function POST() {
   try {
     // Sync emails from IMAP
-    const syncResult = await syncEmails();
+    const syncResult = await syncEmails({ trigger: "button" });
 
     return NextResponse.json({
       success: true,
@@ -12,6 +12,10 @@ export async function POST() {
         emailsSynced: syncResult.emailsSynced,
         mailboxesProcessed: syncResult.mailboxesProcessed,
         errors: syncResult.errors,
+        emailsPerSecond: syncResult.emailsPerSecond,
+        fetchDurationMs: syncResult.fetchDurationMs,
+        emailsDeleted: syncResult.emailsDeleted,
+        emailsMoved: syncResult.emailsMoved,
       },
     });
   } catch (error) {
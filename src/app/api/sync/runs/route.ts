@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { getRecentSyncRuns, getSyncHealth } from "@/sync/sync-runs";
+
+// Returns recent sync runs plus the health summary shown in the dashboard header
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get("limit") || "20", 10)));
+
+    const [runs, health] = await Promise.all([getRecentSyncRuns(limit), getSyncHealth()]);
+
+    return NextResponse.json({ runs, health });
+  } catch (error: unknown) {
+    console.error("Error fetching sync runs:", error);
+    const message = error instanceof Error ? error.message : "Failed to fetch sync runs";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,22 +1,34 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db, schema } from "@/db";
-import { eq, or, sql, inArray } from "drizzle-orm";
-import { generateThreadId, normalizeSubject } from "@/sync/threader";
+import { eq } from "drizzle-orm";
+import { explainThread, findThreadEmails } from "@/sync/threader";
+import { getMailboxRole } from "@/sync/mailboxes";
+import { parseAddressList } from "@/imap/parsers";
+import { sanitizeEmailHtml } from "@/imap/html-sanitizer";
+import { cleanEmailBody, getCleanBody } from "@/imap/body-cleaner";
+import { isOwnAddress } from "@/imap/client";
 import type { Email } from "@/db/schema";
 
-const OUR_DOMAIN = "masprecisionparts.com";
-
 function isOutbound(email: Email): boolean {
-  if (email.mailbox === "Sent" || email.mailbox === "Sent Items" || email.mailbox === "INBOX.Sent" || email.mailbox === "INBOX.Sent Messages") {
+  if (getMailboxRole(email) === "outbound") {
     return true;
   }
-  if (email.fromAddress?.toLowerCase().includes(OUR_DOMAIN)) {
+  if (isOwnAddress(email.fromAddress)) {
     return true;
   }
-  return false;
+  // Sent on our behalf by another service (Reply-To points back to us)
+  const replyTo = parseAddressList(email.replyTo);
+  return replyTo.length > 0 && replyTo.every(isOwnAddress);
+}
+
+function strippedParts(email: Email) {
+  const { quoted, signature, disclaimer } = cleanEmailBody(email.bodyText, email.subject);
+  return { quoted, signature, disclaimer };
 }
 
 // GET /api/threads/[threadKey]/emails — Full email thread for popup
+// bodyClean is bodyText without quoted history/signature/disclaimer; ?full=true adds the stripped parts
+// ?explain=true is the threader's diagnostic mode: the rule that joined each email, and the thread's merges/splits
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ threadKey: string }> }
@@ -24,6 +36,8 @@ export async function GET(
   try {
     const { threadKey: rawThreadKey } = await params;
     const threadKey = decodeURIComponent(rawThreadKey);
+    const full = request.nextUrl.searchParams.get("full") === "true";
+    const explain = request.nextUrl.searchParams.get("explain") === "true";
 
     if (!threadKey) {
       return NextResponse.json(
@@ -40,92 +54,9 @@ export async function GET(
 
     const todo = todos[0] ?? null;
 
-    // Find emails belonging to this thread.
-    // thread_key is typically a message ID (e.g. <abc@example.com>) or subject:normalized
-    // Strategy: find all emails whose generated threadId matches this threadKey
-    let threadEmails: Email[] = [];
-
-    if (threadKey.startsWith("subject:")) {
-      // Subject-based thread key — match by normalized subject
-      const normSubject = threadKey.slice("subject:".length);
-      const allEmails = await db.select().from(schema.emails);
-      threadEmails = allEmails.filter(
-        (e) => normalizeSubject(e.subject) === normSubject
-      );
-    } else {
-      // Message-ID-based thread key — find by references chain
-      // Pass 1: find directly related emails
-      const directMatches = await db
-        .select()
-        .from(schema.emails)
-        .where(
-          or(
-            eq(schema.emails.messageId, threadKey),
-            eq(schema.emails.inReplyTo, threadKey),
-            sql`${schema.emails.references} LIKE ${"%" + threadKey + "%"}`
-          )
-        );
-
-      if (directMatches.length === 0) {
-        // Fall back: try finding via report_threads subject
-        if (todo?.subject) {
-          const normSubject = normalizeSubject(todo.subject);
-          if (normSubject && normSubject.length > 10) {
-            const allEmails = await db.select().from(schema.emails);
-            threadEmails = allEmails.filter(
-              (e) => normalizeSubject(e.subject) === normSubject
-            );
-          }
-        }
-      } else {
-        // Collect all message IDs for transitive expansion
-        const emailMap = new Map<number, Email>();
-        const collectedMsgIds = new Set<string>();
-
-        for (const email of directMatches) {
-          emailMap.set(email.id, email);
-          if (email.messageId) collectedMsgIds.add(email.messageId);
-          if (email.inReplyTo) collectedMsgIds.add(email.inReplyTo);
-          if (email.references) {
-            for (const ref of email.references.split(/\s+/).filter(Boolean)) {
-              collectedMsgIds.add(ref);
-            }
-          }
-        }
-
-        // Pass 2: expand transitively using collected message IDs
-        const msgIdArray = Array.from(collectedMsgIds);
-        if (msgIdArray.length > 0) {
-          const expandedConditions = [
-            inArray(schema.emails.messageId, msgIdArray),
-            inArray(schema.emails.inReplyTo, msgIdArray),
-          ];
-          for (const msgId of msgIdArray) {
-            expandedConditions.push(
-              sql`${schema.emails.references} LIKE ${"%" + msgId + "%"}`
-            );
-          }
-
-          const expanded = await db
-            .select()
-            .from(schema.emails)
-            .where(or(...expandedConditions));
-
-          for (const email of expanded) {
-            emailMap.set(email.id, email);
-          }
-        }
-
-        threadEmails = Array.from(emailMap.values());
-      }
-    }
-
-    // Sort chronologically
-    threadEmails.sort((a, b) => {
-      const dateA = a.date?.getTime() || 0;
-      const dateB = b.date?.getTime() || 0;
-      return dateA - dateB;
-    });
+    const threadEmails = await findThreadEmails(threadKey, todo?.subject);
+    const explanation = explain ? await explainThread(threadKey, todo?.subject) : null;
+    const matchByEmailId = new Map(explanation?.emails.map((e) => [e.emailId, e.match]) ?? []);
 
     // Format response
     const formattedEmails = threadEmails.map((e) => ({
@@ -133,12 +64,21 @@ export async function GET(
       fromAddress: e.fromAddress,
       fromName: e.fromName,
       toAddresses: e.toAddresses,
+      ccAddresses: e.ccAddresses,
+      bccAddresses: e.bccAddresses,
+      replyTo: e.replyTo,
       subject: e.subject,
       bodyText: e.bodyText,
+      bodyClean: getCleanBody(e),
+      ...(full ? strippedParts(e) : {}),
+      bodyHtml: sanitizeEmailHtml(e.bodyHtml),
       date: e.date,
       isOutbound: isOutbound(e),
       hasAttachments: e.hasAttachments,
       attachments: e.attachments,
+      serverState: e.serverState,
+      movedTo: e.movedTo,
+      ...(explain ? { threadMatch: matchByEmailId.get(e.id) ?? null } : {}),
     }));
 
     return NextResponse.json({
@@ -156,6 +96,7 @@ export async function GET(
           }
         : null,
       emails: formattedEmails,
+      ...(explain ? { threadId: explanation?.threadId ?? null, overrides: explanation?.overrides ?? [] } : {}),
     });
   } catch (error) {
     console.error("Error fetching thread emails:", error);
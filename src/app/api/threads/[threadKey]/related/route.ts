@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db, schema } from "@/db";
+import { inArray } from "drizzle-orm";
+import { getThreadLinks, resolveMergedThreadKeys } from "@/report/thread-links";
+
+// GET /api/threads/[threadKey]/related — Threads linked to this one (RFQ → quote → PO → invoice, forwards)
+// Each link is seen from this thread: direction "upstream" is an earlier stage, "downstream" a later one
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ threadKey: string }> }
+) {
+  try {
+    const { threadKey: rawThreadKey } = await params;
+    const requestedKey = decodeURIComponent(rawThreadKey);
+
+    if (!requestedKey) {
+      return NextResponse.json(
+        { error: "threadKey is required" },
+        { status: 400 }
+      );
+    }
+
+    // A thread merged into another answers with the links of the one it became
+    const threadKey = (await resolveMergedThreadKeys([requestedKey])).get(requestedKey)?.threadKey ?? requestedKey;
+    const links = await getThreadLinks(threadKey);
+    const otherKeys = [...new Set(links.map((link) => (link.fromThreadKey === threadKey ? link.toThreadKey : link.fromThreadKey)))];
+
+    const [threads, todos] = otherKeys.length > 0
+      ? await Promise.all([
+          db
+            .select({ threadKey: schema.threads.threadKey, subject: schema.threads.subject, lastEmailDate: schema.threads.lastEmailDate })
+            .from(schema.threads)
+            .where(inArray(schema.threads.threadKey, otherKeys)),
+          db
+            .select({
+              id: schema.dashTodos.id,
+              threadKey: schema.dashTodos.threadKey,
+              subject: schema.dashTodos.subject,
+              status: schema.dashTodos.status,
+              todoType: schema.dashTodos.todoType,
+              contactName: schema.dashTodos.contactName,
+            })
+            .from(schema.dashTodos)
+            .where(inArray(schema.dashTodos.threadKey, otherKeys)),
+        ])
+      : [[], []];
+
+    const threadByKey = new Map(threads.map((thread) => [thread.threadKey, thread]));
+    const todoByKey = new Map(todos.map((todo) => [todo.threadKey, todo]));
+
+    const related = links.map((link) => {
+      const upstream = link.toThreadKey === threadKey;
+      const otherKey = upstream ? link.fromThreadKey : link.toThreadKey;
+      return {
+        id: link.id,
+        threadKey: otherKey,
+        linkType: link.linkType,
+        direction: upstream ? "upstream" : "downstream",
+        source: link.source,
+        poNumber: link.poNumber,
+        subject: threadByKey.get(otherKey)?.subject ?? todoByKey.get(otherKey)?.subject ?? null,
+        lastEmailDate: threadByKey.get(otherKey)?.lastEmailDate ?? null,
+        todo: todoByKey.get(otherKey) ?? null,
+        linkedAt: link.createdAt,
+      };
+    });
+
+    return NextResponse.json({ threadKey, related });
+  } catch (error) {
+    console.error("Error fetching related threads:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch related threads" },
+      { status: 500 }
+    );
+  }
+}
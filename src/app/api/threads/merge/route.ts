@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db, schema } from "@/db";
+import { eq } from "drizzle-orm";
+import { resolveThreadIds } from "@/sync/threader";
+import { mergeThreads } from "@/sync/thread-assigner";
+
+// POST /api/threads/merge — Merge threads the threader kept apart (e.g. a PO reply with a broken In-Reply-To)
+// Body: { threadKey, mergeThreadKeys: string[], reason? } — threadKey survives; todos and alerts move to it
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { threadKey, mergeThreadKeys, reason } = body;
+
+    if (
+      typeof threadKey !== "string" ||
+      !threadKey ||
+      !Array.isArray(mergeThreadKeys) ||
+      mergeThreadKeys.length === 0 ||
+      !mergeThreadKeys.every((key) => typeof key === "string")
+    ) {
+      return NextResponse.json(
+        { error: "threadKey and a non-empty mergeThreadKeys array are required" },
+        { status: 400 }
+      );
+    }
+
+    const allKeys: string[] = [threadKey, ...mergeThreadKeys];
+    const resolved = await resolveThreadIds(allKeys);
+    const missing = allKeys.filter((key) => !resolved.has(key));
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: "Thread not found (its emails may not be threaded yet - run a sync)", threadKeys: missing },
+        { status: 404 }
+      );
+    }
+
+    const targetId = resolved.get(threadKey)!;
+    const sourceIds = mergeThreadKeys.map((key: string) => resolved.get(key)!).filter((id) => id !== targetId);
+    if (sourceIds.length === 0) {
+      return NextResponse.json({ error: "Threads are already merged" }, { status: 400 });
+    }
+
+    const override = await mergeThreads(targetId, sourceIds, {
+      createdBy: "dashboard",
+      reason: typeof reason === "string" ? reason : null,
+    });
+
+    const [thread] = await db
+      .select()
+      .from(schema.threads)
+      .where(eq(schema.threads.id, targetId));
+
+    return NextResponse.json({
+      success: true,
+      threadKey: thread.threadKey,
+      mergedThreadKeys: override?.otherThreadKeys ?? [],
+      repointed: override?.repointed ?? null,
+      overrideId: override?.id ?? null,
+    });
+  } catch (error) {
+    console.error("Error merging threads:", error);
+    return NextResponse.json(
+      { error: "Failed to merge threads" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db, schema } from "@/db";
+import { and, desc, eq, or, sql, type SQL } from "drizzle-orm";
+
+// GET /api/threads/overrides — Audit trail of thread merges and splits
+// Query params: threadKey (either side of the merge/split), createdBy (dashboard | threader), limit
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const threadKey = searchParams.get("threadKey");
+    const createdBy = searchParams.get("createdBy");
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50", 10) || 50, 1), 200);
+
+    const conditions: SQL[] = [];
+    if (threadKey) {
+      conditions.push(
+        or(
+          eq(schema.threadOverrides.threadKey, threadKey),
+          sql`${threadKey} = ANY(${schema.threadOverrides.otherThreadKeys})`
+        )!
+      );
+    }
+    if (createdBy) {
+      conditions.push(eq(schema.threadOverrides.createdBy, createdBy));
+    }
+
+    const overrides = await db
+      .select()
+      .from(schema.threadOverrides)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(schema.threadOverrides.createdAt))
+      .limit(limit);
+
+    return NextResponse.json({ overrides });
+  } catch (error) {
+    console.error("Error fetching thread overrides:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch thread overrides" },
+      { status: 500 }
+    );
+  }
+}
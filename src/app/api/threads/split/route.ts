@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db, schema } from "@/db";
+import { eq } from "drizzle-orm";
+import { resolveThreadId } from "@/sync/threader";
+import { splitThread } from "@/sync/thread-assigner";
+
+// POST /api/threads/split — Move emails the threader wrongly joined (e.g. two customers' "RFQ") into a new thread
+// Body: { threadKey, emailIds: number[], reason? } — todos and alerts stay with threadKey
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { threadKey, emailIds, reason } = body;
+
+    if (
+      typeof threadKey !== "string" ||
+      !threadKey ||
+      !Array.isArray(emailIds) ||
+      emailIds.length === 0 ||
+      !emailIds.every((id) => Number.isInteger(id))
+    ) {
+      return NextResponse.json(
+        { error: "threadKey and a non-empty emailIds array are required" },
+        { status: 400 }
+      );
+    }
+
+    const threadId = await resolveThreadId(threadKey);
+    if (threadId == null) {
+      return NextResponse.json(
+        { error: "Thread not found (its emails may not be threaded yet - run a sync)" },
+        { status: 404 }
+      );
+    }
+
+    const threadEmails = await db
+      .select({ id: schema.emails.id })
+      .from(schema.emails)
+      .where(eq(schema.emails.threadId, threadId));
+    const inThread = new Set(threadEmails.map((email) => email.id));
+
+    const notInThread = emailIds.filter((id: number) => !inThread.has(id));
+    if (notInThread.length > 0) {
+      return NextResponse.json(
+        { error: "Some emails are not in this thread", emailIds: notInThread },
+        { status: 400 }
+      );
+    }
+    if (new Set(emailIds).size >= inThread.size) {
+      return NextResponse.json(
+        { error: "Leave at least one email in the original thread" },
+        { status: 400 }
+      );
+    }
+
+    const { override, thread } = await splitThread(threadId, emailIds, {
+      createdBy: "dashboard",
+      reason: typeof reason === "string" ? reason : null,
+    });
+
+    return NextResponse.json({
+      success: true,
+      threadKey: override.threadKey,
+      newThreadKey: thread.threadKey,
+      movedEmailIds: override.emailIds,
+      overrideId: override.id,
+    });
+  } catch (error) {
+    console.error("Error splitting thread:", error);
+    return NextResponse.json(
+      { error: "Failed to split thread" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db, schema } from "@/db";
 import { eq } from "drizzle-orm";
+import { resolveThreadId } from "@/sync/threader";
 
 // Mark a todo as resolved by ID
 export async function PATCH(
@@ -48,6 +49,7 @@ export async function PATCH(
         .insert(schema.dismissedThreads)
         .values({
           threadKey,
+          threadId: await resolveThreadId(threadKey),
           dismissedAt: new Date(),
           reason: "manual",
         })
@@ -92,6 +94,7 @@ export async function PATCH(
       .insert(schema.dismissedThreads)
       .values({
         threadKey: todo.threadKey,
+        threadId: await resolveThreadId(todo.threadKey),
         dismissedAt: new Date(),
         reason: "manual",
       })
@@ -14,7 +14,9 @@ function deriveTodoType(category: Category, itemType: ItemType): TodoType {
   return "vendor_followup";
 }
 
-// POST /api/todos/correct — Record AI correction and update dash_todo
+// POST /api/todos/correct — Record AI correction and update dash_todo.
+// Either way the classification counts as reviewed; with no changed fields this confirms it
+// (takes it off /api/review-queue).
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -67,22 +69,30 @@ export async function POST(request: NextRequest) {
         correctedBy: "user",
         correctedAt: now,
         appliedToFuture: true,
+        model: todo.model,
+        promptVersion: todo.promptVersion,
       });
 
       correctedFields.push(field);
     }
 
     if (correctedFields.length === 0) {
+      await db
+        .update(schema.dashTodos)
+        .set({ reviewedAt: now, updatedAt: now })
+        .where(eq(schema.dashTodos.threadKey, threadKey));
+
       return NextResponse.json({
         success: true,
         correctedFields: [],
-        message: "No fields changed",
+        message: "No fields changed - classification confirmed",
       });
     }
 
     // Build the update object for dash_todos
     const updateData: Record<string, unknown> = {
       aiCorrected: true,
+      reviewedAt: now,
       updatedAt: now,
     };
 
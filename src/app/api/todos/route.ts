@@ -2,8 +2,10 @@ import { NextRequest, NextResponse } from "next/server";
 import { db, schema } from "@/db";
 import { eq, and, or, ilike, desc, asc, sql, inArray } from "drizzle-orm";
 import type { SQL } from "drizzle-orm";
+import { findLinkedOpenTodos } from "@/report/thread-links";
+import { getPrimaryAccountId } from "@/imap/client";
 
-// GET /api/todos — List dash_todos with filters, sorting, pagination
+// GET /api/todos — List dash_todos with filters, sorting, pagination (default: highest priority first)
 export async function GET(request: NextRequest) {
   try {
     const url = new URL(request.url);
@@ -12,10 +14,13 @@ export async function GET(request: NextRequest) {
     const itemType = url.searchParams.get("itemType");
     const todoType = url.searchParams.get("todoType");
     const search = url.searchParams.get("search");
-    const sortBy = url.searchParams.get("sortBy") || "date";
+    const account = url.searchParams.get("account");
+    const sortBy = url.searchParams.get("sortBy") || "priority";
     const sortOrder = url.searchParams.get("sortOrder") || "desc";
     const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") || "50", 10) || 50, 1), 100);
     const offset = Math.max(parseInt(url.searchParams.get("offset") || "0", 10) || 0, 0);
+    // Todos from before multi-account support have no accounts; they came from the primary account
+    const primaryAccount = getPrimaryAccountId();
 
     // Build WHERE conditions
     const conditions: SQL[] = [];
@@ -32,6 +37,13 @@ export async function GET(request: NextRequest) {
     if (todoType) {
       conditions.push(eq(schema.dashTodos.todoType, todoType as "po_unacknowledged" | "quote_unanswered" | "general_unanswered" | "vendor_followup"));
     }
+    if (account) {
+      conditions.push(
+        account === primaryAccount
+          ? sql`(${account} = ANY(${schema.dashTodos.accounts}) OR ${schema.dashTodos.accounts} IS NULL)`
+          : sql`${account} = ANY(${schema.dashTodos.accounts})`
+      );
+    }
     if (search) {
       conditions.push(
         or(
@@ -45,40 +57,42 @@ export async function GET(request: NextRequest) {
     const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
     // Determine sort column
-    let orderByClause;
+    let orderByClause: SQL[];
     const isDesc = sortOrder === "desc";
     switch (sortBy) {
       case "priority":
-        // Priority order: po_unacknowledged > quote_unanswered > general_unanswered > vendor_followup
+      default:
+        // Urgency score (see src/report/urgency.ts), oldest first among equals
         orderByClause = isDesc
-          ? desc(schema.dashTodos.todoType)
-          : asc(schema.dashTodos.todoType);
+          ? [desc(schema.dashTodos.priority), asc(schema.dashTodos.firstDetectedAt)]
+          : [asc(schema.dashTodos.priority), asc(schema.dashTodos.firstDetectedAt)];
         break;
       case "contact":
         orderByClause = isDesc
-          ? desc(schema.dashTodos.contactName)
-          : asc(schema.dashTodos.contactName);
+          ? [desc(schema.dashTodos.contactName)]
+          : [asc(schema.dashTodos.contactName)];
         break;
       case "category":
         orderByClause = isDesc
-          ? desc(schema.dashTodos.category)
-          : asc(schema.dashTodos.category);
+          ? [desc(schema.dashTodos.category)]
+          : [asc(schema.dashTodos.category)];
         break;
       case "date":
-      default:
         orderByClause = isDesc
-          ? desc(schema.dashTodos.firstDetectedAt)
-          : asc(schema.dashTodos.firstDetectedAt);
+          ? [desc(schema.dashTodos.firstDetectedAt)]
+          : [asc(schema.dashTodos.firstDetectedAt)];
         break;
     }
 
     // Execute main query and count query in parallel
-    const [todos, countResult, filterCounts] = await Promise.all([
+    const statusClause = status && status !== "all" ? eq(schema.dashTodos.status, status as "open" | "resolved" | "dismissed") : undefined;
+
+    const [todos, countResult, filterCounts, accountCounts] = await Promise.all([
       db
         .select()
         .from(schema.dashTodos)
         .where(whereClause)
-        .orderBy(orderByClause)
+        .orderBy(...orderByClause)
         .limit(limit)
         .offset(offset),
 
@@ -95,8 +109,16 @@ export async function GET(request: NextRequest) {
         cnt: sql<number>`count(*)::int`,
       })
         .from(schema.dashTodos)
-        .where(status && status !== "all" ? eq(schema.dashTodos.status, status as "open" | "resolved" | "dismissed") : undefined)
+        .where(statusClause)
         .groupBy(schema.dashTodos.category, schema.dashTodos.itemType, schema.dashTodos.todoType),
+
+      // A thread seen by several accounts counts towards each of them
+      db.execute<{ account: string; cnt: number }>(sql`
+        SELECT account, count(*)::int AS cnt
+        FROM ${schema.dashTodos}, unnest(coalesce(${schema.dashTodos.accounts}, ARRAY[${primaryAccount}]::text[])) AS account
+        ${statusClause ? sql`WHERE ${statusClause}` : sql``}
+        GROUP BY account
+      `),
     ]);
 
     // Aggregate filter counts into friendly format
@@ -104,6 +126,11 @@ export async function GET(request: NextRequest) {
     const todoTypes: Record<string, number> = {};
     const itemTypes: Record<string, number> = {};
 
+    const accounts: Record<string, number> = {};
+    for (const row of accountCounts) {
+      accounts[row.account] = row.cnt;
+    }
+
     for (const row of filterCounts) {
       categories[row.category] = (categories[row.category] || 0) + row.cnt;
       todoTypes[row.todoType] = (todoTypes[row.todoType] || 0) + row.cnt;
@@ -113,7 +140,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       todos,
       total: countResult[0]?.count ?? 0,
-      filters: { categories, todoTypes, itemTypes },
+      filters: { categories, todoTypes, itemTypes, accounts },
     });
   } catch (error) {
     console.error("Error fetching todos:", error);
@@ -125,10 +152,12 @@ export async function GET(request: NextRequest) {
 }
 
 // POST /api/todos — Bulk resolve or dismiss
+// Returns the open todos of linked threads (see /api/threads/[threadKey]/related);
+// with resolveLinked: true a resolve also closes those at an earlier stage (the RFQ and quote behind a PO)
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { action, threadKeys } = body;
+    const { action, threadKeys, resolveLinked } = body;
 
     if (!action || !["resolve", "dismiss"].includes(action)) {
       return NextResponse.json(
@@ -161,15 +190,16 @@ export async function POST(request: NextRequest) {
           eq(schema.dashTodos.status, "open")
         )
       )
-      .returning({ threadKey: schema.dashTodos.threadKey });
+      .returning({ threadKey: schema.dashTodos.threadKey, threadId: schema.dashTodos.threadId });
 
     // For dismiss: also insert into email_dismissed_threads for backward compat
     if (action === "dismiss" && updated.length > 0) {
-      for (const { threadKey } of updated) {
+      for (const { threadKey, threadId } of updated) {
         await db
           .insert(schema.dismissedThreads)
           .values({
             threadKey,
+            threadId,
             dismissedAt: now,
             reason: "manual",
           })
@@ -177,18 +207,47 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Resolving a later stage settles the earlier ones
+    let linkedResolved: string[] = [];
+    if (action === "resolve" && resolveLinked === true) {
+      const upstream = await findLinkedOpenTodos(threadKeys, { upstreamOnly: true });
+      if (upstream.length > 0) {
+        const resolvedLinked = await db
+          .update(schema.dashTodos)
+          .set({
+            status: "resolved",
+            resolvedAt: now,
+            resolvedBy: "linked_thread",
+            updatedAt: now,
+          })
+          .where(
+            and(
+              inArray(schema.dashTodos.id, upstream.map((todo) => todo.id)),
+              eq(schema.dashTodos.status, "open")
+            )
+          )
+          .returning({ threadKey: schema.dashTodos.threadKey });
+        linkedResolved = resolvedLinked.map((r) => r.threadKey);
+      }
+    }
+
     // For resolve: also mark legacy email_todo_items as resolved
-    if (updated.length > 0) {
-      const updatedKeys = updated.map((r) => r.threadKey);
+    if (updated.length > 0 || linkedResolved.length > 0) {
+      const updatedKeys = [...updated.map((r) => r.threadKey), ...linkedResolved];
       await db
         .update(schema.todoItems)
         .set({ resolved: true, resolvedAt: now })
         .where(inArray(schema.todoItems.threadKey, updatedKeys));
     }
 
+    // Whatever is still open on linked threads, for the user to look at next
+    const linkedOpenTodos = await findLinkedOpenTodos(threadKeys);
+
     return NextResponse.json({
       success: true,
       updatedCount: updated.length,
+      linkedResolved,
+      linkedOpenTodos,
     });
   } catch (error) {
     console.error("Error bulk updating todos:", error);
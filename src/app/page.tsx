@@ -4,8 +4,34 @@ import { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { RefreshCw, Loader2, Mail, FileText, Calendar, ChevronLeft, ChevronRight, Sun, Clock, Coffee } from "lucide-react";
-import type { DailyReport } from "@/db/schema";
+import { RefreshCw, Loader2, Mail, FileText, Calendar, ChevronLeft, ChevronRight, Sun, Clock, Coffee, AlertTriangle, Cpu, ListTodo } from "lucide-react";
+import type { DailyReport, DashTodo } from "@/db/schema";
+
+interface SyncHealth {
+  lastSuccessfulAt: string | null;
+  warnings: string[];
+}
+
+interface AiUsage {
+  days: Array<{ date: string; purpose: string; calls: number; failedCalls: number; costUsd: number }>;
+  budget: { dailyBudgetUsd: number | null; spentTodayUsd: number; exhausted: boolean };
+}
+
+const AI_PURPOSE_LABELS: Record<string, string> = {
+  categorize_batch: "Categorize (batch)",
+  categorize_thread: "Categorize (single)",
+  summarize: "Summaries",
+  rank_attachments: "Attachment ranking",
+  analyze_pdf: "PDF analysis",
+};
+
+interface OpenTodos {
+  todos: DashTodo[];
+  total: number;
+  accounts: Record<string, number>; // Open todos per mail account
+}
+
+const formatUsd = (amount: number) => `$${amount.toFixed(amount < 1 ? 3 : 2)}`;
 
 export default function Dashboard() {
   const [reports, setReports] = useState<DailyReport[]>([]);
@@ -14,8 +40,28 @@ export default function Dashboard() {
   const [error, setError] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
   const [selectedType, setSelectedType] = useState<"daily_summary" | "morning_reminder" | "midday_report">("daily_summary");
+  const [syncHealth, setSyncHealth] = useState<SyncHealth | null>(null);
+  const [aiUsage, setAiUsage] = useState<AiUsage | null>(null);
+  const [openTodos, setOpenTodos] = useState<OpenTodos | null>(null);
+  const [selectedAccount, setSelectedAccount] = useState<string>(""); // "" = all accounts
   const reportContainerRef = useRef<HTMLDivElement>(null);
 
+  // AI spend per day, one column per purpose
+  const aiUsageByDay = useMemo(() => {
+    if (!aiUsage) return [];
+    const byDay = new Map<string, Map<string, number>>();
+    for (const row of aiUsage.days) {
+      const purposes = byDay.get(row.date) ?? new Map<string, number>();
+      purposes.set(row.purpose, row.costUsd);
+      byDay.set(row.date, purposes);
+    }
+    return [...byDay.entries()].map(([date, purposes]) => ({
+      date,
+      purposes,
+      total: [...purposes.values()].reduce((sum, cost) => sum + cost, 0),
+    }));
+  }, [aiUsage]);
+
   // Get unique dates from reports
   const availableDates = useMemo(() => {
     const dates = [...new Set(reports.map((r) => r.reportDate))].sort().reverse();
@@ -62,6 +108,46 @@ export default function Dashboard() {
     }
   }, [selectedDate]);
 
+  const fetchSyncHealth = useCallback(async () => {
+    try {
+      const response = await fetch("/api/sync/runs?limit=1");
+      if (!response.ok) throw new Error("Failed to fetch sync status");
+
+      const data = await response.json();
+      setSyncHealth(data.health);
+    } catch (err) {
+      // Sync status is informational; don't replace the report error banner
+      console.error(err);
+    }
+  }, []);
+
+  const fetchAiUsage = useCallback(async () => {
+    try {
+      const response = await fetch("/api/ai/usage?days=7");
+      if (!response.ok) throw new Error("Failed to fetch AI usage");
+
+      setAiUsage(await response.json());
+    } catch (err) {
+      // Informational like sync status
+      console.error(err);
+    }
+  }, []);
+
+  const fetchOpenTodos = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ status: "open", limit: "10" });
+      if (selectedAccount) params.set("account", selectedAccount);
+      const response = await fetch(`/api/todos?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch todos");
+
+      const data = await response.json();
+      setOpenTodos({ todos: data.todos, total: data.total, accounts: data.filters.accounts });
+    } catch (err) {
+      // Informational like sync status
+      console.error(err);
+    }
+  }, [selectedAccount]);
+
   const handleGenerateReport = async () => {
     setGenerating(true);
     setError(null);
@@ -78,6 +164,9 @@ export default function Dashboard() {
       console.error(err);
     } finally {
       setGenerating(false);
+      fetchSyncHealth();
+      fetchAiUsage();
+      fetchOpenTodos();
     }
   };
 
@@ -96,6 +185,18 @@ export default function Dashboard() {
     fetchReports();
   }, [fetchReports]);
 
+  useEffect(() => {
+    fetchSyncHealth();
+  }, [fetchSyncHealth]);
+
+  useEffect(() => {
+    fetchAiUsage();
+  }, [fetchAiUsage]);
+
+  useEffect(() => {
+    fetchOpenTodos();
+  }, [fetchOpenTodos]);
+
   // Handle clicks on "Mark Complete" buttons in the report HTML
   useEffect(() => {
     const container = reportContainerRef.current;
@@ -191,6 +292,18 @@ export default function Dashboard() {
     });
   };
 
+  const formatDateTime = (dateStr: string | Date | null) => {
+    if (!dateStr) return "";
+    const date = new Date(dateStr);
+    return date.toLocaleString("en-US", {
+      timeZone: "America/New_York",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  };
+
   return (
     <main className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -205,6 +318,20 @@ export default function Dashboard() {
             </p>
           </div>
           <div className="flex items-center gap-4">
+            {syncHealth && (
+              <div className="text-right text-sm">
+                <p className="text-muted-foreground">
+                  Last successful sync:{" "}
+                  {syncHealth.lastSuccessfulAt ? formatDateTime(syncHealth.lastSuccessfulAt) : "never"}
+                </p>
+                {syncHealth.warnings.map((warning) => (
+                  <p key={warning} className="flex items-center justify-end gap-1 text-amber-600">
+                    <AlertTriangle className="h-3 w-3" />
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            )}
             <Button onClick={handleGenerateReport} disabled={generating}>
               {generating ? (
                 <>
@@ -231,6 +358,106 @@ export default function Dashboard() {
 
       {/* Main content */}
       <div className="max-w-6xl mx-auto p-6">
+        {/* AI Spend */}
+        {aiUsage && (
+          <Card className="mb-4">
+            <CardHeader className="pb-2">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Cpu className="h-4 w-4 text-muted-foreground" />
+                  AI Spend
+                </CardTitle>
+                {aiUsage.budget.exhausted ? (
+                  <Badge variant="destructive">Budget reached - rules only</Badge>
+                ) : (
+                  <Badge variant="secondary">
+                    Today {formatUsd(aiUsage.budget.spentTodayUsd)}
+                    {aiUsage.budget.dailyBudgetUsd !== null && ` of ${formatUsd(aiUsage.budget.dailyBudgetUsd)}`}
+                  </Badge>
+                )}
+              </div>
+              <CardDescription>Estimated cost of model calls by purpose, last 7 days</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {aiUsageByDay.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No AI calls recorded</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="font-normal py-1">Day</th>
+                      {Object.values(AI_PURPOSE_LABELS).map((label) => (
+                        <th key={label} className="font-normal py-1 text-right">{label}</th>
+                      ))}
+                      <th className="font-normal py-1 text-right">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {aiUsageByDay.map((day) => (
+                      <tr key={day.date} className="border-t">
+                        <td className="py-1">{formatDateShort(day.date)}</td>
+                        {Object.keys(AI_PURPOSE_LABELS).map((purpose) => (
+                          <td key={purpose} className="py-1 text-right">
+                            {day.purposes.has(purpose) ? formatUsd(day.purposes.get(purpose) ?? 0) : "-"}
+                          </td>
+                        ))}
+                        <td className="py-1 text-right font-medium">{formatUsd(day.total)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Open Action Items */}
+        {openTodos && (
+          <Card className="mb-4">
+            <CardHeader className="pb-2">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <ListTodo className="h-4 w-4 text-muted-foreground" />
+                  Open Action Items
+                  <Badge variant="secondary">{openTodos.total}</Badge>
+                </CardTitle>
+                {Object.keys(openTodos.accounts).length > 1 && (
+                  <select
+                    value={selectedAccount}
+                    onChange={(e) => setSelectedAccount(e.target.value)}
+                    className="text-sm border rounded px-2 py-1 bg-white"
+                  >
+                    <option value="">All accounts</option>
+                    {Object.entries(openTodos.accounts).map(([account, count]) => (
+                      <option key={account} value={account}>
+                        {account} ({count})
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <CardDescription>Highest priority first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {openTodos.todos.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No open action items</p>
+              ) : (
+                <ul className="text-sm divide-y">
+                  {openTodos.todos.map((todo) => (
+                    <li key={todo.id} className="py-2 flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{todo.subject || "(no subject)"}</p>
+                        <p className="text-muted-foreground truncate">{todo.contactName || todo.contactEmail}</p>
+                      </div>
+                      <Badge variant="outline">{todo.category}</Badge>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {loading ? (
           <div className="flex items-center justify-center py-20">
             <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
@@ -1,6 +1,9 @@
 import { db, schema } from "@/db";
-import { eq, and, inArray, desc } from "drizzle-orm";
+import { eq, and, or, inArray, desc, sql } from "drizzle-orm";
 import type { CategorizedThread, IdentifiedTodo } from "@/report/types";
+import { findDeletedThreadKeys } from "@/sync/threader";
+import { overallConfidence } from "@/report/confidence";
+import { earliestDeadlineDate } from "@/report/deadlines";
 import type { Category, ItemType, TodoType } from "@/db/schema";
 
 export interface TodoSyncResult {
@@ -17,10 +20,18 @@ export interface TodoSyncResult {
  * 1. For each identified todo → upsert into dash_todos
  * 2. For threads where we replied (lastEmailFromUs) → auto-resolve open todos
  * 3. For existing threads with new emails → update metadata
+ * 4. With `resolveDeleted`, for open todos whose emails were all deleted on the
+ *    server → resolve. This checks every open todo, so only the full sync
+ *    (sync-and-refresh, which reconciles deletions) asks for it.
+ *
+ * Category and itemType of existing todos are kept unless `reclassify` is set
+ * (re-categorization after a prompt change, src/report/recategorize.ts); staff
+ * corrections are never overwritten.
  */
 export async function syncDashTodos(
   threads: CategorizedThread[],
-  todos: IdentifiedTodo[]
+  todos: IdentifiedTodo[],
+  options: { reclassify?: boolean; resolveDeleted?: boolean } = {}
 ): Promise<TodoSyncResult> {
   const result: TodoSyncResult = { newTodos: 0, resolvedTodos: 0, updatedThreads: 0 };
   const now = new Date();
@@ -42,7 +53,12 @@ export async function syncDashTodos(
     ...todos.map((t) => t.threadKey),
   ])];
 
-  if (allThreadKeys.length === 0) return result;
+  if (allThreadKeys.length === 0) {
+    if (options.resolveDeleted) {
+      result.resolvedTodos += await resolveTodosForDeletedThreads(now);
+    }
+    return result;
+  }
 
   // Fetch existing dash_todos for these thread keys
   const existing = await db
@@ -83,18 +99,39 @@ export async function syncDashTodos(
           emailCount: thread.emailCount,
           lastEmailFromUs: thread.lastEmailFromUs,
           needsResponse: thread.needsResponse,
+          accounts: thread.accounts,
           updatedAt: now,
         };
 
+        // Rows written before threads were stored pick up the stable id
+        if (thread.threadId != null && existingTodo.threadId == null) {
+          updateData.threadId = thread.threadId;
+        }
+
         // Update summary if AI provided a new one
         if (thread.summary) {
           updateData.summary = thread.summary;
         }
 
+        // Fresh certainty for the (unchanged) classification; a staff correction settles it
+        if (thread.confidence && !existingTodo.aiCorrected) {
+          updateData.confidence = overallConfidence(thread.confidence);
+          updateData.confidenceDetails = thread.confidence;
+        }
+        if (options.reclassify && thread.model && !existingTodo.aiCorrected && existingTodo.classificationRuleId == null) {
+          updateData.category = thread.category;
+          updateData.itemType = thread.itemType;
+          updateData.model = thread.model;
+          updateData.provider = thread.provider;
+          updateData.promptVersion = thread.promptVersion;
+        }
+
         // If there's a new todo for an already-open item, update type/description
         if (todo && existingTodo.status === "open") {
           updateData.todoType = todo.todoType;
           updateData.description = todo.description;
+          updateData.priority = todo.priority;
+          updateData.priorityReasons = todo.priorityReasons;
           if (todo.contactName) updateData.contactName = todo.contactName;
           if (todo.contactEmail) updateData.contactEmail = todo.contactEmail;
         }
@@ -103,6 +140,10 @@ export async function syncDashTodos(
         if (thread.poDetails) {
           updateData.poDetails = thread.poDetails;
         }
+        if (thread.deadlines.length > 0) {
+          updateData.deadlines = thread.deadlines;
+          updateData.dueDate = earliestDeadlineDate(thread.deadlines);
+        }
         if (thread.isSuspicious) {
           updateData.isSuspicious = true;
         }
@@ -119,7 +160,11 @@ export async function syncDashTodos(
       const dismissed = await db
         .select({ id: schema.dismissedThreads.id })
         .from(schema.dismissedThreads)
-        .where(eq(schema.dismissedThreads.threadKey, threadKey))
+        .where(
+          thread.threadId != null
+            ? or(eq(schema.dismissedThreads.threadKey, threadKey), eq(schema.dismissedThreads.threadId, thread.threadId))
+            : eq(schema.dismissedThreads.threadKey, threadKey)
+        )
         .limit(1);
 
       if (dismissed.length > 0) {
@@ -128,6 +173,7 @@ export async function syncDashTodos(
           .insert(schema.dashTodos)
           .values({
             threadKey,
+            threadId: thread.threadId,
             todoType: todo.todoType,
             category: thread.category,
             itemType: thread.itemType,
@@ -146,6 +192,17 @@ export async function syncDashTodos(
             resolvedBy: "manual",
             poDetails: thread.poDetails,
             isSuspicious: thread.isSuspicious,
+            classificationRuleId: thread.classificationRuleId,
+            confidence: overallConfidence(thread.confidence),
+            confidenceDetails: thread.confidence,
+            priority: todo.priority,
+            priorityReasons: todo.priorityReasons,
+            deadlines: thread.deadlines,
+            dueDate: earliestDeadlineDate(thread.deadlines),
+            model: thread.model,
+            provider: thread.provider,
+            promptVersion: thread.promptVersion,
+            accounts: thread.accounts,
             createdAt: now,
             updatedAt: now,
           })
@@ -157,6 +214,7 @@ export async function syncDashTodos(
         .insert(schema.dashTodos)
         .values({
           threadKey,
+          threadId: thread.threadId,
           todoType: todo.todoType,
           category: thread.category,
           itemType: thread.itemType,
@@ -173,6 +231,17 @@ export async function syncDashTodos(
           status: "open",
           poDetails: thread.poDetails,
           isSuspicious: thread.isSuspicious,
+          classificationRuleId: thread.classificationRuleId,
+          confidence: overallConfidence(thread.confidence),
+          confidenceDetails: thread.confidence,
+          priority: todo.priority,
+          priorityReasons: todo.priorityReasons,
+          deadlines: thread.deadlines,
+          dueDate: earliestDeadlineDate(thread.deadlines),
+          model: thread.model,
+          provider: thread.provider,
+          promptVersion: thread.promptVersion,
+          accounts: thread.accounts,
           createdAt: now,
           updatedAt: now,
         })
@@ -182,16 +251,57 @@ export async function syncDashTodos(
     }
   }
 
+  if (options.resolveDeleted) {
+    result.resolvedTodos += await resolveTodosForDeletedThreads(now);
+  }
+
   return result;
 }
 
+// Deleting the emails (spam, phishing "POs") in a mail client closes their todos
+async function resolveTodosForDeletedThreads(now: Date): Promise<number> {
+  const openTodos = await db
+    .select({ id: schema.dashTodos.id, threadKey: schema.dashTodos.threadKey })
+    .from(schema.dashTodos)
+    .where(eq(schema.dashTodos.status, "open"));
+
+  const deletedKeys = await findDeletedThreadKeys(openTodos.map((t) => t.threadKey));
+  if (deletedKeys.size === 0) return 0;
+
+  // Counted from the rows updated - a todo resolved concurrently is no longer open
+  const resolved = await db
+    .update(schema.dashTodos)
+    .set({
+      status: "resolved",
+      resolvedAt: now,
+      resolvedBy: "email_deleted",
+      updatedAt: now,
+    })
+    .where(
+      and(
+        inArray(schema.dashTodos.threadKey, [...deletedKeys]),
+        eq(schema.dashTodos.status, "open")
+      )
+    )
+    .returning({ id: schema.dashTodos.id });
+
+  return resolved.length;
+}
+
+export interface PromptCorrections {
+  block: string; // Formatted to append to the classification prompt ("" = none)
+  correctionIds: number[];
+}
+
 /**
- * Load recent AI corrections for injection into AI prompts.
- * Returns formatted string to append to classification prompt.
+ * Load recent AI corrections for injection into AI prompts. Read-only: the
+ * caller counts the use with recordCorrectionInjections() once the prompt
+ * actually goes to a model.
  */
-export async function loadCorrectionsForPrompt(limit: number = 20): Promise<string> {
+export async function loadCorrectionsForPrompt(limit: number = 20): Promise<PromptCorrections> {
   const corrections = await db
     .select({
+      id: schema.dashAiCorrections.id,
       threadKey: schema.dashAiCorrections.threadKey,
       fieldCorrected: schema.dashAiCorrections.fieldCorrected,
       originalValue: schema.dashAiCorrections.originalValue,
@@ -202,7 +312,7 @@ export async function loadCorrectionsForPrompt(limit: number = 20): Promise<stri
     .orderBy(desc(schema.dashAiCorrections.correctedAt))
     .limit(limit);
 
-  if (corrections.length === 0) return "";
+  if (corrections.length === 0) return { block: "", correctionIds: [] };
 
   // Also look up subjects for context
   const threadKeys = [...new Set(corrections.map((c) => c.threadKey))];
@@ -218,5 +328,30 @@ export async function loadCorrectionsForPrompt(limit: number = 20): Promise<stri
     return `- Thread "${subject}" was classified as ${c.fieldCorrected}="${c.originalValue}" but should be ${c.fieldCorrected}="${c.correctedValue}"`;
   });
 
-  return `\nPREVIOUS CORRECTIONS (learn from these):\n${lines.join("\n")}\n`;
+  return {
+    block: `\nPREVIOUS CORRECTIONS (learn from these):\n${lines.join("\n")}\n`,
+    correctionIds: corrections.map((c) => c.id),
+  };
+}
+
+/**
+ * Count a use of each correction as a prompt example (injected_count, see
+ * src/ai/metrics.ts). Metrics only - a failure is logged, never thrown.
+ */
+export async function recordCorrectionInjections(correctionIds: number[]): Promise<void> {
+  if (correctionIds.length === 0) return;
+
+  try {
+    const now = new Date();
+    await db
+      .update(schema.dashAiCorrections)
+      .set({
+        injectedCount: sql`${schema.dashAiCorrections.injectedCount} + 1`,
+        firstInjectedAt: sql`COALESCE(${schema.dashAiCorrections.firstInjectedAt}, ${now})`,
+        lastInjectedAt: now,
+      })
+      .where(inArray(schema.dashAiCorrections.id, correctionIds));
+  } catch (error) {
+    console.warn("Could not record correction injection:", error);
+  }
 }
@@ -0,0 +1,49 @@
+import "dotenv/config";
+import { db, schema } from "@/db";
+import { and, eq, gt, isNull } from "drizzle-orm";
+import { cleanEmailBody } from "@/imap/body-cleaner";
+
+// Rows per SELECT; updates are issued one row at a time
+const BATCH_SIZE = 500;
+
+/**
+ * Fill email_messages.body_clean for rows synced before it existed.
+ * Rows left NULL are cleaned on read, so this only saves work at report time.
+ * Pass --force to re-clean every row (after changing the cleaner heuristics).
+ */
+async function backfill() {
+  const force = process.argv.slice(2).includes("--force");
+  let lastId = 0;
+  let updated = 0;
+
+  console.log(`Backfilling body_clean${force ? " (all rows)" : ""}...`);
+
+  while (true) {
+    const rows = await db
+      .select({ id: schema.emails.id, bodyText: schema.emails.bodyText, subject: schema.emails.subject })
+      .from(schema.emails)
+      .where(force ? gt(schema.emails.id, lastId) : and(gt(schema.emails.id, lastId), isNull(schema.emails.bodyClean)))
+      .orderBy(schema.emails.id)
+      .limit(BATCH_SIZE);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      await db
+        .update(schema.emails)
+        .set({ bodyClean: cleanEmailBody(row.bodyText, row.subject).text })
+        .where(eq(schema.emails.id, row.id));
+    }
+
+    updated += rows.length;
+    lastId = rows[rows.length - 1].id;
+    console.log(`  ${updated} rows cleaned`);
+  }
+
+  console.log(`Done: ${updated} rows`);
+  process.exit(0);
+}
+
+backfill().catch((error) => {
+  console.error("Backfill failed:", error);
+  process.exit(1);
+});
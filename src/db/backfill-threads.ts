@@ -0,0 +1,19 @@
+import "dotenv/config";
+import { assignPendingThreads } from "@/sync/thread-assigner";
+
+/**
+ * Assign email_threads to every email that has none yet, oldest first.
+ * The sync does the same after each run; this lets the first (slow) pass over
+ * the whole history happen ahead of time instead of inside a scheduled sync.
+ */
+async function backfill() {
+  console.log("Assigning threads to unthreaded emails...");
+  const assigned = await assignPendingThreads();
+  console.log(`Done: ${assigned} emails threaded`);
+  process.exit(0);
+}
+
+backfill().catch((error) => {
+  console.error("Backfill failed:", error);
+  process.exit(1);
+});
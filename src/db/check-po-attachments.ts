@@ -13,7 +13,7 @@ import "dotenv/config";
 import { db, schema } from "@/db";
 import { eq } from "drizzle-orm";
 import { deletePdf, isSupabaseConfigured } from "@/storage/supabase-client";
-import { groupEmailsIntoThreads } from "@/sync/threader";
+import { groupEmailsByThread } from "@/sync/threader";
 
 interface CheckResult {
   invalidAttachments: Array<{
@@ -74,7 +74,7 @@ async function checkAttachments(): Promise<CheckResult> {
   // Find po_received emails with PDF/DOC attachments but no entry in email_po_attachments
   // First get all emails and group into threads
   const allEmails = await db.select().from(schema.emails);
-  const threadMap = groupEmailsIntoThreads(allEmails);
+  const threadMap = await groupEmailsByThread(allEmails);
 
   console.log(`\nTotal emails: ${allEmails.length}`);
   console.log(`Total threads: ${threadMap.size}`);
@@ -7,23 +7,24 @@ async function check() {
   const syncMeta = await db.select().from(schema.syncMetadata);
   console.log("=== Sync Metadata ===");
   for (const m of syncMeta) {
-    console.log(`  ${m.mailbox}: last sync ${m.lastSyncAt}`);
+    console.log(`  ${m.account ?? "(legacy)"}/${m.mailbox}: last sync ${m.lastSyncAt}, last UID ${m.lastUid ?? "-"} (UIDVALIDITY ${m.uidValidity ?? "-"})`);
   }
 
   // Check email counts by mailbox
   const counts = await db
     .select({
+      account: schema.emails.account,
       mailbox: schema.emails.mailbox,
       count: count(),
       earliest: min(schema.emails.date),
       latest: max(schema.emails.date),
     })
     .from(schema.emails)
-    .groupBy(schema.emails.mailbox);
+    .groupBy(schema.emails.account, schema.emails.mailbox);
 
   console.log("\n=== Email Counts by Mailbox ===");
   for (const c of counts) {
-    console.log(`  ${c.mailbox}: ${c.count} emails`);
+    console.log(`  ${c.account ?? "(legacy)"}/${c.mailbox}: ${c.count} emails`);
     console.log(`    earliest: ${c.earliest}`);
     console.log(`    latest: ${c.latest}`);
   }
@@ -1,10 +1,16 @@
-import { pgTable, text, integer, serial, timestamp, boolean, date, jsonb, pgEnum, index, uniqueIndex } from "drizzle-orm/pg-core";
-import { sql } from "drizzle-orm";
+import { pgTable, text, integer, bigint, serial, timestamp, boolean, date, jsonb, real, pgEnum, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql, type AnyColumn } from "drizzle-orm";
 
 // Enums
 export const reportTypeEnum = pgEnum("email_report_type", ["daily_summary", "morning_reminder", "midday_report", "sync_check"]);
 export const categoryEnum = pgEnum("email_category", ["customer", "vendor", "other"]);
 export const itemTypeEnum = pgEnum("email_item_type", ["po_sent", "po_received", "quote_request", "general", "other"]);
+export const mailboxRoleEnum = pgEnum("email_mailbox_role", ["inbound", "outbound", "archive", "ignored"]);
+export const emailServerStateEnum = pgEnum("email_server_state", ["present", "deleted", "moved"]);
+export const syncRunTriggerEnum = pgEnum("sync_run_trigger", ["cron", "button", "daemon", "cli", "manual"]);
+export const syncRunStatusEnum = pgEnum("sync_run_status", ["running", "success", "partial", "failed"]);
+export const threadOverrideActionEnum = pgEnum("email_thread_override_action", ["merge", "split"]);
+export const threadLinkTypeEnum = pgEnum("thread_link_type", ["rfq_to_quote", "quote_to_po", "po_to_invoice", "forward_of", "related"]);
 export const todoTypeEnum = pgEnum("email_todo_type", ["po_unacknowledged", "quote_unanswered", "general_unanswered", "vendor_followup"]);
 
 // QB Sync Alert enums
@@ -28,24 +34,113 @@ export const qbAlertStatusEnum = pgEnum("qb_alert_status", [
   "dismissed", // Manually ignored
 ]);
 
+// Full-text search documents. Queries must use these same expressions so the
+// GIN expression indexes below apply (see src/search/email-search.ts).
+export function emailSearchDocument(t: { subject: AnyColumn; fromName: AnyColumn; fromAddress: AnyColumn; bodyText: AnyColumn }) {
+  return sql`(setweight(to_tsvector('english', coalesce(${t.subject}, '')), 'A') || setweight(to_tsvector('english', coalesce(${t.fromName}, '') || ' ' || coalesce(${t.fromAddress}, '')), 'B') || setweight(to_tsvector('english', coalesce(${t.bodyText}, '')), 'C'))`;
+}
+
+export function attachmentSearchDocument(t: { filename: AnyColumn; poNumber: AnyColumn; extractedText: AnyColumn }) {
+  return sql`(setweight(to_tsvector('english', coalesce(${t.filename}, '') || ' ' || coalesce(${t.poNumber}, '')), 'A') || setweight(to_tsvector('english', coalesce(${t.extractedText}, '')), 'C'))`;
+}
+
+// Threads - persistent conversation identity, assigned incrementally as emails are stored
+// (see src/sync/thread-assigner.ts). A thread's key never changes once created.
+export const threads = pgTable("email_threads", {
+  id: serial("id").primaryKey(),
+  threadKey: text("thread_key").notNull().unique(), // Key of the first email (Message-ID or subject:...)
+  subject: text("subject"),                          // Subject of the email that created the thread
+  normalizedSubject: text("normalized_subject"),     // For joining replies with broken headers
+  firstEmailDate: timestamp("first_email_date"),
+  lastEmailDate: timestamp("last_email_date"),
+  emailCount: integer("email_count").notNull().default(0),
+  mergedInto: integer("merged_into"), // Surviving thread when a later email (or a manual merge) linked this one to another
+  splitFrom: integer("split_from"),   // Thread this one was manually split off from; the two are never merged automatically
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  normalizedSubjectIdx: index("email_threads_normalized_subject_idx").on(table.normalizedSubject),
+}));
+
+// Thread overrides - every merge and split, manual or automatic, with the rows it re-pointed
+export const threadOverrides = pgTable("email_thread_overrides", {
+  id: serial("id").primaryKey(),
+  action: threadOverrideActionEnum("action").notNull(),
+  threadId: integer("thread_id").notNull().references(() => threads.id), // Merge: surviving thread. Split: thread the emails left
+  threadKey: text("thread_key").notNull(),
+  otherThreadIds: integer("other_thread_ids").array().notNull(), // Merge: threads merged in. Split: the new thread
+  otherThreadKeys: text("other_thread_keys").array().notNull(),
+  emailIds: integer("email_ids").array(),  // Split: emails moved to the new thread
+  messageIds: text("message_ids").array(), // Split: their Message-IDs (copies synced later follow them)
+  repointed: jsonb("repointed"), // { todos: [...], alerts: [...], dismissals: [...], links: [...] } - { id, fromThreadKey, change }
+  reason: text("reason"),
+  createdBy: text("created_by").notNull().default("dashboard"), // 'dashboard' | 'threader'
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  threadIdIdx: index("email_thread_overrides_thread_id_idx").on(table.threadId, table.createdAt),
+}));
+
+// Thread links - typed edges between separate threads of one deal (see src/report/thread-links.ts).
+// Directed from the earlier stage to the later one (RFQ → quote → PO → invoice; original → forward).
+export const threadLinks = pgTable("thread_links", {
+  id: serial("id").primaryKey(),
+  fromThreadKey: text("from_thread_key").notNull(),
+  toThreadKey: text("to_thread_key").notNull(),
+  fromThreadId: integer("from_thread_id").references(() => threads.id, { onDelete: "set null" }),
+  toThreadId: integer("to_thread_id").references(() => threads.id, { onDelete: "set null" }),
+  linkType: threadLinkTypeEnum("link_type").notNull(),
+  source: text("source").notNull(),   // 'ai' (CategorizationResult.relatedTo) | 'po_number'
+  poNumber: text("po_number"),        // The shared PO number (source = 'po_number')
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  edgeUnique: uniqueIndex("thread_links_edge_unique").on(table.fromThreadKey, table.toThreadKey, table.linkType),
+  toThreadKeyIdx: index("thread_links_to_thread_key_idx").on(table.toThreadKey),
+}));
+
 // Email messages
 export const emails = pgTable("email_messages", {
   id: serial("id").primaryKey(),
+  account: text("account"), // Mail account id from MAIL_ACCOUNTS (NULL = legacy row, primary account)
   uid: integer("uid").notNull(),
+  uidValidity: bigint("uid_validity", { mode: "number" }), // UIDVALIDITY the uid belongs to (NULL = legacy row)
   messageId: text("message_id"),
   fromAddress: text("from_address"),
   fromName: text("from_name"),
   toAddresses: text("to_addresses"), // JSON array
+  ccAddresses: text("cc_addresses"), // JSON array
+  bccAddresses: text("bcc_addresses"), // JSON array (only known for messages we sent)
+  replyTo: text("reply_to"), // JSON array
   subject: text("subject"),
   bodyText: text("body_text"),
+  bodyClean: text("body_clean"), // bodyText minus quoted replies, signature and disclaimers (NULL = cleaned on read)
+  bodyHtml: text("body_html"), // Raw HTML part as received; sanitize before rendering
   date: timestamp("date"),
   inReplyTo: text("in_reply_to"),
   references: text("references"), // Space-separated message IDs
+  referenceIds: text("reference_ids").array(), // references split into IDs (GIN-indexed for reply lookups)
+  threadIndex: text("thread_index"),           // Outlook/Exchange Thread-Index header (base64)
+  threadIndexGuid: text("thread_index_guid"),  // Conversation GUID decoded from threadIndex (hex)
+  threadTopic: text("thread_topic"),           // Outlook/Exchange Thread-Topic header
   mailbox: text("mailbox").notNull(), // INBOX, Sent, Sent Items
+  mailboxRole: mailboxRoleEnum("mailbox_role"), // Direction of the folder (NULL = legacy row, inferred from name)
   hasAttachments: boolean("has_attachments").default(false),
   attachments: text("attachments"), // JSON array of attachment info
   syncedAt: timestamp("synced_at").notNull(),
-});
+  // Reconciliation with the server: rows whose UID vanished from the folder
+  serverState: emailServerStateEnum("server_state").notNull().default("present"),
+  movedTo: text("moved_to"), // Destination folder when it could be found (Trash/Junk count as deleted)
+  removedAt: timestamp("removed_at"), // When reconciliation first noticed the UID was gone
+  importSource: text("import_source"), // Offline import origin: file path, or "path#offset:length" inside an mbox
+  threadId: integer("thread_id").references(() => threads.id, { onDelete: "set null" }), // NULL = not threaded yet
+  threadMatch: jsonb("thread_match"), // How the email joined its thread: { rule, via } (see ThreadMatch in threader.ts)
+}, (table) => ({
+  threadIdIdx: index("email_messages_thread_id_idx").on(table.threadId),
+  threadIndexGuidIdx: index("email_messages_thread_index_guid_idx").on(table.threadIndexGuid),
+  mailboxUidIdx: index("email_messages_mailbox_uid_idx").on(table.account, table.mailbox, table.uidValidity, table.uid),
+  messageIdIdx: index("email_messages_message_id_idx").on(table.messageId),
+  referenceIdsIdx: index("email_messages_reference_ids_idx").using("gin", table.referenceIds),
+  searchIdx: index("email_messages_search_idx").using("gin", emailSearchDocument(table)),
+}));
 
 // Daily reports
 export const dailyReports = pgTable("email_daily_reports", {
@@ -76,6 +171,16 @@ export const reportThreads = pgTable("email_report_threads", {
   lastEmailDate: timestamp("last_email_date"),
   lastEmailFromUs: boolean("last_email_from_us").default(false),
   poDetails: jsonb("po_details"), // Extracted PO info: { items, total, vendor, poNumber }
+  classificationRuleId: integer("classification_rule_id")
+    .references(() => classificationRules.id, { onDelete: "set null" }), // Rule that decided it (NULL = AI)
+  confidence: real("confidence"),                 // Lowest per-field confidence, 0-1 (NULL = not assessed)
+  confidenceDetails: jsonb("confidence_details"), // { category, itemType, needsResponse: { confidence, rationale } }
+  deadlines: jsonb("deadlines"),                  // [{ kind, date, description, source }] (see src/report/deadlines.ts)
+  model: text("model"),                           // Classifier: AI model, 'rules' (rules-only provider) or NULL (rule / failure)
+  provider: text("provider"),                     // 'anthropic' | 'openai' | 'rules'
+  promptVersion: text("prompt_version"),          // Prompt template@version, e.g. 'categorize_batch@3' (src/ai/prompts.ts)
+  correctionsHash: text("corrections_hash"),      // Corrections injected into the prompt (NULL = none)
+  degraded: boolean("degraded").notNull().default(false), // Budget stand-in (rules guess or stale cache) - never reused as the cache
 });
 
 // Todo items - action items identified in reports
@@ -91,6 +196,8 @@ export const todoItems = pgTable("email_todo_items", {
   contactName: text("contact_name"),
   originalDate: timestamp("original_date"),
   subject: text("subject"),
+  priority: integer("priority").notNull().default(0), // Urgency score carried between reports (see src/report/urgency.ts)
+  priorityReasons: jsonb("priority_reasons"),
   resolved: boolean("resolved").notNull().default(false),
   resolvedAt: timestamp("resolved_at"),
 });
@@ -99,17 +206,57 @@ export const todoItems = pgTable("email_todo_items", {
 export const dismissedThreads = pgTable("email_dismissed_threads", {
   id: serial("id").primaryKey(),
   threadKey: text("thread_key").notNull().unique(),
+  threadId: integer("thread_id").references(() => threads.id),
   dismissedAt: timestamp("dismissed_at").notNull(),
   reason: text("reason"), // "manual" or "auto"
 });
 
-// Sync metadata - tracks last sync time per mailbox for incremental sync
+// Sync metadata - tracks last sync time per account + mailbox for incremental sync
 export const syncMetadata = pgTable("email_sync_metadata", {
   id: serial("id").primaryKey(),
-  mailbox: text("mailbox").notNull().unique(),
+  account: text("account"), // NULL for legacy rows and non-mailbox keys (e.g. _jobs_check)
+  mailbox: text("mailbox").notNull(),
   lastSyncAt: timestamp("last_sync_at").notNull(),
   lastUid: integer("last_uid"), // Highest UID synced
-});
+  uidValidity: bigint("uid_validity", { mode: "number" }), // UIDVALIDITY lastUid refers to
+}, (table) => ({
+  accountMailboxUnique: uniqueIndex("email_sync_metadata_account_mailbox_unique").on(table.account, table.mailbox),
+}));
+
+// Messages that failed to parse or store. After a few attempts the sync gives up
+// on the UID and moves the lastUid checkpoint past it, so one bad message can't
+// stall its folder.
+export const syncFailedUids = pgTable("email_sync_failed_uids", {
+  id: serial("id").primaryKey(),
+  account: text("account").notNull(),
+  mailbox: text("mailbox").notNull(),
+  uidValidity: bigint("uid_validity", { mode: "number" }).notNull(),
+  uid: integer("uid").notNull(),
+  attempts: integer("attempts").notNull().default(1),
+  lastError: text("last_error"),
+  firstFailedAt: timestamp("first_failed_at").notNull().defaultNow(),
+  lastFailedAt: timestamp("last_failed_at").notNull().defaultNow(),
+  skipped: boolean("skipped").notNull().default(false), // Given up: no longer fetched or holding back lastUid
+}, (table) => ({
+  uidUnique: uniqueIndex("email_sync_failed_uids_uid_unique").on(table.account, table.mailbox, table.uidValidity, table.uid),
+}));
+
+// Sync runs - one row per syncEmails() call (or IDLE daemon mailbox sync) for health tracking
+export const syncRuns = pgTable("sync_runs", {
+  id: serial("id").primaryKey(),
+  trigger: syncRunTriggerEnum("trigger").notNull(),
+  status: syncRunStatusEnum("status").notNull().default("running"), // partial = some mailboxes failed
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+  emailsSynced: integer("emails_synced").notNull().default(0),
+  emailsDeleted: integer("emails_deleted").notNull().default(0),
+  emailsMoved: integer("emails_moved").notNull().default(0),
+  mailboxes: jsonb("mailboxes"), // [{ mailbox: "account/path", synced, error? }]
+  errors: jsonb("errors"),       // string[]
+}, (table) => ({
+  startedAtIdx: index("sync_runs_started_at_idx").on(table.startedAt),
+}));
 
 // PO Attachments - stores PO PDFs in Supabase Storage with cached analysis
 export const poAttachments = pgTable("email_po_attachments", {
@@ -130,7 +277,15 @@ export const poAttachments = pgTable("email_po_attachments", {
   // PO validation (smart detection)
   isValidPo: boolean("is_valid_po"), // NULL = not analyzed, true = confirmed PO, false = not a PO
   notPoReason: text("not_po_reason"), // Why it's not a PO (e.g., "This is a quotation")
-});
+  extractedText: text("extracted_text"), // PDF text layer for full-text search ('' = none/failed, NULL = not extracted yet)
+  // Dates printed on the PO (valid POs only)
+  orderDate: date("order_date"),
+  requiredDate: date("required_date"),   // Required ship/delivery date
+  promisedDate: date("promised_date"),   // Date we (or the vendor) promised
+}, (table) => ({
+  searchIdx: index("email_po_attachments_search_idx").using("gin", attachmentSearchDocument(table)),
+  requiredDateIdx: index("email_po_attachments_required_date_idx").on(table.requiredDate),
+}));
 
 // Dashboard enums
 export const dashTodoStatusEnum = pgEnum("dash_todo_status", ["open", "resolved", "dismissed"]);
@@ -139,6 +294,8 @@ export const dashTodoStatusEnum = pgEnum("dash_todo_status", ["open", "resolved"
 export const dashTodos = pgTable("dash_todos", {
   id: serial("id").primaryKey(),
   threadKey: text("thread_key").notNull().unique(),  // One active todo per thread
+  threadId: integer("thread_id").references(() => threads.id),  // Stable thread identity (NULL = legacy row)
+  accounts: text("accounts").array(),  // Mail accounts the thread was seen in
   todoType: todoTypeEnum("todo_type").notNull(),
   category: categoryEnum("category").notNull(),
   itemType: itemTypeEnum("item_type").notNull(),
@@ -160,7 +317,7 @@ export const dashTodos = pgTable("dash_todos", {
   // Status
   status: dashTodoStatusEnum("status").notNull().default("open"),
   resolvedAt: timestamp("resolved_at"),
-  resolvedBy: text("resolved_by"),  // 'manual' | 'email_activity' | 'auto'
+  resolvedBy: text("resolved_by"),  // 'manual' | 'email_activity' | 'email_deleted' | 'auto' | 'thread_merged' | 'linked_thread'
 
   // Enrichment
   poDetails: jsonb("po_details"),       // { poNumber, total, items, vendor }
@@ -171,6 +328,26 @@ export const dashTodos = pgTable("dash_todos", {
   originalCategory: categoryEnum("original_category"),
   originalItemType: itemTypeEnum("original_item_type"),
 
+  // Classification rule that decided category/itemType (NULL = AI)
+  classificationRuleId: integer("classification_rule_id")
+    .references(() => classificationRules.id, { onDelete: "set null" }),
+
+  // Classifier certainty (see src/report/confidence.ts); low ones go to the review queue
+  confidence: real("confidence"),                 // Lowest per-field confidence, 0-1 (NULL = not assessed)
+  confidenceDetails: jsonb("confidence_details"), // { category, itemType, needsResponse: { confidence, rationale } }
+  reviewedAt: timestamp("reviewed_at"),           // Staff confirmed or corrected the classification
+  model: text("model"),                           // Classifier of the stored category/itemType (see email_report_threads.model)
+  provider: text("provider"),                     // 'anthropic' | 'openai' | 'rules'
+  promptVersion: text("prompt_version"),
+
+  // Urgency (see src/report/urgency.ts): 0-100, the default sort of /api/todos
+  priority: integer("priority").notNull().default(0),
+  priorityReasons: jsonb("priority_reasons"),     // [{ signal, points, detail }]
+
+  // Requested and promised dates (see src/report/deadlines.ts); GET /api/deadlines
+  deadlines: jsonb("deadlines"),                  // [{ kind, date, description, source }]
+  dueDate: date("due_date"),                      // Earliest of them
+
   // QB link
   qbAlertId: integer("qb_alert_id").references(() => qbSyncAlerts.id),
 
@@ -179,25 +356,107 @@ export const dashTodos = pgTable("dash_todos", {
 }, (table) => ({
   statusIdx: index("dash_todos_status_idx").on(table.status, table.firstDetectedAt),
   threadKeyIdx: index("dash_todos_thread_key_idx").on(table.threadKey),
+  threadIdIdx: index("dash_todos_thread_id_idx").on(table.threadId),
   categoryIdx: index("dash_todos_category_idx").on(table.category),
+  confidenceIdx: index("dash_todos_confidence_idx").on(table.status, table.confidence),
+  priorityIdx: index("dash_todos_priority_idx").on(table.status, table.priority),
+  dueDateIdx: index("dash_todos_due_date_idx").on(table.status, table.dueDate),
 }));
 
 // AI Corrections - records when user corrects AI classification
 export const dashAiCorrections = pgTable("dash_ai_corrections", {
   id: serial("id").primaryKey(),
   threadKey: text("thread_key").notNull(),
-  fieldCorrected: text("field_corrected").notNull(),     // 'category' | 'item_type' | 'needs_response' | 'contact_name'
+  fieldCorrected: text("field_corrected").notNull(),     // 'category' | 'itemType' | 'needsResponse' | 'contactName'
   originalValue: text("original_value").notNull(),
   correctedValue: text("corrected_value").notNull(),
   correctedBy: text("corrected_by").default("user"),
   correctedAt: timestamp("corrected_at").notNull().defaultNow(),
   appliedToFuture: boolean("applied_to_future").default(true),  // Whether injected into future AI prompts
   notes: text("notes"),
+  // Classifier that made the mistake (copied from dash_todos)
+  model: text("model"),
+  promptVersion: text("prompt_version"),
+  // Use as a prompt example (recordCorrectionInjections); see src/ai/metrics.ts
+  injectedCount: integer("injected_count").notNull().default(0),
+  firstInjectedAt: timestamp("first_injected_at"),
+  lastInjectedAt: timestamp("last_injected_at"),
 }, (table) => ({
   fieldIdx: index("dash_ai_corrections_field_idx").on(table.fieldCorrected, table.correctedAt),
   threadKeyIdx: index("dash_ai_corrections_thread_key_idx").on(table.threadKey),
 }));
 
+// Classification rules - user-defined conditions that decide a thread without the AI.
+// Set conditions must all match; enabled rules are tried by priority (lowest first), first match wins.
+export const classificationRules = pgTable("email_classification_rules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  priority: integer("priority").notNull().default(100),
+
+  // Conditions (NULL = any)
+  senderDomain: text("sender_domain"),            // External sender's domain, subdomains included
+  subjectPattern: text("subject_pattern"),        // Case-insensitive regex
+  attachmentPattern: text("attachment_pattern"),  // Case-insensitive regex on attachment filenames
+  mailbox: text("mailbox"),                       // Mailbox path (e.g. INBOX.Accounting)
+
+  // Decision (NULL category/itemType/needsResponse = default for the thread)
+  category: categoryEnum("category"),
+  itemType: itemTypeEnum("item_type"),
+  needsResponse: boolean("needs_response"),
+
+  notes: text("notes"),
+  matchCount: integer("match_count").notNull().default(0),
+  lastMatchedAt: timestamp("last_matched_at"),
+  createdBy: text("created_by").default("dashboard"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  enabledPriorityIdx: index("email_classification_rules_enabled_priority_idx").on(table.enabled, table.priority),
+}));
+
+// AI call ledger - one row per model call (see src/ai/ledger.ts)
+export const aiCalls = pgTable("ai_calls", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(),           // 'anthropic' | 'openai'
+  model: text("model").notNull(),
+  purpose: text("purpose").notNull(),             // 'categorize_batch' | 'categorize_thread' | 'summarize' | 'rank_attachments' | 'analyze_pdf'
+  threadKey: text("thread_key"),                  // NULL for batch calls
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  latencyMs: integer("latency_ms").notNull(),
+  costMicros: integer("cost_micros").notNull().default(0), // Estimated cost in millionths of a dollar
+  cached: boolean("cached").notNull().default(false),     // Served from ai_responses, no model call
+  success: boolean("success").notNull().default(true),
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  createdAtIdx: index("ai_calls_created_at_idx").on(table.createdAt),
+  threadKeyIdx: index("ai_calls_thread_key_idx").on(table.threadKey),
+}));
+
+// Recorded AI responses - keyed by hash(model + prompt + attachment hash) for reuse and replay (see src/ai/response-cache.ts)
+export const aiResponses = pgTable("ai_responses", {
+  id: serial("id").primaryKey(),
+  cacheKey: text("cache_key").notNull(),
+  replayKey: text("replay_key"),                  // Key without the parts that change between runs (see ChatRequest.replayPrompt)
+  purpose: text("purpose").notNull(),
+  model: text("model").notNull(),
+  systemPrompt: text("system_prompt"),
+  prompt: text("prompt").notNull(),
+  attachmentHash: text("attachment_hash"),        // SHA-256 of the PDF sent with the prompt
+  responseText: text("response_text").notNull(),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  hitCount: integer("hit_count").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+}, (table) => ({
+  cacheKeyUnique: uniqueIndex("ai_responses_cache_key_unique").on(table.cacheKey),
+  replayKeyIdx: index("ai_responses_replay_key_idx").on(table.replayKey, table.createdAt),
+  purposeIdx: index("ai_responses_purpose_idx").on(table.purpose, table.createdAt),
+}));
+
 // QB Write Log - audit trail for all QB write operations from dashboard
 export const qbWriteLog = pgTable("qb_write_log", {
   id: serial("id").primaryKey(),
@@ -221,6 +480,7 @@ export const qbSyncAlerts = pgTable("qb_sync_alerts", {
   // Alert identity
   alertType: qbSyncAlertTypeEnum("alert_type").notNull(),
   threadKey: text("thread_key").notNull(),
+  threadId: integer("thread_id").references(() => threads.id), // NULL for so_should_be_closed and legacy rows
   subject: text("subject"),
 
   // Contact info
@@ -249,7 +509,7 @@ export const qbSyncAlerts = pgTable("qb_sync_alerts", {
   // Status
   status: qbAlertStatusEnum("status").notNull().default("open"),
   resolvedAt: timestamp("resolved_at"),
-  resolvedBy: text("resolved_by"), // "auto" | "manual"
+  resolvedBy: text("resolved_by"), // "auto" | "manual" | "thread_merged"
 
   // Escalation tracking
   detectedAt: timestamp("detected_at").notNull(), // When PO first seen
@@ -267,6 +527,8 @@ export const qbSyncAlerts = pgTable("qb_sync_alerts", {
     .on(table.status, table.alertType, table.detectedAt),
   threadKeyIdx: index("qb_sync_alerts_thread_key_idx")
     .on(table.threadKey),
+  threadIdIdx: index("qb_sync_alerts_thread_id_idx")
+    .on(table.threadId),
   salesOrderIdIdx: index("qb_sync_alerts_sales_order_id_idx")
     .on(table.salesOrderId),
   qbCustomerIdIdx: index("qb_sync_alerts_qb_customer_id_idx")
@@ -280,6 +542,12 @@ export const qbSyncAlerts = pgTable("qb_sync_alerts", {
 }));
 
 // Type exports
+export type Thread = typeof threads.$inferSelect;
+export type NewThread = typeof threads.$inferInsert;
+export type ThreadOverride = typeof threadOverrides.$inferSelect;
+export type NewThreadOverride = typeof threadOverrides.$inferInsert;
+export type ThreadLink = typeof threadLinks.$inferSelect;
+export type NewThreadLink = typeof threadLinks.$inferInsert;
 export type Email = typeof emails.$inferSelect;
 export type NewEmail = typeof emails.$inferInsert;
 export type DailyReport = typeof dailyReports.$inferSelect;
@@ -292,6 +560,10 @@ export type DismissedThread = typeof dismissedThreads.$inferSelect;
 export type NewDismissedThread = typeof dismissedThreads.$inferInsert;
 export type SyncMetadata = typeof syncMetadata.$inferSelect;
 export type NewSyncMetadata = typeof syncMetadata.$inferInsert;
+export type SyncFailedUid = typeof syncFailedUids.$inferSelect;
+export type NewSyncFailedUid = typeof syncFailedUids.$inferInsert;
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type NewSyncRun = typeof syncRuns.$inferInsert;
 export type QbSyncAlert = typeof qbSyncAlerts.$inferSelect;
 export type NewQbSyncAlert = typeof qbSyncAlerts.$inferInsert;
 export type PoAttachment = typeof poAttachments.$inferSelect;
@@ -301,12 +573,24 @@ export type DashTodo = typeof dashTodos.$inferSelect;
 export type NewDashTodo = typeof dashTodos.$inferInsert;
 export type DashAiCorrection = typeof dashAiCorrections.$inferSelect;
 export type NewDashAiCorrection = typeof dashAiCorrections.$inferInsert;
+export type ClassificationRule = typeof classificationRules.$inferSelect;
+export type NewClassificationRule = typeof classificationRules.$inferInsert;
+export type AiCall = typeof aiCalls.$inferSelect;
+export type NewAiCall = typeof aiCalls.$inferInsert;
+export type AiResponse = typeof aiResponses.$inferSelect;
+export type NewAiResponse = typeof aiResponses.$inferInsert;
 export type QbWriteLogEntry = typeof qbWriteLog.$inferSelect;
 export type NewQbWriteLogEntry = typeof qbWriteLog.$inferInsert;
 
+export type MailboxRole = "inbound" | "outbound" | "archive" | "ignored";
+export type EmailServerState = "present" | "deleted" | "moved";
+export type SyncRunTrigger = "cron" | "button" | "daemon" | "cli" | "manual";
+export type SyncRunStatus = "running" | "success" | "partial" | "failed";
 export type ReportType = "daily_summary" | "morning_reminder" | "midday_report" | "sync_check";
 export type Category = "customer" | "vendor" | "other";
 export type ItemType = "po_sent" | "po_received" | "quote_request" | "general" | "other";
+export type ThreadOverrideAction = "merge" | "split";
+export type ThreadLinkType = "rfq_to_quote" | "quote_to_po" | "po_to_invoice" | "forward_of" | "related";
 export type TodoType = "po_unacknowledged" | "quote_unanswered" | "general_unanswered" | "vendor_followup";
 export type DashTodoStatus = "open" | "resolved" | "dismissed";
 export type QbSyncAlertType = "po_detected" | "po_detected_with_so" | "no_qb_customer" | "suspicious_po_email" | "po_missing_so" | "so_should_be_closed";
@@ -0,0 +1,187 @@
+/**
+ * Split a plain-text email body into the sender's new content and the parts that
+ * only cost tokens in AI prompts: quoted history, signature and legal disclaimers.
+ *
+ * Heuristic and line-based. It errs towards keeping text: when nothing is
+ * recognised, the whole body is new content. Forwards (FW:/Fwd: subjects) keep
+ * the forwarded message, since that is usually what the sender wants us to read.
+ */
+
+export interface CleanedBody {
+  text: string;              // New content written by the sender
+  quoted: string | null;     // Earlier messages quoted below the reply
+  signature: string | null;
+  disclaimer: string | null; // Confidentiality footers and external-sender banners
+}
+
+// Reply headers that start quoted history
+const REPLY_HEADER = /^On\b.{0,300}\bwrote:\s*$/i;
+const ORIGINAL_MESSAGE = /^-{2,}\s*(Original Message|Reply Message)\s*-{2,}$/i;
+const OUTLOOK_SEPARATOR = /^_{20,}$/;
+const HEADER_FROM = /^\*?From:\*?\s/i;
+const HEADER_SENT = /^\*?(Sent|Date):\*?\s/i;
+const HEADER_TO_OR_SUBJECT = /^\*?(To|Subject):\*?\s/i;
+
+const FORWARD_SUBJECT = /^\s*(fwd?|fw)\s*:/i;
+
+// Signatures
+const SIGNATURE_DELIMITER = /^--\s?$/;
+const MOBILE_SIGNATURE = /^(Sent from my \S+|Sent from (Outlook|Mail|Yahoo Mail)\b|Get Outlook for (iOS|Android))/i;
+const SIGN_OFF = /^(thanks( again)?|thank you|many thanks|thx|regards|best regards|kind regards|warm regards|best|all the best|sincerely|cheers|respectfully)[,.!]?$/i;
+// Sign-offs are only looked for this close to the end, and the name/title block after them must be short
+const SIGN_OFF_WINDOW_LINES = 15;
+const MAX_SIGNATURE_LINES = 12;
+
+const DISCLAIMER = /(intended (solely |only )?for the (use of the )?(individual|addressee|named|recipient)|not the intended recipient|received this (e-?mail|message|communication) in error|confidential(ity)? (notice|information|and( may be)? privileged)|privileged (and|or) confidential|this (e-?mail|message|communication)( and any (files|attachments)[^.]{0,40})? (is|are|may (contain|be)) (confidential|privileged|intended)|consider the environment before printing|^disclaimer\b)/i;
+const EXTERNAL_BANNER = /^\W*(caution|warning|external)\b.{0,40}\b(external|outside)\b/i;
+
+function joinLines(lines: string[]): string | null {
+  const text = lines.join("\n").trim();
+  return text.length > 0 ? text : null;
+}
+
+function isQuoteLine(line: string): boolean {
+  return line.trimStart().startsWith(">");
+}
+
+// First line of quoted history, or -1
+function findQuoteStart(lines: string[]): number {
+  let start = -1;
+  const consider = (index: number) => {
+    if (start === -1 || index < start) start = index;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    // "On Mon, Jan 5, 2026 at 9:14 AM John Smith <john@example.com>\nwrote:" is often wrapped
+    if (REPLY_HEADER.test(line) || (/^On\b/i.test(line) && REPLY_HEADER.test(`${line} ${lines[i + 1]?.trim() ?? ""}`))) {
+      consider(i);
+      break;
+    }
+    if (ORIGINAL_MESSAGE.test(line)) {
+      consider(i);
+      break;
+    }
+    // Outlook: "From: / Sent: / To: / Subject:" block, optionally under a line of underscores
+    if (HEADER_FROM.test(line)) {
+      const following = lines.slice(i + 1, i + 6).map((l) => l.trim());
+      if (following.some((l) => HEADER_SENT.test(l)) && following.some((l) => HEADER_TO_OR_SUBJECT.test(l))) {
+        const previous = lines[i - 1]?.trim() ?? "";
+        consider(OUTLOOK_SEPARATOR.test(previous) ? i - 1 : i);
+        break;
+      }
+    }
+  }
+
+  // Trailing block of "> " lines (plain-text clients that quote without a header)
+  let end = lines.length;
+  while (end > 0 && lines[end - 1].trim() === "") end--;
+  let quoteStart = end;
+  while (quoteStart > 0 && (isQuoteLine(lines[quoteStart - 1]) || lines[quoteStart - 1].trim() === "")) {
+    quoteStart--;
+  }
+  if (quoteStart < end && lines.slice(quoteStart, end).some(isQuoteLine)) {
+    while (quoteStart < end && lines[quoteStart].trim() === "") quoteStart++;
+    consider(quoteStart);
+  }
+
+  return start;
+}
+
+// Split paragraphs on blank lines, keeping line indexes so the cut stays exact
+function paragraphStarts(lines: string[]): number[] {
+  const starts: number[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].trim() !== "" && (i === 0 || lines[i - 1].trim() === "")) starts.push(i);
+  }
+  return starts;
+}
+
+function splitDisclaimers(lines: string[]): { content: string[]; disclaimer: string[] } {
+  const starts = paragraphStarts(lines);
+  const paragraphText = (index: number) =>
+    lines.slice(starts[index], starts[index + 1] ?? lines.length).join(" ");
+
+  // Trailing confidentiality paragraphs
+  let cut = lines.length;
+  for (let p = starts.length - 1; p >= 0 && DISCLAIMER.test(paragraphText(p)); p--) {
+    cut = starts[p];
+  }
+
+  // Leading "CAUTION: This email originated from outside the organization" banner
+  let top = 0;
+  if (starts.length > 1 && starts[1] <= cut && EXTERNAL_BANNER.test(paragraphText(0))) {
+    top = starts[1];
+  }
+
+  return {
+    content: lines.slice(top, cut),
+    disclaimer: [...lines.slice(0, top), ...lines.slice(cut)],
+  };
+}
+
+// First line of the signature, or -1
+function findSignatureStart(lines: string[]): number {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (SIGNATURE_DELIMITER.test(lines[i])) return i;
+  }
+
+  const mobile = lines.findIndex((line) => MOBILE_SIGNATURE.test(line.trim()));
+  if (mobile > 0) return mobile;
+
+  // "Thanks,\nJohn Smith\nPurchasing Manager\n..." - keep the sign-off, drop the block below it
+  const nonBlank = lines.map((line, i) => (line.trim() ? i : -1)).filter((i) => i !== -1);
+  const window = nonBlank.slice(-SIGN_OFF_WINDOW_LINES);
+  for (let w = window.length - 1; w >= 0; w--) {
+    const index = window[w];
+    if (!SIGN_OFF.test(lines[index].trim())) continue;
+    const after = window.length - 1 - w;
+    // A sign-off on the first line is the whole message ("Thanks!"), not a signature
+    if (after > 0 && after <= MAX_SIGNATURE_LINES && index > nonBlank[0]) return index + 1;
+    break;
+  }
+
+  return -1;
+}
+
+export function cleanEmailBody(body: string | null | undefined, subject?: string | null): CleanedBody {
+  const normalized = (body ?? "").replace(/\r\n?/g, "\n");
+  let lines = normalized.split("\n");
+
+  let quoted: string | null = null;
+  if (!FORWARD_SUBJECT.test(subject ?? "")) {
+    const quoteStart = findQuoteStart(lines);
+    if (quoteStart !== -1) {
+      quoted = joinLines(lines.slice(quoteStart));
+      lines = lines.slice(0, quoteStart);
+    }
+  }
+
+  const { content, disclaimer } = splitDisclaimers(lines);
+  lines = content;
+
+  let signature: string | null = null;
+  const signatureStart = findSignatureStart(lines);
+  if (signatureStart !== -1) {
+    signature = joinLines(lines.slice(signatureStart));
+    lines = lines.slice(0, signatureStart);
+  }
+
+  return {
+    text: lines.join("\n").replace(/\n{3,}/g, "\n\n").trim(),
+    quoted,
+    signature,
+    disclaimer: joinLines(disclaimer),
+  };
+}
+
+/**
+ * Body to show the AI / dashboard: the stored cleaned text, computed on the fly
+ * for rows synced before body_clean existed. Falls back to the full body when
+ * cleaning leaves nothing (e.g. a bare forward or an all-quote message).
+ */
+export function getCleanBody(email: { bodyText: string | null; bodyClean?: string | null; subject?: string | null }): string {
+  const clean = email.bodyClean ?? cleanEmailBody(email.bodyText, email.subject).text;
+  return clean || email.bodyText || "";
+}
@@ -1,4 +1,4 @@
-import { ImapFlow } from "imapflow";
+import { ImapFlow, type ImapFlowOptions } from "imapflow";
 
 type ImapConfig = {
   host: string;
@@ -16,39 +16,117 @@ function env(name: string): string | undefined {
   return value && value.trim().length > 0 ? value.trim() : undefined;
 }
 
-function envInt(name: string): number | undefined {
-  const value = env(name);
-  if (!value) return undefined;
-  const parsed = Number(value);
-  return Number.isFinite(parsed) ? parsed : undefined;
+export function getDefaultMailbox(): string {
+  return env("IMAP_MAILBOX") || "INBOX";
 }
 
-function envBool(name: string): boolean | undefined {
-  const value = env(name);
-  if (!value) return undefined;
-  return value.toLowerCase() !== "false";
+// ============================================================
+// Mail accounts registry
+// ============================================================
+//
+// MAIL_ACCOUNTS lists account ids (e.g. "sales,accounting,shipping"). Each account
+// reads IMAP_<ID>_USER / IMAP_<ID>_PASS / IMAP_<ID>_MAILBOXES and may override any
+// connection setting (IMAP_<ID>_HOST, _PORT, _SECURE, ...); unset settings fall back
+// to the shared IMAP_* values. The first (primary) account also falls back to
+// IMAP_USER / IMAP_PASS / IMAP_MAILBOXES, so single-account setups need no changes.
+
+export interface MailAccount {
+  id: string;
+  isPrimary: boolean;
+  mailboxes?: string; // IMAP_MAILBOXES-format list for this account
 }
 
-export function getDefaultMailbox(): string {
-  return env("IMAP_MAILBOX") || "INBOX";
+export function getMailAccounts(): MailAccount[] {
+  const ids = (env("MAIL_ACCOUNTS") || env("IMAP_ACCOUNT_ID") || "default")
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  return [...new Set(ids)].map((id, index) => ({
+    id,
+    isPrimary: index === 0,
+    mailboxes: accountEnv(id, index === 0, "MAILBOXES"),
+  }));
+}
+
+export function getPrimaryAccountId(): string {
+  return getMailAccounts()[0].id;
 }
 
-export function getImapConfig(): ImapConfig {
-  const host = env("IMAP_HOST");
-  const user = env("IMAP_USER");
-  const pass = env("IMAP_PASS");
+// Fallback when no account has a user configured (e.g. reports run without IMAP settings)
+const DEFAULT_OWN_DOMAIN = "masprecisionparts.com";
+
+/**
+ * Mail domains of every configured account (from their IMAP users). Mail from
+ * or to these is ours - a second account on another domain included.
+ */
+export function getOwnDomains(): string[] {
+  const domains = getMailAccounts()
+    .map((account) => accountEnv(account.id, account.isPrimary, "USER")?.split("@")[1]?.toLowerCase())
+    .filter((domain): domain is string => !!domain);
+  return domains.length > 0 ? [...new Set(domains)] : [DEFAULT_OWN_DOMAIN];
+}
+
+export function isOwnAddress(address: string | null | undefined): boolean {
+  if (!address) return false;
+  const lower = address.toLowerCase();
+  return getOwnDomains().some((domain) => lower.includes(domain));
+}
+
+export function getMailAccount(accountId?: string | null): MailAccount {
+  const accounts = getMailAccounts();
+  if (!accountId) return accounts[0];
+
+  const account = accounts.find((a) => a.id === accountId);
+  if (!account) {
+    throw new Error(`Unknown mail account "${accountId}". Configured: ${accounts.map((a) => a.id).join(", ")}`);
+  }
+  return account;
+}
+
+// Prefix of an account's own settings: "sales-2" reads IMAP_SALES_2_*
+function accountEnvPrefix(accountId: string): string {
+  return `IMAP_${accountId.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+}
+
+// Per-account setting with fallback to the shared IMAP_* value.
+// Credentials only fall back for the primary account.
+function accountEnv(accountId: string, isPrimary: boolean, key: string): string | undefined {
+  const scoped = env(`${accountEnvPrefix(accountId)}_${key}`);
+  if (scoped) return scoped;
+  const isAccountSpecific = key === "USER" || key === "PASS" || key === "MAILBOXES";
+  return isAccountSpecific && !isPrimary ? undefined : env(`IMAP_${key}`);
+}
+
+export function getImapConfig(accountId?: string | null): ImapConfig {
+  const account = getMailAccount(accountId);
+  const get = (key: string) => accountEnv(account.id, account.isPrimary, key);
+  const getInt = (key: string) => {
+    const value = get(key);
+    if (!value) return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+  const getBool = (key: string) => {
+    const value = get(key);
+    return value ? value.toLowerCase() !== "false" : undefined;
+  };
+
+  const host = get("HOST");
+  const user = get("USER");
+  const pass = get("PASS");
   if (!host || !user || !pass) {
+    const prefix = account.isPrimary ? "IMAP" : accountEnvPrefix(account.id);
     throw new Error(
-      "Missing IMAP credentials. Set IMAP_HOST, IMAP_USER, and IMAP_PASS."
+      `Missing IMAP credentials for account "${account.id}". Set ${prefix}_HOST, ${prefix}_USER, and ${prefix}_PASS.`
     );
   }
 
-  const portRaw = env("IMAP_PORT");
-  const port = portRaw ? Number(portRaw) : 993;
-  const secure = envBool("IMAP_SECURE");
-  const tlsRejectUnauthorized = envBool("IMAP_TLS_REJECT_UNAUTHORIZED");
-  const connectTimeoutMs = envInt("IMAP_CONNECT_TIMEOUT_MS");
-  const commandTimeoutMs = envInt("IMAP_COMMAND_TIMEOUT_MS");
+  const port = getInt("PORT") ?? 993;
+  const secure = getBool("SECURE");
+  const tlsRejectUnauthorized = getBool("TLS_REJECT_UNAUTHORIZED");
+  const connectTimeoutMs = getInt("CONNECT_TIMEOUT_MS");
+  const commandTimeoutMs = getInt("COMMAND_TIMEOUT_MS");
 
   return {
     host,
@@ -62,8 +140,11 @@ export function getImapConfig(): ImapConfig {
   };
 }
 
-export function createImapClient(): ImapFlow {
-  const config = getImapConfig();
+export function createImapClient(
+  accountId?: string | null,
+  overrides: Partial<ImapFlowOptions> = {}
+): ImapFlow {
+  const config = getImapConfig(accountId);
   const options: any = {
     host: config.host,
     port: config.port,
@@ -84,14 +165,15 @@ export function createImapClient(): ImapFlow {
     options.commandTimeout = config.commandTimeoutMs;
   }
 
-  return new ImapFlow(options);
+  return new ImapFlow({ ...options, ...overrides });
 }
 
 export async function withImapClient<T>(
   mailbox: string,
-  fn: (client: ImapFlow) => Promise<T>
+  fn: (client: ImapFlow) => Promise<T>,
+  accountId?: string | null
 ): Promise<T> {
-  const client = createImapClient();
+  const client = createImapClient(accountId);
   try {
     await client.connect();
     await client.mailboxOpen(mailbox, { readOnly: true });
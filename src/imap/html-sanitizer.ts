@@ -0,0 +1,159 @@
+import { Parser } from "htmlparser2";
+
+/**
+ * Allowlist HTML sanitizer for rendering email bodies in the dashboard.
+ *
+ * Keeps layout markup (tables, lists, basic formatting) so POs look the way the
+ * customer sent them, and drops everything that can run code or load remote
+ * content: scripts, event handlers, forms, iframes, remote images and CSS url().
+ */
+
+const ALLOWED_TAGS = new Set([
+  "a", "abbr", "b", "blockquote", "br", "caption", "center", "code", "col", "colgroup",
+  "dd", "del", "div", "dl", "dt", "em", "font", "h1", "h2", "h3", "h4", "h5", "h6",
+  "hr", "i", "img", "ins", "li", "ol", "p", "pre", "s", "small", "span", "strike",
+  "strong", "sub", "sup", "table", "tbody", "td", "tfoot", "th", "thead", "tr", "u", "ul",
+]);
+
+const VOID_TAGS = new Set(["br", "col", "hr", "img"]);
+
+// Tags whose text content must not leak into the output either
+const DROP_CONTENT_TAGS = new Set([
+  "script", "style", "head", "title", "noscript", "iframe", "object", "embed",
+  "template", "svg", "math", "textarea", "select",
+]);
+
+const GLOBAL_ATTRIBUTES = new Set([
+  "align", "valign", "width", "height", "bgcolor", "border", "cellpadding",
+  "cellspacing", "colspan", "rowspan", "dir", "title", "style",
+]);
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(["href"]),
+  img: new Set(["src", "alt"]),
+  font: new Set(["color", "face", "size"]),
+  ol: new Set(["start", "type"]),
+};
+
+const ALLOWED_CSS_PROPERTIES = /^(color|background-color|font(-[a-z]+)?|text-(align|decoration|indent|transform)|line-height|vertical-align|white-space|border(-[a-z]+)*|padding(-[a-z]+)?|margin(-[a-z]+)?|width|min-width|max-width|height|display|list-style-type)$/;
+
+// Image-capable properties the border pattern above would let through
+const IMAGE_CSS_PROPERTIES = /^border-image/;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function sanitizeStyle(style: string): string | null {
+  const declarations = style
+    .split(";")
+    .map((declaration) => {
+      const colon = declaration.indexOf(":");
+      if (colon === -1) return null;
+      const property = declaration.slice(0, colon).trim().toLowerCase();
+      const value = declaration.slice(colon + 1).trim();
+      if (!ALLOWED_CSS_PROPERTIES.test(property) || IMAGE_CSS_PROPERTIES.test(property) || !value) return null;
+      // CSS escapes (\75rl) would hide url( and friends from the check below
+      if (value.includes("\\")) return null;
+      if (/url\s*\(|expression\s*\(|javascript:|@import|[<>]/i.test(value)) return null;
+      return `${property}: ${value}`;
+    })
+    .filter(Boolean);
+
+  return declarations.length > 0 ? declarations.join("; ") : null;
+}
+
+function sanitizeUrl(tag: string, url: string): string | null {
+  const trimmed = url.trim();
+  if (tag === "img") {
+    // Remote images are tracking pixels more often than not; inline data images are safe
+    return /^data:image\/(png|gif|jpe?g|webp);base64,/i.test(trimmed) ? trimmed : null;
+  }
+  return /^(https?:|mailto:)/i.test(trimmed) ? trimmed : null;
+}
+
+function sanitizeAttributes(tag: string, attributes: Record<string, string>): string {
+  const output: string[] = [];
+
+  for (const [rawName, value] of Object.entries(attributes)) {
+    const name = rawName.toLowerCase();
+    if (!GLOBAL_ATTRIBUTES.has(name) && !TAG_ATTRIBUTES[tag]?.has(name)) continue;
+
+    let clean: string | null = value;
+    if (name === "style") clean = sanitizeStyle(value);
+    if (name === "href" || name === "src") clean = sanitizeUrl(tag, value);
+    if (clean === null) continue;
+
+    output.push(`${name}="${escapeHtml(clean)}"`);
+  }
+
+  if (tag === "a" && output.some((attr) => attr.startsWith("href="))) {
+    output.push(`target="_blank"`, `rel="noopener noreferrer nofollow"`);
+  }
+
+  return output.length > 0 ? ` ${output.join(" ")}` : "";
+}
+
+export function sanitizeEmailHtml(html: string | null | undefined): string | null {
+  if (!html || html.trim().length === 0) return null;
+
+  const output: string[] = [];
+  const openTags: string[] = [];
+  let dropDepth = 0;
+
+  const parser = new Parser(
+    {
+      onopentag(name, attributes) {
+        const tag = name.toLowerCase();
+        if (DROP_CONTENT_TAGS.has(tag)) {
+          dropDepth++;
+          return;
+        }
+        if (dropDepth > 0) return;
+
+        if (tag === "img" && !sanitizeUrl("img", attributes.src ?? "")) {
+          // Keep the alt text so the reader knows something was there
+          if (attributes.alt) output.push(`[${escapeHtml(attributes.alt)}]`);
+          return;
+        }
+        if (!ALLOWED_TAGS.has(tag)) return;
+
+        output.push(`<${tag}${sanitizeAttributes(tag, attributes)}>`);
+        if (!VOID_TAGS.has(tag)) openTags.push(tag);
+      },
+      ontext(text) {
+        if (dropDepth === 0) output.push(escapeHtml(text));
+      },
+      onclosetag(name) {
+        const tag = name.toLowerCase();
+        if (DROP_CONTENT_TAGS.has(tag)) {
+          dropDepth = Math.max(0, dropDepth - 1);
+          return;
+        }
+        if (dropDepth > 0 || VOID_TAGS.has(tag)) return;
+
+        // Close any tags the sender left open inside this one
+        const index = openTags.lastIndexOf(tag);
+        if (index === -1) return;
+        while (openTags.length > index) {
+          output.push(`</${openTags.pop()}>`);
+        }
+      },
+    },
+    { decodeEntities: true, lowerCaseTags: true, lowerCaseAttributeNames: true }
+  );
+
+  parser.write(html);
+  parser.end();
+
+  while (openTags.length > 0) {
+    output.push(`</${openTags.pop()}>`);
+  }
+
+  const result = output.join("").trim();
+  return result.length > 0 ? result : null;
+}
@@ -1,4 +1,5 @@
 import { htmlToText } from "html-to-text";
+import type { AddressObject, ParsedMail } from "mailparser";
 
 type Address = { name?: string; address?: string };
 
@@ -39,6 +40,35 @@ export function formatAddressList(addresses?: Address[] | null): string {
     .join(", ");
 }
 
+// Flatten a mailparser address header (To/Cc/Bcc/Reply-To) into bare addresses
+export function extractAddresses(field?: AddressObject | AddressObject[] | null): string[] {
+  if (!field) return [];
+  const objects = Array.isArray(field) ? field : [field];
+  const addresses: string[] = [];
+
+  const collect = (entries: AddressObject["value"]) => {
+    for (const entry of entries) {
+      if (entry.address) addresses.push(entry.address);
+      // Group syntax ("Team: a@x, b@x;") nests addresses one level down
+      if (entry.group) collect(entry.group);
+    }
+  };
+  for (const object of objects) collect(object.value);
+
+  return addresses;
+}
+
+// Parse a stored address list column (JSON array, or comma-separated for old rows)
+export function parseAddressList(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((addr): addr is string => typeof addr === "string") : [];
+  } catch {
+    return value.split(",").map((s) => s.trim()).filter(Boolean);
+  }
+}
+
 export function sanitizeSubject(subject?: string | null): string {
   if (!subject || subject.trim().length === 0) {
     return "(no subject)";
@@ -51,7 +81,7 @@ export function makeSnippet(text: string, maxLength = 160): string {
   if (normalized.length <= maxLength) {
     return normalized;
   }
-  return `${normalized.slice(0, maxLength - 1)}?`;
+  return `${normalized.slice(0, maxLength - 1)}…`;
 }
 
 function normalizeDisposition(disposition: any): {
@@ -156,6 +186,29 @@ export function extractAttachments(structure?: BodyNode): AttachmentInfo[] {
   return attachments;
 }
 
+// Offline messages (mbox/Maildir/.eml) have no IMAP BODYSTRUCTURE. Rebuild the
+// attachment nodes from mailparser's output so extractAttachments() sees the same
+// shape. Sizes are decoded sizes here, encoded sizes when they come from IMAP.
+export function bodyStructureFromParsed(parsed: ParsedMail): BodyNode {
+  return {
+    type: "multipart",
+    subtype: "mixed",
+    childNodes: parsed.attachments.map((attachment, index) => {
+      const [type, subtype] = (attachment.contentType || "application/octet-stream").split("/");
+      return {
+        part: String(index + 2),
+        type,
+        subtype,
+        size: attachment.size,
+        disposition: {
+          type: attachment.contentDisposition || "attachment",
+          params: attachment.filename ? { filename: attachment.filename } : {},
+        },
+      };
+    }),
+  };
+}
+
 export function isAttachment(node: BodyNode): boolean {
   const disposition = normalizeDisposition(node.disposition);
   if (disposition.type && disposition.type.toLowerCase() === "attachment") {
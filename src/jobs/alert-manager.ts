@@ -21,6 +21,7 @@ import {
   findMatchingEstimate,
 } from "@/quickbooks/job-documents.js";
 import { findSosShouldBeClosed } from "@/quickbooks/invoice-so-matcher.js";
+import { findDeletedThreadKeys } from "@/sync/threader";
 
 const ESCALATION_HOURS = 4;
 type JobDocsCache = Map<string, Promise<CustomerJobDocuments>>;
@@ -110,6 +111,7 @@ export async function analyzeNewPoEmails(
     // Base alert data (use pre-populated contact info from thread)
     const baseAlert: Partial<NewQbSyncAlert> = {
       threadKey: thread.threadKey,
+      threadId: thread.threadId,
       subject: thread.subject,
       contactEmail: thread.contactEmail,
       contactName: thread.contactName,
@@ -532,6 +534,34 @@ export async function checkAndResolveAlerts(
   return resolved;
 }
 
+/**
+ * Auto-resolve email-based alerts whose thread was deleted on the server
+ * (e.g. staff deleted a phishing "PO" flagged as suspicious_po_email)
+ */
+export async function resolveAlertsForDeletedEmails(): Promise<QbSyncAlert[]> {
+  const openAlerts = await db
+    .select()
+    .from(schema.qbSyncAlerts)
+    .where(
+      and(
+        eq(schema.qbSyncAlerts.status, "open"),
+        sql`${schema.qbSyncAlerts.alertType} <> 'so_should_be_closed'`
+      )
+    );
+
+  const deletedKeys = await findDeletedThreadKeys(openAlerts.map((a) => a.threadKey));
+  const resolved: QbSyncAlert[] = [];
+
+  for (const alert of openAlerts) {
+    if (!deletedKeys.has(alert.threadKey)) continue;
+    await resolveAlert(alert.id, "auto");
+    resolved.push({ ...alert, status: "resolved" });
+    console.log(`Auto-resolved alert ${alert.id}: thread emails deleted on the server`);
+  }
+
+  return resolved;
+}
+
 /**
  * Get all open alerts (for display/notification)
  */
@@ -635,7 +665,10 @@ export async function runFullAlertCheck(
   // Stage 3: Check for auto-resolution
   try {
     console.log("\nChecking for auto-resolution...");
-    resolved = await checkAndResolveAlerts(docsCache);
+    resolved = [
+      ...(await checkAndResolveAlerts(docsCache)),
+      ...(await resolveAlertsForDeletedEmails()),
+    ];
     console.log(`  Resolved ${resolved.length} alerts`);
   } catch (error) {
     console.error("Stage 3 failed:", error);
@@ -17,6 +17,7 @@ const JOBS_CHECK_KEY = "_jobs_check"; // Special key in email_sync_metadata
 const JOBS_LOCK_KEY = 839271; // Advisory lock to prevent concurrent jobs:check runs
 import { syncEmails } from "@/sync/syncer";
 import { categorizeThreads } from "@/report/categorizer";
+import { overallConfidence } from "@/report/confidence";
 import type { TimeWindow, CategorizedThread } from "@/report/types";
 import { sendReportEmail } from "@/report/email-sender";
 import {
@@ -38,6 +39,7 @@ interface CliOptions {
   morning: boolean;
   since: Date | null;
   reanalyze: boolean;
+  replay: boolean;
 }
 
 function parseArgs(): CliOptions {
@@ -56,11 +58,15 @@ function parseArgs(): CliOptions {
     }
   }
 
+  // Replayed answers reproduce a past run - nothing is saved or sent
+  const replay = args.includes("--replay");
+
   return {
-    preview: args.includes("--preview"),
+    preview: replay || args.includes("--preview"),
     morning: args.includes("--morning"),
     since,
     reanalyze: args.includes("--reanalyze"),
+    replay,
   };
 }
 
@@ -73,6 +79,7 @@ Options:
   --morning           Morning review mode (full summary of all open alerts)
   --since=YYYY-MM-DD  Check all POs from specified date to today
   --reanalyze         Force re-analysis of all threads (bypass cache)
+  --replay            Answer AI calls only from recorded responses (no model calls; implies --preview)
 
 Examples:
   npm run jobs:check                         # Check from last run to now (incremental)
@@ -232,6 +239,15 @@ async function saveCategorizedThreads(
       summary: thread.summary,
       emailCount: thread.emailCount,
       lastEmailDate: thread.lastEmailDate,
+      classificationRuleId: thread.classificationRuleId,
+      confidence: overallConfidence(thread.confidence),
+      confidenceDetails: thread.confidence,
+      deadlines: thread.deadlines,
+      model: thread.model,
+      provider: thread.provider,
+      promptVersion: thread.promptVersion,
+      correctionsHash: thread.correctionsHash,
+      degraded: thread.degraded,
     }));
 
   if (threadRows.length > 0) {
@@ -254,7 +270,7 @@ async function runHistoricalCheck(options: CliOptions): Promise<void> {
 
   // Sync emails (will skip duplicates automatically)
   console.log("Syncing emails (skipping duplicates)...");
-  const syncResult = await syncEmails();
+  const syncResult = await syncEmails({ trigger: "cron" });
   console.log(`Synced ${syncResult.emailsSynced} new emails\n`);
 
   // Get all threads in the date range
@@ -336,7 +352,7 @@ async function runHourlyCheck(options: CliOptions): Promise<void> {
 
   // Sync recent emails
   console.log("Syncing emails...");
-  const syncResult = await syncEmails();
+  const syncResult = await syncEmails({ trigger: "cron" });
   console.log(`Synced ${syncResult.emailsSynced} emails\n`);
 
   const threads = await categorizeThreads(window, { reanalyze: options.reanalyze });
@@ -419,7 +435,7 @@ async function runMorningReview(options: CliOptions): Promise<void> {
 
   // Sync overnight emails
   console.log("Syncing overnight emails...");
-  const syncResult = await syncEmails();
+  const syncResult = await syncEmails({ trigger: "cron" });
   console.log(`Synced ${syncResult.emailsSynced} emails\n`);
 
   // Get overnight threads for new alerts
@@ -490,6 +506,9 @@ async function main() {
   }
 
   const options = parseArgs();
+  if (options.replay) {
+    process.env.AI_CACHE_MODE = "replay";
+  }
 
   try {
     await withJobsLock(async () => {
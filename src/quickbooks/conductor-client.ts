@@ -171,6 +171,7 @@ export class ConductorClient {
             companyName: c.companyName,
             email: c.email,
             phone: c.phone,
+            totalBalance: c.totalBalance ?? c.balance,
           });
         }
       }
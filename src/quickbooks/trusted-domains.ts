@@ -28,8 +28,8 @@ export function extractDomain(email: string): string | null {
 }
 
 /**
- * Parse recipient addresses from email toAddresses field
- * The field stores a JSON array of addresses
+ * Parse recipient addresses from an email toAddresses/ccAddresses field
+ * The fields store a JSON array of addresses
  */
 function parseRecipients(toAddresses: string | null): string[] {
   if (!toAddresses) return [];
@@ -59,6 +59,13 @@ const GENERIC_DOMAINS = new Set([
   "gmx.com", "gmx.net", "fastmail.com", "tutanota.com",
 ]);
 
+/**
+ * Whether a domain is a webmail provider (says nothing about the company)
+ */
+export function isGenericDomain(domain: string): boolean {
+  return GENERIC_DOMAINS.has(domain.toLowerCase());
+}
+
 /**
  * Get domains from sent email recipients in the database
  * These are domains we've actively communicated with
@@ -70,12 +77,12 @@ async function getSentEmailDomains(): Promise<Set<string>> {
 
   // Query sent emails and extract recipient domains
   const sentEmails = await db
-    .select({ toAddresses: emails.toAddresses })
+    .select({ toAddresses: emails.toAddresses, ccAddresses: emails.ccAddresses })
     .from(emails)
-    .where(sql`${emails.mailbox} IN ('Sent', 'INBOX.Sent', 'INBOX.Sent Messages', 'Sent Messages')`);
+    .where(sql`${emails.mailboxRole} = 'outbound' OR (${emails.mailboxRole} IS NULL AND ${emails.mailbox} IN ('Sent', 'INBOX.Sent', 'INBOX.Sent Messages', 'Sent Messages'))`);
 
   for (const email of sentEmails) {
-    const recipients = parseRecipients(email.toAddresses);
+    const recipients = [...parseRecipients(email.toAddresses), ...parseRecipients(email.ccAddresses)];
     for (const recipient of recipients) {
       const domain = extractDomain(recipient);
       if (domain && !GENERIC_DOMAINS.has(domain)) {
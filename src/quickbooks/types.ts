@@ -66,6 +66,7 @@ export interface QBCustomerMatch {
   companyName?: string;
   email?: string;
   phone?: string;
+  totalBalance?: string; // Open balance including sub-customers (jobs)
 }
 
 // ============================================================
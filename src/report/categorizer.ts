@@ -1,16 +1,30 @@
 import { db, schema } from "@/db";
-import { and, gte, lte, inArray, desc } from "drizzle-orm";
+import { and, eq, gte, lte, ne, inArray, desc } from "drizzle-orm";
 import type { Email, Category, ItemType, ReportThread } from "@/db/schema";
-import { groupEmailsIntoThreads, normalizeSubject, fetchFullThreadEmails } from "@/sync/threader";
-import type { CategorizedThread, TimeWindow, EmailForPrompt } from "./types";
-import { categorizeThreadWithAI, categorizeThreadsBatch, type ThreadForBatch } from "./summarizer";
+import { groupEmailsByThread, normalizeSubject, fetchFullThreadEmails, dedupeEmailsByMessageId } from "@/sync/threader";
+import type { CategorizedThread, TimeWindow, EmailForPrompt, CategorizationResult, CategorizationConfidence, Deadline } from "./types";
+import { categorizeThreadWithAI, categorizeThreadsBatch } from "./summarizer";
+import type { AiProviderName, ThreadForBatch } from "@/ai/types";
 import { getTrustedDomains, isDomainTrusted } from "@/quickbooks/trusted-domains";
 import { smartPoDetection } from "./po-detector";
+import { getMailboxRole } from "@/sync/mailboxes";
+import { getPrimaryAccountId, isOwnAddress } from "@/imap/client";
+import { parseAddressList } from "@/imap/parsers";
+import { getCleanBody } from "@/imap/body-cleaner";
+import { createRulesProvider } from "@/ai/rules-provider";
+import { getAiProviderName, isAiBudgetExhausted } from "@/ai";
+import { getPromptChangePolicy, isCurrentPromptVersion } from "@/ai/prompts";
+import { loadClassificationRules, matchClassificationRule, decideByRule, recordRuleMatches } from "./classification-rules";
+import { uniformConfidence } from "./confidence";
+import { extractUrgencySignals, loadCustomerBalances } from "./urgency";
+import { deadlinesFromPo, mergeDeadlines } from "./deadlines";
+import { inferThreadLink, linkThreadsByPoNumber, recordThreadLinks, type LinkableThread } from "./thread-links";
 
 // Batch configuration
 const MAX_THREADS_PER_BATCH = 20;
 
-const OUR_DOMAIN = process.env.IMAP_USER?.split("@")[1]?.toLowerCase() || "masprecisionparts.com";
+// Summaries for threads a classification rule decided (no model call)
+const ruleSummaries = createRulesProvider();
 
 // Fetch emails within a time window
 export async function fetchEmailsInWindow(window: TimeWindow): Promise<Email[]> {
@@ -20,7 +34,9 @@ export async function fetchEmailsInWindow(window: TimeWindow): Promise<Email[]>
     .where(
       and(
         gte(schema.emails.date, window.start),
-        lte(schema.emails.date, window.end)
+        lte(schema.emails.date, window.end),
+        // Deleted on the server (spam, phishing) - nothing to categorize or act on
+        ne(schema.emails.serverState, "deleted")
       )
     );
   return emails;
@@ -31,7 +47,7 @@ export function countEmailsByDirection(emails: Email[]): { received: number; sen
   let received = 0;
   let sent = 0;
 
-  for (const email of emails) {
+  for (const email of dedupeEmailsByMessageId(emails)) {
     if (isOutbound(email)) {
       sent++;
     } else {
@@ -44,58 +60,64 @@ export function countEmailsByDirection(emails: Email[]): { received: number; sen
 
 // Check if an email is outbound (from us to external party)
 export function isOutbound(email: Email): boolean {
-  // If it's in INBOX, it's inbound - even if from an internal address (internal forwards)
-  // Internal forwards to INBOX still need action/response
-  if (email.mailbox === "INBOX") {
-    return false;
+  switch (getMailboxRole(email)) {
+    // Inbound folders are inbound - even if from an internal address (internal forwards)
+    // Internal forwards to INBOX still need action/response
+    case "inbound":
+      return false;
+    // Sent folders are always outbound
+    case "outbound":
+      return true;
   }
 
-  // Sent folders are always outbound
-  if (email.mailbox === "Sent" || email.mailbox === "Sent Items" || email.mailbox === "Sent Messages") {
-    return true;
-  }
+  // Archive/unknown folders hold both directions: check domain
+  if (isOwnAddress(email.fromAddress)) return true;
 
-  // Fallback: check domain (for other mailboxes)
-  const fromLower = email.fromAddress?.toLowerCase() || "";
-  return fromLower.includes(OUR_DOMAIN);
+  // Sent on our behalf through another service (e.g. QuickBooks invoice emails):
+  // the From is the service, but replies come back to us
+  const replyTo = parseAddressList(email.replyTo);
+  return replyTo.length > 0 && replyTo.every(isOwnAddress);
+}
+
+// First external address among an email's recipients (To, then CC)
+function firstExternalRecipient(email: Email): string | null {
+  const recipients = [...parseAddressList(email.toAddresses), ...parseAddressList(email.ccAddresses)];
+  return recipients.find((address) => !isOwnAddress(address)) ?? null;
 }
 
 // Get the external contact from a thread
 export function getExternalContact(emails: Email[]): { email: string | null; name: string | null } {
   for (const email of emails) {
     // Check inbound emails first
-    if (!isOutbound(email) && email.fromAddress) {
-      const fromLower = email.fromAddress.toLowerCase();
-      if (!fromLower.includes(OUR_DOMAIN)) {
-        return {
-          email: email.fromAddress,
-          name: email.fromName || null,
-        };
+    if (!isOutbound(email) && email.fromAddress && !isOwnAddress(email.fromAddress)) {
+      // Reply-To wins over From: portals and no-reply senders route replies to the buyer
+      const replyTo = parseAddressList(email.replyTo).find((address) => !isOwnAddress(address));
+      if (replyTo && replyTo.toLowerCase() !== email.fromAddress.toLowerCase()) {
+        return { email: replyTo, name: null };
       }
+      return {
+        email: email.fromAddress,
+        name: email.fromName || null,
+      };
+    }
+  }
+
+  // Inbound emails from a colleague (forwards, or a customer thread we were CC'd on):
+  // the external party is among the other recipients
+  for (const email of emails) {
+    if (!isOutbound(email) && isOwnAddress(email.fromAddress)) {
+      const external =
+        parseAddressList(email.replyTo).find((address) => !isOwnAddress(address)) ??
+        firstExternalRecipient(email);
+      if (external) return { email: external, name: null };
     }
   }
 
   // Check outbound emails' recipients
   for (const email of emails) {
-    if (isOutbound(email) && email.toAddresses) {
-      try {
-        const toList = JSON.parse(email.toAddresses) as string[];
-        for (const to of toList) {
-          const toLower = to.toLowerCase();
-          if (!toLower.includes(OUR_DOMAIN)) {
-            return { email: to, name: null };
-          }
-        }
-      } catch {
-        // If not JSON, try parsing as comma-separated
-        const toList = email.toAddresses.split(",").map((s) => s.trim());
-        for (const to of toList) {
-          const toLower = to.toLowerCase();
-          if (!toLower.includes(OUR_DOMAIN)) {
-            return { email: to, name: null };
-          }
-        }
-      }
+    if (isOutbound(email)) {
+      const external = firstExternalRecipient(email);
+      if (external) return { email: external, name: null };
     }
   }
 
@@ -192,9 +214,10 @@ export function prepareEmailsForPrompt(emails: Email[]): EmailForPrompt[] {
   return emails.map((email) => ({
     from: email.fromName || email.fromAddress || "Unknown",
     to: email.toAddresses || "",
+    cc: parseAddressList(email.ccAddresses).join(", ") || undefined,
     date: email.date,
     subject: email.subject || "(no subject)",
-    body: email.bodyText || "",
+    body: getCleanBody(email),
     isOutbound: isOutbound(email),
     hasAttachments: email.hasAttachments || false,
   }));
@@ -204,11 +227,11 @@ export function prepareEmailsForPrompt(emails: Email[]): EmailForPrompt[] {
 async function getCachedCategorizations(threadKeys: string[]): Promise<Map<string, ReportThread>> {
   if (threadKeys.length === 0) return new Map();
 
-  // Get the most recent categorization for each threadKey
+  // Get the most recent categorization for each threadKey (budget stand-ins don't count)
   const cached = await db
     .select()
     .from(schema.reportThreads)
-    .where(inArray(schema.reportThreads.threadKey, threadKeys))
+    .where(and(inArray(schema.reportThreads.threadKey, threadKeys), eq(schema.reportThreads.degraded, false)))
     .orderBy(desc(schema.reportThreads.id)); // Most recent first
 
   // Keep only the most recent entry per threadKey
@@ -222,10 +245,24 @@ async function getCachedCategorizations(threadKeys: string[]): Promise<Map<strin
   return result;
 }
 
-// Check if cached categorization is still valid (thread hasn't changed)
+// Check if cached categorization is still valid: the thread hasn't changed, a
+// rules-only answer isn't standing in for a model, and (unless
+// AI_ON_PROMPT_CHANGE=keep) it came from the current prompt version
 function isCacheValid(cached: ReportThread, currentLastEmailDate: Date | null): boolean {
   if (!cached.lastEmailDate || !currentLastEmailDate) return false;
 
+  // Rules-only results from a missing key or a spent budget get a model's answer once one is available
+  const rulesOnly = cached.provider === "rules" || cached.model === "rules";
+  if (rulesOnly && getAiProviderName() !== "rules") return false;
+
+  if (
+    !rulesOnly &&
+    getPromptChangePolicy() !== "keep" &&
+    !isCurrentPromptVersion(cached.promptVersion)
+  ) {
+    return false;
+  }
+
   // Cache is valid if lastEmailDate matches (no new emails)
   return cached.lastEmailDate.getTime() === currentLastEmailDate.getTime();
 }
@@ -239,6 +276,38 @@ export async function categorizeThreads(
   const windowEmails = await fetchEmailsInWindow(window);
   console.log(`Found ${windowEmails.length} emails in window`);
 
+  return categorizeWindowEmails(windowEmails, window, options);
+}
+
+// Categorize only the threads touched by specific emails (e.g. just synced by the IDLE daemon).
+// The window spans the given emails, so only those emails count as "in window" for display.
+export async function categorizeThreadsForEmails(
+  emailIds: number[],
+  options: { reanalyze?: boolean } = {}
+): Promise<CategorizedThread[]> {
+  if (emailIds.length === 0) return [];
+
+  const emails = await db
+    .select()
+    .from(schema.emails)
+    .where(and(inArray(schema.emails.id, emailIds), ne(schema.emails.serverState, "deleted")));
+
+  if (emails.length === 0) return [];
+
+  const times = emails.map((e) => (e.date ?? e.syncedAt).getTime());
+  const window: TimeWindow = {
+    start: new Date(Math.min(...times)),
+    end: new Date(Math.max(Date.now(), ...times)),
+  };
+
+  return categorizeWindowEmails(emails, window, options);
+}
+
+async function categorizeWindowEmails(
+  windowEmails: Email[],
+  window: TimeWindow,
+  options: { reanalyze?: boolean }
+): Promise<CategorizedThread[]> {
   // Track which email IDs are in the window (for filtering display later)
   const windowEmailIds = new Set(windowEmails.map(e => e.id));
 
@@ -247,14 +316,37 @@ export async function categorizeThreads(
   const allEmails = await fetchFullThreadEmails(windowEmails, window.end);
 
   // Group ALL emails into threads (gives AI full context)
-  const threadMap = groupEmailsIntoThreads(allEmails);
+  const threadMap = await groupEmailsByThread(allEmails);
   console.log(`Grouped into ${threadMap.size} threads (with full history)`);
 
+  // Grouping drops duplicate copies synced from other accounts; remember
+  // every account that received each message so the thread lists them all
+  const primaryAccount = getPrimaryAccountId();
+  const accountsByMessageId = new Map<string, Set<string>>();
+  for (const email of allEmails) {
+    if (!email.messageId) continue;
+    const accounts = accountsByMessageId.get(email.messageId) ?? new Set<string>();
+    accounts.add(email.account ?? primaryAccount);
+    accountsByMessageId.set(email.messageId, accounts);
+  }
+  const getThreadAccounts = (threadEmails: Email[]): string[] => {
+    const accounts = new Set<string>();
+    for (const email of threadEmails) {
+      accounts.add(email.account ?? primaryAccount);
+      for (const account of accountsByMessageId.get(email.messageId ?? "") ?? []) {
+        accounts.add(account);
+      }
+    }
+    return [...accounts].sort();
+  };
+
   // Prepare thread data for batch processing
   interface ThreadData {
     threadKey: string;
+    threadId: number | null;    // Stored thread (null until the emails are threaded)
     threadEmails: Email[];      // Full thread history (for AI context)
     windowEmails: Email[];      // Only emails in the time window (for display)
+    accounts: string[];         // Mail accounts the thread was synced from
     initialCategory: Category;
     contact: { email: string | null; name: string | null };
     emailsForPrompt: EmailForPrompt[];
@@ -287,8 +379,10 @@ export async function categorizeThreads(
 
     threadsData.push({
       threadKey,
+      threadId: threadEmails[0].threadId ?? null,
       threadEmails,      // Full history for AI
       windowEmails: windowEmailsInThread,  // Window only for display
+      accounts: getThreadAccounts(threadEmails),
       initialCategory,
       contact,
       emailsForPrompt,
@@ -298,21 +392,68 @@ export async function categorizeThreads(
     });
   }
 
-  // Check for cached categorizations (unless reanalyze is set)
-  const cachedResults = new Map<string, { category: Category; itemType: ItemType; contactName: string | null; summary: string; needsResponse: boolean; relatedTo: string | null }>();
+  // User-defined classification rules decide first; those threads skip the cache and the AI
+  const ruleResults = new Map<string, CategorizationResult>();
+  const ruleIdByKey = new Map<string, number>();
   let threadsToAnalyze = threadsData;
 
+  const rules = await loadClassificationRules();
+  if (rules.length > 0) {
+    const ruleMatches = new Map<number, number>();
+    const undecided: typeof threadsData = [];
+
+    for (const data of threadsData) {
+      const rule = matchClassificationRule(rules, { emails: data.threadEmails, contactEmail: data.contact.email });
+      if (!rule) {
+        undecided.push(data);
+        continue;
+      }
+
+      ruleResults.set(data.threadKey, {
+        ...decideByRule(rule, data.initialCategory),
+        contactName: data.contact.name,
+        summary: await ruleSummaries.summarizeThread(data.emailsForPrompt),
+        relatedTo: null,
+        confidence: uniformConfidence(1, `Classification rule "${rule.name}"`),
+        deadlines: [],
+        model: null,
+        provider: null,
+        promptVersion: null,
+        correctionsHash: null,
+      });
+      ruleIdByKey.set(data.threadKey, rule.id);
+      ruleMatches.set(rule.id, (ruleMatches.get(rule.id) ?? 0) + 1);
+    }
+
+    if (ruleIdByKey.size > 0) {
+      console.log(`  Classification rules decided ${ruleIdByKey.size} threads`);
+      await recordRuleMatches(ruleMatches);
+    }
+    threadsToAnalyze = undecided;
+  }
+
+  // Check for cached categorizations (unless reanalyze is set)
+  const cachedResults = new Map<string, CategorizationResult>();
+
   if (!options.reanalyze) {
-    const allThreadKeys = threadsData.map(t => t.threadKey);
+    const allThreadKeys = threadsToAnalyze.map(t => t.threadKey);
     const cachedCategorizations = await getCachedCategorizations(allThreadKeys);
+    // Over the daily AI budget a stale categorization beats a rules-only guess
+    const acceptStale = await isAiBudgetExhausted();
 
     const uncachedThreads: typeof threadsData = [];
     let cacheHits = 0;
 
-    for (const data of threadsData) {
+    for (const data of threadsToAnalyze) {
       const cached = cachedCategorizations.get(data.threadKey);
-
-      if (cached && isCacheValid(cached, data.lastEmailDate)) {
+      const valid = !!cached && isCacheValid(cached, data.lastEmailDate);
+
+      // A rule's decision is only reused while the rule still matches (checked above)
+      if (
+        cached &&
+        cached.classificationRuleId == null &&
+        (acceptStale || valid)
+      ) {
         // Use cached result
         cachedResults.set(data.threadKey, {
           category: cached.category,
@@ -321,6 +462,13 @@ export async function categorizeThreads(
           summary: cached.summary || "",
           needsResponse: !data.lastEmailFromUs, // Recalculate based on current state
           relatedTo: null, // Can't preserve relatedTo from cache
+          confidence: (cached.confidenceDetails as CategorizationConfidence | null) ?? null,
+          deadlines: (cached.deadlines as Deadline[] | null) ?? [],
+          model: cached.model,
+          provider: cached.provider as AiProviderName | null,
+          promptVersion: cached.promptVersion,
+          correctionsHash: cached.correctionsHash,
+          degraded: !valid, // Stale, only taken because the budget is spent
         });
         cacheHits++;
       } else {
@@ -330,22 +478,22 @@ export async function categorizeThreads(
     }
 
     if (cacheHits > 0) {
-      console.log(`  Using cached categorizations for ${cacheHits} threads`);
+      console.log(`  Using cached categorizations for ${cacheHits} threads${acceptStale ? " (AI budget reached)" : ""}`);
     }
 
     threadsToAnalyze = uncachedThreads;
   }
 
   // Attempt batch categorization for uncached threads
-  let aiResults = new Map<string, { category: Category; itemType: ItemType; contactName: string | null; summary: string; needsResponse: boolean; relatedTo: string | null }>();
+  let aiResults = new Map<string, CategorizationResult>();
 
   if (threadsToAnalyze.length > 0) {
     console.log(`  Analyzing ${threadsToAnalyze.length} threads with AI...`);
     aiResults = await categorizeThreadsWithBatch(threadsToAnalyze);
   }
 
-  // Merge cached and AI results
-  const allResults = new Map([...cachedResults, ...aiResults]);
+  // Merge rule, cached and AI results
+  const allResults = new Map([...ruleResults, ...cachedResults, ...aiResults]);
 
   // Build a map of threadKey to data for merging
   const dataByKey = new Map<string, typeof threadsData[0]>();
@@ -364,6 +512,30 @@ export async function categorizeThreads(
     }
   }
 
+  // Keep the relatedTo pairs as typed thread links - the merge only lasts for this report
+  const linkableByKey = (threadKey: string): LinkableThread => {
+    const data = dataByKey.get(threadKey)!;
+    return {
+      threadKey,
+      threadId: data.threadId,
+      subject: data.threadEmails[0]?.subject ?? null,
+      itemType: allResults.get(threadKey)?.itemType ?? null,
+    };
+  };
+  try {
+    await recordThreadLinks(
+      Array.from(mergedInto, ([threadKey, relatedKey]) => ({
+        ...inferThreadLink(linkableByKey(relatedKey), linkableByKey(threadKey)),
+        source: "ai",
+      }))
+    );
+  } catch (error) {
+    console.error("Failed to record thread links:", error);
+  }
+
+  // Customer value for urgency scoring
+  const customerBalance = await loadCustomerBalances();
+
   // Build final categorized threads (skipping merged ones)
   const categorizedThreads: CategorizedThread[] = [];
 
@@ -429,20 +601,25 @@ export async function categorizeThreads(
       }
     }
 
-    // Use AI results
+    // Use rule or AI results
     let itemType = aiResult?.itemType ?? "general";
     let category = aiResult?.category ?? data.initialCategory;
+    const confidence = aiResult
+      ? aiResult.confidence && { ...aiResult.confidence }
+      : uniformConfidence(0, "No classification result");
 
     // Definitional constraints only - these are logical, not heuristic
     // If someone sent us a PO, they're a customer by definition
     if (itemType === "po_received" && category !== "customer") {
       console.warn(`Category fix: po_received must be customer, not ${category} ("${firstEmail.subject}")`);
       category = "customer";
+      if (confidence) confidence.category = { ...confidence.itemType, rationale: "A PO sent to us makes them a customer" };
     }
     // If we sent a PO to them, they're a vendor by definition
     if (itemType === "po_sent" && category !== "vendor") {
       console.warn(`Category fix: po_sent must be vendor, not ${category} ("${firstEmail.subject}")`);
       category = "vendor";
+      if (confidence) confidence.category = { ...confidence.itemType, rationale: "A PO we sent makes them a vendor" };
     }
     // NOTE: We intentionally do NOT force quote_request → vendor.
     // The AI now correctly distinguishes:
@@ -457,10 +634,29 @@ export async function categorizeThreads(
     // The AI can detect when customer's last email is just "thanks" or acknowledgment.
     // Forcing needsResponse=true would create false action items.
     const needsResponse = !lastEmailFromUs && (aiResult?.needsResponse ?? true);
+    if (confidence && lastEmailFromUs) {
+      confidence.needsResponse = { confidence: 1, rationale: "Last email is ours" };
+    }
+
+    // Dates from this thread and any merged into it
+    const deadlines = mergeDeadlines(
+      aiResult?.deadlines ?? [],
+      ...Array.from(mergedInto)
+        .filter(([_, target]) => target === data.threadKey)
+        .map(([key]) => allResults.get(key)?.deadlines ?? [])
+    );
+
+    const urgency = extractUrgencySignals(
+      allEmails,
+      isOutbound,
+      category === "customer" ? customerBalance(data.contact.email) : null
+    );
 
     categorizedThreads.push({
       threadKey: data.threadKey,
+      threadId: data.threadId,
       emails: displayEmails,  // Only window emails for display
+      accounts: data.accounts,
       category,
       itemType,
       contactEmail: data.contact.email,
@@ -474,12 +670,29 @@ export async function categorizeThreads(
       isNewThread: data.isNewThread,
       poDetails: null,
       isSuspicious: false, // Will be set for po_received threads below
+      classificationRuleId: ruleIdByKey.get(data.threadKey) ?? null,
+      confidence,
+      urgency,
+      deadlines,
+      model: aiResult?.model ?? null,
+      provider: aiResult?.provider ?? null,
+      promptVersion: aiResult?.promptVersion ?? null,
+      correctionsHash: aiResult?.correctionsHash ?? null,
+      degraded: aiResult?.degraded ?? false,
     });
   }
 
   // Enrich po_received threads with trusted domain check and PO details
   await enrichPoReceivedThreads(categorizedThreads);
 
+  // Link PO threads to the quotes, invoices and forwards carrying the same PO number
+  try {
+    const linked = await linkThreadsByPoNumber(categorizedThreads);
+    if (linked > 0) console.log(`Linked ${linked} thread(s) by PO number`);
+  } catch (error) {
+    console.error("Failed to link threads by PO number:", error);
+  }
+
   return categorizedThreads;
 }
 
@@ -519,10 +732,7 @@ async function enrichPoReceivedThreads(threads: CategorizedThread[]): Promise<vo
     // (first inbound email with attachments in the thread)
     const poEmail = thread.emails.find((e) => {
       // Must be inbound (not from us)
-      const fromLower = e.fromAddress?.toLowerCase() || "";
-      const isInbound = !fromLower.includes(OUR_DOMAIN) &&
-                        e.mailbox !== "Sent" &&
-                        e.mailbox !== "Sent Items";
+      const isInbound = !isOwnAddress(e.fromAddress) && !isOutbound(e);
 
       if (!isInbound) return false;
 
@@ -542,6 +752,7 @@ async function enrichPoReceivedThreads(threads: CategorizedThread[]): Promise<vo
 
       if (result.success && result.primaryPo) {
         thread.poDetails = result.primaryPo;
+        thread.deadlines = mergeDeadlines(thread.deadlines, ...result.poDetailsList.map(deadlinesFromPo));
         const poCount = result.poDetailsList.length;
         if (poCount > 1) {
           console.log(`  Extracted ${poCount} POs: ${result.poDetailsList.map(p => p.poNumber || "?").join(", ")}`);
@@ -568,8 +779,8 @@ async function categorizeThreadsWithBatch(
     initialCategory: Category;
     emailsForPrompt: EmailForPrompt[];
   }>
-): Promise<Map<string, { category: Category; itemType: ItemType; contactName: string | null; summary: string; needsResponse: boolean; relatedTo: string | null }>> {
-  const results = new Map<string, { category: Category; itemType: ItemType; contactName: string | null; summary: string; needsResponse: boolean; relatedTo: string | null }>();
+): Promise<Map<string, CategorizationResult>> {
+  const results = new Map<string, CategorizationResult>();
 
   if (threadsData.length === 0) {
     return results;
@@ -605,7 +816,9 @@ async function categorizeThreadsWithBatch(
       // Fallback: categorize individually
       for (const data of batch) {
         try {
-          const aiResult = await categorizeThreadWithAI(data.emailsForPrompt, data.initialCategory);
+          const aiResult = await categorizeThreadWithAI(data.emailsForPrompt, data.initialCategory, {
+            threadKey: data.threadKey,
+          });
           results.set(data.threadKey, aiResult);
         } catch (individualError) {
           console.error(`Individual categorization failed for ${data.threadKey}:`, individualError);
@@ -0,0 +1,213 @@
+/**
+ * Classification Rules
+ *
+ * User-defined rules (email_classification_rules) that decide a thread's
+ * category, itemType and needsResponse without the AI - e.g. everything from
+ * the steel supplier's domain is a vendor, "Remittance Advice" is "other".
+ * categorizeThreads() tries them before the cache and the AI; the first enabled
+ * rule (by priority) whose conditions all match decides the thread.
+ */
+
+import { db, schema } from "@/db";
+import { asc, eq, sql } from "drizzle-orm";
+import type { Category, ClassificationRule, Email, ItemType, NewClassificationRule } from "@/db/schema";
+
+const CATEGORIES: Category[] = ["customer", "vendor", "other"];
+const ITEM_TYPES: ItemType[] = ["po_sent", "po_received", "quote_request", "general", "other"];
+
+export interface RuleDecision {
+  category: Category;
+  itemType: ItemType;
+  needsResponse: boolean;
+}
+
+/**
+ * Enabled rules in evaluation order
+ */
+export async function loadClassificationRules(): Promise<ClassificationRule[]> {
+  return db
+    .select()
+    .from(schema.classificationRules)
+    .where(eq(schema.classificationRules.enabled, true))
+    .orderBy(asc(schema.classificationRules.priority), asc(schema.classificationRules.id));
+}
+
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, "i");
+  } catch {
+    return null;
+  }
+}
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^@/, "");
+}
+
+function domainMatches(address: string | null, domain: string): boolean {
+  const addressDomain = address?.split("@")[1]?.toLowerCase();
+  if (!addressDomain) return false;
+  return addressDomain === domain || addressDomain.endsWith(`.${domain}`);
+}
+
+// Filenames from the attachments column (JSON array from the sync, or a plain list from older rows)
+function attachmentFilenames(email: Email): string[] {
+  if (!email.attachments) return [];
+  try {
+    const parsed = JSON.parse(email.attachments);
+    if (Array.isArray(parsed)) {
+      return parsed.map((att) => att?.filename || att?.name).filter((name): name is string => typeof name === "string");
+    }
+  } catch {
+    // Not JSON
+  }
+  return email.attachments.split(",").map((name) => name.trim()).filter(Boolean);
+}
+
+function ruleMatches(rule: ClassificationRule, emails: Email[], contactEmail: string | null): boolean {
+  if (rule.senderDomain) {
+    const domain = normalizeDomain(rule.senderDomain);
+    if (!domainMatches(contactEmail, domain)) return false;
+  }
+
+  if (rule.subjectPattern) {
+    const pattern = compilePattern(rule.subjectPattern);
+    if (!pattern || !emails.some((e) => pattern.test(e.subject ?? ""))) return false;
+  }
+
+  if (rule.attachmentPattern) {
+    const pattern = compilePattern(rule.attachmentPattern);
+    if (!pattern || !emails.some((e) => attachmentFilenames(e).some((name) => pattern.test(name)))) return false;
+  }
+
+  if (rule.mailbox) {
+    const mailbox = rule.mailbox.toLowerCase();
+    if (!emails.some((e) => e.mailbox.toLowerCase() === mailbox)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * First rule matching the thread, or null. The sender domain is checked
+ * against the thread's external contact (whoever we're talking to, whichever
+ * side wrote first).
+ */
+export function matchClassificationRule(
+  rules: ClassificationRule[],
+  thread: { emails: Email[]; contactEmail: string | null }
+): ClassificationRule | null {
+  return rules.find((rule) => ruleMatches(rule, thread.emails, thread.contactEmail)) ?? null;
+}
+
+/**
+ * What a rule decides; fields the rule leaves open get the thread's defaults
+ */
+export function decideByRule(rule: ClassificationRule, initialCategory: Category): RuleDecision {
+  const category = rule.category ?? initialCategory;
+  return {
+    category,
+    itemType: rule.itemType ?? (category === "other" ? "other" : "general"),
+    needsResponse: rule.needsResponse ?? category !== "other",
+  };
+}
+
+/**
+ * Bump match counters so the editor can show which rules are pulling their weight
+ */
+export async function recordRuleMatches(matches: Map<number, number>): Promise<void> {
+  const now = new Date();
+  for (const [ruleId, count] of matches) {
+    await db
+      .update(schema.classificationRules)
+      .set({
+        matchCount: sql`${schema.classificationRules.matchCount} + ${count}`,
+        lastMatchedAt: now,
+      })
+      .where(eq(schema.classificationRules.id, ruleId));
+  }
+}
+
+// ============================================================
+// Editor Input Validation
+// ============================================================
+
+const TEXT_FIELDS = ["name", "senderDomain", "subjectPattern", "attachmentPattern", "mailbox", "notes"] as const;
+
+/**
+ * Validate a rule from the editor API. With `existing`, the body is a partial
+ * update and the merged rule is what gets checked.
+ */
+export function parseClassificationRuleInput(
+  body: Record<string, unknown>,
+  existing?: ClassificationRule
+): { values: Partial<NewClassificationRule> } | { error: string } {
+  const values: Partial<NewClassificationRule> = {};
+
+  for (const field of TEXT_FIELDS) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value !== null && typeof value !== "string") {
+      return { error: `${field} must be a string` };
+    }
+    (values as Record<string, unknown>)[field] = value?.trim() || null;
+  }
+
+  if (values.senderDomain) values.senderDomain = normalizeDomain(values.senderDomain);
+
+  for (const field of ["subjectPattern", "attachmentPattern"] as const) {
+    const pattern = values[field];
+    if (pattern && !compilePattern(pattern)) {
+      return { error: `${field} is not a valid regular expression` };
+    }
+  }
+
+  if (body.category !== undefined) {
+    if (body.category !== null && !CATEGORIES.includes(body.category as Category)) {
+      return { error: `category must be one of ${CATEGORIES.join(", ")}` };
+    }
+    values.category = body.category as Category | null;
+  }
+  if (body.itemType !== undefined) {
+    if (body.itemType !== null && !ITEM_TYPES.includes(body.itemType as ItemType)) {
+      return { error: `itemType must be one of ${ITEM_TYPES.join(", ")}` };
+    }
+    values.itemType = body.itemType as ItemType | null;
+  }
+  if (body.needsResponse !== undefined) {
+    if (body.needsResponse !== null && typeof body.needsResponse !== "boolean") {
+      return { error: "needsResponse must be true, false or null" };
+    }
+    values.needsResponse = body.needsResponse as boolean | null;
+  }
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== "boolean") return { error: "enabled must be a boolean" };
+    values.enabled = body.enabled;
+  }
+  if (body.priority !== undefined) {
+    if (typeof body.priority !== "number" || !Number.isInteger(body.priority)) {
+      return { error: "priority must be an integer" };
+    }
+    values.priority = body.priority;
+  }
+
+  const merged = { ...existing, ...values };
+  if (!merged.name) {
+    return { error: "name is required" };
+  }
+  if (!merged.senderDomain && !merged.subjectPattern && !merged.attachmentPattern && !merged.mailbox) {
+    return { error: "At least one condition is required (senderDomain, subjectPattern, attachmentPattern or mailbox)" };
+  }
+  if (merged.category == null && merged.itemType == null && merged.needsResponse == null) {
+    return { error: "At least one of category, itemType or needsResponse is required" };
+  }
+  // Same definitional constraints categorizeThreads() enforces
+  if (merged.itemType === "po_received" && merged.category != null && merged.category !== "customer") {
+    return { error: "po_received threads are always customers" };
+  }
+  if (merged.itemType === "po_sent" && merged.category != null && merged.category !== "vendor") {
+    return { error: "po_sent threads are always vendors" };
+  }
+
+  return { values };
+}
@@ -0,0 +1,42 @@
+/**
+ * Categorization Confidence
+ *
+ * Each categorization carries a 0-1 confidence and a short rationale per field
+ * (category, itemType, needsResponse). The lowest field is stored as the
+ * thread's overall confidence; todos below the review threshold are listed by
+ * GET /api/review-queue for staff to confirm or correct.
+ */
+
+import type { CategorizationConfidence, FieldConfidence } from "./types";
+
+export const DEFAULT_REVIEW_THRESHOLD = 0.6;
+
+export function clampConfidence(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isFinite(value)) return null;
+  return Math.min(1, Math.max(0, value));
+}
+
+// Same certainty and reason for every field (rules, failures)
+export function uniformConfidence(confidence: number, rationale: string): CategorizationConfidence {
+  const field: FieldConfidence = { confidence, rationale };
+  return { category: { ...field }, itemType: { ...field }, needsResponse: { ...field } };
+}
+
+/**
+ * The weakest field - a thread is only as certain as its shakiest answer
+ */
+export function overallConfidence(confidence: CategorizationConfidence | null): number | null {
+  if (!confidence) return null;
+  return Math.min(confidence.category.confidence, confidence.itemType.confidence, confidence.needsResponse.confidence);
+}
+
+/**
+ * Fields below the threshold, for showing staff what to check
+ */
+export function lowConfidenceFields(
+  confidence: CategorizationConfidence | null,
+  threshold: number
+): Array<keyof CategorizationConfidence> {
+  if (!confidence) return [];
+  return (["category", "itemType", "needsResponse"] as const).filter((field) => confidence[field].confidence < threshold);
+}
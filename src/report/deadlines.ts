@@ -0,0 +1,200 @@
+/**
+ * Deadlines
+ *
+ * Dates asked for or promised in a deal: "quote due Friday" in an RFQ, the
+ * required ship date on a PO, the date we promised delivery. The categorizer
+ * gets them from the model (email deadlines) and from the PDF analysis (PO
+ * dates), and stores them on the thread's dash_todo; PO dates are also kept on
+ * email_po_attachments. GET /api/deadlines lists what is due, and the morning
+ * report shows what is overdue or due today.
+ */
+
+import { db, schema } from "@/db";
+import { and, eq, gte, isNotNull, lte, or } from "drizzle-orm";
+import { formatInTimeZone } from "date-fns-tz";
+import type { Deadline, DeadlineKind, DueItem, DueStatus, PoDetails } from "./types";
+
+const TIMEZONE = process.env.REPORT_TIMEZONE || "America/New_York";
+
+// PO dates without an open todo stop being listed as overdue after this long
+// (nothing tells us the order shipped)
+const PO_OVERDUE_LOOKBACK_DAYS = 7;
+
+const DEADLINE_KINDS: DeadlineKind[] = ["due", "required_by", "promised"];
+
+/**
+ * YYYY-MM-DD, or null for anything that isn't a real calendar date
+ */
+export function normalizeDeadlineDate(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  const date = new Date(`${match[1]}-${match[2]}-${match[3]}T00:00:00Z`);
+  if (isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== match[0]) return null;
+  return match[0];
+}
+
+/**
+ * Deadlines as the model returned them: [{ kind, date, description }].
+ * Entries with an unknown kind or an unparseable date are dropped.
+ */
+export function parseModelDeadlines(raw: unknown): Deadline[] {
+  if (!Array.isArray(raw)) return [];
+  const deadlines: Deadline[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== "object") continue;
+    const { kind, date, description } = entry as Record<string, unknown>;
+    const normalized = normalizeDeadlineDate(date);
+    if (!DEADLINE_KINDS.includes(kind as DeadlineKind) || !normalized) continue;
+    deadlines.push({
+      kind: kind as DeadlineKind,
+      date: normalized,
+      description: typeof description === "string" && description.trim() ? description.trim() : String(kind),
+      source: "email",
+    });
+  }
+  return deadlines;
+}
+
+/**
+ * Required and promised dates printed on a PO (older analyses have none)
+ */
+export function deadlinesFromPo(po: PoDetails): Deadline[] {
+  const label = po.poNumber ? `PO ${po.poNumber}` : "PO";
+  const deadlines: Deadline[] = [];
+  const required = normalizeDeadlineDate(po.requiredDate);
+  const promised = normalizeDeadlineDate(po.promisedDate);
+  if (required) deadlines.push({ kind: "required_by", date: required, description: `${label} required date`, source: "po" });
+  if (promised) deadlines.push({ kind: "promised", date: promised, description: `${label} promised date`, source: "po" });
+  return deadlines;
+}
+
+/**
+ * Combine deadline lists, dropping repeats of the same kind and date
+ */
+export function mergeDeadlines(...lists: Deadline[][]): Deadline[] {
+  const seen = new Set<string>();
+  const merged: Deadline[] = [];
+  for (const deadline of lists.flat()) {
+    const key = `${deadline.kind}|${deadline.date}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(deadline);
+  }
+  return merged.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function earliestDeadlineDate(deadlines: Deadline[]): string | null {
+  return deadlines.reduce<string | null>((earliest, d) => (earliest === null || d.date < earliest ? d.date : earliest), null);
+}
+
+// The day `offsetDays` after `from` (default now) as YYYY-MM-DD in the report timezone
+export function getReportDate(offsetDays: number = 0, from: Date = new Date()): string {
+  return formatInTimeZone(new Date(from.getTime() + offsetDays * 24 * 60 * 60 * 1000), TIMEZONE, "yyyy-MM-dd");
+}
+
+// ============================================================
+// Due Items
+// ============================================================
+
+/**
+ * Deadlines on or before `through` (YYYY-MM-DD), most overdue first: every
+ * deadline of an open todo, plus PO dates whose todo is already closed (an
+ * acknowledged PO still has to ship) from the last few days onwards.
+ * `today` decides overdue vs due today (default: the current date).
+ */
+export async function getDueItems(through: string, today: string = getReportDate()): Promise<DueItem[]> {
+  const poSince = getReportDate(-PO_OVERDUE_LOOKBACK_DAYS, new Date(`${today}T12:00:00Z`));
+  const statusOf = (date: string): DueStatus => (date < today ? "overdue" : date === today ? "due_today" : "upcoming");
+
+  const [todos, attachments] = await Promise.all([
+    db
+      .select()
+      .from(schema.dashTodos)
+      .where(
+        and(
+          eq(schema.dashTodos.status, "open"),
+          isNotNull(schema.dashTodos.dueDate),
+          lte(schema.dashTodos.dueDate, through)
+        )
+      ),
+    db
+      .select({
+        threadKey: schema.poAttachments.threadKey,
+        poNumber: schema.poAttachments.poNumber,
+        requiredDate: schema.poAttachments.requiredDate,
+        promisedDate: schema.poAttachments.promisedDate,
+        todoId: schema.dashTodos.id,
+        todoStatus: schema.dashTodos.status,
+        todoType: schema.dashTodos.todoType,
+        subject: schema.dashTodos.subject,
+        contactName: schema.dashTodos.contactName,
+      })
+      .from(schema.poAttachments)
+      .leftJoin(schema.dashTodos, eq(schema.dashTodos.threadKey, schema.poAttachments.threadKey))
+      .where(
+        and(
+          eq(schema.poAttachments.isValidPo, true),
+          or(
+            and(gte(schema.poAttachments.requiredDate, poSince), lte(schema.poAttachments.requiredDate, through)),
+            and(gte(schema.poAttachments.promisedDate, poSince), lte(schema.poAttachments.promisedDate, through))
+          )
+        )
+      ),
+  ]);
+
+  const items: DueItem[] = [];
+  const seen = new Set<string>();
+  const add = (item: DueItem) => {
+    const key = `${item.threadKey}|${item.kind}|${item.date}`;
+    if (item.date > through || seen.has(key)) return;
+    seen.add(key);
+    items.push(item);
+  };
+
+  for (const todo of todos) {
+    const poNumber = (todo.poDetails as PoDetails | null)?.poNumber ?? null;
+    for (const deadline of (todo.deadlines as Deadline[] | null) ?? []) {
+      add({
+        ...deadline,
+        threadKey: todo.threadKey,
+        status: statusOf(deadline.date),
+        subject: todo.subject,
+        contactName: todo.contactName,
+        poNumber: deadline.source === "po" ? poNumber : null,
+        todo: { id: todo.id, status: todo.status, todoType: todo.todoType },
+      });
+    }
+  }
+
+  for (const attachment of attachments) {
+    const todo =
+      attachment.todoId != null && attachment.todoStatus && attachment.todoType
+        ? { id: attachment.todoId, status: attachment.todoStatus, todoType: attachment.todoType }
+        : null;
+    const po: PoDetails = {
+      poNumber: attachment.poNumber,
+      vendor: null,
+      items: [],
+      total: null,
+      currency: "USD",
+      orderDate: null,
+      requiredDate: attachment.requiredDate,
+      promisedDate: attachment.promisedDate,
+    };
+    for (const deadline of deadlinesFromPo(po)) {
+      if (deadline.date < poSince) continue;
+      add({
+        ...deadline,
+        threadKey: attachment.threadKey,
+        status: statusOf(deadline.date),
+        subject: attachment.subject,
+        contactName: attachment.contactName,
+        poNumber: attachment.poNumber,
+        todo,
+      });
+    }
+  }
+
+  return items.sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -10,6 +10,7 @@ import type {
   CategorizedThread,
   IdentifiedTodo,
   DisplayTodo,
+  PriorityReason,
 } from "./types";
 import {
   categorizeThreads,
@@ -18,6 +19,10 @@ import {
   isLastEmailFromUs,
 } from "./categorizer";
 import { identifyTodos } from "./todo-analyzer";
+import { overallConfidence } from "./confidence";
+import { getDueItems, getReportDate } from "./deadlines";
+import { getMailboxRole } from "@/sync/mailboxes";
+import { isOwnAddress } from "@/imap/client";
 import {
   generateDailySummaryHtml,
   generateMorningReminderHtml,
@@ -25,7 +30,7 @@ import {
   generatePlainTextSummary,
 } from "./templates";
 import { sendReportEmail } from "./email-sender";
-import { groupEmailsIntoThreads } from "@/sync/threader";
+import { groupEmailsByThread } from "@/sync/threader";
 
 const TIMEZONE = process.env.REPORT_TIMEZONE || "America/New_York";
 
@@ -103,7 +108,7 @@ async function checkResolvedTodos(
   const emails = await fetchEmailsInWindow(window);
 
   // Group into threads
-  const threadMap = groupEmailsIntoThreads(emails);
+  const threadMap = await groupEmailsByThread(emails);
 
   // Check each todo's thread
   for (const todo of todos) {
@@ -112,16 +117,9 @@ async function checkResolvedTodos(
     if (threadEmails && threadEmails.length > 0) {
       // A todo is resolved if WE sent ANY email in this thread during the window
       // This handles cases where customer sends "thanks" after our reply
-      const weRepliedInWindow = threadEmails.some(email => {
-        const fromLower = email.fromAddress?.toLowerCase() || "";
-        const OUR_DOMAIN = process.env.IMAP_USER?.split("@")[1]?.toLowerCase() || "masprecisionparts.com";
-        return (
-          fromLower.includes(OUR_DOMAIN) ||
-          email.mailbox === "Sent" ||
-          email.mailbox === "Sent Items" ||
-          email.mailbox === "Sent Messages"
-        );
-      });
+      const weRepliedInWindow = threadEmails.some(
+        (email) => isOwnAddress(email.fromAddress) || getMailboxRole(email) === "outbound"
+      );
 
       if (weRepliedInWindow) {
         resolvedIds.add(todo.id);
@@ -261,6 +259,8 @@ export async function generateDailySummary(options: ReportOptions = {}): Promise
       contactName: t.contactName,
       originalDate: t.originalDate,
       subject: t.subject || "",
+      priority: t.priority,
+      priorityReasons: (t.priorityReasons as PriorityReason[] | null) ?? [],
       resolved: resolvedIds.has(t.id),
     }));
 
@@ -324,6 +324,8 @@ export async function generateDailySummary(options: ReportOptions = {}): Promise
       contactName: t.contactName,
       originalDate: t.originalDate,
       subject: t.subject,
+      priority: t.priority,
+      priorityReasons: t.priorityReasons,
     }));
   const todosForDb: IdentifiedTodo[] = [...unresolvedMiddayTodos, ...trulyNewTodos];
 
@@ -397,6 +399,8 @@ export async function generateMorningReminder(options: ReportOptions = {}): Prom
       contactName: t.contactName,
       originalDate: t.originalDate,
       subject: t.subject,
+      priority: t.priority,
+      priorityReasons: t.priorityReasons as PriorityReason[] | null,
       resolved: resolvedIds.has(t.id),
     }));
 
@@ -450,14 +454,22 @@ export async function generateMorningReminder(options: ReportOptions = {}): Prom
       contactName: todo.contactName,
       originalDate: todo.originalDate,
       subject: todo.subject,
+      priority: todo.priority,
+      priorityReasons: todo.priorityReasons,
       resolved: false,
     });
   }
 
+  // Overdue and due-today deadlines (quotes due, PO ship dates)
+  const today = getReportDate(0, window.end);
+  const dueItems = await getDueItems(today, today);
+  console.log(`  ${dueItems.length} deadline(s) overdue or due today`);
+
   // Step 4: Generate HTML
   console.log("\nStep 4: Generating report...");
   const data: MorningReportData = {
     pendingTodos,
+    dueItems,
     overnightEmails,
     overnightReceived,
     overnightSent,
@@ -480,6 +492,8 @@ export interface MiddayReportData {
     contactName: string | null;
     originalDate: Date | null;
     subject: string | null;
+    priority: number;
+    priorityReasons: PriorityReason[] | null;
     resolved?: boolean;
   }[];
   morningEmails: CategorizedThread[];
@@ -532,6 +546,8 @@ export async function generateMiddayReport(options: ReportOptions = {}): Promise
       contactName: t.contactName,
       originalDate: t.originalDate,
       subject: t.subject,
+      priority: t.priority,
+      priorityReasons: t.priorityReasons as PriorityReason[] | null,
       resolved: resolvedIds.has(t.id),
     }));
 
@@ -585,6 +601,8 @@ export async function generateMiddayReport(options: ReportOptions = {}): Promise
       contactName: todo.contactName,
       originalDate: todo.originalDate,
       subject: todo.subject,
+      priority: todo.priority,
+      priorityReasons: todo.priorityReasons,
       resolved: false,
     });
   }
@@ -656,6 +674,15 @@ export async function saveReport(report: GeneratedReport): Promise<number> {
       lastEmailDate: thread.lastEmailDate,
       lastEmailFromUs: thread.lastEmailFromUs,
       poDetails: thread.poDetails,
+      classificationRuleId: thread.classificationRuleId,
+      confidence: overallConfidence(thread.confidence),
+      confidenceDetails: thread.confidence,
+      deadlines: thread.deadlines,
+      model: thread.model,
+      provider: thread.provider,
+      promptVersion: thread.promptVersion,
+      correctionsHash: thread.correctionsHash,
+      degraded: thread.degraded,
     });
   }
 
@@ -670,6 +697,8 @@ export async function saveReport(report: GeneratedReport): Promise<number> {
       contactName: todo.contactName,
       originalDate: todo.originalDate,
       subject: todo.subject,
+      priority: todo.priority,
+      priorityReasons: todo.priorityReasons,
     });
   }
 
@@ -734,6 +763,7 @@ export async function runMorningReminder(options: ReportOptions = {}): Promise<v
     console.log("\n--- Morning Reminder Preview ---");
     console.log(`Pending todos: ${data.pendingTodos.filter(t => !t.resolved).length}`);
     console.log(`Resolved overnight: ${data.pendingTodos.filter(t => t.resolved).length}`);
+    console.log(`Overdue / due today: ${data.dueItems.length}`);
     console.log(`Overnight threads: ${data.overnightEmails.length}`);
     console.log(`Overnight received: ${data.overnightReceived}`);
     console.log(`Overnight sent: ${data.overnightSent}`);
@@ -804,6 +834,15 @@ export async function runMorningReminder(options: ReportOptions = {}): Promise<v
       lastEmailDate: thread.lastEmailDate,
       lastEmailFromUs: thread.lastEmailFromUs,
       poDetails: thread.poDetails,
+      classificationRuleId: thread.classificationRuleId,
+      confidence: overallConfidence(thread.confidence),
+      confidenceDetails: thread.confidence,
+      deadlines: thread.deadlines,
+      model: thread.model,
+      provider: thread.provider,
+      promptVersion: thread.promptVersion,
+      correctionsHash: thread.correctionsHash,
+      degraded: thread.degraded,
     });
   }
 
@@ -818,6 +857,8 @@ export async function runMorningReminder(options: ReportOptions = {}): Promise<v
       contactName: todo.contactName,
       originalDate: todo.originalDate,
       subject: todo.subject,
+      priority: todo.priority,
+      priorityReasons: todo.priorityReasons,
     });
   }
 
@@ -917,6 +958,15 @@ export async function runMiddayReport(options: ReportOptions = {}): Promise<void
       lastEmailDate: thread.lastEmailDate,
       lastEmailFromUs: thread.lastEmailFromUs,
       poDetails: thread.poDetails,
+      classificationRuleId: thread.classificationRuleId,
+      confidence: overallConfidence(thread.confidence),
+      confidenceDetails: thread.confidence,
+      deadlines: thread.deadlines,
+      model: thread.model,
+      provider: thread.provider,
+      promptVersion: thread.promptVersion,
+      correctionsHash: thread.correctionsHash,
+      degraded: thread.degraded,
     });
   }
 
@@ -931,6 +981,8 @@ export async function runMiddayReport(options: ReportOptions = {}): Promise<void
       contactName: todo.contactName,
       originalDate: todo.originalDate,
       subject: todo.subject,
+      priority: todo.priority,
+      priorityReasons: todo.priorityReasons,
     });
   }
 
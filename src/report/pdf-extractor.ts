@@ -1,8 +1,9 @@
 /**
  * PDF Attachment Extractor
  *
- * Fetches PDF attachments from IMAP and analyzes them using Claude's
- * visual PDF analysis (sends PDF as base64, Claude "sees" the document).
+ * Fetches PDF attachments from IMAP and analyzes them with the configured AI
+ * provider. With Claude this is visual PDF analysis (sends PDF as base64,
+ * Claude "sees" the document); text-only providers read its text layer.
  *
  * This replaced the old text-extraction approach (pdf-parse) which lost
  * formatting and couldn't handle tables/charts properly.
@@ -12,14 +13,13 @@
  * content. For now, only PDF attachments are processed.
  */
 
-import Anthropic from "@anthropic-ai/sdk";
 import { createImapClient, fetchBodyPart } from "@/imap/client";
 import { flattenBodyStructure } from "@/imap/parsers";
+import { fetchPdfsFromImportSource } from "@/storage/po-attachment-manager";
 import type { Email } from "@/db/schema";
+import { getAiProvider } from "@/ai";
 import type { CategorizedThread, PoDetails } from "./types";
 
-const anthropic = new Anthropic();
-
 // ============================================================
 // IMAP PDF Fetching
 // ============================================================
@@ -46,9 +46,10 @@ function normalizeDisposition(disposition: any): {
  */
 async function fetchPdfContent(
   uid: number,
-  mailbox: string
+  mailbox: string,
+  account?: string | null
 ): Promise<{ filename: string; content: Buffer }[]> {
-  const client = createImapClient();
+  const client = createImapClient(account);
   const results: { filename: string; content: Buffer }[] = [];
 
   try {
@@ -124,100 +125,20 @@ async function fetchPdfContent(
 }
 
 // ============================================================
-// Claude Vision PDF Analysis
+// PDF Analysis
 // ============================================================
 
 /**
- * Analyze a PDF using Claude's visual document understanding
- *
- * Sends the PDF as base64 to Claude, which can "see" the document
- * including tables, formatting, logos, and handwritten notes.
+ * Analyze a PDF with the configured AI provider.
+ * Quotes and invoices return their details too, not only POs; documents with
+ * nothing to extract (T&Cs, catalogs) come back empty.
  */
-async function analyzePdfWithVision(pdfBuffer: Buffer): Promise<PoDetails | null> {
-  const pdfBase64 = pdfBuffer.toString("base64");
-
-  // Check size limit (32MB max for API, but be conservative)
-  const sizeMB = pdfBuffer.length / (1024 * 1024);
-  if (sizeMB > 25) {
-    console.warn(`PDF too large for vision analysis: ${sizeMB.toFixed(1)}MB`);
-    return null;
-  }
-
+async function analyzePdfWithVision(pdfBuffer: Buffer, threadKey?: string): Promise<PoDetails | null> {
   try {
-    const response = await anthropic.messages.create({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 1500,
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "document",
-              source: {
-                type: "base64",
-                media_type: "application/pdf",
-                data: pdfBase64,
-              },
-            },
-            {
-              type: "text",
-              text: `Extract purchase order details from this document.
-
-Return JSON only:
-{
-  "poNumber": "string or null",
-  "vendor": "vendor/supplier name or null",
-  "items": [{"description": "string", "quantity": number or null, "unitPrice": number or null, "lineTotal": number or null}],
-  "total": number or null,
-  "currency": "USD"
-}
-
-If this is not a PO/invoice/quote, return: {"poNumber": null, "vendor": null, "items": [], "total": null, "currency": "USD"}`,
-            },
-          ],
-        },
-      ],
-    });
-
-    const content = response.content[0];
-    if (content.type !== "text") {
-      return null;
-    }
-
-    // Parse JSON from response
-    const jsonMatch = content.text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.warn("No JSON found in Claude response");
-      return null;
-    }
-
-    const result = JSON.parse(jsonMatch[0]) as {
-      poNumber?: string | null;
-      vendor?: string | null;
-      items?: Array<{
-        description: string;
-        quantity: number | null;
-        unitPrice: number | null;
-        lineTotal: number | null;
-      }>;
-      total?: number | null;
-      currency?: string;
-    };
-
-    return {
-      poNumber: result.poNumber || null,
-      vendor: result.vendor || null,
-      items: (result.items || []).map((item) => ({
-        description: item.description,
-        quantity: item.quantity ?? null,
-        unitPrice: item.unitPrice ?? null,
-        lineTotal: item.lineTotal ?? null,
-      })),
-      total: result.total ?? null,
-      currency: result.currency || "USD",
-    };
+    const result = await getAiProvider().analyzePdf(pdfBuffer, { threadKey });
+    return result.documentDetails ?? result.details;
   } catch (error) {
-    console.error("PDF vision analysis failed:", error);
+    console.error("PDF analysis failed:", error);
     return null;
   }
 }
@@ -227,7 +148,7 @@ If this is not a PO/invoice/quote, return: {"poNumber": null, "vendor": null, "i
 // ============================================================
 
 /**
- * Extract PO details from a thread's PDF attachments using vision
+ * Extract PO details from a thread's PDF attachments
  */
 export async function extractPoDetailsFromThread(
   thread: CategorizedThread
@@ -250,12 +171,15 @@ export async function extractPoDetailsFromThread(
   // Try to extract from the first PDF we find
   for (const email of emailsWithPdfs) {
     try {
-      const pdfs = await fetchPdfContent(email.uid, email.mailbox);
+      // Imported messages are read from disk; Word conversions are skipped (PDF only here)
+      const pdfs = email.importSource
+        ? (await fetchPdfsFromImportSource(email.importSource)).filter((pdf) => !pdf.originalFilename)
+        : await fetchPdfContent(email.uid, email.mailbox, email.account);
 
       for (const pdf of pdfs) {
         console.log(`  Analyzing PDF: ${pdf.filename} (${(pdf.content.length / 1024).toFixed(0)} KB)`);
 
-        const poDetails = await analyzePdfWithVision(pdf.content);
+        const poDetails = await analyzePdfWithVision(pdf.content, thread.threadKey);
 
         if (poDetails && (poDetails.poNumber || poDetails.items.length > 0)) {
           return poDetails;
@@ -284,11 +208,12 @@ export async function analyzePdf(pdfBuffer: Buffer): Promise<PoDetails | null> {
  */
 export async function analyzeEmailPdfs(
   uid: number,
-  mailbox: string
+  mailbox: string,
+  account?: string | null
 ): Promise<Array<{ filename: string; details: PoDetails }>> {
   const results: Array<{ filename: string; details: PoDetails }> = [];
 
-  const pdfs = await fetchPdfContent(uid, mailbox);
+  const pdfs = await fetchPdfContent(uid, mailbox, account);
 
   for (const pdf of pdfs) {
     const details = await analyzePdfWithVision(pdf.content);
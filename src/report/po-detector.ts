@@ -11,9 +11,10 @@
 
 import type { Email, PoAttachment } from "@/db/schema";
 import type { PoDetails } from "./types";
-import { rankAttachmentsForPo, type AttachmentInfo } from "./summarizer";
+import { rankAttachmentsForPo } from "./summarizer";
+import type { AttachmentInfo } from "@/ai/types";
 import {
-  fetchSpecificAttachment,
+  fetchEmailAttachment,
   storeAttachment,
   analyzeAndValidatePo,
   updateAttachmentAnalysis,
@@ -140,7 +141,7 @@ export async function smartPoDetection(
   console.log(`  Smart PO detection: ${attachments.length} attachment(s) in email ${email.uid}`);
 
   // Step 2: Rank attachments by PO likelihood
-  const rankedAttachments = await rankAttachmentsForPo(attachments, threadSubject, sender);
+  const rankedAttachments = await rankAttachmentsForPo(attachments, threadSubject, sender, { threadKey });
   const candidates = rankedAttachments.filter((r) => r.isPoCandidate);
 
   if (candidates.length === 0) {
@@ -199,7 +200,7 @@ export async function smartPoDetection(
     // Fetch the specific attachment
     let fetchedPdf: FetchedPdf | null = null;
     try {
-      fetchedPdf = await fetchSpecificAttachment(email.uid, email.mailbox, candidate.filename);
+      fetchedPdf = await fetchEmailAttachment(email, candidate.filename);
     } catch (error) {
       console.error(`    Fetch failed for ${candidate.filename}:`, error);
       attemptedFiles.push({
@@ -237,18 +238,21 @@ export async function smartPoDetection(
     const validationResult = await analyzeAndValidatePo(fetchedPdf.content, {
       subject: threadSubject,
       sender,
+      threadKey,
     });
 
-    // Update the stored attachment with analysis results
-    await updateAttachmentAnalysis(stored.id, {
-      poNumber: validationResult.details?.poNumber || null,
-      poTotal: validationResult.details?.total
-        ? Math.round(validationResult.details.total * 100)
-        : null,
-      analysisJson: validationResult.details,
-      isValidPo: validationResult.isValidPo,
-      notPoReason: validationResult.notPoReason,
-    });
+    // Update the stored attachment with analysis results (not a rules-only stand-in - the AI redoes it later)
+    if (!validationResult.degraded) {
+      await updateAttachmentAnalysis(stored.id, {
+        poNumber: validationResult.details?.poNumber || null,
+        poTotal: validationResult.details?.total
+          ? Math.round(validationResult.details.total * 100)
+          : null,
+        analysisJson: validationResult.details,
+        isValidPo: validationResult.isValidPo,
+        notPoReason: validationResult.notPoReason,
+      });
+    }
 
     if (validationResult.isValidPo && validationResult.details) {
       console.log(`    Valid PO: ${validationResult.details.poNumber || "(no number)"} $${validationResult.details.total || "?"}`);
@@ -1,16 +1,16 @@
 import "dotenv/config";
 import { db, schema } from "@/db";
 import { sql, desc } from "drizzle-orm";
-import { groupEmailsIntoThreads } from "@/sync/threader";
+import { groupEmailsByThread } from "@/sync/threader";
 import { categorizeThreadWithAI } from "./summarizer";
 import type { Category, Email } from "@/db/schema";
 import type { EmailForPrompt } from "./types";
-
-const OUR_DOMAIN = process.env.IMAP_USER?.split("@")[1]?.toLowerCase() || "masprecisionparts.com";
+import { getCleanBody } from "@/imap/body-cleaner";
+import { isOwnAddress } from "@/imap/client";
 
 function isFromUs(email: Email): boolean {
   return (
-    email.fromAddress?.toLowerCase().includes(OUR_DOMAIN) ||
+    isOwnAddress(email.fromAddress) ||
     email.mailbox === "Sent" ||
     email.mailbox === "Sent Messages"
   );
@@ -22,7 +22,7 @@ function toEmailForPrompt(email: Email): EmailForPrompt {
     to: email.toAddresses || "",
     date: email.date,
     subject: email.subject || "",
-    body: email.bodyText || "",
+    body: getCleanBody(email),
     isOutbound: isFromUs(email),
     hasAttachments: email.hasAttachments || false,
   };
@@ -43,7 +43,7 @@ async function analyzeThread(threadKey: string, emails: Email[]) {
     .map((e) => {
       const dir = isFromUs(e) ? "[SENT]" : "[RECEIVED]";
       const date = e.date?.toLocaleString("en-US", { timeZone: "America/New_York" }) || "unknown";
-      return `${dir} ${date}\nFrom: ${e.fromAddress}\nSubject: ${e.subject}\n\n${e.bodyText?.slice(0, 800) || "(no body)"}`;
+      return `${dir} ${date}\nFrom: ${e.fromAddress}\nSubject: ${e.subject}\n\n${getCleanBody(e).slice(0, 800) || "(no body)"}`;
     })
     .join("\n---\n");
 
@@ -54,7 +54,7 @@ async function analyzeThread(threadKey: string, emails: Email[]) {
   // Convert to EmailForPrompt format
   const emailsForPrompt = emails.map(toEmailForPrompt);
 
-  const result = await categorizeThreadWithAI(emailsForPrompt, initialCategory);
+  const result = await categorizeThreadWithAI(emailsForPrompt, initialCategory, { threadKey });
 
   console.log("Category:", result.category);
   console.log("Item Type:", result.itemType);
@@ -91,7 +91,7 @@ async function main() {
   console.log(`Found ${emails.length} emails. Grouping into threads...\n`);
 
   // Group into threads
-  const threadMap = groupEmailsIntoThreads(emails);
+  const threadMap = await groupEmailsByThread(emails);
 
   // Show threads and let user pick
   const threads = Array.from(threadMap.entries());
@@ -0,0 +1,121 @@
+/**
+ * Re-categorization
+ *
+ * After a categorization prompt gets a new version (src/ai/prompts.ts), open
+ * todos keep the category the old prompt gave them. This runs their threads
+ * through the categorizer again, bypassing the cache, and writes the new
+ * classification to dash_todos; staff corrections and rule decisions are left
+ * alone. Todos the rules-only provider classified are picked up too once a
+ * model is configured. Run in the background by the IDLE daemon when
+ * AI_ON_PROMPT_CHANGE=recategorize, or with `npm run ai:recategorize`.
+ */
+
+import { db, schema } from "@/db";
+import { and, eq, inArray, isNotNull, isNull, ne, or } from "drizzle-orm";
+import { getAiProviderName, isAiBudgetExhausted } from "@/ai";
+import { isCurrentPromptVersion } from "@/ai/prompts";
+import { syncDashTodos } from "@/dashboard/todo-sync";
+import { categorizeThreadsForEmails } from "./categorizer";
+import { identifyTodos } from "./todo-analyzer";
+
+// Threads per categorizer run - one batch prompt
+const BATCH_SIZE = 20;
+
+export interface RecategorizeOptions {
+  all?: boolean; // Every open todo, not only those from an older prompt version
+  shouldStop?: () => boolean; // Checked between batches
+}
+
+export interface RecategorizeResult {
+  candidates: number;
+  recategorized: number;
+  updatedTodos: number;
+  newTodos: number;
+  resolvedTodos: number;
+}
+
+/**
+ * Open todos the classifier decided with something other than the current
+ * prompt version (or with the rules-only provider). Todos from before threads
+ * were stored have no thread to re-read and are skipped.
+ */
+export async function findStaleOpenTodos(options: { all?: boolean } = {}) {
+  const open = await db
+    .select({
+      threadKey: schema.dashTodos.threadKey,
+      threadId: schema.dashTodos.threadId,
+      model: schema.dashTodos.model,
+      provider: schema.dashTodos.provider,
+      promptVersion: schema.dashTodos.promptVersion,
+    })
+    .from(schema.dashTodos)
+    .where(
+      and(
+        eq(schema.dashTodos.status, "open"),
+        isNull(schema.dashTodos.classificationRuleId),
+        or(isNull(schema.dashTodos.aiCorrected), eq(schema.dashTodos.aiCorrected, false)),
+        isNotNull(schema.dashTodos.threadId)
+      )
+    );
+
+  return open.filter(
+    (todo) =>
+      options.all ||
+      todo.provider === "rules" ||
+      todo.model === "rules" ||
+      !isCurrentPromptVersion(todo.promptVersion)
+  );
+}
+
+export async function recategorizeOpenThreads(options: RecategorizeOptions = {}): Promise<RecategorizeResult> {
+  const result: RecategorizeResult = { candidates: 0, recategorized: 0, updatedTodos: 0, newTodos: 0, resolvedTodos: 0 };
+
+  // The rules-only provider has no prompt to be out of date with
+  if (getAiProviderName() === "rules") {
+    console.log("Re-categorization skipped: no AI model configured");
+    return result;
+  }
+
+  const stale = await findStaleOpenTodos(options);
+  result.candidates = stale.length;
+  if (stale.length === 0) return result;
+
+  console.log(`Re-categorizing ${stale.length} open thread(s)`);
+
+  for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+    if (options.shouldStop?.()) break;
+    if (await isAiBudgetExhausted()) {
+      console.warn("AI daily budget reached - re-categorization stopped");
+      break;
+    }
+
+    const batch = stale.slice(i, i + BATCH_SIZE);
+    try {
+      const emails = await db
+        .select({ id: schema.emails.id })
+        .from(schema.emails)
+        .where(
+          and(
+            inArray(schema.emails.threadId, batch.map((todo) => todo.threadId!)),
+            ne(schema.emails.serverState, "deleted")
+          )
+        );
+
+      const threads = await categorizeThreadsForEmails(
+        emails.map((email) => email.id),
+        { reanalyze: true }
+      );
+      const sync = await syncDashTodos(threads, identifyTodos(threads), { reclassify: true });
+
+      result.recategorized += threads.length;
+      result.updatedTodos += sync.updatedThreads;
+      result.newTodos += sync.newTodos;
+      result.resolvedTodos += sync.resolvedTodos;
+    } catch (error) {
+      // Leave this batch on the old classification; the next run retries it
+      console.error("Re-categorization batch failed:", error);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,48 @@
+import "dotenv/config";
+import { findStaleOpenTodos, recategorizeOpenThreads } from "./recategorize";
+
+function printUsage() {
+  console.log(`
+Usage: npm run ai:recategorize -- [options]
+
+Re-categorizes the threads of open todos that were classified with an older
+prompt version (or by the rules-only provider), bypassing the categorization
+cache. Staff-corrected todos and classification rule decisions are kept.
+
+Options:
+  --all       Every open todo, not only those from an older prompt version
+  --dry-run   List how many todos would be re-categorized and stop
+
+Examples:
+  npm run ai:recategorize -- --dry-run
+  npm run ai:recategorize -- --all
+`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.includes("--help") || args.includes("-h")) {
+    printUsage();
+    process.exit(0);
+  }
+
+  const all = args.includes("--all");
+
+  if (args.includes("--dry-run")) {
+    const stale = await findStaleOpenTodos({ all });
+    console.log(`${stale.length} open todo(s) would be re-categorized`);
+    process.exit(0);
+  }
+
+  const result = await recategorizeOpenThreads({ all });
+  console.log(
+    `Re-categorized ${result.recategorized} of ${result.candidates} thread(s): ` +
+    `${result.updatedTodos} todos updated, ${result.newTodos} new, ${result.resolvedTodos} resolved`
+  );
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Re-categorization failed:", error);
+  process.exit(1);
+});
@@ -6,14 +6,17 @@ import { and, eq } from "drizzle-orm";
 import type { ReportOptions } from "./types";
 import type { ReportType } from "@/db/schema";
 
-function parseArgs(): { morning: boolean; midday: boolean; noBackfill: boolean; options: ReportOptions } {
+function parseArgs(): { morning: boolean; midday: boolean; noBackfill: boolean; replay: boolean; cron: boolean; options: ReportOptions } {
   const args = process.argv.slice(2);
   const morning = args.includes("--morning");
   const midday = args.includes("--midday");
-  const preview = args.includes("--preview");
+  // Replayed answers reproduce a past report - nothing is saved or sent
+  const preview = args.includes("--preview") || args.includes("--replay");
   const skipEmail = args.includes("--skip-email");
   const reanalyze = args.includes("--reanalyze");
   const noBackfill = args.includes("--no-backfill");
+  const replay = args.includes("--replay");
+  const cron = args.includes("--cron");
 
   let date: Date | undefined;
   const dateArg = args.find((arg) => arg.startsWith("--date="));
@@ -30,6 +33,8 @@ function parseArgs(): { morning: boolean; midday: boolean; noBackfill: boolean;
     morning,
     midday,
     noBackfill,
+    replay,
+    cron,
     options: { date, preview, skipEmail, reanalyze },
   };
 }
@@ -46,6 +51,8 @@ Options:
   --reanalyze    Force re-analysis of all threads (bypass cache)
   --date=YYYY-MM-DD  Generate report for a specific date
   --no-backfill  Skip backfilling missing reports (run requested report only)
+  --replay       Answer AI calls only from recorded responses (no model calls, no sync; implies --preview)
+  --cron         Record the email sync as a scheduled run (scripts/run-report.sh)
 
 Examples:
   npm run report                    # Generate and send 4pm daily summary
@@ -54,6 +61,7 @@ Examples:
   npm run report -- --midday        # Generate and send 12pm midday report
   npm run report -- --date=2024-01-15 --preview   # Preview historical report
   npm run report -- --reanalyze     # Re-analyze all threads with AI (after prompt changes)
+  npm run report -- --date=2024-01-15 --preview --reanalyze --replay   # Reproduce a past report's AI answers
 `);
 }
 
@@ -160,13 +168,16 @@ async function main() {
     process.exit(0);
   }
 
-  const { morning, midday, noBackfill, options } = parseArgs();
+  const { morning, midday, noBackfill, replay, cron, options } = parseArgs();
+  if (replay) {
+    process.env.AI_CACHE_MODE = "replay";
+  }
 
   try {
-    // Sync emails first (unless previewing historical data)
-    if (!options.date) {
+    // Sync emails first (unless previewing historical data or replaying - new mail changes the prompts)
+    if (!options.date && !replay) {
       console.log("Syncing emails...");
-      const syncResult = await syncEmails();
+      const syncResult = await syncEmails({ trigger: cron ? "cron" : "manual" });
       console.log(`Synced ${syncResult.emailsSynced} emails\n`);
     }
 
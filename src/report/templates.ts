@@ -1,6 +1,7 @@
-import type { CategorizedThread, MorningReportData, DisplayTodo } from "./types";
+import type { CategorizedThread, MorningReportData, DisplayTodo, DueItem } from "./types";
 import type { MiddayReportData } from "./generator";
 import { getTodoPriority } from "./todo-analyzer";
+import { compareByPriority } from "./urgency";
 import { formatPoDetailsDisplay } from "./po-detector";
 
 // Outlook-compatible styles (minimal - most styling is inline)
@@ -136,11 +137,31 @@ function getTodoLabel(todoType: string): { text: string; class: string } {
   }
 }
 
+// Urgency signals worth calling out (the todo type and age are already shown)
+function formatUrgency(todo: DisplayTodo): string {
+  return todo.priorityReasons
+    .filter((reason) => reason.signal !== "todo_type" && reason.signal !== "age")
+    .map((reason) => reason.detail)
+    .join(" · ");
+}
+
+// Pending first, then by priority (highest first, oldest first among equals)
+function sortDisplayTodos(todos: DisplayTodo[]): DisplayTodo[] {
+  return [...todos].sort((a, b) => {
+    if (a.resolved !== b.resolved) {
+      return a.resolved ? 1 : -1;
+    }
+    return compareByPriority(a, b);
+  });
+}
+
 function renderDisplayTodo(todo: DisplayTodo): string {
   const label = getTodoLabel(todo.todoType);
-  const labelColor = todo.resolved ? "#888888" : (label.class === "urgent" ? "#dc2626" : "#d97706");
+  const urgent = label.class === "urgent" || getTodoPriority(todo.priority) === "high";
+  const labelColor = todo.resolved ? "#888888" : (urgent ? "#dc2626" : "#d97706");
   const timestamp = formatTimestamp(todo.originalDate);
   const textStyle = todo.resolved ? "text-decoration: line-through; color: #888888;" : "";
+  const urgency = formatUrgency(todo);
 
   // Use table layout for Outlook compatibility - no buttons (they don't work in email)
   return `
@@ -156,6 +177,7 @@ function renderDisplayTodo(todo: DisplayTodo): string {
           <div style="font-size: 13px; color: #666666; margin-bottom: 4px; ${textStyle}">
             ${escapeHtml(todo.contactName || todo.contactEmail || "Unknown")}${timestamp ? ` · ${timestamp}` : ""}
           </div>
+          ${urgency && !todo.resolved ? `<div style="font-size: 12px; font-weight: bold; color: #dc2626; margin-bottom: 4px;">${escapeHtml(urgency)}</div>` : ""}
           ${todo.description ? `<div style="font-size: 13px; color: #888888; ${textStyle}">${escapeHtml(todo.description)}</div>` : ""}
         </td>
       </tr>
@@ -163,6 +185,32 @@ function renderDisplayTodo(todo: DisplayTodo): string {
   `;
 }
 
+function renderDueItem(item: DueItem): string {
+  const overdue = item.status === "overdue";
+  const [year, month, day] = item.date.split("-").map(Number);
+  const dateLabel = new Date(Date.UTC(year, month - 1, day)).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    month: "short",
+    day: "numeric",
+  });
+
+  return `
+    <table width="100%" cellpadding="0" cellspacing="0" style="border-bottom: 1px solid #f0f0f0; margin-bottom: 8px;">
+      <tr>
+        <td width="130" valign="top" style="padding: 8px 12px 8px 0; font-size: 10px; font-weight: bold; text-transform: uppercase; color: ${overdue ? "#dc2626" : "#d97706"};">
+          ${overdue ? `Overdue · ${dateLabel}` : "Due Today"}
+        </td>
+        <td valign="top" style="padding: 8px 0;">
+          <div style="font-weight: bold; font-size: 14px; margin-bottom: 2px;">${escapeHtml(item.description)}</div>
+          <div style="font-size: 13px; color: #666666;">
+            ${escapeHtml(item.subject || "(no subject)")}${item.contactName ? ` · ${escapeHtml(item.contactName)}` : ""}
+          </div>
+        </td>
+      </tr>
+    </table>
+  `;
+}
+
 // Sort order for item types
 const itemTypeSortOrder: Record<string, number> = {
   po_received: 1,
@@ -226,17 +274,8 @@ export function generateDailySummaryHtml(
     (t.category === "customer" || t.category === "vendor") && !shouldShowThread(t)
   );
 
-  // Sort todos: pending first (oldest first), then resolved (oldest first)
-  const sortedTodos = [...todos].sort((a, b) => {
-    // First by resolved status (pending first)
-    if (a.resolved !== b.resolved) {
-      return a.resolved ? 1 : -1;
-    }
-    // Then by date (oldest first)
-    const dateA = a.originalDate?.getTime() ?? 0;
-    const dateB = b.originalDate?.getTime() ?? 0;
-    return dateA - dateB;
-  });
+  // Sort todos: pending first, then resolved - each by priority
+  const sortedTodos = sortDisplayTodos(todos);
 
   // Combine "other" category and "handled old threads" into ignored
   const allIgnored = [...otherThreads, ...handledThreads];
@@ -320,6 +359,8 @@ export function generateMorningReminderHtml(data: MorningReportData, reportDate:
     contactName: t.contactName,
     originalDate: t.originalDate,
     subject: t.subject || "",
+    priority: t.priority,
+    priorityReasons: t.priorityReasons ?? [],
     resolved: t.resolved || false,
   }));
 
@@ -341,12 +382,23 @@ export function generateMorningReminderHtml(data: MorningReportData, reportDate:
           4pm – 7am · ${data.overnightReceived} received, ${data.overnightSent} sent overnight
         </div>
 
+        ${data.dueItems.length > 0 ? `
+        <table width="100%" cellpadding="16" cellspacing="0" style="background-color: #fee2e2; border: 1px solid #dc2626; margin-bottom: 24px;">
+          <tr>
+            <td>
+              <h2 style="color: #991b1b; font-size: 13px; font-weight: bold; text-transform: uppercase; letter-spacing: 0.5px; margin: 0 0 10px 0; padding-bottom: 6px; border-bottom: 1px solid #dc2626;">Overdue &amp; Due Today (${data.dueItems.length})</h2>
+              ${data.dueItems.map(renderDueItem).join("")}
+            </td>
+          </tr>
+        </table>
+        ` : ""}
+
         ${unresolvedTodos.length > 0 ? `
         <table width="100%" cellpadding="16" cellspacing="0" style="background-color: #fef3c7; border: 1px solid #f59e0b; margin-bottom: 24px;">
           <tr>
             <td>
               <h2 style="color: #92400e; font-size: 13px; font-weight: bold; text-transform: uppercase; letter-spacing: 0.5px; margin: 0 0 10px 0; padding-bottom: 6px; border-bottom: 1px solid #f59e0b;">Action Items (${unresolvedTodos.length})</h2>
-              ${displayTodos.map(renderDisplayTodo).join("")}
+              ${sortDisplayTodos(displayTodos).map(renderDisplayTodo).join("")}
             </td>
           </tr>
         </table>
@@ -425,6 +477,8 @@ export function generateMiddayReportHtml(data: MiddayReportData, reportDate: Dat
     contactName: t.contactName,
     originalDate: t.originalDate,
     subject: t.subject || "",
+    priority: t.priority,
+    priorityReasons: t.priorityReasons ?? [],
     resolved: t.resolved || false,
   }));
 
@@ -451,7 +505,7 @@ export function generateMiddayReportHtml(data: MiddayReportData, reportDate: Dat
           <tr>
             <td>
               <h2 style="color: #92400e; font-size: 13px; font-weight: bold; text-transform: uppercase; letter-spacing: 0.5px; margin: 0 0 10px 0; padding-bottom: 6px; border-bottom: 1px solid #f59e0b;">Action Items (${unresolvedTodos.length})</h2>
-              ${displayTodos.map(renderDisplayTodo).join("")}
+              ${sortDisplayTodos(displayTodos).map(renderDisplayTodo).join("")}
             </td>
           </tr>
         </table>
@@ -529,15 +583,8 @@ export function generatePlainTextSummary(
   lines.push(`\n${dateStr}`);
   lines.push(`${received} received, ${sent} sent\n`);
 
-  // Show all todos: pending first (oldest first), then resolved (oldest first)
-  const sortedTodos = [...todos].sort((a, b) => {
-    if (a.resolved !== b.resolved) {
-      return a.resolved ? 1 : -1;
-    }
-    const dateA = a.originalDate?.getTime() ?? 0;
-    const dateB = b.originalDate?.getTime() ?? 0;
-    return dateA - dateB;
-  });
+  // Show all todos: pending first, then resolved - each by priority
+  const sortedTodos = sortDisplayTodos(todos);
 
   if (sortedTodos.length > 0) {
     lines.push(`ACTION ITEMS:`);
@@ -550,7 +597,7 @@ export function generatePlainTextSummary(
         hour: "numeric",
         minute: "2-digit",
       }) : "";
-      lines.push(`  ${marker} ${todo.subject}`);
+      lines.push(`  ${marker} [${todo.priority}] ${todo.subject}`);
       lines.push(`      ${todo.contactName || todo.contactEmail || "Unknown"}${timestamp ? ` · ${timestamp}` : ""}`);
     }
     lines.push("");
@@ -0,0 +1,273 @@
+/**
+ * Thread Links
+ *
+ * Separate threads of one deal - our RFQ and the vendor's quote, the quote and
+ * the PO it turned into, the PO and its invoice, a forward and its original -
+ * stored as typed edges in thread_links. The categorizer records them from the
+ * model's relatedTo answer and from PO numbers found in other threads.
+ * Edges point from the earlier stage to the later one.
+ *
+ * Edges are keyed by thread_key. Merging threads re-points them to the
+ * surviving thread (thread-assigner mergeThreads); lookups still resolve keys
+ * through email_threads.merged_into for edges recorded before that.
+ */
+
+import { db, schema } from "@/db";
+import { and, eq, gte, ilike, inArray, ne, or, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import type { DashTodo, ItemType, NewThreadLink, ThreadLink, ThreadLinkType } from "@/db/schema";
+import type { CategorizedThread } from "./types";
+
+// How far back PO numbers are looked for in other threads' subjects
+const PO_LINK_LOOKBACK_DAYS = 180;
+const MIN_PO_NUMBER_LENGTH = 4; // Shorter numbers match unrelated subjects
+
+type Stage = "rfq" | "quote" | "po" | "invoice";
+
+const STAGE_ORDER: Stage[] = ["rfq", "quote", "po", "invoice"];
+
+const STAGE_LINK_TYPES: Partial<Record<`${Stage}>${Stage}`, ThreadLinkType>> = {
+  "rfq>quote": "rfq_to_quote",
+  "quote>po": "quote_to_po",
+  "po>invoice": "po_to_invoice",
+};
+
+const FORWARD_PATTERN = /^\s*(fw|fwd)\s*:/i;
+
+export interface LinkableThread {
+  threadKey: string;
+  threadId: number | null;
+  subject: string | null;
+  itemType: ItemType | null;
+}
+
+// Deal stage from the subject and itemType; null when neither says
+function stageOf(thread: LinkableThread): Stage | null {
+  const subject = thread.subject ?? "";
+  if (/\binvoice\b/i.test(subject)) return "invoice";
+  if (thread.itemType === "po_received" || thread.itemType === "po_sent") return "po";
+  if (/\b(purchase order|p\.?o\.?\s*(#|no\.?|number))/i.test(subject)) return "po";
+  if (thread.itemType === "quote_request" || /\b(rfq|request for quot\w*)\b/i.test(subject)) return "rfq";
+  if (/\b(quotation|quote|estimate)\b/i.test(subject)) return "quote";
+  return null;
+}
+
+/**
+ * Type and direction of the edge between an original thread and one that
+ * answers or continues it (the relatedTo pair)
+ */
+export function inferThreadLink(
+  original: LinkableThread,
+  response: LinkableThread
+): Pick<NewThreadLink, "fromThreadKey" | "toThreadKey" | "fromThreadId" | "toThreadId" | "linkType"> {
+  const edge = (from: LinkableThread, to: LinkableThread, linkType: ThreadLinkType) => ({
+    fromThreadKey: from.threadKey,
+    toThreadKey: to.threadKey,
+    fromThreadId: from.threadId,
+    toThreadId: to.threadId,
+    linkType,
+  });
+
+  if (FORWARD_PATTERN.test(response.subject ?? "")) return edge(original, response, "forward_of");
+  if (FORWARD_PATTERN.test(original.subject ?? "")) return edge(response, original, "forward_of");
+
+  const originalStage = stageOf(original);
+  const responseStage = stageOf(response);
+  if (originalStage && responseStage && originalStage !== responseStage) {
+    const [earlier, later] =
+      STAGE_ORDER.indexOf(originalStage) < STAGE_ORDER.indexOf(responseStage)
+        ? [original, response]
+        : [response, original];
+    const linkType = STAGE_LINK_TYPES[`${stageOf(earlier)}>${stageOf(later)}` as `${Stage}>${Stage}`];
+    if (linkType) return edge(earlier, later, linkType);
+  }
+
+  return edge(original, response, "related");
+}
+
+/**
+ * Insert edges, skipping ones already recorded. Returns how many were new.
+ */
+export async function recordThreadLinks(links: NewThreadLink[]): Promise<number> {
+  if (links.length === 0) return 0;
+  const inserted = await db
+    .insert(schema.threadLinks)
+    .values(links)
+    .onConflictDoNothing()
+    .returning({ id: schema.threadLinks.id });
+  return inserted.length;
+}
+
+/**
+ * The thread each merged-away key now belongs to. Keys of threads that were
+ * not merged are left out.
+ */
+export async function resolveMergedThreadKeys(
+  threadKeys: string[]
+): Promise<Map<string, { threadKey: string; threadId: number }>> {
+  const resolved = new Map<string, { threadKey: string; threadId: number }>();
+  if (threadKeys.length === 0) return resolved;
+
+  const survivor = alias(schema.threads, "survivor");
+  const rows = await db
+    .select({ threadKey: schema.threads.threadKey, survivorKey: survivor.threadKey, survivorId: survivor.id })
+    .from(schema.threads)
+    .innerJoin(survivor, eq(survivor.id, schema.threads.mergedInto))
+    .where(inArray(schema.threads.threadKey, threadKeys));
+
+  for (const row of rows) {
+    resolved.set(row.threadKey, { threadKey: row.survivorKey, threadId: row.survivorId });
+  }
+  return resolved;
+}
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+/**
+ * Link PO threads to other threads carrying the same PO number - another
+ * thread's attachment with that number, or a subject mentioning it (the
+ * invoice, a forward to the shop floor).
+ */
+export async function linkThreadsByPoNumber(threads: CategorizedThread[]): Promise<number> {
+  const since = new Date(Date.now() - PO_LINK_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const links: NewThreadLink[] = [];
+  // Attachments keep the thread key they were stored under; follow merges from there
+  const survivor = alias(schema.threads, "survivor");
+
+  for (const thread of threads) {
+    const poNumber = thread.poDetails?.poNumber?.trim();
+    if (!poNumber || poNumber.length < MIN_PO_NUMBER_LENGTH) continue;
+
+    const [fromAttachments, fromSubjects] = await Promise.all([
+      db
+        .selectDistinct({
+          threadKey: sql<string>`coalesce(${survivor.threadKey}, ${schema.poAttachments.threadKey})`,
+          threadId: sql<number | null>`coalesce(${survivor.id}, ${schema.threads.id})`,
+          subject: sql<string | null>`coalesce(${survivor.subject}, ${schema.threads.subject})`,
+        })
+        .from(schema.poAttachments)
+        .leftJoin(schema.threads, eq(schema.threads.threadKey, schema.poAttachments.threadKey))
+        .leftJoin(survivor, eq(survivor.id, schema.threads.mergedInto))
+        .where(and(eq(schema.poAttachments.poNumber, poNumber), ne(schema.poAttachments.threadKey, thread.threadKey))),
+      db
+        .selectDistinct({
+          threadKey: schema.threads.threadKey,
+          threadId: schema.threads.id,
+          subject: schema.threads.subject,
+        })
+        .from(schema.emails)
+        .innerJoin(schema.threads, eq(schema.threads.id, schema.emails.threadId))
+        .where(
+          and(
+            ilike(schema.emails.subject, `%${escapeLikePattern(poNumber)}%`),
+            gte(schema.emails.date, since),
+            ne(schema.threads.threadKey, thread.threadKey)
+          )
+        ),
+    ]);
+
+    const others = new Map(
+      [...fromAttachments, ...fromSubjects]
+        .filter((other) => other.threadKey !== thread.threadKey) // An attachment of a thread merged into this one
+        .map((other) => [other.threadKey, other])
+    );
+    const self: LinkableThread = {
+      threadKey: thread.threadKey,
+      threadId: thread.threadId,
+      subject: thread.subject,
+      itemType: thread.itemType,
+    };
+
+    for (const other of others.values()) {
+      const edge = inferThreadLink(self, { ...other, threadId: other.threadId ?? null, itemType: null });
+      links.push({ ...edge, source: "po_number", poNumber });
+    }
+  }
+
+  return recordThreadLinks(links);
+}
+
+// ============================================================
+// Queries
+// ============================================================
+
+/**
+ * Every edge touching a thread, in either direction. Edges recorded under the
+ * key of a thread since merged into it (or on the other end) come back under
+ * the surviving key; those that end up on the thread itself or repeat another
+ * edge are dropped.
+ */
+export async function getThreadLinks(threadKey: string): Promise<ThreadLink[]> {
+  const survivor = alias(schema.threads, "survivor");
+  const mergedAway = await db
+    .select({ threadKey: schema.threads.threadKey })
+    .from(schema.threads)
+    .innerJoin(survivor, eq(survivor.id, schema.threads.mergedInto))
+    .where(eq(survivor.threadKey, threadKey));
+  const keys = [threadKey, ...mergedAway.map((row) => row.threadKey)];
+
+  const links = await db
+    .select()
+    .from(schema.threadLinks)
+    .where(or(inArray(schema.threadLinks.fromThreadKey, keys), inArray(schema.threadLinks.toThreadKey, keys)))
+    .orderBy(schema.threadLinks.createdAt);
+
+  const merged = await resolveMergedThreadKeys([...new Set(links.flatMap((link) => [link.fromThreadKey, link.toThreadKey]))]);
+  const seen = new Set<string>();
+  const resolved: ThreadLink[] = [];
+
+  for (const link of links) {
+    const from = merged.get(link.fromThreadKey);
+    const to = merged.get(link.toThreadKey);
+    const fromThreadKey = from?.threadKey ?? link.fromThreadKey;
+    const toThreadKey = to?.threadKey ?? link.toThreadKey;
+    const edge = `${fromThreadKey}\n${toThreadKey}\n${link.linkType}`;
+    if (fromThreadKey === toThreadKey || seen.has(edge)) continue;
+    seen.add(edge);
+
+    resolved.push({
+      ...link,
+      fromThreadKey,
+      toThreadKey,
+      fromThreadId: from?.threadId ?? link.fromThreadId,
+      toThreadId: to?.threadId ?? link.toThreadId,
+    });
+  }
+
+  return resolved;
+}
+
+/**
+ * Open todos on threads linked to any of these (the threads themselves excluded).
+ * `upstreamOnly` keeps threads at an earlier stage (the RFQ and quote behind a
+ * PO, the original of a forward) - those a later stage settles.
+ */
+export async function findLinkedOpenTodos(
+  threadKeys: string[],
+  options: { upstreamOnly?: boolean } = {}
+): Promise<DashTodo[]> {
+  if (threadKeys.length === 0) return [];
+
+  const upstream = db
+    .select({ threadKey: schema.threadLinks.fromThreadKey })
+    .from(schema.threadLinks)
+    .where(and(inArray(schema.threadLinks.toThreadKey, threadKeys), ne(schema.threadLinks.linkType, "related")));
+  const linked = options.upstreamOnly
+    ? upstream
+    : db
+        .select({
+          threadKey: sql<string>`CASE WHEN ${inArray(schema.threadLinks.fromThreadKey, threadKeys)} THEN ${schema.threadLinks.toThreadKey} ELSE ${schema.threadLinks.fromThreadKey} END`,
+        })
+        .from(schema.threadLinks)
+        .where(or(inArray(schema.threadLinks.fromThreadKey, threadKeys), inArray(schema.threadLinks.toThreadKey, threadKeys)));
+
+  const linkedKeys = [...new Set((await linked).map((row) => row.threadKey))].filter((key) => !threadKeys.includes(key));
+  if (linkedKeys.length === 0) return [];
+
+  return db
+    .select()
+    .from(schema.dashTodos)
+    .where(and(inArray(schema.dashTodos.threadKey, linkedKeys), eq(schema.dashTodos.status, "open")));
+}
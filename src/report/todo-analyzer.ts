@@ -1,5 +1,6 @@
 import type { TodoType } from "@/db/schema";
 import type { CategorizedThread, IdentifiedTodo } from "./types";
+import { getPriorityLevel, scoreTodoPriority } from "./urgency";
 
 // Identify action items from categorized threads
 export function identifyTodos(threads: CategorizedThread[]): IdentifiedTodo[] {
@@ -24,6 +25,7 @@ export function identifyTodos(threads: CategorizedThread[]): IdentifiedTodo[] {
           contactName: thread.contactName,
           originalDate: thread.lastEmailDate,
           subject: thread.subject,
+          ...prioritize("vendor_followup", thread),
         });
       }
       continue;
@@ -90,9 +92,16 @@ function identifyTodoForThread(thread: CategorizedThread): IdentifiedTodo | null
     contactName: thread.contactName,
     originalDate: thread.lastEmailDate,
     subject: thread.subject,
+    ...prioritize(todoType, thread),
   };
 }
 
+// Urgency score of a thread's todo (see ./urgency.ts)
+function prioritize(todoType: TodoType, thread: CategorizedThread): Pick<IdentifiedTodo, "priority" | "priorityReasons"> {
+  const { priority, reasons } = scoreTodoPriority(todoType, thread.urgency, calculateTodoAge(thread.lastEmailDate));
+  return { priority, priorityReasons: reasons };
+}
+
 // Calculate age of a todo item in days
 export function calculateTodoAge(originalDate: Date | null): number {
   if (!originalDate) return 0;
@@ -109,25 +118,9 @@ export function formatTodoAge(originalDate: Date | null): string {
   return `${days} days ago`;
 }
 
-// Get todo priority based on type and age
-export function getTodoPriority(todoType: TodoType, age: number): "high" | "medium" | "low" {
-  // POs are highest priority
-  if (todoType === "po_unacknowledged") {
-    return "high";
-  }
-
-  // Quote requests are medium priority, but become high if old
-  if (todoType === "quote_unanswered") {
-    return age > 2 ? "high" : "medium";
-  }
-
-  // Vendor follow-ups are medium priority (we need their quote)
-  if (todoType === "vendor_followup") {
-    return age > 1 ? "high" : "medium";
-  }
-
-  // General unanswered become medium if old
-  return age > 3 ? "medium" : "low";
+// Get todo priority level from its urgency score
+export function getTodoPriority(priority: number): "high" | "medium" | "low" {
+  return getPriorityLevel(priority);
 }
 
 // Group todos by priority
@@ -143,9 +136,7 @@ export function groupTodosByPriority(todos: IdentifiedTodo[]): {
   };
 
   for (const todo of todos) {
-    const age = calculateTodoAge(todo.originalDate);
-    const priority = getTodoPriority(todo.todoType, age);
-    grouped[priority].push(todo);
+    grouped[getTodoPriority(todo.priority)].push(todo);
   }
 
   return grouped;
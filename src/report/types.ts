@@ -1,4 +1,5 @@
-import type { Email, Category, ItemType, TodoType, ReportType } from "@/db/schema";
+import type { Email, Category, ItemType, TodoType, ReportType, DashTodoStatus } from "@/db/schema";
+import type { AiProviderName } from "@/ai/types";
 
 // PO details extracted from PDFs
 export interface PoDetails {
@@ -7,6 +8,31 @@ export interface PoDetails {
   items: PoLineItem[];
   total: number | null;
   currency: string;
+  orderDate: string | null;    // YYYY-MM-DD
+  requiredDate: string | null; // Required ship/delivery date
+  promisedDate: string | null; // Promise/acknowledged ship date
+}
+
+// A requested or promised date (see ./deadlines.ts)
+export type DeadlineKind = "due" | "required_by" | "promised";
+
+export interface Deadline {
+  kind: DeadlineKind;    // due: answer/quote due; required_by: parts or shipment needed; promised: a date committed to
+  date: string;          // YYYY-MM-DD
+  description: string;   // "Quote due", "Required ship date"
+  source: "email" | "po";
+}
+
+export type DueStatus = "overdue" | "due_today" | "upcoming";
+
+// A deadline with the thread it belongs to (GET /api/deadlines, morning report)
+export interface DueItem extends Deadline {
+  threadKey: string;
+  status: DueStatus;
+  subject: string | null;
+  contactName: string | null;
+  poNumber: string | null;
+  todo: { id: number; status: DashTodoStatus; todoType: TodoType } | null; // The thread's dash_todo, if any
 }
 
 export interface PoLineItem {
@@ -19,7 +45,9 @@ export interface PoLineItem {
 // Thread with categorization info (used during report generation)
 export interface CategorizedThread {
   threadKey: string;
+  threadId: number | null; // email_threads.id (null until the emails are threaded)
   emails: Email[];
+  accounts: string[]; // Mail accounts that received or sent emails in this thread
   category: Category;
   itemType: ItemType;
   contactEmail: string | null;
@@ -33,6 +61,31 @@ export interface CategorizedThread {
   isNewThread: boolean; // True if first email of thread is within the window
   poDetails: PoDetails | null;
   isSuspicious: boolean; // True if contact email is from untrusted domain (po_received only)
+  classificationRuleId: number | null; // Classification rule that decided it (null = AI)
+  confidence: CategorizationConfidence | null; // Per-field certainty (null = not assessed)
+  urgency: UrgencySignals | null; // What the contact's unanswered emails say about urgency (null = last email is ours)
+  deadlines: Deadline[]; // From the emails and any PO attached
+  model: string | null; // Classifier of category/itemType (see CategorizationResult)
+  provider: AiProviderName | null;
+  promptVersion: string | null;
+  correctionsHash: string | null;
+  degraded: boolean; // Budget stand-in (see CategorizationResult) - not reused as a cached categorization
+}
+
+// Urgency found in the emails since our last reply (see ./urgency.ts)
+export interface UrgencySignals {
+  deadline: { phrase: string; dueToday: boolean } | null; // "need parts today", "by Friday"
+  escalation: string[];       // "line down", "urgent", "second request"
+  followUps: number;          // Emails from them after the first one we haven't answered
+  customerBalance: number | null; // Open QuickBooks balance of the contact's customer
+}
+
+export type PrioritySignal = "todo_type" | "deadline" | "escalation" | "follow_up" | "customer_value" | "age";
+
+export interface PriorityReason {
+  signal: PrioritySignal;
+  points: number;
+  detail: string;
 }
 
 // Todo item before DB insertion
@@ -44,6 +97,8 @@ export interface IdentifiedTodo {
   contactName: string | null;
   originalDate: Date | null;
   subject: string;
+  priority: number; // 0-100 urgency score
+  priorityReasons: PriorityReason[];
 }
 
 // Todo item for display (with resolved status)
@@ -67,13 +122,26 @@ export interface GeneratedReport {
 export interface EmailForPrompt {
   from: string;
   to: string;
+  cc?: string;
   date: Date | null;
   subject: string;
-  body: string;
+  body: string; // New content only - quoted replies, signature and disclaimers stripped
   isOutbound: boolean;
   hasAttachments: boolean;
 }
 
+// How sure the classifier is about one field, and why
+export interface FieldConfidence {
+  confidence: number; // 0 (guess) to 1 (certain)
+  rationale: string;
+}
+
+export interface CategorizationConfidence {
+  category: FieldConfidence;
+  itemType: FieldConfidence;
+  needsResponse: FieldConfidence;
+}
+
 // AI categorization result
 export interface CategorizationResult {
   category: Category;
@@ -82,15 +150,13 @@ export interface CategorizationResult {
   summary: string;
   needsResponse: boolean; // Does this thread need a response from us?
   relatedTo: string | null; // ThreadKey of related thread (e.g., vendor quote responding to our RFQ)
-}
-
-// PO extraction result from AI
-export interface PoExtractionResult {
-  poNumber: string | null;
-  vendor: string | null;
-  items: PoLineItem[];
-  total: number | null;
-  currency: string;
+  confidence: CategorizationConfidence | null; // null = the provider didn't say
+  deadlines: Deadline[]; // Dates asked for or promised in the emails
+  model: string | null; // Classifier: AI model, "rules" for the rules-only provider, null when nothing classified it
+  provider: AiProviderName | null;
+  promptVersion: string | null; // Prompt template and version, e.g. "categorize_batch@3" (AI only, see src/ai/prompts.ts)
+  correctionsHash: string | null; // Corrections injected into the prompt (null = none)
+  degraded?: boolean; // Stand-in while the daily AI budget is spent (rules-only guess or stale cached answer)
 }
 
 // Time window for report generation
@@ -118,8 +184,11 @@ export interface MorningReportData {
     contactName: string | null;
     originalDate: Date | null;
     subject: string | null;
+    priority: number;
+    priorityReasons: PriorityReason[] | null;
     resolved?: boolean; // True if resolved by overnight email activity
   }[];
+  dueItems: DueItem[]; // Overdue or due today
   overnightEmails: CategorizedThread[];
   overnightReceived: number;
   overnightSent: number;
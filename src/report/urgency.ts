@@ -0,0 +1,211 @@
+/**
+ * Urgency and Priority
+ *
+ * The categorizer reads the contact's emails since our last reply for urgency
+ * signals - explicit deadlines, escalation language ("line down"), repeat
+ * follow-ups - and looks up their customer's open QuickBooks balance.
+ * scoreTodoPriority() turns those, the todo type and its age into a 0-100
+ * priority with the reasons behind it. Stored on dash_todos as the default
+ * sort of /api/todos and used to order the report action items.
+ */
+
+import type { Email, TodoType } from "@/db/schema";
+import { getCleanBody } from "@/imap/body-cleaner";
+import { getCachedCustomers } from "@/quickbooks/customer-cache";
+import { ConductorClient } from "@/quickbooks/conductor-client";
+import { extractDomain, isGenericDomain } from "@/quickbooks/trusted-domains";
+import type { PriorityReason, UrgencySignals } from "./types";
+
+// Starting points by todo type - a PO waiting on us outranks a routine question
+const TODO_TYPE_POINTS: Record<TodoType, number> = {
+  po_unacknowledged: 50,
+  quote_unanswered: 30,
+  vendor_followup: 25,
+  general_unanswered: 10,
+};
+
+const DEADLINE_TODAY_POINTS = 25;
+const DEADLINE_POINTS = 15;
+const SEVERE_ESCALATION_POINTS = 30;
+const ESCALATION_POINTS = 15;
+const FOLLOW_UP_POINTS = 10; // Per follow-up
+const MAX_FOLLOW_UP_POINTS = 20;
+const POINTS_PER_DAY = 4;
+const MAX_AGE_POINTS = 20;
+
+// Open balance (USD) → points, highest tier first
+const BALANCE_TIERS: Array<{ min: number; points: number }> = [
+  { min: 50000, points: 15 },
+  { min: 10000, points: 10 },
+  { min: 1, points: 5 },
+];
+
+const HIGH_PRIORITY = 45;
+const MEDIUM_PRIORITY = 25;
+
+const DEADLINE_TODAY_PATTERN =
+  /\b(today|tonight|this (morning|afternoon)|(by )?end of (the )?day|eod|cob|close of business)\b/i;
+const DEADLINE_PATTERN =
+  /\b(tomorrow|(by|before|no later than) (mon|tues|wednes|thurs|fri|satur|sun)day|(by )?end of (the )?week|this week|(by|before|no later than) \d{1,2}\/\d{1,2}|(by|before|no later than) (jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.? \d{1,2})\b/i;
+const SEVERE_ESCALATION_PATTERN =
+  /\b(line (is )?down|machine (is )?down|production (is )?(down|stopped)|shut ?down|emergency|critical)\b/i;
+const ESCALATION_PATTERN = /\b(urgent(ly)?|asap|as soon as possible|rush|expedite[ds]?|hot job|past due|overdue|escalat\w*)\b/i;
+const FOLLOW_UP_PATTERN =
+  /\b(following up|follow(ing)? up on|second request|still waiting|any update|checking in|haven'?t heard|did you (get|receive))\b/i;
+
+/**
+ * Urgency in the contact's emails after our last reply, or null when the last
+ * email is ours. `isOutbound` is the categorizer's direction check.
+ */
+export function extractUrgencySignals(
+  emails: Email[],
+  isOutbound: (email: Email) => boolean,
+  customerBalance: number | null
+): UrgencySignals | null {
+  let lastOurs = -1;
+  emails.forEach((email, index) => {
+    if (isOutbound(email)) lastOurs = index;
+  });
+  const unanswered = emails.slice(lastOurs + 1);
+  if (unanswered.length === 0) return null;
+
+  const texts = unanswered.map((email) => `${email.subject ?? ""}\n${getCleanBody(email)}`);
+
+  let deadline: UrgencySignals["deadline"] = null;
+  const escalation = new Set<string>();
+  let followUpPhrase = false;
+  for (const text of texts) {
+    const today = text.match(DEADLINE_TODAY_PATTERN);
+    const soon = text.match(DEADLINE_PATTERN);
+    if (today) deadline = { phrase: today[0], dueToday: true };
+    else if (soon && !deadline?.dueToday) deadline = { phrase: soon[0], dueToday: false };
+
+    for (const pattern of [SEVERE_ESCALATION_PATTERN, ESCALATION_PATTERN]) {
+      const match = text.match(pattern);
+      if (match) escalation.add(match[0].toLowerCase());
+    }
+    if (FOLLOW_UP_PATTERN.test(text)) followUpPhrase = true;
+  }
+
+  return {
+    deadline,
+    escalation: [...escalation],
+    followUps: Math.max(unanswered.length - 1, followUpPhrase ? 1 : 0),
+    customerBalance,
+  };
+}
+
+/**
+ * 0-100 priority of a todo, with a reason for every signal that added points
+ */
+export function scoreTodoPriority(
+  todoType: TodoType,
+  urgency: UrgencySignals | null,
+  ageDays: number
+): { priority: number; reasons: PriorityReason[] } {
+  const reasons: PriorityReason[] = [
+    { signal: "todo_type", points: TODO_TYPE_POINTS[todoType], detail: todoType.replace(/_/g, " ") },
+  ];
+
+  if (urgency?.deadline) {
+    reasons.push({
+      signal: "deadline",
+      points: urgency.deadline.dueToday ? DEADLINE_TODAY_POINTS : DEADLINE_POINTS,
+      detail: `"${urgency.deadline.phrase}"`,
+    });
+  }
+
+  if (urgency && urgency.escalation.length > 0) {
+    const severe = urgency.escalation.some((phrase) => SEVERE_ESCALATION_PATTERN.test(phrase));
+    reasons.push({
+      signal: "escalation",
+      points: severe ? SEVERE_ESCALATION_POINTS : ESCALATION_POINTS,
+      detail: urgency.escalation.map((phrase) => `"${phrase}"`).join(", "),
+    });
+  }
+
+  if (urgency && urgency.followUps > 0) {
+    reasons.push({
+      signal: "follow_up",
+      points: Math.min(urgency.followUps * FOLLOW_UP_POINTS, MAX_FOLLOW_UP_POINTS),
+      detail: urgency.followUps === 1 ? "1 follow-up" : `${urgency.followUps} follow-ups`,
+    });
+  }
+
+  const balance = urgency?.customerBalance ?? 0;
+  const tier = BALANCE_TIERS.find((t) => balance >= t.min);
+  if (tier) {
+    reasons.push({
+      signal: "customer_value",
+      points: tier.points,
+      detail: `QB balance $${Math.round(balance).toLocaleString("en-US")}`,
+    });
+  }
+
+  if (ageDays > 0) {
+    reasons.push({
+      signal: "age",
+      points: Math.min(ageDays * POINTS_PER_DAY, MAX_AGE_POINTS),
+      detail: ageDays === 1 ? "1 day old" : `${ageDays} days old`,
+    });
+  }
+
+  const total = reasons.reduce((sum, reason) => sum + reason.points, 0);
+  return { priority: Math.min(100, total), reasons };
+}
+
+export function getPriorityLevel(priority: number): "high" | "medium" | "low" {
+  if (priority >= HIGH_PRIORITY) return "high";
+  if (priority >= MEDIUM_PRIORITY) return "medium";
+  return "low";
+}
+
+// Highest priority first, oldest first among equals
+export function compareByPriority(
+  a: { priority: number; originalDate: Date | null },
+  b: { priority: number; originalDate: Date | null }
+): number {
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  return (a.originalDate?.getTime() ?? 0) - (b.originalDate?.getTime() ?? 0);
+}
+
+/**
+ * Open QuickBooks balance by contact email, from the cached customer list.
+ * Matches the exact address first, then the company domain when only one
+ * customer uses it (never webmail). Returns no balances when QuickBooks isn't
+ * configured or the list can't be loaded.
+ */
+export async function loadCustomerBalances(): Promise<(email: string | null) => number | null> {
+  const none = () => null;
+  if (!process.env.CONDUCTOR_API_KEY || !process.env.CONDUCTOR_END_USER_ID) {
+    return none;
+  }
+
+  try {
+    const customers = await getCachedCustomers(new ConductorClient());
+    const byEmail = new Map<string, number>();
+    const byDomain = new Map<string, number | null>(); // null = several customers share it
+
+    for (const customer of customers) {
+      const balance = parseFloat(customer.totalBalance ?? "");
+      if (!customer.email || !Number.isFinite(balance)) continue;
+      const email = customer.email.toLowerCase();
+      byEmail.set(email, balance);
+      const domain = extractDomain(email);
+      if (domain && !isGenericDomain(domain)) {
+        byDomain.set(domain, byDomain.has(domain) ? null : balance);
+      }
+    }
+
+    return (email) => {
+      if (!email) return null;
+      const address = email.toLowerCase();
+      const domain = extractDomain(address);
+      return byEmail.get(address) ?? (domain ? byDomain.get(domain) ?? null : null);
+    };
+  } catch (error) {
+    // Customer value is optional - don't fail categorization if QB is unavailable
+    console.warn("Could not load QB customer balances:", error);
+    return none;
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * Full-text search over synced emails and stored PO attachments.
+ *
+ * Matches come from the GIN expression indexes (emailSearchDocument /
+ * attachmentSearchDocument in the schema) using websearch_to_tsquery, so users
+ * can type "quoted phrases", OR and -exclusions. Hits are grouped by thread and
+ * each group is decorated with the thread's categorization for filtering.
+ */
+
+import { and, desc, eq, getTableColumns, gte, inArray, isNotNull, isNull, lt, ne, or, sql, type SQL } from "drizzle-orm";
+import { db, schema } from "@/db";
+import { attachmentSearchDocument, emailSearchDocument, type Category, type Email, type ItemType } from "@/db/schema";
+import { makeSnippet, sanitizeSubject } from "@/imap/parsers";
+import { getCleanBody } from "@/imap/body-cleaner";
+import { generateThreadId, loadThreadKeys } from "@/sync/threader";
+
+// Candidate rows ranked in SQL before grouping into threads
+const MAX_EMAIL_HITS = 500;
+const MAX_ATTACHMENT_HITS = 200;
+const SNIPPET_LENGTH = 200;
+// Characters of context kept before the first highlighted term
+const SNIPPET_LEAD = 60;
+const MATCHES_PER_THREAD = 5;
+
+const PO_ITEM_TYPES: ItemType[] = ["po_received", "po_sent"];
+
+export interface SearchOptions {
+  query: string;
+  since?: Date;
+  until?: Date;     // Exclusive
+  mailbox?: string;
+  account?: string;
+  category?: Category;
+  hasPo?: boolean;
+  limit?: number;   // Threads per page
+  offset?: number;
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: Array<[number, number]>; // [start, end) offsets of matched terms in text
+}
+
+export type SearchMatch =
+  | {
+      type: "email";
+      emailId: number;
+      date: Date | null;
+      from: string | null;
+      subject: string;
+      mailbox: string;
+      rank: number;
+      snippet: SearchSnippet;
+    }
+  | {
+      type: "attachment";
+      attachmentId: number;
+      emailId: number;
+      filename: string;
+      poNumber: string | null;
+      rank: number;
+      snippet: SearchSnippet;
+    };
+
+export interface SearchThreadResult {
+  threadKey: string;
+  subject: string;
+  category: Category | null;
+  itemType: ItemType | null;
+  hasPo: boolean;
+  todoId: number | null;
+  lastEmailDate: Date | null;
+  rank: number;        // Best match in the thread
+  matchCount: number;
+  matches: SearchMatch[];
+}
+
+export interface SearchResponse {
+  total: number; // Matching threads (capped by the candidate limits)
+  results: SearchThreadResult[];
+}
+
+// ============================================================
+// Snippets
+// ============================================================
+
+/**
+ * Terms to highlight. Mirrors what websearch_to_tsquery matches closely enough for
+ * display: quoted phrases and words, minus OR and -excluded terms. Words are
+ * trimmed to a rough stem so "shipping" also highlights "shipped".
+ */
+export function highlightTerms(query: string): string[] {
+  const terms = new Set<string>();
+  const tokens = query.match(/-?"[^"]*"|\S+/g) ?? [];
+  for (const token of tokens) {
+    if (token.startsWith("-") || token.toLowerCase() === "or") continue;
+    for (const word of token.replace(/"/g, "").split(/[^\p{L}\p{N}]+/u)) {
+      if (word.length < 2) continue;
+      const lower = word.toLowerCase();
+      terms.add(lower.length > 4 ? lower.replace(/(ing|ed|es|s)$/, "") : lower);
+    }
+  }
+  return [...terms];
+}
+
+function termPattern(terms: string[]): RegExp | null {
+  if (terms.length === 0) return null;
+  const escaped = terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`(?<![\\p{L}\\p{N}])(${escaped.join("|")})[\\p{L}\\p{N}]*`, "giu");
+}
+
+/**
+ * Snippet around the first matched term, built with makeSnippet() so it reads
+ * like the other previews, plus offsets of every term inside it.
+ */
+export function buildSnippet(text: string, terms: string[]): SearchSnippet {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  const pattern = termPattern(terms);
+
+  let start = 0;
+  if (pattern) {
+    const first = pattern.exec(normalized);
+    if (first) start = Math.max(0, first.index - SNIPPET_LEAD);
+    pattern.lastIndex = 0;
+  }
+  // Don't start mid-word
+  if (start > 0) {
+    const space = normalized.indexOf(" ", start);
+    start = space !== -1 && space - start < 20 ? space + 1 : start;
+  }
+
+  const snippet = `${start > 0 ? "…" : ""}${makeSnippet(normalized.slice(start), SNIPPET_LENGTH)}`;
+  const highlights: Array<[number, number]> = [];
+  if (pattern) {
+    for (const match of snippet.matchAll(pattern)) {
+      highlights.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+  return { text: snippet, highlights };
+}
+
+function hasTerm(text: string | null | undefined, terms: string[]): boolean {
+  const pattern = termPattern(terms);
+  return !!text && !!pattern && pattern.test(text);
+}
+
+function emailSnippet(email: Email, terms: string[]): SearchSnippet {
+  const clean = getCleanBody(email);
+  if (hasTerm(clean, terms)) return buildSnippet(clean, terms);
+  if (hasTerm(email.bodyText, terms)) return buildSnippet(email.bodyText!, terms);
+  // Matched on subject or sender only
+  return buildSnippet(clean || email.subject || "", terms);
+}
+
+// ============================================================
+// Search
+// ============================================================
+
+const emailColumns = getTableColumns(schema.emails);
+
+function emailFilters(options: SearchOptions): SQL[] {
+  const filters: SQL[] = [ne(schema.emails.serverState, "deleted")];
+  if (options.since) filters.push(gte(schema.emails.date, options.since));
+  if (options.until) filters.push(lt(schema.emails.date, options.until));
+  if (options.mailbox) filters.push(eq(schema.emails.mailbox, options.mailbox));
+  if (options.account) filters.push(eq(schema.emails.account, options.account));
+  return filters;
+}
+
+interface ThreadInfo {
+  category: Category | null;
+  itemType: ItemType | null;
+  todoId: number | null;
+  hasPo: boolean;
+}
+
+// Categorization per thread: the dashboard todo if there is one, else the latest report
+async function loadThreadInfo(threadKeys: string[], emailIdsByThread: Map<string, number[]>): Promise<Map<string, ThreadInfo>> {
+  const info = new Map<string, ThreadInfo>();
+  if (threadKeys.length === 0) return info;
+
+  const [todos, reportThreads, poAttachments] = await Promise.all([
+    db
+      .select({
+        id: schema.dashTodos.id,
+        threadKey: schema.dashTodos.threadKey,
+        category: schema.dashTodos.category,
+        itemType: schema.dashTodos.itemType,
+        poDetails: schema.dashTodos.poDetails,
+      })
+      .from(schema.dashTodos)
+      .where(inArray(schema.dashTodos.threadKey, threadKeys)),
+    db
+      .select({
+        threadKey: schema.reportThreads.threadKey,
+        category: schema.reportThreads.category,
+        itemType: schema.reportThreads.itemType,
+        poDetails: schema.reportThreads.poDetails,
+      })
+      .from(schema.reportThreads)
+      .where(inArray(schema.reportThreads.threadKey, threadKeys))
+      .orderBy(desc(schema.reportThreads.id)),
+    db
+      .select({ threadKey: schema.poAttachments.threadKey, emailId: schema.poAttachments.emailId })
+      .from(schema.poAttachments)
+      .where(
+        and(
+          or(
+            inArray(schema.poAttachments.threadKey, threadKeys),
+            inArray(schema.poAttachments.emailId, [...emailIdsByThread.values()].flat())
+          ),
+          or(
+            eq(schema.poAttachments.isValidPo, true),
+            and(isNull(schema.poAttachments.isValidPo), isNotNull(schema.poAttachments.poNumber))
+          )
+        )
+      ),
+  ]);
+
+  const threadByEmailId = new Map<number, string>();
+  for (const [threadKey, ids] of emailIdsByThread) {
+    for (const id of ids) threadByEmailId.set(id, threadKey);
+  }
+  const threadsWithPo = new Set<string>();
+  for (const attachment of poAttachments) {
+    threadsWithPo.add(attachment.threadKey);
+    if (attachment.emailId !== null) {
+      const threadKey = threadByEmailId.get(attachment.emailId);
+      if (threadKey) threadsWithPo.add(threadKey);
+    }
+  }
+
+  for (const row of reportThreads) {
+    if (info.has(row.threadKey)) continue; // Most recent first
+    info.set(row.threadKey, {
+      category: row.category,
+      itemType: row.itemType,
+      todoId: null,
+      hasPo: !!row.poDetails || PO_ITEM_TYPES.includes(row.itemType),
+    });
+  }
+  for (const todo of todos) {
+    info.set(todo.threadKey, {
+      category: todo.category,
+      itemType: todo.itemType,
+      todoId: todo.id,
+      hasPo: !!todo.poDetails || PO_ITEM_TYPES.includes(todo.itemType),
+    });
+  }
+
+  for (const threadKey of threadKeys) {
+    const current = info.get(threadKey) ?? { category: null, itemType: null, todoId: null, hasPo: false };
+    info.set(threadKey, { ...current, hasPo: current.hasPo || threadsWithPo.has(threadKey) });
+  }
+  return info;
+}
+
+export async function searchEmails(options: SearchOptions): Promise<SearchResponse> {
+  const tsQuery = sql`websearch_to_tsquery('english', ${options.query})`;
+  const emailDocument = emailSearchDocument(schema.emails);
+  const attachmentDocument = attachmentSearchDocument(schema.poAttachments);
+  const terms = highlightTerms(options.query);
+
+  const [emailHits, attachmentHits] = await Promise.all([
+    db
+      .select({ email: emailColumns, rank: sql<number>`ts_rank(${emailDocument}, ${tsQuery})` })
+      .from(schema.emails)
+      .where(and(sql`${emailDocument} @@ ${tsQuery}`, ...emailFilters(options)))
+      .orderBy(desc(sql`ts_rank(${emailDocument}, ${tsQuery})`))
+      .limit(MAX_EMAIL_HITS),
+    db
+      .select({
+        attachment: {
+          id: schema.poAttachments.id,
+          filename: schema.poAttachments.filename,
+          poNumber: schema.poAttachments.poNumber,
+          extractedText: schema.poAttachments.extractedText,
+        },
+        email: emailColumns,
+        rank: sql<number>`ts_rank(${attachmentDocument}, ${tsQuery})`,
+      })
+      .from(schema.poAttachments)
+      .innerJoin(schema.emails, eq(schema.poAttachments.emailId, schema.emails.id))
+      .where(and(sql`${attachmentDocument} @@ ${tsQuery}`, ...emailFilters(options)))
+      .orderBy(desc(sql`ts_rank(${attachmentDocument}, ${tsQuery})`))
+      .limit(MAX_ATTACHMENT_HITS),
+  ]);
+
+  // Group by thread (same key the categorizer and todos use)
+  const threadKeys = await loadThreadKeys([
+    ...new Set(
+      [...emailHits, ...attachmentHits]
+        .map(({ email }) => email.threadId)
+        .filter((id): id is number => id != null)
+    ),
+  ]);
+  const groups = new Map<string, { emails: Map<number, Email>; matches: SearchMatch[] }>();
+  const groupFor = (email: Email) => {
+    const threadKey =
+      (email.threadId != null ? threadKeys.get(email.threadId) : undefined) ??
+      generateThreadId(email.messageId, email.inReplyTo, email.references, email.subject);
+    let group = groups.get(threadKey);
+    if (!group) {
+      group = { emails: new Map(), matches: [] };
+      groups.set(threadKey, group);
+    }
+    group.emails.set(email.id, email);
+    return group;
+  };
+
+  for (const { email, rank } of emailHits) {
+    groupFor(email).matches.push({
+      type: "email",
+      emailId: email.id,
+      date: email.date,
+      from: email.fromName || email.fromAddress,
+      subject: sanitizeSubject(email.subject),
+      mailbox: email.mailbox,
+      rank,
+      snippet: emailSnippet(email, terms),
+    });
+  }
+  for (const { attachment, email, rank } of attachmentHits) {
+    groupFor(email).matches.push({
+      type: "attachment",
+      attachmentId: attachment.id,
+      emailId: email.id,
+      filename: attachment.filename,
+      poNumber: attachment.poNumber,
+      rank,
+      snippet: buildSnippet(attachment.extractedText || attachment.filename, terms),
+    });
+  }
+
+  const emailIdsByThread = new Map([...groups].map(([threadKey, group]) => [threadKey, [...group.emails.keys()]]));
+  const threadInfo = await loadThreadInfo([...groups.keys()], emailIdsByThread);
+
+  const results: SearchThreadResult[] = [];
+  for (const [threadKey, group] of groups) {
+    const info = threadInfo.get(threadKey)!;
+    if (options.category && info.category !== options.category) continue;
+    if (options.hasPo !== undefined && info.hasPo !== options.hasPo) continue;
+
+    const emails = [...group.emails.values()].sort((a, b) => (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0));
+    const matches = group.matches.sort((a, b) => b.rank - a.rank);
+    results.push({
+      threadKey,
+      subject: sanitizeSubject(emails[0]?.subject),
+      category: info.category,
+      itemType: info.itemType,
+      hasPo: info.hasPo,
+      todoId: info.todoId,
+      lastEmailDate: emails[emails.length - 1]?.date ?? null,
+      rank: matches[0]?.rank ?? 0,
+      matchCount: matches.length,
+      matches: matches.slice(0, MATCHES_PER_THREAD),
+    });
+  }
+
+  results.sort((a, b) => b.rank - a.rank || (b.lastEmailDate?.getTime() ?? 0) - (a.lastEmailDate?.getTime() ?? 0));
+
+  const offset = options.offset ?? 0;
+  const limit = options.limit ?? 20;
+  return { total: results.length, results: results.slice(offset, offset + limit) };
+}
@@ -0,0 +1,20 @@
+import pdfParse from "pdf-parse";
+
+// Extracted PDF text kept for full-text search (a few pages of PO is far below this)
+const MAX_EXTRACTED_TEXT = 100000;
+
+/**
+ * Text layer of a PDF for full-text search and the text-only AI providers.
+ * Scanned PDFs have none; they get '' like failures do, so backfills don't
+ * retry them forever.
+ */
+export async function extractPdfText(content: Buffer): Promise<string> {
+  try {
+    const result = await pdfParse(content);
+    // Postgres text columns can't hold NUL
+    return result.text.replace(/\u0000/g, "").trim().slice(0, MAX_EXTRACTED_TEXT);
+  } catch (error) {
+    console.warn(`  Could not extract PDF text: ${error instanceof Error ? error.message : error}`);
+    return "";
+  }
+}
@@ -8,12 +8,12 @@
  * 1. Check if attachment already stored (by emailId + filename)
  * 2. If not stored: fetch from IMAP → upload to Supabase → save to DB
  * 3. For DOCX files: convert to PDF before storing
- * 4. If analysis needed: call Claude → cache results in DB
+ * 4. If analysis needed: call the AI provider → cache results in DB
  * 5. Return attachment with cached analysis if available
  */
 
 import { db, schema } from "@/db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, isNull } from "drizzle-orm";
 import {
   uploadPdf,
   downloadPdf,
@@ -22,15 +22,18 @@ import {
 } from "./supabase-client";
 import { createImapClient, fetchBodyPart } from "@/imap/client";
 import { flattenBodyStructure } from "@/imap/parsers";
+import { readImportedMessage } from "@/sync/importer";
+import { simpleParser } from "mailparser";
 import type { Email, PoAttachment, NewPoAttachment } from "@/db/schema";
 import type { PoDetails } from "@/report/types";
-import Anthropic from "@anthropic-ai/sdk";
+import { normalizeDeadlineDate } from "@/report/deadlines";
+import { getAiProvider } from "@/ai";
+import type { PoValidationResult } from "@/ai/types";
+import { extractPdfText } from "./pdf-text";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 
-const anthropic = new Anthropic();
-
 // ============================================================
 // Types
 // ============================================================
@@ -56,11 +59,7 @@ export interface FetchedPdf {
   originalFilename?: string; // For converted files (e.g., DOCX → PDF)
 }
 
-export interface PoValidationResult {
-  details: PoDetails | null;
-  isValidPo: boolean;
-  notPoReason: string | null;
-}
+export type { PoValidationResult } from "@/ai/types";
 
 // ============================================================
 // DOCX to PDF Conversion
@@ -158,9 +157,10 @@ function isPdf(filename: string | undefined, contentType: string): boolean {
  */
 export async function fetchPdfsFromImap(
   uid: number,
-  mailbox: string
+  mailbox: string,
+  account?: string | null
 ): Promise<FetchedPdf[]> {
-  const client = createImapClient();
+  const client = createImapClient(account);
   const results: FetchedPdf[] = [];
 
   try {
@@ -265,14 +265,16 @@ export async function fetchPdfsFromImap(
  * @param uid - Email UID
  * @param mailbox - Mailbox name
  * @param targetFilename - The filename to fetch (case-insensitive match)
+ * @param account - Mail account the email was synced from (defaults to the primary account)
  * @returns The fetched PDF or null if not found
  */
 export async function fetchSpecificAttachment(
   uid: number,
   mailbox: string,
-  targetFilename: string
+  targetFilename: string,
+  account?: string | null
 ): Promise<FetchedPdf | null> {
-  const client = createImapClient();
+  const client = createImapClient(account);
   const lowerTarget = targetFilename.toLowerCase();
 
   try {
@@ -383,6 +385,83 @@ export async function fetchSpecificAttachment(
   }
 }
 
+// ============================================================
+// Imported messages (offline importer)
+// ============================================================
+
+function matchesFilename(filename: string, target: string): boolean {
+  const lowerFilename = filename.toLowerCase();
+  const lowerTarget = target.toLowerCase();
+  return (
+    lowerFilename === lowerTarget ||
+    lowerFilename.includes(lowerTarget) ||
+    lowerTarget.includes(lowerFilename)
+  );
+}
+
+/**
+ * Read PDF and DOCX attachments of an imported message from disk instead of IMAP.
+ * DOCX files are converted to PDF, same as fetchPdfsFromImap().
+ */
+export async function fetchPdfsFromImportSource(
+  importSource: string,
+  targetFilename?: string
+): Promise<FetchedPdf[]> {
+  const parsed = await simpleParser(await readImportedMessage(importSource));
+  const results: FetchedPdf[] = [];
+
+  for (const attachment of parsed.attachments) {
+    const filename = attachment.filename;
+    const contentType = (attachment.contentType || "").toLowerCase();
+    if (targetFilename && (!filename || !matchesFilename(filename, targetFilename))) continue;
+
+    if (isWordDoc(filename, contentType)) {
+      console.log(`  Converting Word to PDF: ${filename}`);
+      const pdfContent = await convertWordToPdf(attachment.content, filename || "document.docx");
+      if (pdfContent) {
+        results.push({
+          filename: (filename || "document.docx").replace(/\.(docx?|doc)$/i, ".pdf"),
+          content: pdfContent,
+          contentType: "application/pdf",
+          originalFilename: filename,
+        });
+      }
+    } else if (isPdf(filename, contentType)) {
+      results.push({
+        filename: filename || "attachment.pdf",
+        content: attachment.content,
+        contentType: "application/pdf",
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Fetch PDF/DOCX attachments for an email, from IMAP or from the imported file
+ */
+export async function fetchEmailPdfs(email: Email): Promise<FetchedPdf[]> {
+  if (email.importSource) {
+    return fetchPdfsFromImportSource(email.importSource);
+  }
+  return fetchPdfsFromImap(email.uid, email.mailbox, email.account);
+}
+
+/**
+ * Fetch one attachment for an email, from IMAP or from the imported file
+ */
+export async function fetchEmailAttachment(
+  email: Email,
+  targetFilename: string
+): Promise<FetchedPdf | null> {
+  if (email.importSource) {
+    const [pdf] = await fetchPdfsFromImportSource(email.importSource, targetFilename);
+    return pdf ?? null;
+  }
+  return fetchSpecificAttachment(email.uid, email.mailbox, targetFilename, email.account);
+}
+
 // ============================================================
 // Storage Operations
 // ============================================================
@@ -469,6 +548,7 @@ export async function storeAttachment(
     storagePath,
     contentType: pdf.contentType,
     sizeBytes: pdf.content.length,
+    extractedText: await extractPdfText(pdf.content),
   };
 
   const [inserted] = await db
@@ -490,9 +570,9 @@ export async function fetchAndStorePdfs(
 ): Promise<PoAttachment[]> {
   const results: PoAttachment[] = [];
 
-  // Fetch PDFs from IMAP
+  // Fetch PDFs from IMAP (or the imported file)
   console.log(`Fetching PDFs from email ${email.uid} (${email.mailbox})`);
-  const pdfs = await fetchPdfsFromImap(email.uid, email.mailbox);
+  const pdfs = await fetchEmailPdfs(email);
 
   if (pdfs.length === 0) {
     console.log(`  No PDFs found`);
@@ -512,6 +592,32 @@ export async function fetchAndStorePdfs(
   return results;
 }
 
+/**
+ * Extract text for attachments stored before extracted_text existed.
+ * Needs the PDFs in Supabase Storage; returns how many rows were updated.
+ */
+export async function backfillAttachmentText(limit = 200): Promise<number> {
+  if (!isSupabaseConfigured()) return 0;
+
+  const pending = await db
+    .select({ id: schema.poAttachments.id, storagePath: schema.poAttachments.storagePath })
+    .from(schema.poAttachments)
+    .where(isNull(schema.poAttachments.extractedText))
+    .limit(limit);
+
+  let updated = 0;
+  for (const attachment of pending) {
+    const content = await getPdfContent(attachment.storagePath);
+    if (!content) continue;
+    await db
+      .update(schema.poAttachments)
+      .set({ extractedText: await extractPdfText(content) })
+      .where(eq(schema.poAttachments.id, attachment.id));
+    updated++;
+  }
+  return updated;
+}
+
 /**
  * Download PDF content from Supabase Storage
  */
@@ -539,6 +645,8 @@ export async function updateAttachmentAnalysis(
     notPoReason?: string | null;
   }
 ): Promise<void> {
+  // Dates printed on the PO, as columns for GET /api/deadlines
+  const details = analysis.isValidPo ? (analysis.analysisJson as PoDetails | null) : null;
   await db
     .update(schema.poAttachments)
     .set({
@@ -548,6 +656,9 @@ export async function updateAttachmentAnalysis(
       analyzedAt: new Date(),
       isValidPo: analysis.isValidPo ?? null,
       notPoReason: analysis.notPoReason ?? null,
+      orderDate: normalizeDeadlineDate(details?.orderDate),
+      requiredDate: normalizeDeadlineDate(details?.requiredDate),
+      promisedDate: normalizeDeadlineDate(details?.promisedDate),
     })
     .where(eq(schema.poAttachments.id, attachmentId));
 }
@@ -578,113 +689,19 @@ export function getCachedAnalysis(attachment: PoAttachment): {
 }
 
 // ============================================================
-// PDF Analysis with Claude Vision
+// PDF Analysis
 // ============================================================
 
 /**
- * Analyze a PDF using Claude's visual document understanding.
+ * Analyze a PDF with the configured AI provider (Claude reads it visually;
+ * text-only providers use its text layer).
  * Returns both PO details AND validation status.
  */
-async function analyzePdfWithVision(pdfBuffer: Buffer): Promise<PoValidationResult> {
-  const pdfBase64 = pdfBuffer.toString("base64");
-
-  // Check size limit (32MB max for API, but be conservative)
-  const sizeMB = pdfBuffer.length / (1024 * 1024);
-  if (sizeMB > 25) {
-    console.warn(`PDF too large for vision analysis: ${sizeMB.toFixed(1)}MB`);
-    return { details: null, isValidPo: false, notPoReason: "PDF too large for analysis" };
-  }
-
+async function analyzePdfWithVision(pdfBuffer: Buffer, threadKey?: string): Promise<PoValidationResult> {
   try {
-    const response = await anthropic.messages.create({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 1500,
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "document",
-              source: {
-                type: "base64",
-                media_type: "application/pdf",
-                data: pdfBase64,
-              },
-            },
-            {
-              type: "text",
-              text: `Analyze this document and determine if it's a Purchase Order (PO).
-
-STEP 1: Determine document type
-- Is this a Purchase Order? Look for: PO number, "Purchase Order" header, ordered items with quantities
-- NOT a PO: Quotations, Invoices, Estimates, Terms & Conditions, Catalogs, Packing slips
-
-STEP 2: If it IS a PO, extract details
-
-Return JSON only:
-{
-  "isValidPo": true/false,
-  "notPoReason": "string explaining why not a PO, or null if it is a PO",
-  "poNumber": "string or null",
-  "vendor": "vendor/supplier name or null",
-  "items": [{"description": "string", "quantity": number or null, "unitPrice": number or null, "lineTotal": number or null}],
-  "total": number or null,
-  "currency": "USD"
-}
-
-Examples of notPoReason: "This is a quotation/estimate", "This is an invoice", "This is a terms and conditions document", "This is a product catalog"`,
-            },
-          ],
-        },
-      ],
-    });
-
-    const content = response.content[0];
-    if (content.type !== "text") {
-      return { details: null, isValidPo: false, notPoReason: "Unexpected response type from AI" };
-    }
-
-    const jsonMatch = content.text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.warn("No JSON found in Claude response");
-      return { details: null, isValidPo: false, notPoReason: "Failed to parse AI response" };
-    }
-
-    const result = JSON.parse(jsonMatch[0]) as {
-      isValidPo?: boolean;
-      notPoReason?: string | null;
-      poNumber?: string | null;
-      vendor?: string | null;
-      items?: Array<{
-        description: string;
-        quantity: number | null;
-        unitPrice: number | null;
-        lineTotal: number | null;
-      }>;
-      total?: number | null;
-      currency?: string;
-    };
-
-    const details: PoDetails = {
-      poNumber: result.poNumber || null,
-      vendor: result.vendor || null,
-      items: (result.items || []).map((item) => ({
-        description: item.description,
-        quantity: item.quantity ?? null,
-        unitPrice: item.unitPrice ?? null,
-        lineTotal: item.lineTotal ?? null,
-      })),
-      total: result.total ?? null,
-      currency: result.currency || "USD",
-    };
-
-    return {
-      details: result.isValidPo ? details : null,
-      isValidPo: result.isValidPo ?? false,
-      notPoReason: result.notPoReason || null,
-    };
+    return await getAiProvider().analyzePdf(pdfBuffer, { threadKey });
   } catch (error) {
-    console.error("PDF vision analysis failed:", error);
+    console.error("PDF analysis failed:", error);
     return { details: null, isValidPo: false, notPoReason: "Analysis failed: " + String(error) };
   }
 }
@@ -710,7 +727,7 @@ async function analyzePdfWithVisionLegacy(pdfBuffer: Buffer): Promise<PoDetails
  * 1. Checking cache for existing analysis
  * 2. Fetching PDF from IMAP if not cached
  * 3. Storing PDF to Supabase
- * 4. Analyzing with Claude
+ * 4. Analyzing with the AI provider
  * 5. Caching the results
  *
  * Returns the first successfully analyzed PDF's details.
@@ -743,7 +760,7 @@ export async function getOrAnalyzePoPdf(
 
   // No cached analysis - need to fetch, store, and analyze
   console.log(`  Fetching PDFs from IMAP for email ${email.uid}`);
-  const pdfs = await fetchPdfsFromImap(email.uid, email.mailbox);
+  const pdfs = await fetchEmailPdfs(email);
 
   if (pdfs.length === 0) {
     console.log(`  No PDFs found in email ${email.uid}`);
@@ -768,18 +785,20 @@ export async function getOrAnalyzePoPdf(
       };
     }
 
-    // Analyze with Claude (with validation)
+    // Analyze with the AI provider (with validation)
     console.log(`  Analyzing PDF: ${pdf.filename} (${(pdf.content.length / 1024).toFixed(0)} KB)`);
-    const result = await analyzePdfWithVision(pdf.content);
-
-    // Cache the analysis (even if not a valid PO)
-    await updateAttachmentAnalysis(stored.id, {
-      poNumber: result.details?.poNumber || null,
-      poTotal: result.details?.total ? Math.round(result.details.total * 100) : null,
-      analysisJson: result.details,
-      isValidPo: result.isValidPo,
-      notPoReason: result.notPoReason,
-    });
+    const result = await analyzePdfWithVision(pdf.content, threadKey);
+
+    // Cache the analysis (even if not a valid PO); a rules-only stand-in is redone once the budget allows
+    if (!result.degraded) {
+      await updateAttachmentAnalysis(stored.id, {
+        poNumber: result.details?.poNumber || null,
+        poTotal: result.details?.total ? Math.round(result.details.total * 100) : null,
+        analysisJson: result.details,
+        isValidPo: result.isValidPo,
+        notPoReason: result.notPoReason,
+      });
+    }
 
     // Only return if it's a valid PO
     if (result.isValidPo && result.details) {
@@ -796,9 +815,9 @@ export async function getOrAnalyzePoPdf(
  */
 export async function analyzeAndValidatePo(
   pdfBuffer: Buffer,
-  _context: { subject: string; sender: string }
+  context: { subject: string; sender: string; threadKey?: string }
 ): Promise<PoValidationResult> {
-  return analyzePdfWithVision(pdfBuffer);
+  return analyzePdfWithVision(pdfBuffer, context.threadKey);
 }
 
 /**
@@ -6,6 +6,7 @@
  * 2. Uses existing po_received threadKeys from report_threads table
  * 3. For each thread, fetches and stores PDF/DOCX attachments
  * 4. DOCX/DOC files are converted to PDF before storing
+ * 5. Extracts searchable text for attachments stored before that existed
  *
  * Note: This does NOT re-categorize threads (no Claude API calls).
  * It relies on existing categorization from previous report runs.
@@ -19,8 +20,8 @@ import "dotenv/config";
 import { db, schema } from "@/db";
 import { eq, inArray, like, or } from "drizzle-orm";
 import { syncEmails } from "@/sync/syncer";
-import { fetchAndStorePdfs } from "./po-attachment-manager";
-import { groupEmailsIntoThreads } from "@/sync/threader";
+import { fetchAndStorePdfs, backfillAttachmentText } from "./po-attachment-manager";
+import { groupEmailsByThread } from "@/sync/threader";
 import type { Email } from "@/db/schema";
 
 interface Stats {
@@ -30,6 +31,7 @@ interface Stats {
   attachmentsStored: number;
   attachmentsSkipped: number;
   wordConverted: number;
+  textExtracted: number;
   errors: number;
 }
 
@@ -48,6 +50,7 @@ async function main() {
     attachmentsStored: 0,
     attachmentsSkipped: 0,
     wordConverted: 0,
+    textExtracted: 0,
     errors: 0,
   };
 
@@ -98,7 +101,7 @@ async function main() {
   console.log("Step 3: Loading emails and grouping into threads...\n");
 
   const allEmails = await db.select().from(schema.emails);
-  const threadMap = groupEmailsIntoThreads(allEmails);
+  const threadMap = await groupEmailsByThread(allEmails);
   console.log(`Loaded ${allEmails.length} emails in ${threadMap.size} threads\n`);
 
   // Step 3b: Find additional PO threads by subject pattern (fallback)
@@ -177,6 +180,15 @@ async function main() {
     }
   }
 
+  // Step 5: Search text for attachments stored before extraction existed
+  console.log("\nStep 5: Extracting attachment text for search...\n");
+  try {
+    stats.textExtracted = await backfillAttachmentText();
+  } catch (error) {
+    console.error("  Text extraction failed:", error);
+    stats.errors++;
+  }
+
   // Summary
   console.log("\n========================================");
   console.log("  Summary");
@@ -187,6 +199,7 @@ async function main() {
   console.log(`Attachments stored:      ${stats.attachmentsStored}`);
   console.log(`Attachments skipped:     ${stats.attachmentsSkipped}`);
   console.log(`Word docs converted:     ${stats.wordConverted}`);
+  console.log(`Text extracted:          ${stats.textExtracted}`);
   console.log(`Errors:                  ${stats.errors}`);
 
   process.exit(0);
@@ -0,0 +1,325 @@
+/**
+ * Push-based mailbox sync using IMAP IDLE.
+ *
+ * Holds one IMAP connection per watched mailbox of every account (IDLE only reports changes for
+ * the selected mailbox). When the server announces EXISTS, new UIDs are synced
+ * and only the affected threads are run through categorize → identifyTodos →
+ * syncDashTodos. Connections that drop are re-established with exponential backoff.
+ * Deleted/moved messages are reconciled by the regular sync, not here.
+ * With AI_ON_PROMPT_CHANGE=recategorize, open threads classified with an older
+ * prompt version are re-categorized in the background after start.
+ */
+
+import type { ImapFlow } from "imapflow";
+import { createImapClient, getMailAccounts } from "@/imap/client";
+import { syncMailbox } from "./syncer";
+import { recordMailboxHeartbeat, recordMailboxSyncRun } from "./sync-runs";
+import { assignPendingThreads } from "./thread-assigner";
+import { resolveMailboxes, type ResolvedMailbox } from "./mailboxes";
+import { categorizeThreadsForEmails } from "@/report/categorizer";
+import { identifyTodos } from "@/report/todo-analyzer";
+import { syncDashTodos } from "@/dashboard/todo-sync";
+import { getPromptChangePolicy } from "@/ai/prompts";
+import { recategorizeOpenThreads } from "@/report/recategorize";
+
+// Re-issue IDLE before common server-side inactivity timeouts (~29 min)
+const MAX_IDLE_TIME_MS = 20 * 60 * 1000;
+// Reconnect backoff: 5s, 10s, 20s ... capped at 5 minutes
+const RECONNECT_BASE_MS = 5 * 1000;
+const RECONNECT_MAX_MS = 5 * 60 * 1000;
+// Wait for bursts of new mail to settle before running the AI pipeline
+const PIPELINE_DEBOUNCE_MS = 15 * 1000;
+// Failed pipeline runs retry after 30s, 60s, 120s ... capped at 10 minutes
+const PIPELINE_RETRY_MAX_MS = 10 * 60 * 1000;
+
+export interface IdleDaemonOptions {
+  mailboxes?: ResolvedMailbox[]; // Defaults to the resolved inbound + outbound folders
+}
+
+export interface IdleDaemon {
+  stop: () => Promise<void>;
+}
+
+interface MailboxWatcher {
+  mailbox: ResolvedMailbox;
+  client: ImapFlow | null;
+  attempts: number;
+  reconnectTimer: NodeJS.Timeout | null;
+  syncing: boolean;
+  pendingSync: boolean;
+}
+
+function log(message: string): void {
+  console.log(`[idle ${new Date().toISOString()}] ${message}`);
+}
+
+// New mail only lands in inbound and outbound folders; archives are left to the regular sync
+async function resolveWatchedMailboxes(): Promise<ResolvedMailbox[]> {
+  const watched: ResolvedMailbox[] = [];
+
+  for (const account of getMailAccounts()) {
+    const client = createImapClient(account.id, { logger: false });
+    try {
+      await client.connect();
+      const { mailboxes, missing } = await resolveMailboxes(client, account);
+      for (const path of missing) {
+        console.warn(`[idle] Configured mailbox "${account.id}/${path}" does not exist on the server`);
+      }
+      watched.push(...mailboxes.filter((m) => m.role === "inbound" || m.role === "outbound"));
+    } catch (error: any) {
+      console.error(`[idle] Could not resolve mailboxes for account ${account.id}:`, error?.message ?? error);
+    } finally {
+      try {
+        await client.logout();
+      } catch {
+        // Ignore logout errors
+      }
+    }
+  }
+
+  return watched;
+}
+
+function label(mailbox: ResolvedMailbox): string {
+  return `${mailbox.account}/${mailbox.path}`;
+}
+
+export async function startIdleDaemon(options: IdleDaemonOptions = {}): Promise<IdleDaemon> {
+  const mailboxes = options.mailboxes ?? (await resolveWatchedMailboxes());
+  log(`Watching: ${mailboxes.map((m) => `${label(m)} (${m.role})`).join(", ") || "(none)"}`);
+  const watchers = mailboxes.map<MailboxWatcher>((mailbox) => ({
+    mailbox,
+    client: null,
+    attempts: 0,
+    reconnectTimer: null,
+    syncing: false,
+    pendingSync: false,
+  }));
+
+  let stopped = false;
+
+  // Email IDs waiting for the categorize/todo pipeline, shared across mailboxes
+  // so a reply in Sent and the original in INBOX are analyzed together.
+  const pendingEmailIds = new Set<number>();
+  let pipelineTimer: NodeJS.Timeout | null = null;
+  let pipelineRun: Promise<void> = Promise.resolve();
+  let pipelineFailures = 0;
+
+  // After a failure new mail doesn't cut the backoff short
+  function schedulePipeline(): void {
+    if (stopped || pendingEmailIds.size === 0) return;
+    if (pipelineTimer) clearTimeout(pipelineTimer);
+    const delay = Math.min(PIPELINE_DEBOUNCE_MS * 2 ** pipelineFailures, PIPELINE_RETRY_MAX_MS);
+    pipelineTimer = setTimeout(() => {
+      pipelineTimer = null;
+      const emailIds = [...pendingEmailIds];
+      pendingEmailIds.clear();
+      // Chain runs so two batches never categorize concurrently
+      pipelineRun = pipelineRun.then(() => refreshThreads(emailIds));
+    }, delay);
+  }
+
+  async function refreshThreads(emailIds: number[]): Promise<void> {
+    try {
+      log(`Refreshing threads for ${emailIds.length} new email(s)`);
+      await assignPendingThreads();
+      const threads = await categorizeThreadsForEmails(emailIds);
+      const todos = identifyTodos(threads);
+      const result = await syncDashTodos(threads, todos);
+      pipelineFailures = 0;
+      log(
+        `Refreshed ${threads.length} thread(s): ${result.newTodos} new, ` +
+        `${result.resolvedTodos} resolved, ${result.updatedThreads} updated`
+      );
+    } catch (error) {
+      console.error("[idle] Thread refresh failed:", error);
+      // Put the IDs back and retry them with backoff
+      for (const id of emailIds) pendingEmailIds.add(id);
+      pipelineFailures++;
+      schedulePipeline();
+    }
+  }
+
+  async function recategorizeStaleThreads(): Promise<void> {
+    try {
+      const result = await recategorizeOpenThreads({ shouldStop: () => stopped });
+      if (result.candidates > 0) {
+        log(
+          `Re-categorized ${result.recategorized} of ${result.candidates} stale thread(s): ` +
+          `${result.updatedTodos} updated, ${result.newTodos} new, ${result.resolvedTodos} resolved`
+        );
+      }
+    } catch (error) {
+      console.error("[idle] Re-categorization failed:", error);
+    }
+  }
+
+  // Quiet syncs only extend a heartbeat row - every EXISTS would otherwise add a row
+  async function recordRun(watcher: MailboxWatcher, startedAt: Date, result: { synced: number; error?: string }) {
+    if (result.synced === 0 && !result.error) {
+      await recordMailboxHeartbeat("daemon", startedAt, label(watcher.mailbox));
+      return;
+    }
+    await recordMailboxSyncRun("daemon", startedAt, {
+      mailbox: label(watcher.mailbox),
+      synced: result.synced,
+      error: result.error,
+    });
+  }
+
+  async function syncWatcher(watcher: MailboxWatcher): Promise<void> {
+    if (!watcher.client) return;
+
+    // EXISTS can fire while a sync is running - coalesce into one follow-up run
+    if (watcher.syncing) {
+      watcher.pendingSync = true;
+      return;
+    }
+
+    watcher.syncing = true;
+    let startedAt = new Date();
+    try {
+      do {
+        watcher.pendingSync = false;
+        startedAt = new Date();
+        const result = await syncMailbox(watcher.client, watcher.mailbox);
+        await recordRun(watcher, startedAt, result);
+        if (result.error) {
+          console.error(`[idle] ${label(watcher.mailbox)}: ${result.error}`);
+        }
+        if (result.emailIds.length > 0) {
+          log(`${label(watcher.mailbox)}: synced ${result.emailIds.length} new email(s)`);
+          for (const id of result.emailIds) pendingEmailIds.add(id);
+          schedulePipeline();
+        }
+      } while (watcher.pendingSync && watcher.client && !stopped);
+    } catch (error: any) {
+      // A dropped connection or a DB error must not take the daemon down; the close
+      // handler reconnects, and the next EXISTS (or the reconnect catch-up) retries
+      const message = error?.message ?? String(error);
+      console.error(`[idle] ${label(watcher.mailbox)}: sync failed:`, message);
+      await recordRun(watcher, startedAt, { synced: 0, error: message }).catch((recordError) => {
+        console.error(`[idle] ${label(watcher.mailbox)}: could not record failed sync:`, recordError);
+      });
+    } finally {
+      watcher.syncing = false;
+    }
+  }
+
+  function scheduleReconnect(watcher: MailboxWatcher): void {
+    if (stopped || watcher.reconnectTimer) return;
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** watcher.attempts, RECONNECT_MAX_MS);
+    watcher.attempts++;
+    log(`${label(watcher.mailbox)}: reconnecting in ${Math.round(delay / 1000)}s (attempt ${watcher.attempts})`);
+    watcher.reconnectTimer = setTimeout(() => {
+      watcher.reconnectTimer = null;
+      void connectWatcher(watcher);
+    }, delay);
+  }
+
+  async function connectWatcher(watcher: MailboxWatcher): Promise<void> {
+    if (stopped) return;
+
+    const client = createImapClient(watcher.mailbox.account, { maxIdleTime: MAX_IDLE_TIME_MS, logger: false });
+
+    client.on("error", (error: Error) => {
+      console.error(`[idle] ${label(watcher.mailbox)} connection error:`, error.message);
+    });
+    client.on("close", () => {
+      if (watcher.client === client) {
+        watcher.client = null;
+        log(`${label(watcher.mailbox)}: connection closed`);
+        scheduleReconnect(watcher);
+      }
+    });
+    client.on("exists", (data) => {
+      if (data.count > data.prevCount) {
+        log(`${label(watcher.mailbox)}: EXISTS ${data.prevCount} → ${data.count}`);
+        void syncWatcher(watcher);
+      }
+    });
+
+    try {
+      await client.connect();
+      watcher.client = client;
+
+      // Initial catch-up covers anything that arrived while disconnected
+      watcher.syncing = true;
+      const startedAt = new Date();
+      let result;
+      try {
+        result = await syncMailbox(client, watcher.mailbox);
+      } finally {
+        watcher.syncing = false;
+      }
+      if (result.missing) {
+        log(`${label(watcher.mailbox)}: mailbox does not exist, not watching`);
+        watcher.client = null;
+        await client.logout().catch(() => {});
+        return;
+      }
+      await recordRun(watcher, startedAt, result);
+      if (result.emailIds.length > 0) {
+        for (const id of result.emailIds) pendingEmailIds.add(id);
+        schedulePipeline();
+      }
+
+      // The mailbox stays selected; ImapFlow enters IDLE automatically once it is quiet
+      watcher.attempts = 0;
+      log(`${label(watcher.mailbox)}: watching for new mail`);
+
+      if (watcher.pendingSync) {
+        void syncWatcher(watcher);
+      }
+    } catch (error: any) {
+      console.error(`[idle] ${label(watcher.mailbox)}: connect failed:`, error?.message ?? error);
+      if (watcher.client === client) watcher.client = null;
+      try {
+        client.close();
+      } catch {
+        // Ignore close errors
+      }
+      scheduleReconnect(watcher);
+    }
+  }
+
+  for (const watcher of watchers) {
+    void connectWatcher(watcher);
+  }
+
+  // Queued like a refresh so it never categorizes alongside one
+  if (getPromptChangePolicy() === "recategorize") {
+    pipelineRun = pipelineRun.then(recategorizeStaleThreads);
+  }
+
+  return {
+    async stop() {
+      stopped = true;
+      if (pipelineTimer) {
+        clearTimeout(pipelineTimer);
+        pipelineTimer = null;
+      }
+
+      for (const watcher of watchers) {
+        if (watcher.reconnectTimer) clearTimeout(watcher.reconnectTimer);
+        const client = watcher.client;
+        watcher.client = null;
+        if (client) {
+          try {
+            await client.logout();
+          } catch {
+            // Ignore logout errors
+          }
+        }
+      }
+
+      // Flush anything still waiting so a restart doesn't miss todo updates
+      if (pendingEmailIds.size > 0) {
+        const emailIds = [...pendingEmailIds];
+        pendingEmailIds.clear();
+        pipelineRun = pipelineRun.then(() => refreshThreads(emailIds));
+      }
+      await pipelineRun;
+    },
+  };
+}
@@ -0,0 +1,346 @@
+/**
+ * Offline mailbox importer.
+ *
+ * Reads mbox files, Maildir trees or folders of .eml files and writes them into
+ * email_messages through the same parsing as syncMailbox() (buildEmailRecord,
+ * getReceivedDate, extractAttachments), so the threader, categorizer and PO
+ * detection can run without an IMAP login.
+ *
+ * Imported messages live in "import/<name>" mailboxes with no UIDVALIDITY, so the
+ * IMAP sync and reconciliation never touch them. UIDs are assigned sequentially
+ * per mailbox. Each row records its import_source so attachments can be read
+ * back from disk later.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { simpleParser } from "mailparser";
+import { db, schema } from "@/db";
+import { and, eq, inArray, max } from "drizzle-orm";
+import type { MailboxRole, NewEmail } from "@/db/schema";
+import { getMailAccount } from "@/imap/client";
+import { extractAttachments, bodyStructureFromParsed } from "@/imap/parsers";
+import { buildEmailRecord, insertEmailBatch } from "./syncer";
+import { assignPendingThreads } from "./thread-assigner";
+
+export type ImportFormat = "mbox" | "maildir" | "eml";
+
+export const IMPORT_MAILBOX_PREFIX = "import/";
+
+// Messages per bulk insert
+const IMPORT_BATCH_SIZE = 50;
+
+export interface ImportOptions {
+  path: string;
+  role: MailboxRole;
+  mailbox?: string;        // Defaults to the file/directory name
+  account?: string | null; // Defaults to the primary account
+  format?: ImportFormat;   // Detected from the path when omitted
+  dryRun?: boolean;        // Parse everything, write nothing
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  account: string;
+  mailbox: string;
+  scanned: number;
+  imported: number;
+  skipped: number; // Already imported, or Message-ID already stored for the account
+  failed: number;
+  emailIds: number[];
+}
+
+interface RawMessage {
+  source: Buffer;
+  importSource: string;
+}
+
+// ============================================================
+// Format detection and readers
+// ============================================================
+
+function isMaildir(dir: string): boolean {
+  return ["cur", "new"].some((sub) => {
+    const subPath = path.join(dir, sub);
+    return fs.existsSync(subPath) && fs.statSync(subPath).isDirectory();
+  });
+}
+
+function detectFormat(inputPath: string): ImportFormat {
+  const stat = fs.statSync(inputPath);
+  if (stat.isFile()) {
+    return inputPath.toLowerCase().endsWith(".eml") ? "eml" : "mbox";
+  }
+  return findMaildirs(inputPath).length > 0 ? "maildir" : "eml";
+}
+
+// Maildir folders under a root, including Maildir++ subfolders (".Sent", ".Archive")
+function findMaildirs(root: string): string[] {
+  const found: string[] = [];
+  if (isMaildir(root)) found.push(root);
+
+  for (const entry of fs.readdirSync(root, { withFileTypes: true })) {
+    if (!entry.isDirectory() || ["cur", "new", "tmp"].includes(entry.name)) continue;
+    found.push(...findMaildirs(path.join(root, entry.name)));
+  }
+  return found;
+}
+
+function findEmlFiles(inputPath: string): string[] {
+  if (fs.statSync(inputPath).isFile()) return [inputPath];
+
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(inputPath, { withFileTypes: true })) {
+    const entryPath = path.join(inputPath, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...findEmlFiles(entryPath));
+    } else if (entry.name.toLowerCase().endsWith(".eml")) {
+      files.push(entryPath);
+    }
+  }
+  return files.sort();
+}
+
+async function* readFiles(files: string[]): AsyncGenerator<RawMessage> {
+  for (const file of files) {
+    yield { source: await fs.promises.readFile(file), importSource: file };
+  }
+}
+
+async function* readMaildirs(root: string): AsyncGenerator<RawMessage> {
+  for (const dir of findMaildirs(root)) {
+    const files: string[] = [];
+    for (const sub of ["cur", "new"]) {
+      const subPath = path.join(dir, sub);
+      if (!fs.existsSync(subPath)) continue;
+      for (const name of fs.readdirSync(subPath).sort()) {
+        if (!name.startsWith(".")) files.push(path.join(subPath, name));
+      }
+    }
+    yield* readFiles(files);
+  }
+}
+
+// mboxrd escapes body lines starting with "From " as ">From " (and ">From " as ">>From ")
+function unescapeMbox(source: Buffer): Buffer {
+  return Buffer.from(source.toString("latin1").replace(/^>(>*From )/gm, "$1"), "latin1");
+}
+
+/**
+ * Stream messages out of an mbox file. Messages start after a "From " line that
+ * follows a blank line (or starts the file). Works on bytes so offsets stay exact
+ * and the file never has to fit in memory.
+ */
+async function* readMbox(file: string): AsyncGenerator<RawMessage> {
+  let pending = Buffer.alloc(0);
+  let offset = 0;             // Byte offset of `pending` in the file
+  let previousBlank = true;
+  let lines: Buffer[] = [];
+  let messageStart = -1;
+  let messageLength = 0;
+
+  const finish = (): RawMessage | null => {
+    if (messageStart === -1 || messageLength === 0) return null;
+    return {
+      source: unescapeMbox(Buffer.concat(lines)),
+      importSource: `${file}#${messageStart}:${messageLength}`,
+    };
+  };
+
+  const processLine = (line: Buffer): RawMessage | null => {
+    let completed: RawMessage | null = null;
+    const isSeparator = previousBlank && line.subarray(0, 5).toString("latin1") === "From ";
+
+    if (isSeparator) {
+      completed = finish();
+      lines = [];
+      messageStart = offset + line.length;
+      messageLength = 0;
+    } else if (messageStart !== -1) {
+      lines.push(line);
+      messageLength += line.length;
+    }
+
+    const text = line.toString("latin1");
+    previousBlank = text === "\n" || text === "\r\n";
+    offset += line.length;
+    return completed;
+  };
+
+  for await (const chunk of fs.createReadStream(file)) {
+    const data = pending.length > 0 ? Buffer.concat([pending, chunk as Buffer]) : (chunk as Buffer);
+    let position = 0;
+    let newline: number;
+    while ((newline = data.indexOf(10, position)) !== -1) {
+      const message = processLine(Buffer.from(data.subarray(position, newline + 1)));
+      if (message) yield message;
+      position = newline + 1;
+    }
+    pending = Buffer.from(data.subarray(position));
+  }
+
+  if (pending.length > 0) {
+    const message = processLine(pending);
+    if (message) yield message;
+  }
+  const last = finish();
+  if (last) yield last;
+}
+
+function readMessages(inputPath: string, format: ImportFormat): AsyncGenerator<RawMessage> {
+  switch (format) {
+    case "mbox":
+      return readMbox(inputPath);
+    case "maildir":
+      return readMaildirs(inputPath);
+    case "eml":
+      return readFiles(findEmlFiles(inputPath));
+  }
+}
+
+/**
+ * Read the raw message an imported row came from (see import_source)
+ */
+export async function readImportedMessage(importSource: string): Promise<Buffer> {
+  const match = importSource.match(/^(.*)#(\d+):(\d+)$/);
+  if (!match) {
+    return fs.promises.readFile(importSource);
+  }
+
+  const [, file, start, length] = match;
+  const handle = await fs.promises.open(file, "r");
+  try {
+    const buffer = Buffer.alloc(Number(length));
+    await handle.read(buffer, 0, buffer.length, Number(start));
+    return unescapeMbox(buffer);
+  } finally {
+    await handle.close();
+  }
+}
+
+// ============================================================
+// Import
+// ============================================================
+
+async function getNextUid(account: string, mailbox: string): Promise<number> {
+  const [row] = await db
+    .select({ maxUid: max(schema.emails.uid) })
+    .from(schema.emails)
+    .where(and(eq(schema.emails.account, account), eq(schema.emails.mailbox, mailbox)));
+  return (row?.maxUid ?? 0) + 1;
+}
+
+// Rows in this batch that were imported before, or whose Message-ID the account already has
+async function findAlreadyStored(account: string, rows: NewEmail[]): Promise<Set<NewEmail>> {
+  const sources = rows.map((r) => r.importSource).filter((s): s is string => !!s);
+  const messageIds = rows.map((r) => r.messageId).filter((id): id is string => !!id);
+
+  const [bySource, byMessageId] = await Promise.all([
+    sources.length > 0
+      ? db
+          .select({ importSource: schema.emails.importSource })
+          .from(schema.emails)
+          .where(inArray(schema.emails.importSource, sources))
+      : Promise.resolve([]),
+    messageIds.length > 0
+      ? db
+          .select({ messageId: schema.emails.messageId })
+          .from(schema.emails)
+          .where(and(eq(schema.emails.account, account), inArray(schema.emails.messageId, messageIds)))
+      : Promise.resolve([]),
+  ]);
+
+  const knownSources = new Set(bySource.map((r) => r.importSource));
+  const knownMessageIds = new Set(byMessageId.map((r) => r.messageId));
+  const seenInBatch = new Set<string>();
+
+  return new Set(
+    rows.filter((row) => {
+      if (row.importSource && knownSources.has(row.importSource)) return true;
+      if (!row.messageId) return false;
+      if (knownMessageIds.has(row.messageId) || seenInBatch.has(row.messageId)) return true;
+      seenInBatch.add(row.messageId);
+      return false;
+    })
+  );
+}
+
+export async function importMessages(options: ImportOptions): Promise<ImportResult> {
+  const inputPath = path.resolve(options.path);
+  if (!fs.existsSync(inputPath)) {
+    throw new Error(`Import path does not exist: ${inputPath}`);
+  }
+
+  const format = options.format ?? detectFormat(inputPath);
+  const account = getMailAccount(options.account).id;
+  const name = options.mailbox?.trim() || path.basename(inputPath).replace(/\.(mbox|eml)$/i, "");
+  const mailbox = name.startsWith(IMPORT_MAILBOX_PREFIX) ? name : `${IMPORT_MAILBOX_PREFIX}${name}`;
+
+  const result: ImportResult = {
+    format,
+    account,
+    mailbox,
+    scanned: 0,
+    imported: 0,
+    skipped: 0,
+    failed: 0,
+    emailIds: [],
+  };
+
+  console.log(`Importing ${format} from ${inputPath} into ${account}/${mailbox} (${options.role})`);
+
+  let nextUid = await getNextUid(account, mailbox);
+  let batch: NewEmail[] = [];
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const rows = batch;
+    batch = [];
+
+    const alreadyStored = await findAlreadyStored(account, rows);
+    const fresh = rows.filter((row) => !alreadyStored.has(row));
+    result.skipped += alreadyStored.size;
+
+    if (options.dryRun) {
+      result.imported += fresh.length;
+      return;
+    }
+
+    // UIDs are only handed out to rows that get inserted, keeping them dense
+    for (const row of fresh) row.uid = nextUid++;
+    const { ids, failedUids } = await insertEmailBatch(fresh);
+    result.emailIds.push(...ids);
+    result.imported += ids.length;
+    result.failed += failedUids.length;
+    console.log(`  Imported ${result.imported} (skipped ${result.skipped}, failed ${result.failed})`);
+  };
+
+  for await (const message of readMessages(inputPath, format)) {
+    result.scanned++;
+    try {
+      const parsed = await simpleParser(message.source);
+      const attachments = extractAttachments(bodyStructureFromParsed(parsed));
+      const row = buildEmailRecord(parsed, attachments, {
+        account,
+        uid: 0, // Assigned at insert time
+        uidValidity: null,
+        mailbox,
+        mailboxRole: options.role,
+      });
+      row.importSource = message.importSource;
+      batch.push(row);
+    } catch (error) {
+      console.error(`  Error parsing ${message.importSource}:`, error);
+      result.failed++;
+    }
+
+    if (batch.length >= IMPORT_BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  if (result.imported > 0 && !options.dryRun) {
+    await assignPendingThreads();
+  }
+
+  return result;
+}
@@ -0,0 +1,141 @@
+import type { ImapFlow, ListResponse } from "imapflow";
+import type { MailboxRole } from "@/db/schema";
+import type { MailAccount } from "@/imap/client";
+
+/**
+ * Mailbox resolution for sync.
+ *
+ * Mailboxes are discovered from IMAP SPECIAL-USE flags (RFC 6154) and can be
+ * extended or overridden with IMAP_MAILBOXES. Each mailbox carries a role that
+ * tells the categorizer which direction its messages travel.
+ *
+ * IMAP_MAILBOXES format (IMAP_<ACCOUNT>_MAILBOXES for additional accounts):
+ * comma-separated "path" or "path=role" entries, e.g.
+ *   IMAP_MAILBOXES="INBOX,INBOX.Sent=outbound,Archive.2025=archive,Spam=ignored"
+ * Set IMAP_MAILBOX_DISCOVERY=false to sync only the configured list.
+ */
+
+export const MAILBOX_ROLES: MailboxRole[] = ["inbound", "outbound", "archive", "ignored"];
+
+export interface ResolvedMailbox {
+  account: string;
+  path: string;
+  role: MailboxRole;
+  source: "special-use" | "config" | "default";
+}
+
+// Folder names used before SPECIAL-USE discovery (servers that don't advertise it)
+const LEGACY_SENT_NAMES = new Set(["sent", "sent messages", "sent items", "inbox.sent", "inbox.sent messages"]);
+
+const SPECIAL_USE_ROLES: Record<string, MailboxRole> = {
+  "\\Inbox": "inbound",
+  "\\Sent": "outbound",
+  "\\Archive": "archive",
+  "\\All": "ignored",     // Gmail-style "All Mail" duplicates every other folder
+  "\\Junk": "ignored",
+  "\\Trash": "ignored",
+  "\\Drafts": "ignored",
+  "\\Flagged": "ignored", // Virtual folder, duplicates INBOX
+};
+
+interface ConfiguredMailbox {
+  path: string;
+  role: MailboxRole | null;
+}
+
+function parseMailboxConfig(raw: string | undefined): ConfiguredMailbox[] {
+  if (!raw?.trim()) return [];
+
+  return raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const eqIndex = entry.lastIndexOf("=");
+      if (eqIndex === -1) return { path: entry, role: null };
+
+      const path = entry.slice(0, eqIndex).trim();
+      const role = entry.slice(eqIndex + 1).trim().toLowerCase() as MailboxRole;
+      if (!MAILBOX_ROLES.includes(role)) {
+        console.warn(`Mailbox config: unknown role "${role}" for "${path}", ignoring role`);
+        return { path, role: null };
+      }
+      return { path, role };
+    });
+}
+
+function isDiscoveryEnabled(): boolean {
+  return process.env.IMAP_MAILBOX_DISCOVERY?.trim().toLowerCase() !== "false";
+}
+
+// Role for a folder from its SPECIAL-USE flag, or from legacy names if the server has none
+function inferRole(entry: ListResponse | undefined, path: string): MailboxRole | null {
+  if (entry?.specialUse && SPECIAL_USE_ROLES[entry.specialUse]) {
+    return SPECIAL_USE_ROLES[entry.specialUse];
+  }
+  if (path.toUpperCase() === "INBOX") return "inbound";
+  if (LEGACY_SENT_NAMES.has(path.toLowerCase())) return "outbound";
+  return null;
+}
+
+/**
+ * Resolve the mailboxes to sync, including "ignored" ones so callers can report them.
+ * Configured paths that don't exist on the server are returned in `missing`.
+ */
+export async function resolveMailboxes(
+  client: ImapFlow,
+  account: MailAccount
+): Promise<{ mailboxes: ResolvedMailbox[]; missing: string[] }> {
+  const listed = await client.list();
+  const byPath = new Map(listed.map((entry) => [entry.path, entry]));
+
+  const resolved = new Map<string, ResolvedMailbox>();
+
+  if (isDiscoveryEnabled()) {
+    for (const entry of listed) {
+      if (entry.flags.has("\\Noselect") || entry.flags.has("\\NonExistent")) continue;
+
+      const role = inferRole(entry, entry.path);
+      if (role) {
+        resolved.set(entry.path, {
+          account: account.id,
+          path: entry.path,
+          role,
+          source: entry.specialUse ? "special-use" : "default",
+        });
+      }
+    }
+  }
+
+  // Config entries add folders and override discovered roles
+  const missing: string[] = [];
+  for (const configured of parseMailboxConfig(account.mailboxes)) {
+    const entry = byPath.get(configured.path);
+    if (!entry) {
+      missing.push(configured.path);
+      continue;
+    }
+    resolved.set(configured.path, {
+      account: account.id,
+      path: configured.path,
+      role: configured.role ?? inferRole(entry, configured.path) ?? "inbound",
+      source: "config",
+    });
+  }
+
+  return { mailboxes: [...resolved.values()], missing };
+}
+
+// Mailboxes whose messages are synced (everything except "ignored")
+export function syncableMailboxes(mailboxes: ResolvedMailbox[]): ResolvedMailbox[] {
+  return mailboxes.filter((m) => m.role !== "ignored");
+}
+
+/**
+ * Role for an email row. Rows synced before roles existed have no role, so
+ * fall back to the folder names we used to hardcode.
+ */
+export function getMailboxRole(email: { mailbox: string; mailboxRole?: MailboxRole | null }): MailboxRole | null {
+  if (email.mailboxRole) return email.mailboxRole;
+  return inferRole(undefined, email.mailbox);
+}
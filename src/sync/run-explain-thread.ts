@@ -0,0 +1,74 @@
+import "dotenv/config";
+import { db, schema } from "@/db";
+import { eq } from "drizzle-orm";
+import { explainThread, getThreadKey } from "./threader";
+
+function printUsage() {
+  console.log(`
+Usage: npm run threads:explain -- <threadKey> | --email=ID
+
+Shows which rule joined each email to its thread (References, In-Reply-To,
+Outlook Thread-Index, subject, ...) and the merges/splits that shaped it.
+
+Examples:
+  npm run threads:explain -- "<CAB1234@mail.gmail.com>"
+  npm run threads:explain -- --email=4821
+`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const emailArg = args.find((arg) => arg.startsWith("--email="))?.slice("--email=".length);
+  let threadKey = args.find((arg) => !arg.startsWith("-"));
+
+  if (args.includes("--help") || args.includes("-h") || (!threadKey && !emailArg)) {
+    printUsage();
+    process.exit(threadKey || emailArg ? 0 : 1);
+  }
+
+  if (emailArg) {
+    const [email] = await db.select().from(schema.emails).where(eq(schema.emails.id, parseInt(emailArg, 10))).limit(1);
+    if (!email) {
+      console.error(`No email with id ${emailArg}`);
+      process.exit(1);
+    }
+    threadKey = await getThreadKey(email);
+  }
+
+  const explanation = await explainThread(threadKey!);
+  if (!explanation) {
+    console.error(`No emails found for thread ${threadKey}`);
+    process.exit(1);
+  }
+
+  console.log(`Thread ${explanation.threadKey}`);
+  console.log(
+    explanation.threadId != null
+      ? `  Stored thread #${explanation.threadId}, ${explanation.emails.length} emails\n`
+      : `  Not stored yet - rules traced by grouping from headers, ${explanation.emails.length} emails\n`
+  );
+
+  for (const email of explanation.emails) {
+    const date = email.date?.toLocaleString("en-US", { timeZone: "America/New_York" }) ?? "(no date)";
+    const rule = email.match ? `${email.match.rule}${email.match.via ? ` via ${email.match.via}` : ""}` : "(not recorded)";
+    console.log(`[${email.emailId}] ${date}  ${email.from ?? "(unknown)"}`);
+    console.log(`    ${email.subject ?? "(no subject)"}`);
+    console.log(`    ${rule}${email.threadIndexGuid ? `  [Thread-Index ${email.threadIndexGuid}]` : ""}`);
+  }
+
+  if (explanation.overrides.length > 0) {
+    console.log("\nMerges and splits:");
+    for (const override of explanation.overrides) {
+      const others = override.otherThreadKeys.join(", ");
+      const detail = override.action === "merge" ? `${others} → ${override.threadKey}` : `${override.threadKey} → ${others}`;
+      console.log(`  ${override.createdAt.toISOString()} ${override.action} (${override.createdBy}) ${detail}${override.reason ? ` - ${override.reason}` : ""}`);
+    }
+  }
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Explain failed:", error);
+  process.exit(1);
+});
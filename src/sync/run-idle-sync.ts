@@ -0,0 +1,30 @@
+import "dotenv/config";
+import { startIdleDaemon } from "./idle-daemon";
+
+async function main() {
+  console.log("=== Email Sync Daemon (IMAP IDLE) ===\n");
+
+  const daemon = await startIdleDaemon();
+
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`\nReceived ${signal}, shutting down...`);
+    try {
+      await daemon.stop();
+      process.exit(0);
+    } catch (error) {
+      console.error("Shutdown failed:", error);
+      process.exit(1);
+    }
+  };
+
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
+}
+
+main().catch((error) => {
+  console.error("Sync daemon failed:", error);
+  process.exit(1);
+});
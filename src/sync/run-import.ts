@@ -0,0 +1,86 @@
+import "dotenv/config";
+import type { MailboxRole } from "@/db/schema";
+import { importMessages, type ImportFormat } from "./importer";
+import { MAILBOX_ROLES } from "./mailboxes";
+
+const FORMATS: ImportFormat[] = ["mbox", "maildir", "eml"];
+
+function printUsage() {
+  console.log(`
+Usage: npm run import -- <path> [options]
+
+Imports an mbox file, a Maildir tree, or a folder of .eml files into email_messages.
+
+Options:
+  --role=ROLE        Mailbox role: inbound (default), outbound, archive
+  --mailbox=NAME     Mailbox name, stored as import/NAME (default: file/directory name)
+  --account=ID       Mail account from MAIL_ACCOUNTS (default: primary account)
+  --format=FORMAT    mbox, maildir or eml (default: detected from the path)
+  --dry-run          Parse everything but don't write to the database
+
+Examples:
+  npm run import -- ~/Mail/Inbox.mbox
+  npm run import -- ~/Maildir --role=archive --mailbox=2025
+  npm run import -- ./fixtures/pos --role=inbound --dry-run
+`);
+}
+
+function getArg(args: string[], name: string): string | undefined {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const inputPath = args.find((arg) => !arg.startsWith("-"));
+
+  if (!inputPath || args.includes("--help") || args.includes("-h")) {
+    printUsage();
+    process.exit(inputPath ? 0 : 1);
+  }
+
+  const role = (getArg(args, "role") || "inbound") as MailboxRole;
+  if (!MAILBOX_ROLES.includes(role) || role === "ignored") {
+    console.error(`Invalid --role "${role}". Use inbound, outbound or archive.`);
+    process.exit(1);
+  }
+
+  const format = getArg(args, "format") as ImportFormat | undefined;
+  if (format && !FORMATS.includes(format)) {
+    console.error(`Invalid --format "${format}". Use ${FORMATS.join(", ")}.`);
+    process.exit(1);
+  }
+
+  const dryRun = args.includes("--dry-run");
+
+  console.log(`=== Email Import${dryRun ? " (dry run)" : ""} ===\n`);
+
+  try {
+    const result = await importMessages({
+      path: inputPath,
+      role,
+      mailbox: getArg(args, "mailbox"),
+      account: getArg(args, "account"),
+      format,
+      dryRun,
+    });
+
+    console.log(`\n  - Mailbox: ${result.account}/${result.mailbox} (${result.format})`);
+    console.log(`  - Scanned ${result.scanned} messages`);
+    console.log(`  - ${dryRun ? "Would import" : "Imported"} ${result.imported}`);
+    console.log(`  - Skipped ${result.skipped} already stored`);
+    if (result.failed > 0) {
+      console.log(`  - Failed ${result.failed}`);
+    }
+
+    console.log("\n=== Import complete ===");
+    if (!dryRun && result.imported > 0) {
+      console.log("Run 'npm run report -- --preview' to categorize the imported threads.\n");
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error("Import failed:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -11,6 +11,14 @@ async function main() {
     const syncResult = await syncEmails();
     console.log(`  - Synced ${syncResult.emailsSynced} emails`);
     console.log(`  - Processed mailboxes: ${syncResult.mailboxesProcessed.join(", ")}`);
+    if (syncResult.emailsSynced > 0) {
+      const mb = (syncResult.bytesFetched / (1024 * 1024)).toFixed(1);
+      const secs = (syncResult.fetchDurationMs / 1000).toFixed(1);
+      console.log(`  - Throughput: ${syncResult.emailsPerSecond} emails/s (${mb} MB in ${secs}s)`);
+    }
+    if (syncResult.emailsDeleted > 0 || syncResult.emailsMoved > 0) {
+      console.log(`  - Removed on server: ${syncResult.emailsDeleted} deleted, ${syncResult.emailsMoved} moved`);
+    }
     if (syncResult.errors.length > 0) {
       console.log(`  - Errors: ${syncResult.errors.join(", ")}`);
     }
@@ -0,0 +1,240 @@
+/**
+ * Sync run history and health.
+ *
+ * Every syncEmails() call writes a sync_runs row (trigger, per-mailbox counts,
+ * errors, duration). The IDLE daemon records a run whenever a mailbox sync picks
+ * up mail or fails; quiet syncs extend a heartbeat row instead (see
+ * recordMailboxHeartbeat) so the last-success time stays current. getSyncHealth() turns the history into the warnings shown in
+ * the dashboard header.
+ */
+
+import { toZonedTime } from "date-fns-tz";
+import { and, desc, eq, inArray, isNull, max, ne, or, sql } from "drizzle-orm";
+import { db, schema } from "@/db";
+import type { SyncRun, SyncRunStatus, SyncRunTrigger } from "@/db/schema";
+import type { MailboxSyncSummary, SyncStats } from "./syncer";
+
+const TIMEZONE = process.env.REPORT_TIMEZONE || "America/New_York";
+// Business hours (local time, Mon-Fri) during which silence on inbound mailboxes is suspicious
+const BUSINESS_HOURS_START = 8;
+const BUSINESS_HOURS_END = 17;
+// Warn when no inbound mail has arrived for this long within business hours
+const QUIET_WARNING_HOURS = 3;
+
+export interface SyncHealth {
+  lastRun: SyncRun | null;
+  lastSuccessfulAt: Date | null;
+  lastInboundEmailAt: Date | null;
+  warnings: string[];
+}
+
+function runStatus(stats: Pick<SyncStats, "errors" | "mailboxResults">): SyncRunStatus {
+  if (stats.errors.length === 0) return "success";
+  return stats.mailboxResults.some((m) => !m.error) ? "partial" : "failed";
+}
+
+/**
+ * Insert a "running" row. Returns null if it can't be recorded (e.g. the table
+ * hasn't been migrated yet) - history must never block the sync itself.
+ */
+export async function startSyncRun(trigger: SyncRunTrigger): Promise<number | null> {
+  try {
+    await failStaleSyncRuns();
+    const [run] = await db
+      .insert(schema.syncRuns)
+      .values({ trigger, status: "running", startedAt: new Date() })
+      .returning({ id: schema.syncRuns.id });
+    return run.id;
+  } catch (error) {
+    console.warn("Could not record sync run:", error);
+    return null;
+  }
+}
+
+export async function finishSyncRun(
+  runId: number | null,
+  startedAt: Date,
+  stats: SyncStats,
+  status: SyncRunStatus = runStatus(stats)
+): Promise<void> {
+  if (runId === null) return;
+
+  const finishedAt = new Date();
+  try {
+    await db
+      .update(schema.syncRuns)
+      .set({
+        status,
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        emailsSynced: stats.emailsSynced,
+        emailsDeleted: stats.emailsDeleted,
+        emailsMoved: stats.emailsMoved,
+        mailboxes: stats.mailboxResults,
+        errors: stats.errors,
+      })
+      .where(eq(schema.syncRuns.id, runId));
+  } catch (error) {
+    console.warn("Could not record sync run result:", error);
+  }
+}
+
+// One-shot row for a single mailbox sync (IDLE daemon)
+export async function recordMailboxSyncRun(
+  trigger: SyncRunTrigger,
+  startedAt: Date,
+  result: MailboxSyncSummary
+): Promise<void> {
+  const finishedAt = new Date();
+  try {
+    await db.insert(schema.syncRuns).values({
+      trigger,
+      status: result.error ? "failed" : "success",
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      emailsSynced: result.synced,
+      mailboxes: [result],
+      errors: result.error ? [`${result.mailbox}: ${result.error}`] : [],
+    });
+  } catch (error) {
+    console.warn("Could not record sync run:", error);
+  }
+}
+
+/**
+ * Record a mailbox sync that found nothing new. If the latest run is already a
+ * quiet one for the same mailbox its finish time is moved forward; otherwise a
+ * new row is added. Keeps lastSuccessfulAt current without a row per IDLE wake-up.
+ */
+export async function recordMailboxHeartbeat(
+  trigger: SyncRunTrigger,
+  startedAt: Date,
+  mailbox: string
+): Promise<void> {
+  const finishedAt = new Date();
+  try {
+    const [latest] = await db
+      .select()
+      .from(schema.syncRuns)
+      .orderBy(desc(schema.syncRuns.startedAt))
+      .limit(1);
+
+    const mailboxes = (latest?.mailboxes as MailboxSyncSummary[] | null) ?? [];
+    const isQuietRow =
+      latest?.trigger === trigger &&
+      latest.status === "success" &&
+      latest.emailsSynced === 0 &&
+      mailboxes.length === 1 &&
+      mailboxes[0].mailbox === mailbox;
+
+    if (isQuietRow) {
+      await db
+        .update(schema.syncRuns)
+        .set({ finishedAt, durationMs: finishedAt.getTime() - latest.startedAt.getTime() })
+        .where(eq(schema.syncRuns.id, latest.id));
+      return;
+    }
+  } catch (error) {
+    console.warn("Could not record sync heartbeat:", error);
+    return;
+  }
+
+  await recordMailboxSyncRun(trigger, startedAt, { mailbox, synced: 0 });
+}
+
+export async function getRecentSyncRuns(limit = 20): Promise<SyncRun[]> {
+  return db
+    .select()
+    .from(schema.syncRuns)
+    .orderBy(desc(schema.syncRuns.startedAt))
+    .limit(limit);
+}
+
+function isBusinessDay(zoned: Date): boolean {
+  const day = zoned.getDay();
+  return day >= 1 && day <= 5;
+}
+
+export async function getSyncHealth(now: Date = new Date()): Promise<SyncHealth> {
+  const [lastRun] = await db
+    .select()
+    .from(schema.syncRuns)
+    .where(ne(schema.syncRuns.status, "running"))
+    .orderBy(desc(schema.syncRuns.startedAt))
+    .limit(1);
+
+  const [lastSuccess] = await db
+    .select({ finishedAt: schema.syncRuns.finishedAt })
+    .from(schema.syncRuns)
+    .where(eq(schema.syncRuns.status, "success"))
+    .orderBy(desc(schema.syncRuns.startedAt))
+    .limit(1);
+
+  const [lastInbound] = await db
+    .select({ date: max(schema.emails.date) })
+    .from(schema.emails)
+    .where(
+      and(
+        or(
+          eq(schema.emails.mailboxRole, "inbound"),
+          and(isNull(schema.emails.mailboxRole), eq(schema.emails.mailbox, "INBOX"))
+        ),
+        ne(schema.emails.serverState, "deleted"),
+        // Imported history says nothing about whether live mail is arriving
+        isNull(schema.emails.importSource)
+      )
+    );
+
+  const warnings: string[] = [];
+
+  if (lastRun?.status === "failed") {
+    const errors = (lastRun.errors as string[] | null) ?? [];
+    warnings.push(`Last sync failed${errors.length > 0 ? `: ${errors[0]}` : ""}`);
+  } else if (lastRun?.status === "partial") {
+    const failed = ((lastRun.mailboxes as MailboxSyncSummary[] | null) ?? []).filter((m) => m.error);
+    warnings.push(`Last sync had errors in ${failed.map((m) => m.mailbox).join(", ") || "some mailboxes"}`);
+  }
+
+  // Only once the quiet period fits inside today's business hours, so Monday 8am doesn't warn
+  const zonedNow = toZonedTime(now, TIMEZONE);
+  const hour = zonedNow.getHours() + zonedNow.getMinutes() / 60;
+  const lastInboundEmailAt = lastInbound?.date ?? null;
+  if (
+    isBusinessDay(zonedNow) &&
+    hour >= BUSINESS_HOURS_START + QUIET_WARNING_HOURS &&
+    hour < BUSINESS_HOURS_END &&
+    (!lastInboundEmailAt || now.getTime() - lastInboundEmailAt.getTime() > QUIET_WARNING_HOURS * 60 * 60 * 1000)
+  ) {
+    warnings.push(`No inbound mail in the last ${QUIET_WARNING_HOURS} hours`);
+  }
+
+  return {
+    lastRun: lastRun ?? null,
+    lastSuccessfulAt: lastSuccess?.finishedAt ?? null,
+    lastInboundEmailAt,
+    warnings,
+  };
+}
+
+/**
+ * Mark runs stuck in "running" (process killed mid-sync) as failed
+ */
+export async function failStaleSyncRuns(olderThanMinutes = 60): Promise<number> {
+  const stale = await db
+    .select({ id: schema.syncRuns.id })
+    .from(schema.syncRuns)
+    .where(
+      and(
+        eq(schema.syncRuns.status, "running"),
+        sql`${schema.syncRuns.startedAt} < NOW() - make_interval(mins => ${olderThanMinutes})`
+      )
+    );
+  if (stale.length === 0) return 0;
+
+  await db
+    .update(schema.syncRuns)
+    .set({ status: "failed", errors: ["Run did not finish (process exited)"] })
+    .where(inArray(schema.syncRuns.id, stale.map((r) => r.id)));
+  return stale.length;
+}
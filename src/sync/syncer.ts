@@ -1,13 +1,16 @@
 import "dotenv/config";
 import { ImapFlow } from "imapflow";
 import { simpleParser, ParsedMail } from "mailparser";
-import { createImapClient } from "@/imap/client";
-import { extractAttachments } from "@/imap/parsers";
+import { createImapClient, getMailAccounts, getPrimaryAccountId } from "@/imap/client";
+import { extractAttachments, extractAddresses } from "@/imap/parsers";
+import { cleanEmailBody } from "@/imap/body-cleaner";
 import { db, schema } from "@/db";
-import { eq, and, inArray } from "drizzle-orm";
-import type { NewEmail } from "@/db/schema";
-
-const MAILBOXES = ["INBOX", "Sent", "Sent Messages"];
+import { eq, and, or, ne, inArray, isNull } from "drizzle-orm";
+import type { NewEmail, MailboxRole, EmailServerState, SyncRunTrigger } from "@/db/schema";
+import { resolveMailboxes, syncableMailboxes, type ResolvedMailbox } from "./mailboxes";
+import { startSyncRun, finishSyncRun } from "./sync-runs";
+import { assignPendingThreads } from "./thread-assigner";
+import { decodeThreadIndex } from "./threader";
 
 /**
  * Extract the received date from email headers.
@@ -54,48 +57,389 @@ function getReceivedDate(parsed: ParsedMail): Date | null {
 const INITIAL_SYNC_DATE = new Date("2026-01-01T05:00:00.000Z");
 // Buffer days to overlap when doing incremental sync (IMAP SINCE is date-only)
 const SYNC_OVERLAP_DAYS = 1;
+// Messages per UID FETCH / bulk insert
+const FETCH_BATCH_SIZE = 50;
+// Vanished messages looked up by Message-ID in other folders per run (each is one SEARCH per folder)
+const MAX_MOVE_LOOKUPS = 25;
+// Runs a message may fail to parse or store before its UID is skipped
+const MAX_UID_ATTEMPTS = 3;
 
 export interface SyncStats {
   emailsSynced: number;
   mailboxesProcessed: string[];
   errors: string[];
+  // Throughput (fetch + parse + insert time only, excludes connect/search)
+  bytesFetched: number;
+  fetchDurationMs: number;
+  emailsPerSecond: number;
+  // Reconciliation: stored messages no longer in their folder on the server
+  emailsDeleted: number;
+  emailsMoved: number;
+  // Per-mailbox outcome, recorded in sync_runs
+  mailboxResults: MailboxSyncSummary[];
+}
+
+export interface MailboxSyncSummary {
+  mailbox: string; // "account/path"
+  synced: number;
+  error?: string;
+}
+
+export interface MailboxSyncState {
+  lastSyncAt: Date;
+  lastUid: number | null;
+  uidValidity: number | null;
 }
 
-async function getLastSyncTime(mailbox: string): Promise<Date | null> {
+export async function getSyncState(account: string, mailbox: string): Promise<MailboxSyncState | null> {
   const result = await db
-    .select({ lastSyncAt: schema.syncMetadata.lastSyncAt })
+    .select({
+      lastSyncAt: schema.syncMetadata.lastSyncAt,
+      lastUid: schema.syncMetadata.lastUid,
+      uidValidity: schema.syncMetadata.uidValidity,
+    })
     .from(schema.syncMetadata)
-    .where(eq(schema.syncMetadata.mailbox, mailbox))
+    .where(and(eq(schema.syncMetadata.account, account), eq(schema.syncMetadata.mailbox, mailbox)))
     .limit(1);
 
-  return result.length > 0 ? result[0].lastSyncAt : null;
+  return result.length > 0 ? result[0] : null;
 }
 
-async function updateLastSyncTime(mailbox: string, syncTime: Date): Promise<void> {
+async function updateSyncState(
+  account: string,
+  mailbox: string,
+  syncTime: Date,
+  lastUid: number | null,
+  uidValidity: number
+): Promise<void> {
   await db
     .insert(schema.syncMetadata)
-    .values({ mailbox, lastSyncAt: syncTime })
+    .values({ account, mailbox, lastSyncAt: syncTime, lastUid, uidValidity })
     .onConflictDoUpdate({
-      target: schema.syncMetadata.mailbox,
-      set: { lastSyncAt: syncTime },
+      target: [schema.syncMetadata.account, schema.syncMetadata.mailbox],
+      set: { lastSyncAt: syncTime, lastUid, uidValidity },
     });
 }
 
-async function getExistingUids(mailbox: string, uids: number[]): Promise<Set<number>> {
+/**
+ * Rows synced before multi-account support have no account. The primary account
+ * claims them (and their sync state) the first time it syncs that mailbox.
+ */
+async function claimLegacyRows(account: string, mailbox: string): Promise<void> {
+  if (account !== getPrimaryAccountId()) return;
+
+  await db
+    .update(schema.emails)
+    .set({ account })
+    .where(and(isNull(schema.emails.account), eq(schema.emails.mailbox, mailbox)));
+
+  const existing = await getSyncState(account, mailbox);
+  if (!existing) {
+    await db
+      .update(schema.syncMetadata)
+      .set({ account })
+      .where(and(isNull(schema.syncMetadata.account), eq(schema.syncMetadata.mailbox, mailbox)));
+  }
+}
+
+async function getExistingUids(
+  account: string,
+  mailbox: string,
+  uidValidity: number,
+  uids: number[]
+): Promise<Set<number>> {
   if (uids.length === 0) return new Set();
 
   const result = await db
     .select({ uid: schema.emails.uid })
     .from(schema.emails)
-    .where(and(eq(schema.emails.mailbox, mailbox), inArray(schema.emails.uid, uids)));
+    .where(
+      and(
+        eq(schema.emails.account, account),
+        eq(schema.emails.mailbox, mailbox),
+        eq(schema.emails.uidValidity, uidValidity),
+        inArray(schema.emails.uid, uids)
+      )
+    );
 
   return new Set(result.map((r) => r.uid));
 }
 
-async function syncMailbox(
+// UIDs the sync has given up on (see recordFailedUids)
+async function getSkippedUids(
+  account: string,
+  mailbox: string,
+  uidValidity: number,
+  uids: number[]
+): Promise<Set<number>> {
+  if (uids.length === 0) return new Set();
+
+  const result = await db
+    .select({ uid: schema.syncFailedUids.uid })
+    .from(schema.syncFailedUids)
+    .where(
+      and(
+        eq(schema.syncFailedUids.account, account),
+        eq(schema.syncFailedUids.mailbox, mailbox),
+        eq(schema.syncFailedUids.uidValidity, uidValidity),
+        inArray(schema.syncFailedUids.uid, uids),
+        eq(schema.syncFailedUids.skipped, true)
+      )
+    );
+
+  return new Set(result.map((r) => r.uid));
+}
+
+/**
+ * Count another failed attempt for each UID. A message that has failed
+ * MAX_UID_ATTEMPTS times is marked skipped: it is no longer fetched and no
+ * longer holds back the lastUid checkpoint, so one message that can't be parsed
+ * or stored doesn't make every run re-fetch the folder from that UID.
+ * Returns the UIDs given up on.
+ */
+async function recordFailedUids(
+  account: string,
+  mailbox: string,
+  uidValidity: number,
+  failures: Map<number, string>
+): Promise<Set<number>> {
+  const skipped = new Set<number>();
+  if (failures.size === 0) return skipped;
+
+  const previous = await db
+    .select({ uid: schema.syncFailedUids.uid, attempts: schema.syncFailedUids.attempts })
+    .from(schema.syncFailedUids)
+    .where(
+      and(
+        eq(schema.syncFailedUids.account, account),
+        eq(schema.syncFailedUids.mailbox, mailbox),
+        eq(schema.syncFailedUids.uidValidity, uidValidity),
+        inArray(schema.syncFailedUids.uid, [...failures.keys()])
+      )
+    );
+  const previousAttempts = new Map(previous.map((r) => [r.uid, r.attempts]));
+
+  const now = new Date();
+  for (const [uid, lastError] of failures) {
+    const prior = previousAttempts.get(uid);
+    const attempts = (prior ?? 0) + 1;
+    const giveUp = attempts >= MAX_UID_ATTEMPTS;
+
+    if (prior === undefined) {
+      await db.insert(schema.syncFailedUids).values({
+        account,
+        mailbox,
+        uidValidity,
+        uid,
+        attempts,
+        lastError,
+        firstFailedAt: now,
+        lastFailedAt: now,
+        skipped: giveUp,
+      });
+    } else {
+      await db
+        .update(schema.syncFailedUids)
+        .set({ attempts, lastError, lastFailedAt: now, skipped: giveUp })
+        .where(
+          and(
+            eq(schema.syncFailedUids.account, account),
+            eq(schema.syncFailedUids.mailbox, mailbox),
+            eq(schema.syncFailedUids.uidValidity, uidValidity),
+            eq(schema.syncFailedUids.uid, uid)
+          )
+        );
+    }
+
+    if (giveUp) {
+      console.warn(`  UID ${uid} failed ${attempts} times, skipping it: ${lastError}`);
+      skipped.add(uid);
+    }
+  }
+
+  return skipped;
+}
+
+/**
+ * Rebuild the UID mapping of a mailbox after its UIDVALIDITY changed.
+ *
+ * The server has renumbered every message, so stored UIDs are meaningless.
+ * Existing rows are re-pointed to their new UID by Message-ID (falling back to
+ * subject + sender for messages without one). Several messages sharing a key
+ * (the same message filed twice) are paired with the stored rows in date order,
+ * one UID per row; rows left over are no longer on the server and are marked
+ * by reconcileMailbox(). Returns the new UIDs that have no matching row and
+ * therefore still need to be fetched.
+ */
+async function rebuildUidMapping(
   client: ImapFlow,
-  mailbox: string
-): Promise<{ synced: number; error?: string }> {
+  account: string,
+  mailbox: string,
+  uidValidity: number
+): Promise<number[]> {
+  const searchResult = await client.search({ since: INITIAL_SYNC_DATE }, { uid: true });
+  const uids = Array.isArray(searchResult) ? searchResult : [];
+  if (uids.length === 0) return [];
+
+  // Rows synced under any previous UIDVALIDITY
+  const staleRows = await db
+    .select({
+      id: schema.emails.id,
+      uid: schema.emails.uid,
+      date: schema.emails.date,
+      messageId: schema.emails.messageId,
+      subject: schema.emails.subject,
+      fromAddress: schema.emails.fromAddress,
+    })
+    .from(schema.emails)
+    .where(
+      and(
+        eq(schema.emails.account, account),
+        eq(schema.emails.mailbox, mailbox),
+        or(isNull(schema.emails.uidValidity), ne(schema.emails.uidValidity, uidValidity))
+      )
+    );
+
+  // Message-ID, or subject + sender for messages without one
+  const matchKey = (messageId: string | null | undefined, subject: string | null | undefined, from: string | null | undefined) =>
+    messageId ? `id:${messageId}` : `fallback:${(subject || "").trim().toLowerCase()}|${(from || "").trim().toLowerCase()}`;
+
+  const rowsByKey = new Map<string, typeof staleRows>();
+  for (const row of staleRows) {
+    const key = matchKey(row.messageId, row.subject, row.fromAddress);
+    if (!rowsByKey.has(key)) rowsByKey.set(key, []);
+    rowsByKey.get(key)!.push(row);
+  }
+
+  const messagesByKey = new Map<string, Array<{ uid: number; date: number }>>();
+  for await (const msg of client.fetch(uids, { uid: true, envelope: true, internalDate: true }, { uid: true })) {
+    const envelope = msg.envelope;
+    const key = matchKey(envelope?.messageId, envelope?.subject, envelope?.from?.[0]?.address);
+    if (!messagesByKey.has(key)) messagesByKey.set(key, []);
+    messagesByKey.get(key)!.push({ uid: msg.uid, date: msg.internalDate ? new Date(msg.internalDate).getTime() : 0 });
+  }
+
+  const unmatched: number[] = [];
+  let remapped = 0;
+
+  for (const [key, messages] of messagesByKey) {
+    // Oldest first on both sides; new and old UIDs break ties (both grow with arrival order)
+    messages.sort((a, b) => a.date - b.date || a.uid - b.uid);
+    const rows = [...(rowsByKey.get(key) ?? [])].sort(
+      (a, b) => (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0) || a.uid - b.uid
+    );
+
+    for (const [index, message] of messages.entries()) {
+      const row = rows[index];
+      if (!row) {
+        unmatched.push(message.uid);
+        continue;
+      }
+      await db.update(schema.emails).set({ uid: message.uid, uidValidity }).where(eq(schema.emails.id, row.id));
+      remapped++;
+    }
+  }
+
+  console.log(`Rebuilt UID mapping: ${remapped} rows remapped, ${unmatched.length} messages not yet synced`);
+  return unmatched.sort((a, b) => a - b);
+}
+
+// Build an email_messages row from a parsed message and its bodyStructure attachments
+// Unstructured header as a string (mailparser leaves headers it doesn't know as strings)
+function getHeaderText(parsed: ParsedMail, name: string): string | null {
+  const value = parsed.headers.get(name);
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+export function buildEmailRecord(
+  parsed: ParsedMail,
+  attachments: ReturnType<typeof extractAttachments>,
+  location: { account: string; uid: number; uidValidity: number | null; mailbox: string; mailboxRole: MailboxRole }
+): NewEmail {
+  // Get body text (prefer plain text, fall back to html-to-text conversion would happen in parsed.text)
+  const bodyText = (parsed.text || "").slice(0, 50000);
+  const threadIndex = getHeaderText(parsed, "thread-index");
+  const references = Array.isArray(parsed.references)
+    ? parsed.references.join(" ")
+    : parsed.references || null;
+
+  return {
+    account: location.account,
+    uid: location.uid,
+    uidValidity: location.uidValidity,
+    messageId: parsed.messageId || null,
+    fromAddress: parsed.from?.value?.[0]?.address || null,
+    fromName: parsed.from?.value?.[0]?.name || null,
+    toAddresses: JSON.stringify(extractAddresses(parsed.to)),
+    ccAddresses: JSON.stringify(extractAddresses(parsed.cc)),
+    bccAddresses: JSON.stringify(extractAddresses(parsed.bcc)),
+    replyTo: JSON.stringify(extractAddresses(parsed.replyTo)),
+    subject: parsed.subject || null,
+    bodyText,
+    bodyClean: cleanEmailBody(bodyText, parsed.subject).text,
+    bodyHtml: parsed.html ? parsed.html.slice(0, 200000) : null,
+    // Received date (when email arrived at our server, not when it was sent)
+    date: getReceivedDate(parsed),
+    inReplyTo: parsed.inReplyTo || null,
+    references,
+    referenceIds: references?.split(/\s+/).filter(Boolean) ?? null,
+    // Outlook/Exchange often send these instead of References
+    threadIndex,
+    threadIndexGuid: decodeThreadIndex(threadIndex)?.guid ?? null,
+    threadTopic: getHeaderText(parsed, "thread-topic"),
+    mailbox: location.mailbox,
+    mailboxRole: location.mailboxRole,
+    hasAttachments: attachments.length > 0,
+    attachments: attachments.length > 0 ? JSON.stringify(attachments) : null,
+    syncedAt: new Date(),
+  };
+}
+
+// Bulk-insert a batch of rows; if the batch insert fails, fall back to
+// row-by-row inserts so one bad message doesn't block the rest
+export async function insertEmailBatch(rows: NewEmail[]): Promise<{ ids: number[]; failedUids: number[] }> {
+  if (rows.length === 0) return { ids: [], failedUids: [] };
+
+  try {
+    const inserted = await db
+      .insert(schema.emails)
+      .values(rows)
+      .returning({ id: schema.emails.id });
+    return { ids: inserted.map((r) => r.id), failedUids: [] };
+  } catch (error) {
+    console.warn(`  Batch insert of ${rows.length} emails failed, inserting individually:`, error);
+  }
+
+  const ids: number[] = [];
+  const failedUids: number[] = [];
+  for (const row of rows) {
+    try {
+      const [inserted] = await db
+        .insert(schema.emails)
+        .values(row)
+        .returning({ id: schema.emails.id });
+      ids.push(inserted.id);
+    } catch (error) {
+      console.error(`  Error inserting UID ${row.uid}:`, error);
+      failedUids.push(row.uid);
+    }
+  }
+  return { ids, failedUids };
+}
+
+export interface MailboxSyncResult {
+  synced: number;
+  emailIds: number[]; // IDs of newly inserted email_messages rows
+  bytesFetched: number;
+  durationMs: number; // Time spent fetching + inserting messages
+  missing?: boolean;  // True if the mailbox does not exist on the server
+  error?: string;
+}
+
+export async function syncMailbox(
+  client: ImapFlow,
+  { account, path: mailbox, role }: ResolvedMailbox
+): Promise<MailboxSyncResult> {
   try {
     // Try to open the mailbox
     let mailboxInfo;
@@ -104,147 +448,398 @@ async function syncMailbox(
     } catch (error: any) {
       if (error.message?.includes("not exist") || error.message?.includes("doesn't exist")) {
         console.log(`Mailbox "${mailbox}" does not exist, skipping`);
-        return { synced: 0 };
+        return { synced: 0, emailIds: [], bytesFetched: 0, durationMs: 0, missing: true };
       }
       throw error;
     }
 
-    console.log(`Syncing mailbox: ${mailbox} (${mailboxInfo.exists} messages)`);
-
-    // Get last sync time for incremental sync
-    const lastSync = await getLastSyncTime(mailbox);
-    let sinceDate: Date;
+    console.log(`Syncing mailbox: ${account}/${mailbox} (${mailboxInfo.exists} messages)`);
+
+    await claimLegacyRows(account, mailbox);
+
+    // Keep stored rows in step with the folder's current role (config may have changed)
+    await db
+      .update(schema.emails)
+      .set({ mailboxRole: role })
+      .where(
+        and(
+          eq(schema.emails.account, account),
+          eq(schema.emails.mailbox, mailbox),
+          or(isNull(schema.emails.mailboxRole), ne(schema.emails.mailboxRole, role))
+        )
+      );
+
+    const uidValidity = Number(mailboxInfo.uidValidity);
+    const state = await getSyncState(account, mailbox);
+    let uids: number[];
+
+    if (state?.uidValidity != null && state.uidValidity !== uidValidity) {
+      // Server renumbered the folder - stored UIDs now point at different messages
+      console.warn(`UIDVALIDITY changed for ${mailbox} (${state.uidValidity} → ${uidValidity}), rebuilding UID mapping`);
+      uids = await rebuildUidMapping(client, account, mailbox, uidValidity);
+    } else if (state?.lastUid != null && state.uidValidity != null) {
+      // Incremental sync: only UIDs above the last one we stored
+      if (mailboxInfo.uidNext <= state.lastUid + 1) {
+        console.log(`No new messages (last UID ${state.lastUid})`);
+        await updateSyncState(account, mailbox, new Date(), state.lastUid, uidValidity);
+        return { synced: 0, emailIds: [], bytesFetched: 0, durationMs: 0 };
+      }
 
-    if (lastSync) {
-      // Incremental sync: go back SYNC_OVERLAP_DAYS to catch any late arrivals
-      sinceDate = new Date(lastSync);
-      sinceDate.setDate(sinceDate.getDate() - SYNC_OVERLAP_DAYS);
-      console.log(`Incremental sync from ${sinceDate.toDateString()} (last sync: ${lastSync.toDateString()})`);
+      const searchResult = await client.search({ uid: `${state.lastUid + 1}:*` }, { uid: true });
+      // "N:*" always matches the highest UID, even when it is below N
+      uids = (Array.isArray(searchResult) ? searchResult : []).filter((uid) => uid > state.lastUid!);
+      console.log(`Incremental sync from UID ${state.lastUid + 1}: ${uids.length} new messages`);
     } else {
-      // First sync: use initial date
-      sinceDate = INITIAL_SYNC_DATE;
-      console.log(`Initial sync from ${sinceDate.toDateString()}`);
-    }
-
-    // Search for messages since the cutoff date
-    const searchResult = await client.search({ since: sinceDate }, { uid: true });
-    const uids = Array.isArray(searchResult) ? searchResult : [];
-    console.log(`Found ${uids.length} messages since ${sinceDate.toDateString()}`);
+      // First sync (or first run since UID tracking was added): search by date
+      let sinceDate = INITIAL_SYNC_DATE;
+      if (state) {
+        // Go back SYNC_OVERLAP_DAYS to catch any late arrivals
+        sinceDate = new Date(state.lastSyncAt);
+        sinceDate.setDate(sinceDate.getDate() - SYNC_OVERLAP_DAYS);
+
+        // Rows synced before UIDVALIDITY tracking belong to the current numbering
+        await db
+          .update(schema.emails)
+          .set({ uidValidity })
+          .where(
+            and(
+              eq(schema.emails.account, account),
+              eq(schema.emails.mailbox, mailbox),
+              isNull(schema.emails.uidValidity)
+            )
+          );
+      }
+      console.log(`Date-based sync from ${sinceDate.toDateString()}`);
 
-    if (uids.length === 0) {
-      // Still update last sync time even if no messages
-      await updateLastSyncTime(mailbox, new Date());
-      return { synced: 0 };
+      const searchResult = await client.search({ since: sinceDate }, { uid: true });
+      uids = Array.isArray(searchResult) ? searchResult : [];
+      console.log(`Found ${uids.length} messages since ${sinceDate.toDateString()}`);
     }
 
+    // Highest UID we can safely record once this run finishes. Everything below
+    // uidNext was either found above or is older than the sync start date.
+    // (reduce, not Math.max(...uids): a large folder would overflow the call stack)
+    let nextLastUid = uids.reduce((max, uid) => Math.max(max, uid), mailboxInfo.uidNext - 1);
+
     // Check which UIDs already exist in DB (single query)
-    const existingUids = await getExistingUids(mailbox, uids);
-    const uidsToSync = uids.filter((uid) => !existingUids.has(uid));
+    const existingUids = await getExistingUids(account, mailbox, uidValidity, uids);
+    const skippedUids = await getSkippedUids(account, mailbox, uidValidity, uids);
+    const uidsToSync = uids.filter((uid) => !existingUids.has(uid) && !skippedUids.has(uid));
     console.log(`${uidsToSync.length} new emails to sync`);
 
-    if (uidsToSync.length === 0) {
-      await updateLastSyncTime(mailbox, new Date());
-      return { synced: 0 };
-    }
-
+    const startedAt = Date.now();
     let synced = 0;
+    let bytesFetched = 0;
+    const emailIds: number[] = [];
+    let firstFailedUid: number | null = null;
+
+    // Fetch in UID batches, bulk-insert each batch, then checkpoint lastUid so
+    // an interrupted backfill resumes from the last completed batch
+    for (let i = 0; i < uidsToSync.length; i += FETCH_BATCH_SIZE) {
+      const batchUids = uidsToSync.slice(i, i + FETCH_BATCH_SIZE);
+      const rows: NewEmail[] = [];
+      const failures = new Map<number, string>();
 
-    // Fetch each email individually with full source
-    for (const uid of uidsToSync) {
       try {
-        const msg = await client.fetchOne(uid, { source: true, bodyStructure: true }, { uid: true });
+        for await (const msg of client.fetch(batchUids, { uid: true, source: true, bodyStructure: true }, { uid: true })) {
+          if (!msg.source) {
+            console.log(`  UID ${msg.uid}: no source, skipping`);
+            continue;
+          }
+
+          try {
+            bytesFetched += msg.source.length;
+            const parsed = await simpleParser(msg.source);
+            const attachments = extractAttachments(msg.bodyStructure);
+            rows.push(buildEmailRecord(parsed, attachments, { account, uid: msg.uid, uidValidity, mailbox, mailboxRole: role }));
+          } catch (error) {
+            console.error(`  Error parsing UID ${msg.uid}:`, error);
+            failures.set(msg.uid, `Parse failed: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      } catch (error) {
+        // FETCH itself failed (usually the connection) - retry the whole batch
+        // next run without counting it against the messages
+        console.error(`  Error fetching UIDs ${batchUids[0]}-${batchUids[batchUids.length - 1]}:`, error);
+        firstFailedUid = Math.min(firstFailedUid ?? batchUids[0], batchUids[0]);
+        break;
+      }
+
+      const insertedIds = await insertEmailBatch(rows);
+      for (const uid of insertedIds.failedUids) {
+        failures.set(uid, "Insert failed");
+      }
 
-        if (!msg || !(msg as any).source) {
-          console.log(`  UID ${uid}: no source, skipping`);
-          continue;
+      // Failed messages hold back the checkpoint until they are given up on
+      const givenUp = await recordFailedUids(account, mailbox, uidValidity, failures);
+      for (const uid of failures.keys()) {
+        if (!givenUp.has(uid)) {
+          firstFailedUid = Math.min(firstFailedUid ?? uid, uid);
         }
+      }
+      emailIds.push(...insertedIds.ids);
+      synced += insertedIds.ids.length;
+
+      // Checkpoint: never advance past a failed UID so the next run retries it
+      const batchMax = batchUids[batchUids.length - 1];
+      const checkpoint = firstFailedUid !== null ? Math.min(batchMax, firstFailedUid - 1) : batchMax;
+      if (checkpoint > 0) {
+        await updateSyncState(account, mailbox, new Date(), checkpoint, uidValidity);
+      }
+
+      const elapsedSec = (Date.now() - startedAt) / 1000;
+      console.log(
+        `  Synced ${synced}/${uidsToSync.length} emails ` +
+        `(${(synced / Math.max(elapsedSec, 0.001)).toFixed(1)} msg/s)`
+      );
+    }
 
-        // Parse with mailparser
-        const parsed = await simpleParser((msg as any).source);
-
-        // Extract attachments from bodyStructure
-        const attachments = extractAttachments((msg as any).bodyStructure);
-
-        // Get body text (prefer plain text, fall back to html-to-text conversion would happen in parsed.text)
-        const bodyText = parsed.text || "";
-
-        // Get the received date (when email arrived at our server, not when it was sent)
-        const emailDate = getReceivedDate(parsed);
-
-        // Prepare email record
-        const newEmail: NewEmail = {
-          uid,
-          messageId: parsed.messageId || null,
-          fromAddress: parsed.from?.value?.[0]?.address || null,
-          fromName: parsed.from?.value?.[0]?.name || null,
-          toAddresses: JSON.stringify(
-            (Array.isArray(parsed.to) ? parsed.to : parsed.to?.value)?.map((a: any) => a.address).filter(Boolean) || []
-          ),
-          subject: parsed.subject || null,
-          bodyText: bodyText.slice(0, 50000),
-          date: emailDate,
-          inReplyTo: parsed.inReplyTo || null,
-          references: Array.isArray(parsed.references)
-            ? parsed.references.join(" ")
-            : parsed.references || null,
-          mailbox,
-          hasAttachments: attachments.length > 0,
-          attachments: attachments.length > 0 ? JSON.stringify(attachments) : null,
-          syncedAt: new Date(),
-        };
-
-        await db.insert(schema.emails).values(newEmail);
-        synced++;
-
-        if (synced % 10 === 0) {
-          console.log(`  Synced ${synced} emails...`);
+    // Don't advance past a failed UID so the next run retries it
+    if (firstFailedUid !== null) {
+      nextLastUid = Math.min(nextLastUid, firstFailedUid - 1);
+    }
+
+    await updateSyncState(account, mailbox, new Date(), nextLastUid > 0 ? nextLastUid : null, uidValidity);
+
+    return { synced, emailIds, bytesFetched, durationMs: Date.now() - startedAt };
+  } catch (error: any) {
+    console.error(`Error syncing mailbox ${account}/${mailbox}:`, error);
+    return { synced: 0, emailIds: [], bytesFetched: 0, durationMs: 0, error: error.message };
+  }
+}
+
+export interface ReconcileResult {
+  deleted: number;
+  moved: number;
+  restored: number;
+  error?: string;
+}
+
+/**
+ * Find stored messages that are no longer in their folder on the server and mark
+ * them deleted or moved. Messages flagged \Deleted but not yet expunged count as
+ * deleted. The destination is looked up by Message-ID, first among rows synced
+ * from other folders, then with IMAP SEARCH in the remaining folders; a message
+ * that ended up in an "ignored" folder (Trash, Junk) is treated as deleted.
+ *
+ * Selects other mailboxes while searching, so it must not share a connection
+ * with an IDLE watcher.
+ */
+export async function reconcileMailbox(
+  client: ImapFlow,
+  { account, path: mailbox }: ResolvedMailbox,
+  knownMailboxes: ResolvedMailbox[] = []
+): Promise<ReconcileResult> {
+  const result: ReconcileResult = { deleted: 0, moved: 0, restored: 0 };
+
+  try {
+    const mailboxInfo = await client.mailboxOpen(mailbox, { readOnly: true });
+    const uidValidity = Number(mailboxInfo.uidValidity);
+    const searchResult = await client.search({ deleted: false }, { uid: true });
+    const serverUids = new Set(Array.isArray(searchResult) ? searchResult : []);
+
+    // An empty result for a non-empty folder is more likely a server hiccup than a purge
+    if (serverUids.size === 0 && mailboxInfo.exists > 0) {
+      console.warn(`Reconcile ${account}/${mailbox}: server returned no UIDs, skipping`);
+      return result;
+    }
+
+    const stored = await db
+      .select({
+        id: schema.emails.id,
+        uid: schema.emails.uid,
+        uidValidity: schema.emails.uidValidity,
+        messageId: schema.emails.messageId,
+        serverState: schema.emails.serverState,
+      })
+      .from(schema.emails)
+      .where(and(eq(schema.emails.account, account), eq(schema.emails.mailbox, mailbox)));
+
+    // Legacy rows without UIDVALIDITY can't be compared against the server
+    const isOnServer = (row: (typeof stored)[number]) =>
+      row.uidValidity === uidValidity && serverUids.has(row.uid);
+    const vanished = stored.filter((row) => row.uidValidity !== null && row.serverState === "present" && !isOnServer(row));
+    const reappeared = stored.filter((row) => row.serverState !== "present" && isOnServer(row));
+
+    // Undeleted (\Deleted flag cleared) or moved back
+    if (reappeared.length > 0) {
+      await db
+        .update(schema.emails)
+        .set({ serverState: "present", movedTo: null, removedAt: null })
+        .where(inArray(schema.emails.id, reappeared.map((row) => row.id)));
+      result.restored = reappeared.length;
+    }
+
+    if (vanished.length === 0) return result;
+    console.log(`Reconcile ${account}/${mailbox}: ${vanished.length} message(s) no longer on the server`);
+
+    // Destination by Message-ID: rows already synced from another folder of this account
+    const destinations = new Map<string, string>();
+    const messageIds = [...new Set(vanished.map((row) => row.messageId).filter((id): id is string => !!id))];
+    if (messageIds.length > 0) {
+      const elsewhere = await db
+        .select({ messageId: schema.emails.messageId, mailbox: schema.emails.mailbox })
+        .from(schema.emails)
+        .where(
+          and(
+            eq(schema.emails.account, account),
+            ne(schema.emails.mailbox, mailbox),
+            eq(schema.emails.serverState, "present"),
+            inArray(schema.emails.messageId, messageIds)
+          )
+        );
+      for (const row of elsewhere) {
+        if (row.messageId) destinations.set(row.messageId, row.mailbox);
+      }
+    }
+
+    // Then search folders we don't sync (Trash, Junk, project folders...)
+    const lookups = messageIds.filter((id) => !destinations.has(id)).slice(0, MAX_MOVE_LOOKUPS);
+    if (lookups.length > 0) {
+      const folders = (await client.list()).filter(
+        (entry) => entry.path !== mailbox && !entry.flags.has("\\Noselect") && !entry.flags.has("\\NonExistent")
+      );
+      for (const folder of folders) {
+        const pending = lookups.filter((id) => !destinations.has(id));
+        if (pending.length === 0) break;
+        try {
+          await client.mailboxOpen(folder.path, { readOnly: true });
+          for (const messageId of pending) {
+            const found = await client.search({ header: { "message-id": messageId } }, { uid: true });
+            if (Array.isArray(found) && found.length > 0) destinations.set(messageId, folder.path);
+          }
+        } catch (error: any) {
+          console.warn(`Reconcile: could not search ${account}/${folder.path}: ${error.message}`);
         }
-      } catch (error) {
-        console.error(`  Error syncing UID ${uid}:`, error);
       }
     }
 
-    // Update last sync time after successful sync
-    await updateLastSyncTime(mailbox, new Date());
+    const ignoredPaths = new Set(knownMailboxes.filter((m) => m.role === "ignored").map((m) => m.path));
+    const now = new Date();
+    const updates = new Map<string, { state: EmailServerState; movedTo: string | null; ids: number[] }>();
+    for (const row of vanished) {
+      const movedTo = (row.messageId && destinations.get(row.messageId)) || null;
+      const state: EmailServerState = movedTo && !ignoredPaths.has(movedTo) ? "moved" : "deleted";
+      const key = `${state}:${movedTo ?? ""}`;
+      const group = updates.get(key) ?? { state, movedTo, ids: [] };
+      group.ids.push(row.id);
+      updates.set(key, group);
+      if (state === "moved") result.moved++;
+      else result.deleted++;
+    }
+
+    for (const { state, movedTo, ids } of updates.values()) {
+      await db
+        .update(schema.emails)
+        .set({ serverState: state, movedTo, removedAt: now })
+        .where(inArray(schema.emails.id, ids));
+    }
 
-    return { synced };
+    console.log(`Reconcile ${account}/${mailbox}: ${result.deleted} deleted, ${result.moved} moved`);
+    return result;
   } catch (error: any) {
-    console.error(`Error syncing mailbox ${mailbox}:`, error);
-    return { synced: 0, error: error.message };
+    console.error(`Error reconciling mailbox ${account}/${mailbox}:`, error);
+    return { ...result, error: error.message };
   }
 }
 
-export async function syncEmails(): Promise<SyncStats> {
+export interface SyncOptions {
+  trigger?: SyncRunTrigger; // Recorded in sync_runs (default "cli")
+}
+
+export async function syncEmails(options: SyncOptions = {}): Promise<SyncStats> {
+  const startedAt = new Date();
+  const runId = await startSyncRun(options.trigger ?? "cli");
+
   const stats: SyncStats = {
     emailsSynced: 0,
     mailboxesProcessed: [],
     errors: [],
+    bytesFetched: 0,
+    fetchDurationMs: 0,
+    emailsPerSecond: 0,
+    emailsDeleted: 0,
+    emailsMoved: 0,
+    mailboxResults: [],
   };
 
-  const client = createImapClient();
+  try {
+    await syncAllAccounts(stats);
+  } catch (error) {
+    await finishSyncRun(runId, startedAt, stats, "failed");
+    throw error;
+  }
 
+  // Give new emails their stable thread before anything groups them
   try {
-    await client.connect();
-    console.log("Connected to IMAP server");
+    const threaded = await assignPendingThreads();
+    if (threaded > 0) console.log(`Assigned threads to ${threaded} emails`);
+  } catch (error: any) {
+    console.error("Error assigning threads:", error);
+    stats.errors.push(`threads: ${error.message}`);
+  }
 
-    for (const mailbox of MAILBOXES) {
-      const result = await syncMailbox(client, mailbox);
-      stats.emailsSynced += result.synced;
-      stats.mailboxesProcessed.push(mailbox);
+  if (stats.fetchDurationMs > 0) {
+    stats.emailsPerSecond = Math.round((stats.emailsSynced / (stats.fetchDurationMs / 1000)) * 10) / 10;
+  }
 
-      if (result.error) {
-        stats.errors.push(`${mailbox}: ${result.error}`);
-      }
+  await finishSyncRun(runId, startedAt, stats);
+  return stats;
+}
+
+async function syncAllAccounts(stats: SyncStats): Promise<void> {
+  for (const account of getMailAccounts()) {
+    const client = createImapClient(account.id);
 
-      console.log(`Mailbox ${mailbox}: synced ${result.synced} emails`);
-    }
-  } finally {
     try {
-      await client.logout();
-    } catch {
-      // Ignore logout errors
+      await client.connect();
+      console.log(`Connected to IMAP server (account: ${account.id})`);
+
+      const { mailboxes, missing } = await resolveMailboxes(client, account);
+      for (const path of missing) {
+        console.warn(`Configured mailbox "${account.id}/${path}" does not exist on the server`);
+        stats.errors.push(`${account.id}/${path}: mailbox not found`);
+        stats.mailboxResults.push({ mailbox: `${account.id}/${path}`, synced: 0, error: "mailbox not found" });
+      }
+
+      for (const resolved of syncableMailboxes(mailboxes)) {
+        const label = `${account.id}/${resolved.path}`;
+        console.log(`Mailbox ${label}: role ${resolved.role} (${resolved.source})`);
+        const result = await syncMailbox(client, resolved);
+        stats.emailsSynced += result.synced;
+        stats.bytesFetched += result.bytesFetched;
+        stats.fetchDurationMs += result.durationMs;
+        stats.mailboxesProcessed.push(label);
+        stats.mailboxResults.push({ mailbox: label, synced: result.synced, error: result.error });
+
+        if (result.error) {
+          stats.errors.push(`${label}: ${result.error}`);
+        }
+
+        console.log(`Mailbox ${label}: synced ${result.synced} emails`);
+      }
+
+      // After every folder is synced, so messages moved between synced folders
+      // are found in the DB instead of by searching the server
+      for (const resolved of syncableMailboxes(mailboxes)) {
+        const reconciled = await reconcileMailbox(client, resolved, mailboxes);
+        stats.emailsDeleted += reconciled.deleted;
+        stats.emailsMoved += reconciled.moved;
+        if (reconciled.error) {
+          stats.errors.push(`${account.id}/${resolved.path}: reconcile failed: ${reconciled.error}`);
+        }
+      }
+    } catch (error: any) {
+      // One account failing (bad credentials, host down) shouldn't block the others
+      console.error(`Error syncing account ${account.id}:`, error);
+      stats.errors.push(`${account.id}: ${error.message}`);
+      stats.mailboxResults.push({ mailbox: account.id, synced: 0, error: error.message });
+    } finally {
+      try {
+        await client.logout();
+      } catch {
+        // Ignore logout errors
+      }
     }
   }
-
-  return stats;
 }
@@ -0,0 +1,624 @@
+/**
+ * Persistent thread identity.
+ *
+ * Every stored email gets an email_threads row when it is synced or imported,
+ * oldest first. An email joins, in order:
+ * 1. the thread of any stored email it is linked to by Message-ID headers, in
+ *    either direction (a parent that arrives after its reply still joins)
+ * 2. the thread created under the same key (generateThreadId)
+ * 3. the oldest thread with an email from the same Outlook conversation (Thread-Index GUID)
+ * 4. the oldest thread with the same specific normalized subject
+ * and only creates a new thread, keyed like generateThreadId(), when nothing matches.
+ *
+ * A thread's key never changes. When an email links two existing threads, the
+ * newer one is merged into the older: its emails move over, its todos, alerts and
+ * dismissals are re-pointed, and its row keeps redirecting the old key. Threads
+ * split apart by hand (split_from) are never merged back automatically.
+ * Merges and splits run in one transaction holding the affected thread rows
+ * (SELECT ... FOR UPDATE); assigning an email locks its thread row too, so an
+ * email can't land on a thread that is being merged away.
+ *
+ * The rule that placed each email is kept in email_messages.thread_match
+ * (see explainThread() in threader.ts).
+ */
+
+import { db, schema } from "@/db";
+import { and, arrayContains, asc, eq, inArray, isNotNull, isNull, ne, or, sql } from "drizzle-orm";
+import type { Email, Thread, ThreadLink, ThreadOverride } from "@/db/schema";
+import {
+  generateThreadId,
+  isSpecificSubject,
+  normalizeSubject,
+  threadTopicsAgree,
+  type ThreadMatch,
+} from "./threader";
+
+// Unthreaded emails loaded per query
+const ASSIGN_BATCH_SIZE = 500;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function headerMessageIds(email: Email): string[] {
+  const ids = new Set<string>();
+  if (email.messageId) ids.add(email.messageId);
+  if (email.inReplyTo) ids.add(email.inReplyTo);
+  for (const ref of email.references?.split(/\s+/).filter(Boolean) ?? []) {
+    ids.add(ref);
+  }
+  return [...ids];
+}
+
+// Stored emails linked to this one through Message-ID headers, oldest thread first
+async function findLinkedEmails(email: Email): Promise<{ threadId: number; messageId: string | null }[]> {
+  const conditions: ReturnType<typeof or>[] = [];
+  const ids = headerMessageIds(email);
+  if (ids.length > 0) {
+    conditions.push(inArray(schema.emails.messageId, ids));
+  }
+  if (email.messageId) {
+    // Replies stored before this message (out-of-order sync, or import of an older archive)
+    conditions.push(eq(schema.emails.inReplyTo, email.messageId));
+    conditions.push(arrayContains(schema.emails.referenceIds, [email.messageId]));
+  }
+  if (conditions.length === 0) return [];
+
+  const rows = await db
+    .selectDistinct({ threadId: schema.emails.threadId, messageId: schema.emails.messageId })
+    .from(schema.emails)
+    .where(and(ne(schema.emails.id, email.id), or(...conditions)));
+
+  return rows
+    .filter((row): row is { threadId: number; messageId: string | null } => row.threadId != null)
+    .sort((a, b) => a.threadId - b.threadId);
+}
+
+// Threads that may be merged into threadId: not split apart from it by hand
+async function withoutSplitPartners(threadId: number, otherIds: number[]): Promise<number[]> {
+  const rows = await db
+    .select({ id: schema.threads.id, splitFrom: schema.threads.splitFrom })
+    .from(schema.threads)
+    .where(inArray(schema.threads.id, [threadId, ...otherIds]));
+  const splitFrom = new Map(rows.map((row) => [row.id, row.splitFrom]));
+
+  return otherIds.filter((id) => splitFrom.get(id) !== threadId && splitFrom.get(threadId) !== id);
+}
+
+// How the linked email relates to this one
+function linkMatch(email: Email, linked: { messageId: string | null }): ThreadMatch {
+  const via = linked.messageId;
+  if (via && via === email.inReplyTo) return { rule: "in_reply_to", via };
+  if (via && via === email.messageId) return { rule: "same_message", via };
+  if (via && email.references?.split(/\s+/).includes(via)) return { rule: "references", via };
+  return { rule: "reply_found", via };
+}
+
+// Oldest thread holding an email from the same Outlook conversation (Thread-Index GUID)
+async function findThreadByIndex(email: Email): Promise<number | null> {
+  if (!email.threadIndexGuid) return null;
+
+  const rows = await db
+    .select({ threadId: schema.emails.threadId, threadTopic: schema.emails.threadTopic })
+    .from(schema.emails)
+    .where(
+      and(
+        eq(schema.emails.threadIndexGuid, email.threadIndexGuid),
+        isNotNull(schema.emails.threadId),
+        ne(schema.emails.id, email.id)
+      )
+    )
+    .orderBy(asc(schema.emails.threadId));
+
+  const topic = email.threadTopic ? normalizeSubject(email.threadTopic) : null;
+  const match = rows.find((row) => threadTopicsAgree(topic, row.threadTopic ? normalizeSubject(row.threadTopic) : null));
+  return match?.threadId ?? null;
+}
+
+async function findOrCreateThread(email: Email): Promise<{ threadId: number; match: ThreadMatch }> {
+  const threadKey = generateThreadId(email.messageId, email.inReplyTo, email.references, email.subject);
+
+  const findByKey = async () => {
+    const [existing] = await db
+      .select({ id: schema.threads.id, mergedInto: schema.threads.mergedInto })
+      .from(schema.threads)
+      .where(eq(schema.threads.threadKey, threadKey))
+      .limit(1);
+    return existing ? existing.mergedInto ?? existing.id : null;
+  };
+
+  const byKey = await findByKey();
+  if (byKey != null) return { threadId: byKey, match: { rule: "thread_key", via: threadKey } };
+
+  // Outlook/Exchange replies often carry no References, only Thread-Index
+  const byIndex = await findThreadByIndex(email);
+  if (byIndex != null) return { threadId: byIndex, match: { rule: "thread_index", via: email.threadIndexGuid } };
+
+  // Replies with broken headers (e.g. "RE: PO 1049 from MAS" sent from a phone)
+  const normalizedSubject = normalizeSubject(email.subject);
+  if (normalizedSubject && isSpecificSubject(normalizedSubject)) {
+    const [bySubject] = await db
+      .select({ id: schema.threads.id })
+      .from(schema.threads)
+      .where(and(eq(schema.threads.normalizedSubject, normalizedSubject), isNull(schema.threads.mergedInto)))
+      .orderBy(asc(schema.threads.id))
+      .limit(1);
+    if (bySubject) return { threadId: bySubject.id, match: { rule: "subject", via: normalizedSubject } };
+  }
+
+  const now = new Date();
+  const [created] = await db
+    .insert(schema.threads)
+    .values({
+      threadKey,
+      subject: email.subject,
+      normalizedSubject: normalizedSubject || null,
+      firstEmailDate: email.date,
+      lastEmailDate: email.date,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoNothing()
+    .returning({ id: schema.threads.id });
+  if (created) return { threadId: created.id, match: { rule: "new_thread", via: null } };
+
+  // Created concurrently (e.g. an import running next to the sync)
+  const raced = await findByKey();
+  if (raced == null) throw new Error(`Thread ${threadKey} could not be created`);
+  return { threadId: raced, match: { rule: "thread_key", via: threadKey } };
+}
+
+async function assignThread(email: Email): Promise<number> {
+  const linked = await findLinkedEmails(email);
+
+  let threadId: number;
+  let match: ThreadMatch;
+  if (linked.length > 0) {
+    // The thread of the message this one replies to, plus any other linked thread -
+    // this email is the missing link between threads that were apart until now
+    const parent = linked.find((row) => email.inReplyTo && row.messageId === email.inReplyTo) ?? linked[0];
+    const parentId = parent.threadId;
+    match = linkMatch(email, parent);
+    const others = [...new Set(linked.map((row) => row.threadId))].filter((id) => id !== parentId);
+    const mergeable = others.length > 0 ? await withoutSplitPartners(parentId, others) : [];
+
+    // The oldest thread survives so existing keys stay put
+    threadId = Math.min(parentId, ...mergeable);
+    if (mergeable.length > 0) {
+      await mergeThreads(threadId, [parentId, ...mergeable], { createdBy: "threader" });
+    }
+  } else {
+    ({ threadId, match } = await findOrCreateThread(email));
+  }
+
+  return db.transaction(async (tx) => {
+    // A merge that finished meanwhile moved the thread's emails; follow it
+    const [thread] = await tx
+      .select({ mergedInto: schema.threads.mergedInto })
+      .from(schema.threads)
+      .where(eq(schema.threads.id, threadId))
+      .for("share");
+    const finalId = thread?.mergedInto ?? threadId;
+
+    await tx
+      .update(schema.emails)
+      .set({ threadId: finalId, threadMatch: match })
+      .where(eq(schema.emails.id, email.id));
+
+    return finalId;
+  });
+}
+
+// Recompute first/last date and email count from the assigned emails
+async function refreshThreadStats(threadIds: number[], tx: Transaction | typeof db = db): Promise<void> {
+  if (threadIds.length === 0) return;
+
+  await tx.execute(sql`
+    UPDATE ${schema.threads} AS t
+    SET first_email_date = s.first_email_date,
+        last_email_date = s.last_email_date,
+        email_count = s.email_count,
+        updated_at = NOW()
+    FROM (
+      SELECT thread_id, MIN(date) AS first_email_date, MAX(date) AS last_email_date, COUNT(*)::int AS email_count
+      FROM ${schema.emails}
+      WHERE ${inArray(schema.emails.threadId, threadIds)}
+      GROUP BY thread_id
+    ) AS s
+    WHERE t.id = s.thread_id
+  `);
+}
+
+// Fill thread_id on rows that were keyed by thread_key only (written before threads were stored)
+async function linkThreadRows(): Promise<void> {
+  for (const table of ["dash_todos", "qb_sync_alerts", "email_dismissed_threads"]) {
+    await db.execute(sql`
+      UPDATE ${sql.identifier(table)} AS r
+      SET thread_id = COALESCE(t.merged_into, t.id)
+      FROM ${schema.threads} AS t
+      WHERE r.thread_id IS NULL AND r.thread_key = t.thread_key
+    `);
+  }
+}
+
+/**
+ * Thread every stored email that has no thread yet, oldest first.
+ * Called after each sync and import; the first run after the migration threads
+ * the whole history. Returns the number of emails assigned.
+ */
+export async function assignPendingThreads(): Promise<number> {
+  let assigned = 0;
+
+  while (true) {
+    const pending = await db
+      .select()
+      .from(schema.emails)
+      .where(isNull(schema.emails.threadId))
+      .orderBy(asc(schema.emails.date), asc(schema.emails.id))
+      .limit(ASSIGN_BATCH_SIZE);
+    if (pending.length === 0) break;
+
+    const touched = new Set<number>();
+    for (const email of pending) {
+      touched.add(await assignThread(email));
+    }
+    await refreshThreadStats([...touched]);
+
+    assigned += pending.length;
+    if (assigned >= ASSIGN_BATCH_SIZE) {
+      console.log(`  Threaded ${assigned} emails`);
+    }
+  }
+
+  if (assigned > 0) {
+    await linkThreadRows();
+  }
+
+  return assigned;
+}
+
+export interface RepointedRow {
+  id: number;
+  fromThreadKey: string;
+  change: "moved" | "resolved" | "reopened" | "linked" | "removed"; // linked = only thread_id set
+}
+
+export interface RepointedRows {
+  todos: RepointedRow[];
+  alerts: RepointedRow[];
+  dismissals: RepointedRow[];
+  links?: RepointedRow[]; // Absent on overrides recorded before thread_links were re-pointed
+}
+
+export interface ThreadOverrideOptions {
+  createdBy?: string; // 'dashboard' (default) | 'threader'
+  reason?: string | null;
+}
+
+/**
+ * Merge source threads into target: move their emails and re-point the dash_todos,
+ * qb_sync_alerts, email_dismissed_threads and thread_links rows keyed by them. Source rows stay
+ * behind with merged_into set, so their keys keep resolving to the target.
+ * Recorded in email_thread_overrides.
+ */
+export async function mergeThreads(
+  targetId: number,
+  sourceIds: number[],
+  options: ThreadOverrideOptions = {}
+): Promise<ThreadOverride | null> {
+  const sources = [...new Set(sourceIds)].filter((id) => id !== targetId);
+  if (sources.length === 0) return null;
+
+  return db.transaction(async (tx) => {
+    // Lock target, sources and threads merged into the sources, in id order
+    const locked = await tx
+      .select()
+      .from(schema.threads)
+      .where(or(inArray(schema.threads.id, [targetId, ...sources]), inArray(schema.threads.mergedInto, sources)))
+      .orderBy(asc(schema.threads.id))
+      .for("update");
+    const target = locked.find((row) => row.id === targetId);
+    if (!target) throw new Error(`Thread ${targetId} not found`);
+    if (target.mergedInto != null) throw new Error(`Thread ${target.threadKey} was merged into thread ${target.mergedInto}`);
+    const sourceRows = locked.filter((row) => sources.includes(row.id));
+
+    // Keys that resolve to a source thread: its own, plus threads merged into it earlier
+    const earlier = locked.filter((row) => row.mergedInto != null && sources.includes(row.mergedInto));
+    const sourceKeys = [...sourceRows.map((row) => row.threadKey), ...earlier.map((row) => row.threadKey)];
+
+    const now = new Date();
+
+    await tx
+      .update(schema.emails)
+      .set({ threadId: targetId })
+      .where(inArray(schema.emails.threadId, sources));
+
+    await tx
+      .update(schema.threads)
+      .set({ mergedInto: targetId, updatedAt: now })
+      .where(or(inArray(schema.threads.id, sources), inArray(schema.threads.mergedInto, sources)));
+
+    const repointed: RepointedRows = {
+      todos: await repointTodos(tx, target, sourceKeys, now),
+      alerts: await repointAlerts(tx, target, sourceKeys, now),
+      dismissals: await repointDismissals(tx, target, sourceKeys),
+      links: await repointThreadLinks(tx, target, sourceKeys),
+    };
+    await refreshThreadStats([targetId], tx);
+
+    const [override] = await tx
+      .insert(schema.threadOverrides)
+      .values({
+        action: "merge",
+        threadId: targetId,
+        threadKey: target.threadKey,
+        otherThreadIds: sourceRows.map((row) => row.id),
+        otherThreadKeys: sourceRows.map((row) => row.threadKey),
+        repointed,
+        reason: options.reason ?? null,
+        createdBy: options.createdBy ?? "dashboard",
+        createdAt: now,
+      })
+      .returning();
+
+    console.log(`  Merged ${sources.length} thread(s) into "${target.subject?.slice(0, 40) ?? target.threadKey}"`);
+    return override;
+  });
+}
+
+/**
+ * Move emails (and their copies from other accounts) out of a thread into a new
+ * one. The new thread records split_from, so the assigner never merges the two
+ * back together; todos and alerts stay with the original thread.
+ * Recorded in email_thread_overrides.
+ */
+export async function splitThread(
+  threadId: number,
+  emailIds: number[],
+  options: ThreadOverrideOptions = {}
+): Promise<{ override: ThreadOverride; thread: Thread }> {
+  return db.transaction(async (tx) => {
+    const [source] = await tx
+      .select()
+      .from(schema.threads)
+      .where(eq(schema.threads.id, threadId))
+      .for("update");
+    if (!source) throw new Error(`Thread ${threadId} not found`);
+    if (source.mergedInto != null) throw new Error(`Thread ${source.threadKey} was merged into thread ${source.mergedInto}`);
+
+    const threadEmails = await tx.select().from(schema.emails).where(eq(schema.emails.threadId, threadId));
+    const selected = threadEmails.filter((email) => emailIds.includes(email.id));
+    if (selected.length === 0) throw new Error(`None of the emails belong to thread ${source.threadKey}`);
+
+    const messageIds = [...new Set(selected.map((email) => email.messageId).filter((id): id is string => !!id))];
+    const moving = threadEmails
+      .filter((email) => emailIds.includes(email.id) || (email.messageId && messageIds.includes(email.messageId)))
+      .sort((a, b) => (a.date?.getTime() || 0) - (b.date?.getTime() || 0));
+    if (moving.length === threadEmails.length) throw new Error("Cannot split every email out of a thread");
+
+    const first = moving[0];
+    const now = new Date();
+    const [thread] = await tx
+      .insert(schema.threads)
+      .values({
+        threadKey: await unusedThreadKey(tx, first),
+        subject: first.subject,
+        normalizedSubject: normalizeSubject(first.subject) || null,
+        splitFrom: threadId,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    const movingIds = moving.map((email) => email.id);
+    await tx
+      .update(schema.emails)
+      .set({ threadId: thread.id, threadMatch: { rule: "split", via: source.threadKey } satisfies ThreadMatch })
+      .where(inArray(schema.emails.id, movingIds));
+    await refreshThreadStats([threadId, thread.id], tx);
+
+    const [override] = await tx
+      .insert(schema.threadOverrides)
+      .values({
+        action: "split",
+        threadId,
+        threadKey: source.threadKey,
+        otherThreadIds: [thread.id],
+        otherThreadKeys: [thread.threadKey],
+        emailIds: movingIds,
+        messageIds,
+        repointed: { todos: [], alerts: [], dismissals: [], links: [] } satisfies RepointedRows,
+        reason: options.reason ?? null,
+        createdBy: options.createdBy ?? "dashboard",
+        createdAt: now,
+      })
+      .returning();
+
+    console.log(`  Split ${moving.length} email(s) out of "${source.subject?.slice(0, 40) ?? source.threadKey}"`);
+    return { override, thread };
+  });
+}
+
+// Key for a thread split off from another: its first email's Message-ID when free
+async function unusedThreadKey(tx: Transaction, email: Email): Promise<string> {
+  const base = email.messageId ?? generateThreadId(email.messageId, email.inReplyTo, email.references, email.subject);
+  const taken = await tx
+    .select({ threadKey: schema.threads.threadKey })
+    .from(schema.threads)
+    .where(or(eq(schema.threads.threadKey, base), sql`${schema.threads.threadKey} LIKE ${base + "#split-%"}`));
+
+  if (!taken.some((row) => row.threadKey === base)) return base;
+  return `${base}#split-${taken.length}`;
+}
+
+// One todo per thread: the target's own, else an open one from a source thread.
+// The others are kept for history with resolved_by = 'thread_merged'.
+async function repointTodos(tx: Transaction, target: Thread, sourceKeys: string[], now: Date): Promise<RepointedRow[]> {
+  const todos = await tx
+    .select()
+    .from(schema.dashTodos)
+    .where(inArray(schema.dashTodos.threadKey, [target.threadKey, ...sourceKeys]));
+  if (todos.length === 0) return [];
+
+  const keeper =
+    todos.find((t) => t.threadKey === target.threadKey) ??
+    todos.find((t) => t.status === "open") ??
+    todos[0];
+  const openOther = todos.find((t) => t.id !== keeper.id && t.status === "open");
+  // Reopen a resolved todo when the thread it absorbed still needs action (dismissed stays dismissed)
+  const reopen = keeper.status === "resolved" && !!openOther;
+  const repointed: RepointedRow[] = [];
+
+  await tx
+    .update(schema.dashTodos)
+    .set({
+      threadKey: target.threadKey,
+      threadId: target.id,
+      ...(reopen
+        ? {
+            status: "open" as const,
+            resolvedAt: null,
+            resolvedBy: null,
+            todoType: openOther.todoType,
+            description: openOther.description,
+          }
+        : {}),
+      updatedAt: now,
+    })
+    .where(eq(schema.dashTodos.id, keeper.id));
+  if (reopen) {
+    repointed.push({ id: keeper.id, fromThreadKey: keeper.threadKey, change: "reopened" });
+  } else if (keeper.threadKey !== target.threadKey) {
+    repointed.push({ id: keeper.id, fromThreadKey: keeper.threadKey, change: "moved" });
+  }
+
+  for (const todo of todos) {
+    if (todo.id === keeper.id) continue;
+    const resolve = todo.status === "open";
+    await tx
+      .update(schema.dashTodos)
+      .set({
+        threadId: target.id,
+        ...(resolve ? { status: "resolved" as const, resolvedAt: now, resolvedBy: "thread_merged" } : {}),
+        updatedAt: now,
+      })
+      .where(eq(schema.dashTodos.id, todo.id));
+    repointed.push({ id: todo.id, fromThreadKey: todo.threadKey, change: resolve ? "resolved" : "linked" });
+  }
+
+  return repointed;
+}
+
+// At most one open alert per thread (qb_sync_alerts_open_thread_unique)
+async function repointAlerts(tx: Transaction, target: Thread, sourceKeys: string[], now: Date): Promise<RepointedRow[]> {
+  const alerts = await tx
+    .select()
+    .from(schema.qbSyncAlerts)
+    .where(inArray(schema.qbSyncAlerts.threadKey, sourceKeys));
+  if (alerts.length === 0) return [];
+
+  const isOpenThreadAlert = (alert: { status: string; alertType: string }) =>
+    alert.status === "open" && alert.alertType !== "so_should_be_closed";
+  const [targetOpen] = await tx
+    .select({ id: schema.qbSyncAlerts.id })
+    .from(schema.qbSyncAlerts)
+    .where(
+      and(
+        eq(schema.qbSyncAlerts.threadKey, target.threadKey),
+        eq(schema.qbSyncAlerts.status, "open"),
+        ne(schema.qbSyncAlerts.alertType, "so_should_be_closed")
+      )
+    )
+    .limit(1);
+  const openKeeper = targetOpen ?? alerts.find(isOpenThreadAlert);
+
+  const repointed: RepointedRow[] = [];
+  for (const alert of alerts) {
+    const resolve = isOpenThreadAlert(alert) && alert.id !== openKeeper?.id;
+    await tx
+      .update(schema.qbSyncAlerts)
+      .set({
+        threadKey: target.threadKey,
+        threadId: target.id,
+        ...(resolve ? { status: "resolved" as const, resolvedAt: now, resolvedBy: "thread_merged" } : {}),
+        version: sql`${schema.qbSyncAlerts.version} + 1`,
+      })
+      .where(eq(schema.qbSyncAlerts.id, alert.id));
+    repointed.push({ id: alert.id, fromThreadKey: alert.threadKey, change: resolve ? "resolved" : "moved" });
+  }
+
+  return repointed;
+}
+
+async function repointDismissals(tx: Transaction, target: Thread, sourceKeys: string[]): Promise<RepointedRow[]> {
+  const dismissals = await tx
+    .select()
+    .from(schema.dismissedThreads)
+    .where(inArray(schema.dismissedThreads.threadKey, [target.threadKey, ...sourceKeys]));
+  if (dismissals.length === 0) return [];
+
+  // thread_key is unique: move one dismissal onto the target key, tag the rest
+  const keeper = dismissals.find((d) => d.threadKey === target.threadKey) ?? dismissals[0];
+  const repointed: RepointedRow[] = [];
+  for (const dismissal of dismissals) {
+    const move = dismissal.id === keeper.id && dismissal.threadKey !== target.threadKey;
+    await tx
+      .update(schema.dismissedThreads)
+      .set({
+        threadId: target.id,
+        ...(move ? { threadKey: target.threadKey } : {}),
+      })
+      .where(eq(schema.dismissedThreads.id, dismissal.id));
+    if (dismissal.threadKey !== target.threadKey) {
+      repointed.push({ id: dismissal.id, fromThreadKey: dismissal.threadKey, change: move ? "moved" : "linked" });
+    }
+  }
+
+  return repointed;
+}
+
+async function repointThreadLinks(tx: Transaction, target: Thread, sourceKeys: string[]): Promise<RepointedRow[]> {
+  const keys = [target.threadKey, ...sourceKeys];
+  const links = await tx
+    .select()
+    .from(schema.threadLinks)
+    .where(or(inArray(schema.threadLinks.fromThreadKey, keys), inArray(schema.threadLinks.toThreadKey, keys)))
+    .orderBy(asc(schema.threadLinks.id));
+
+  // (from, to, link_type) is unique: a re-pointed edge the target already has,
+  // or one between two of the merged threads, is dropped
+  const edgeOf = (from: string, to: string, linkType: string) => `${from}\n${to}\n${linkType}`;
+  const touchesSource = (link: ThreadLink) =>
+    sourceKeys.includes(link.fromThreadKey) || sourceKeys.includes(link.toThreadKey);
+  const edges = new Set(
+    links.filter((link) => !touchesSource(link)).map((link) => edgeOf(link.fromThreadKey, link.toThreadKey, link.linkType))
+  );
+
+  const repointed: RepointedRow[] = [];
+  for (const link of links.filter(touchesSource)) {
+    const fromSource = sourceKeys.includes(link.fromThreadKey);
+    const toSource = sourceKeys.includes(link.toThreadKey);
+    const fromThreadKey = fromSource ? target.threadKey : link.fromThreadKey;
+    const toThreadKey = toSource ? target.threadKey : link.toThreadKey;
+    const edge = edgeOf(fromThreadKey, toThreadKey, link.linkType);
+    const sourceKey = fromSource ? link.fromThreadKey : link.toThreadKey;
+
+    if (fromThreadKey === toThreadKey || edges.has(edge)) {
+      await tx.delete(schema.threadLinks).where(eq(schema.threadLinks.id, link.id));
+      repointed.push({ id: link.id, fromThreadKey: sourceKey, change: "removed" });
+      continue;
+    }
+
+    await tx
+      .update(schema.threadLinks)
+      .set({
+        fromThreadKey,
+        toThreadKey,
+        ...(fromSource ? { fromThreadId: target.id } : {}),
+        ...(toSource ? { toThreadId: target.id } : {}),
+      })
+      .where(eq(schema.threadLinks.id, link.id));
+    edges.add(edge);
+    repointed.push({ id: link.id, fromThreadKey: sourceKey, change: "moved" });
+  }
+
+  return repointed;
+}
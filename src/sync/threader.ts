@@ -1,6 +1,7 @@
-import type { Email } from "@/db/schema";
+import type { Email, ThreadOverride } from "@/db/schema";
 import { db, schema } from "@/db";
-import { or, inArray, sql } from "drizzle-orm";
+import { arrayContains, arrayOverlaps, asc, eq, or, inArray, sql } from "drizzle-orm";
+import { getMailboxRole } from "./mailboxes";
 
 // Normalize subject by removing Re:, Fwd:, etc.
 export function normalizeSubject(subject: string | null): string {
@@ -12,6 +13,21 @@ export function normalizeSubject(subject: string | null): string {
     .toLowerCase();
 }
 
+// Generic subjects that should NEVER be used for merging
+// These are common business terms that different customers might use
+const GENERIC_SUBJECTS = new Set([
+  'rfq', 'po', 'inv', 'quote', 'order', 'inquiry', 'request',
+  'quotation', 'estimate', 'invoice', 'purchase order', 'fyi',
+  'question', 'help', 'urgent', 'asap', 'follow up', 'followup',
+  'checking in', 'update', 'status', 'reminder', 'thanks', 'thank you'
+]);
+
+// Only merge on subjects that are specific enough (>10 chars) and NOT a generic term
+// This catches "RE: PO 1049 from MAS" but not "RFQ" or "Quote"
+export function isSpecificSubject(normSubject: string): boolean {
+  return normSubject.length > 10 && !GENERIC_SUBJECTS.has(normSubject);
+}
+
 // Generate a thread ID from email headers
 export function generateThreadId(
   messageId: string | null,
@@ -41,10 +57,239 @@ export function generateThreadId(
   return `subject:${normalizeSubject(subject)}`;
 }
 
-// Group emails into threads
-export function groupEmailsIntoThreads(emails: Email[]): Map<string, Email[]> {
+/**
+ * Decode an Outlook/Exchange Thread-Index header. The first 22 bytes are a
+ * FILETIME (6 bytes) and a GUID (16 bytes) shared by every message of the
+ * conversation; each reply appends a 5-byte child block.
+ */
+export function decodeThreadIndex(threadIndex: string | null): { guid: string; replies: number } | null {
+  if (!threadIndex) return null;
+  const compact = threadIndex.replace(/\s+/g, "");
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(compact)) return null;
+
+  const bytes = Buffer.from(compact, "base64");
+  if (bytes.length < 22 || (bytes.length - 22) % 5 !== 0) return null;
+
+  const guid = bytes.subarray(6, 22).toString("hex");
+  if (/^0+$/.test(guid)) return null;
+  return { guid, replies: (bytes.length - 22) / 5 };
+}
+
+// Thread-Topic is the subject without prefixes; a shared GUID only joins emails
+// whose topics agree (or that don't send one), in case a client reuses an index
+export function threadTopicsAgree(a: string | null, b: string | null): boolean {
+  return !a || !b || a === b;
+}
+
+// Which rule joined an email to its thread (stored in email_messages.thread_match)
+export type ThreadRule =
+  | "references"   // References header names a message of the thread
+  | "in_reply_to"  // In-Reply-To names a message of the thread
+  | "same_message" // Copy of a message already in the thread (synced from another account)
+  | "reply_found"  // A stored reply names this message (it arrived after its reply)
+  | "thread_index" // Outlook Thread-Index conversation GUID
+  | "thread_key"   // Same generateThreadId() key as the thread
+  | "subject"      // Same specific normalized subject
+  | "new_thread"   // Nothing matched; the email started the thread
+  | "split";       // Moved here by a manual split
+
+export interface ThreadMatch {
+  rule: ThreadRule;
+  via: string | null; // Message-ID, GUID, key or subject that matched
+}
+
+/**
+ * Collapse copies of the same message synced from more than one account
+ * (e.g. sales@ CCs accounting@, or one mailbox forwards to another).
+ * The outbound copy wins so a message we sent still counts as sent.
+ */
+export function dedupeEmailsByMessageId(emails: Email[]): Email[] {
+  const preferred = new Map<string, Email>();
+
+  for (const email of emails) {
+    if (!email.messageId) continue;
+    const existing = preferred.get(email.messageId);
+    if (!existing || (getMailboxRole(existing) !== "outbound" && getMailboxRole(email) === "outbound")) {
+      preferred.set(email.messageId, email);
+    }
+  }
+
+  return emails.filter((email) => !email.messageId || preferred.get(email.messageId) === email);
+}
+
+/**
+ * Stable keys of stored threads, by email_threads.id. Merged threads map to the
+ * key of the thread they were merged into.
+ */
+export async function loadThreadKeys(threadIds: number[]): Promise<Map<number, string>> {
+  const keys = new Map<number, string>();
+  if (threadIds.length === 0) return keys;
+
+  const rows = await db
+    .select({ id: schema.threads.id, threadKey: schema.threads.threadKey, mergedInto: schema.threads.mergedInto })
+    .from(schema.threads)
+    .where(inArray(schema.threads.id, threadIds));
+
+  // Merging re-points earlier merges too, so mergedInto is always a surviving thread
+  const missing = [...new Set(rows.map((row) => row.mergedInto))].filter(
+    (id): id is number => id != null && !rows.some((row) => row.id === id)
+  );
+  const targets = missing.length > 0
+    ? await db
+        .select({ id: schema.threads.id, threadKey: schema.threads.threadKey })
+        .from(schema.threads)
+        .where(inArray(schema.threads.id, missing))
+    : [];
+
+  const keyById = new Map([...rows, ...targets].map((row) => [row.id, row.threadKey]));
+  for (const row of rows) {
+    keys.set(row.id, keyById.get(row.mergedInto ?? row.id) ?? row.threadKey);
+  }
+
+  return keys;
+}
+
+/**
+ * Resolve thread keys to the id of the stored thread that now owns them
+ * (following merges). Keys without a stored thread are left out.
+ */
+export async function resolveThreadIds(threadKeys: string[]): Promise<Map<string, number>> {
+  const resolved = new Map<string, number>();
+  if (threadKeys.length === 0) return resolved;
+
+  const rows = await db
+    .select({ id: schema.threads.id, threadKey: schema.threads.threadKey, mergedInto: schema.threads.mergedInto })
+    .from(schema.threads)
+    .where(inArray(schema.threads.threadKey, threadKeys));
+
+  for (const row of rows) {
+    resolved.set(row.threadKey, row.mergedInto ?? row.id);
+  }
+
+  return resolved;
+}
+
+// Stable key of the email's stored thread, or the header-derived key if it has none yet
+export async function getThreadKey(email: Email): Promise<string> {
+  if (email.threadId != null) {
+    const key = (await loadThreadKeys([email.threadId])).get(email.threadId);
+    if (key) return key;
+  }
+  return generateThreadId(email.messageId, email.inReplyTo, email.references, email.subject);
+}
+
+export async function resolveThreadId(threadKey: string): Promise<number | null> {
+  return (await resolveThreadIds([threadKey])).get(threadKey) ?? null;
+}
+
+/**
+ * Stored emails whose normalized subject is one of these. Candidates come from
+ * threads with a matching email_threads.normalized_subject (indexed), loaded by
+ * thread_id of the thread that now owns them; emails not threaded yet are not found.
+ */
+async function findEmailsBySubject(normSubjects: string[]): Promise<Email[]> {
+  if (normSubjects.length === 0) return [];
+
+  const threads = await db
+    .select({ id: schema.threads.id, mergedInto: schema.threads.mergedInto })
+    .from(schema.threads)
+    .where(inArray(schema.threads.normalizedSubject, normSubjects));
+  if (threads.length === 0) return [];
+
+  const candidates = await db
+    .select()
+    .from(schema.emails)
+    .where(inArray(schema.emails.threadId, [...new Set(threads.map((t) => t.mergedInto ?? t.id))]));
+
+  const wanted = new Set(normSubjects);
+  return candidates.filter((email) => wanted.has(normalizeSubject(email.subject)));
+}
+
+/**
+ * Group emails into threads.
+ * Emails with a stored thread (threadKeys from loadThreadKeys) are grouped by it,
+ * so the key is stable no matter which emails are in the window. The rest are
+ * grouped from their headers and subjects.
+ */
+export function groupEmailsIntoThreads(allEmails: Email[], threadKeys?: Map<number, string>): Map<string, Email[]> {
+  const emails = dedupeEmailsByMessageId(allEmails);
+  const threads = new Map<string, Email[]>();
+  const unassigned: Email[] = [];
+
+  for (const email of emails) {
+    const threadKey = email.threadId != null ? threadKeys?.get(email.threadId) : undefined;
+    if (!threadKey) {
+      unassigned.push(email);
+      continue;
+    }
+    if (!threads.has(threadKey)) {
+      threads.set(threadKey, []);
+    }
+    threads.get(threadKey)!.push(email);
+  }
+
+  for (const [threadKey, threadEmails] of groupByHeaders(unassigned)) {
+    if (!threads.has(threadKey)) {
+      threads.set(threadKey, []);
+    }
+    threads.get(threadKey)!.push(...threadEmails);
+  }
+
+  // Sort emails within each thread by date
+  for (const [, threadEmails] of threads) {
+    threadEmails.sort((a, b) => {
+      const dateA = a.date?.getTime() || 0;
+      const dateB = b.date?.getTime() || 0;
+      return dateA - dateB;
+    });
+  }
+
+  return threads;
+}
+
+/**
+ * groupEmailsIntoThreads() with the stored thread keys loaded for these emails.
+ * Manual merges and splits (email_thread_overrides) are applied to the stored
+ * threads, so they hold here too; header-grouped keys of merged threads are
+ * folded into the surviving thread.
+ */
+export async function groupEmailsByThread(allEmails: Email[]): Promise<Map<string, Email[]>> {
+  const threadIds = [...new Set(allEmails.map((e) => e.threadId).filter((id): id is number => id != null))];
+  const threads = groupEmailsIntoThreads(allEmails, await loadThreadKeys(threadIds));
+
+  const resolved = await resolveThreadIds([...threads.keys()]);
+  const survivorKeys = await loadThreadKeys([...new Set(resolved.values())]);
+  for (const [threadKey, threadId] of resolved) {
+    const survivorKey = survivorKeys.get(threadId);
+    if (!survivorKey || survivorKey === threadKey) continue;
+
+    const merged = [...(threads.get(survivorKey) ?? []), ...threads.get(threadKey)!];
+    merged.sort((a, b) => (a.date?.getTime() || 0) - (b.date?.getTime() || 0));
+    threads.set(survivorKey, merged);
+    threads.delete(threadKey);
+  }
+
+  return threads;
+}
+
+// How an email's thread key was derived from its own headers (first pass of groupByHeaders)
+function keyMatch(email: Email): ThreadMatch {
+  const firstRef = email.references?.split(/\s+/).filter(Boolean)[0];
+  if (firstRef) return { rule: "references", via: firstRef };
+  if (email.inReplyTo) return { rule: "in_reply_to", via: email.inReplyTo };
+  if (email.messageId) return { rule: "new_thread", via: null };
+  return { rule: "subject", via: normalizeSubject(email.subject) };
+}
+
+// Group emails that have no stored thread, using references, In-Reply-To,
+// Outlook Thread-Index and subjects. matches (diagnostic mode) receives the rule
+// that put each email in its thread.
+function groupByHeaders(emails: Email[], matches?: Map<number, ThreadMatch>): Map<string, Email[]> {
   const threads = new Map<string, Email[]>();
   const messageIdToThread = new Map<string, string>();
+  const explain = (groupEmails: Email[], match: ThreadMatch) => {
+    for (const email of groupEmails) matches?.set(email.id, match);
+  };
 
   // First pass: assign thread IDs
   for (const email of emails) {
@@ -54,6 +299,7 @@ export function groupEmailsIntoThreads(emails: Email[]): Map<string, Email[]> {
       email.references,
       email.subject
     );
+    matches?.set(email.id, keyMatch(email));
 
     // Track message ID to thread mapping
     if (email.messageId) {
@@ -84,6 +330,7 @@ export function groupEmailsIntoThreads(emails: Email[]): Map<string, Email[]> {
             finalTarget = threadMergeMap.get(finalTarget)!;
           }
           targetThreadId = finalTarget;
+          explain(threadEmails, { rule: "in_reply_to", via: email.inReplyTo });
           break;
         }
       }
@@ -105,7 +352,34 @@ export function groupEmailsIntoThreads(emails: Email[]): Map<string, Email[]> {
     mergedThreads.get(finalTarget)!.push(...threadEmails);
   }
 
-  // Third pass: merge threads with same normalized subject
+  // Third pass: merge threads that share an Outlook Thread-Index conversation GUID
+  // Outlook/Exchange often send no References, so this runs before the subject heuristics
+  const guidToThread = new Map<string, { threadId: string; topic: string | null }>();
+  const indexedThreads = new Map<string, Email[]>();
+
+  for (const [threadId, threadEmails] of mergedThreads) {
+    const indexed = threadEmails.find((e) => e.threadIndexGuid);
+    let target = threadId;
+
+    if (indexed) {
+      const guid = indexed.threadIndexGuid!;
+      const topic = indexed.threadTopic ? normalizeSubject(indexed.threadTopic) : null;
+      const existing = guidToThread.get(guid);
+      if (existing && threadTopicsAgree(existing.topic, topic)) {
+        target = existing.threadId;
+        explain(threadEmails, { rule: "thread_index", via: guid });
+      } else if (!existing) {
+        guidToThread.set(guid, { threadId, topic });
+      }
+    }
+
+    if (!indexedThreads.has(target)) {
+      indexedThreads.set(target, []);
+    }
+    indexedThreads.get(target)!.push(...threadEmails);
+  }
+
+  // Fourth pass: merge threads with same normalized subject
   // This catches replies that have broken In-Reply-To headers
   // BUT we must NOT merge on generic subjects like "RFQ", "PO", "Quote" etc.
   // because different customers can send emails with these generic titles
@@ -113,28 +387,17 @@ export function groupEmailsIntoThreads(emails: Email[]): Map<string, Email[]> {
   const finalMergedThreads = new Map<string, Email[]>();
   const subjectMergeMap = new Map<string, string>();
 
-  // Generic subjects that should NEVER be used for merging
-  // These are common business terms that different customers might use
-  const genericSubjects = new Set([
-    'rfq', 'po', 'inv', 'quote', 'order', 'inquiry', 'request',
-    'quotation', 'estimate', 'invoice', 'purchase order', 'fyi',
-    'question', 'help', 'urgent', 'asap', 'follow up', 'followup',
-    'checking in', 'update', 'status', 'reminder', 'thanks', 'thank you'
-  ]);
-
-  for (const [threadId, threadEmails] of mergedThreads) {
+  for (const [threadId, threadEmails] of indexedThreads) {
     // Get the normalized subject from the first email
     const firstEmail = threadEmails[0];
     const normSubject = normalizeSubject(firstEmail?.subject);
 
-    // Only merge if subject is specific enough (>10 chars) and NOT a generic term
-    // This catches "RE: PO 1049 from MAS" but not "RFQ" or "Quote"
-    const isSpecific = normSubject.length > 10 && !genericSubjects.has(normSubject);
-    if (normSubject && isSpecific) {
+    if (normSubject && isSpecificSubject(normSubject)) {
       if (subjectToThread.has(normSubject)) {
         // Merge into existing thread with same subject
         const existingThreadId = subjectToThread.get(normSubject)!;
         subjectMergeMap.set(threadId, existingThreadId);
+        explain(threadEmails, { rule: "subject", via: normSubject });
       } else {
         subjectToThread.set(normSubject, threadId);
       }
@@ -142,7 +405,7 @@ export function groupEmailsIntoThreads(emails: Email[]): Map<string, Email[]> {
   }
 
   // Apply subject-based merges
-  for (const [threadId, threadEmails] of mergedThreads) {
+  for (const [threadId, threadEmails] of indexedThreads) {
     let finalTarget = threadId;
     while (subjectMergeMap.has(finalTarget)) {
       finalTarget = subjectMergeMap.get(finalTarget)!;
@@ -154,15 +417,6 @@ export function groupEmailsIntoThreads(emails: Email[]): Map<string, Email[]> {
     finalMergedThreads.get(finalTarget)!.push(...threadEmails);
   }
 
-  // Sort emails within each thread by date
-  for (const [, threadEmails] of finalMergedThreads) {
-    threadEmails.sort((a, b) => {
-      const dateA = a.date?.getTime() || 0;
-      const dateB = b.date?.getTime() || 0;
-      return dateA - dateB;
-    });
-  }
-
   return finalMergedThreads;
 }
 
@@ -174,9 +428,55 @@ export async function fetchFullThreadEmails(windowEmails: Email[], cutoffDate?:
     return [];
   }
 
+  const emailMap = new Map<number, Email>();
+  for (const email of windowEmails) {
+    emailMap.set(email.id, email);
+  }
+
+  // Emails with a stored thread bring in the rest of it directly
+  const threadIds = [...new Set(windowEmails.map((e) => e.threadId).filter((id): id is number => id != null))];
+  if (threadIds.length > 0) {
+    const threadEmails = await db
+      .select()
+      .from(schema.emails)
+      .where(inArray(schema.emails.threadId, threadIds));
+    for (const email of threadEmails) {
+      emailMap.set(email.id, email);
+    }
+  }
+
+  // Emails not threaded yet are expanded through their headers and subjects
+  const related = await findRelatedByHeaders(windowEmails.filter((e) => e.threadId == null));
+  for (const email of related) {
+    emailMap.set(email.id, email);
+  }
+
+  // Deleted messages still link the thread together above, but aren't part of it
+  let result = Array.from(emailMap.values()).filter((email) => email.serverState !== "deleted");
+
+  // Apply cutoff date filter if provided (excludes emails after the cutoff)
+  if (cutoffDate) {
+    const beforeFilter = result.length;
+    result = result.filter(email => !email.date || email.date <= cutoffDate);
+    if (result.length < beforeFilter) {
+      console.log(`  Filtered ${beforeFilter - result.length} emails after cutoff ${cutoffDate.toISOString()}`);
+    }
+  }
+
+  console.log(`Expanded ${windowEmails.length} window emails to ${result.length} full thread emails`);
+  return result;
+}
+
+// Header/subject based expansion for emails without a stored thread
+async function findRelatedByHeaders(windowEmails: Email[]): Promise<Email[]> {
+  if (windowEmails.length === 0) {
+    return [];
+  }
+
   // Collect all message IDs, inReplyTo, and references from window emails
   const messageIds = new Set<string>();
   const normalizedSubjects = new Set<string>();
+  const threadIndexGuids = new Set<string>();
 
   for (const email of windowEmails) {
     if (email.messageId) {
@@ -191,21 +491,19 @@ export async function fetchFullThreadEmails(windowEmails: Email[], cutoffDate?:
         messageIds.add(ref);
       }
     }
+    // Outlook conversation GUID (replies without References)
+    if (email.threadIndexGuid) {
+      threadIndexGuids.add(email.threadIndexGuid);
+    }
     // Also track normalized subjects for subject-based matching
     // BUT only for specific subjects, not generic ones like "RFQ", "PO", etc.
     const normSubject = normalizeSubject(email.subject);
-    const genericSubjects = new Set([
-      'rfq', 'po', 'inv', 'quote', 'order', 'inquiry', 'request',
-      'quotation', 'estimate', 'invoice', 'purchase order', 'fyi',
-      'question', 'help', 'urgent', 'asap', 'follow up', 'followup',
-      'checking in', 'update', 'status', 'reminder', 'thanks', 'thank you'
-    ]);
-    if (normSubject && normSubject.length > 10 && !genericSubjects.has(normSubject)) {
+    if (normSubject && isSpecificSubject(normSubject)) {
       normalizedSubjects.add(normSubject);
     }
   }
 
-  if (messageIds.size === 0 && normalizedSubjects.size === 0) {
+  if (messageIds.size === 0 && normalizedSubjects.size === 0 && threadIndexGuids.size === 0) {
     return windowEmails;
   }
 
@@ -214,7 +512,8 @@ export async function fetchFullThreadEmails(windowEmails: Email[], cutoffDate?:
   // 1. Their messageId is in our collected IDs (they're referenced)
   // 2. Their inReplyTo is in our collected IDs (they reply to our emails)
   // 3. Their references contain any of our collected IDs
-  // 4. They have the same normalized subject (catches broken headers)
+  // 4. They share an Outlook Thread-Index conversation GUID
+  // 5. They have the same normalized subject (catches broken headers)
   const messageIdArray = Array.from(messageIds);
 
   // Build conditions for the query
@@ -226,9 +525,10 @@ export async function fetchFullThreadEmails(windowEmails: Email[], cutoffDate?:
     // Match by inReplyTo
     conditions.push(inArray(schema.emails.inReplyTo, messageIdArray));
     // Match by references (any of our IDs appear in references)
-    for (const msgId of messageIdArray) {
-      conditions.push(sql`${schema.emails.references} LIKE ${'%' + msgId + '%'}`);
-    }
+    conditions.push(arrayOverlaps(schema.emails.referenceIds, messageIdArray));
+  }
+  if (threadIndexGuids.size > 0) {
+    conditions.push(inArray(schema.emails.threadIndexGuid, [...threadIndexGuids]));
   }
 
   // Query with all conditions
@@ -279,9 +579,7 @@ export async function fetchFullThreadEmails(windowEmails: Email[], cutoffDate?:
 
     secondPassConditions.push(inArray(schema.emails.messageId, newMessageIdArray));
     secondPassConditions.push(inArray(schema.emails.inReplyTo, newMessageIdArray));
-    for (const msgId of newMessageIdArray) {
-      secondPassConditions.push(sql`${schema.emails.references} LIKE ${'%' + msgId + '%'}`);
-    }
+    secondPassConditions.push(arrayOverlaps(schema.emails.referenceIds, newMessageIdArray));
 
     const moreEmails = await db
       .select()
@@ -296,30 +594,229 @@ export async function fetchFullThreadEmails(windowEmails: Email[], cutoffDate?:
   // Also fetch by normalized subject (third pass)
   // This catches emails with broken headers but same subject
   if (normalizedSubjects.size > 0) {
-    // Get all emails and filter by normalized subject in JS
-    // (SQL LOWER and pattern matching is less efficient)
-    const allEmails = await db.select().from(schema.emails);
-    for (const email of allEmails) {
-      const normSubject = normalizeSubject(email.subject);
-      if (normSubject && normalizedSubjects.has(normSubject)) {
+    for (const email of await findEmailsBySubject([...normalizedSubjects])) {
+      emailMap.set(email.id, email);
+    }
+  }
+
+  return Array.from(emailMap.values());
+}
+
+/**
+ * Thread keys whose emails have all been deleted on the server.
+ * Keys without a stored thread are matched through Message-ID headers; their
+ * subject-based keys and keys with no stored emails are never returned.
+ */
+export async function findDeletedThreadKeys(threadKeys: string[]): Promise<Set<string>> {
+  const deleted = new Set<string>();
+
+  // Stored threads: every email assigned to the thread is deleted
+  const threadIds = await resolveThreadIds(threadKeys);
+  if (threadIds.size > 0) {
+    const rows = await db
+      .select({ threadId: schema.emails.threadId, serverState: schema.emails.serverState })
+      .from(schema.emails)
+      .where(inArray(schema.emails.threadId, [...new Set(threadIds.values())]));
+
+    for (const [key, threadId] of threadIds) {
+      const threadRows = rows.filter((row) => row.threadId === threadId);
+      if (threadRows.length > 0 && threadRows.every((row) => row.serverState === "deleted")) {
+        deleted.add(key);
+      }
+    }
+  }
+
+  const keys = threadKeys.filter((key) => !key.startsWith("subject:") && !threadIds.has(key));
+  if (keys.length === 0) return deleted;
+
+  const rows = await db
+    .select({
+      messageId: schema.emails.messageId,
+      inReplyTo: schema.emails.inReplyTo,
+      referenceIds: schema.emails.referenceIds,
+      serverState: schema.emails.serverState,
+    })
+    .from(schema.emails)
+    .where(
+      or(
+        inArray(schema.emails.messageId, keys),
+        inArray(schema.emails.inReplyTo, keys),
+        arrayOverlaps(schema.emails.referenceIds, keys)
+      )
+    );
+
+  for (const key of keys) {
+    const threadRows = rows.filter(
+      (row) => row.messageId === key || row.inReplyTo === key || row.referenceIds?.includes(key)
+    );
+    if (threadRows.length > 0 && threadRows.every((row) => row.serverState === "deleted")) {
+      deleted.add(key);
+    }
+  }
+
+  return deleted;
+}
+
+/**
+ * Load every stored email of a thread, oldest first.
+ * threadKey is typically a message ID (e.g. <abc@example.com>) or subject:normalized.
+ * Stored threads are loaded by thread_id (old keys of merged threads still resolve);
+ * otherwise the emails are found through headers and subjects.
+ * fallbackSubject (e.g. the todo's subject) is matched when no email references the key.
+ */
+export async function findThreadEmails(threadKey: string, fallbackSubject?: string | null): Promise<Email[]> {
+  const threadId = await resolveThreadId(threadKey);
+  if (threadId != null) {
+    const stored = await db
+      .select()
+      .from(schema.emails)
+      .where(eq(schema.emails.threadId, threadId))
+      .orderBy(asc(schema.emails.date), asc(schema.emails.id));
+    if (stored.length > 0) return stored;
+  }
+
+  let threadEmails: Email[] = [];
+
+  if (threadKey.startsWith("subject:")) {
+    // Subject-based thread key — match by normalized subject
+    threadEmails = await findEmailsBySubject([threadKey.slice("subject:".length)]);
+  } else {
+    // Message-ID-based thread key — find by references chain
+    // Pass 1: find directly related emails
+    const directMatches = await db
+      .select()
+      .from(schema.emails)
+      .where(
+        or(
+          eq(schema.emails.messageId, threadKey),
+          eq(schema.emails.inReplyTo, threadKey),
+          arrayContains(schema.emails.referenceIds, [threadKey])
+        )
+      );
+
+    if (directMatches.length === 0) {
+      // Fall back: try finding via report_threads subject
+      if (fallbackSubject) {
+        const normSubject = normalizeSubject(fallbackSubject);
+        if (normSubject && normSubject.length > 10) {
+          threadEmails = await findEmailsBySubject([normSubject]);
+        }
+      }
+    } else {
+      // Collect all message IDs for transitive expansion
+      const emailMap = new Map<number, Email>();
+      const collectedMsgIds = new Set<string>();
+
+      for (const email of directMatches) {
         emailMap.set(email.id, email);
+        if (email.messageId) collectedMsgIds.add(email.messageId);
+        if (email.inReplyTo) collectedMsgIds.add(email.inReplyTo);
+        if (email.references) {
+          for (const ref of email.references.split(/\s+/).filter(Boolean)) {
+            collectedMsgIds.add(ref);
+          }
+        }
+      }
+
+      // Pass 2: expand transitively using collected message IDs
+      const msgIdArray = Array.from(collectedMsgIds);
+      if (msgIdArray.length > 0) {
+        const expanded = await db
+          .select()
+          .from(schema.emails)
+          .where(
+            or(
+              inArray(schema.emails.messageId, msgIdArray),
+              inArray(schema.emails.inReplyTo, msgIdArray),
+              arrayOverlaps(schema.emails.referenceIds, msgIdArray)
+            )
+          );
+
+        for (const email of expanded) {
+          emailMap.set(email.id, email);
+        }
       }
+
+      threadEmails = Array.from(emailMap.values());
     }
   }
 
-  let result = Array.from(emailMap.values());
+  // Sort chronologically
+  threadEmails.sort((a, b) => {
+    const dateA = a.date?.getTime() || 0;
+    const dateB = b.date?.getTime() || 0;
+    return dateA - dateB;
+  });
 
-  // Apply cutoff date filter if provided (excludes emails after the cutoff)
-  if (cutoffDate) {
-    const beforeFilter = result.length;
-    result = result.filter(email => !email.date || email.date <= cutoffDate);
-    if (result.length < beforeFilter) {
-      console.log(`  Filtered ${beforeFilter - result.length} emails after cutoff ${cutoffDate.toISOString()}`);
+  return threadEmails;
+}
+
+export interface ThreadEmailExplanation {
+  emailId: number;
+  date: Date | null;
+  from: string | null;
+  subject: string | null;
+  messageId: string | null;
+  threadIndexGuid: string | null;
+  match: ThreadMatch | null; // null = threaded before the rule was recorded
+}
+
+export interface ThreadExplanation {
+  threadKey: string;
+  threadId: number | null; // null = not stored yet; rules were traced by grouping from headers
+  emails: ThreadEmailExplanation[];
+  overrides: ThreadOverride[]; // Merges and splits involving the thread, oldest first
+}
+
+/**
+ * Diagnostic mode: which rule joined each email to its thread. Stored threads
+ * report the rule recorded when each email was assigned, plus the merges and
+ * splits that shaped the thread; emails not threaded yet are grouped from their
+ * headers again with every join traced.
+ */
+export async function explainThread(threadKey: string, fallbackSubject?: string | null): Promise<ThreadExplanation | null> {
+  const emails = await findThreadEmails(threadKey, fallbackSubject);
+  if (emails.length === 0) return null;
+
+  const threadId = await resolveThreadId(threadKey);
+  const stored = threadId != null && emails.every((email) => email.threadId === threadId);
+
+  const matches = new Map<number, ThreadMatch>();
+  if (stored) {
+    for (const email of emails) {
+      if (email.threadMatch) matches.set(email.id, email.threadMatch as ThreadMatch);
     }
+  } else {
+    groupByHeaders(emails, matches);
   }
 
-  console.log(`Expanded ${windowEmails.length} window emails to ${result.length} full thread emails`);
-  return result;
+  const overrides = stored
+    ? await db
+        .select()
+        .from(schema.threadOverrides)
+        .where(
+          or(
+            eq(schema.threadOverrides.threadId, threadId),
+            sql`${threadId} = ANY(${schema.threadOverrides.otherThreadIds})`
+          )
+        )
+        .orderBy(asc(schema.threadOverrides.createdAt))
+    : [];
+
+  return {
+    threadKey,
+    threadId: stored ? threadId : null,
+    emails: emails.map((email) => ({
+      emailId: email.id,
+      date: email.date,
+      from: email.fromAddress,
+      subject: email.subject,
+      messageId: email.messageId,
+      threadIndexGuid: email.threadIndexGuid,
+      match: matches.get(email.id) ?? null,
+    })),
+    overrides,
+  };
 }
 
 // Identify the customer for a thread
@@ -0,0 +1,60 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, eq } from "drizzle-orm";
+import { db, schema } from "@/db";
+import { getDefaultMailbox, getMailAccount } from "@/imap/client";
+import { describeStoredEmail, errorResult, jsonResult } from "./shared";
+import { getThreadKey } from "@/sync/threader";
+import { fetchImapEmail } from "./imap-fallback";
+
+export function registerGetEmail(server: McpServer): void {
+  server.registerTool(
+    "get_email",
+    {
+      description:
+        "Fetch a single email and return its plain-text body plus metadata. Pass the database id from a listing, or " +
+        "a uid (with mailbox/account). By default quoted replies, signatures and disclaimers are removed; set " +
+        "full=true for the complete text. Never marks the message as read.",
+      inputSchema: {
+        id: z.number().int().optional().describe("Database id (the `id` field of list/search results)"),
+        uid: z.number().int().optional().describe("IMAP uid, for messages without a database id"),
+        mailbox: z.string().optional().describe("Mailbox path for uid lookups (default INBOX)"),
+        account: z.string().optional().describe("Mail account id for uid lookups (default: primary account)"),
+        maxChars: z.number().int().min(1000).max(20000).default(8000),
+        includeHeaders: z.boolean().default(true),
+        includeHtmlAsText: z.boolean().default(true),
+        full: z.boolean().default(false).describe("Include quoted history, signature and disclaimer"),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ id, uid, mailbox, account, ...options }) => {
+      try {
+        if (id === undefined && uid === undefined) {
+          return errorResult("Pass either id or uid");
+        }
+
+        if (id !== undefined) {
+          const [email] = await db.select().from(schema.emails).where(eq(schema.emails.id, id)).limit(1);
+          if (!email) return errorResult(`No email with id ${id}`);
+          return jsonResult(describeStoredEmail(email, options, await getThreadKey(email)));
+        }
+
+        const accountId = getMailAccount(account).id;
+        const path = mailbox || getDefaultMailbox();
+        const [email] = await db
+          .select()
+          .from(schema.emails)
+          .where(and(eq(schema.emails.account, accountId), eq(schema.emails.mailbox, path), eq(schema.emails.uid, uid!)))
+          .limit(1);
+        if (email) return jsonResult(describeStoredEmail(email, options, await getThreadKey(email)));
+
+        // Not synced yet - read it from the server
+        const fetched = await fetchImapEmail(accountId, path, uid!, options);
+        if (!fetched) return errorResult(`No message with uid ${uid} in ${accountId}/${path}`);
+        return jsonResult(fetched);
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
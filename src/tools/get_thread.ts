@@ -0,0 +1,81 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, eq } from "drizzle-orm";
+import { db, schema } from "@/db";
+import { findThreadEmails, getThreadKey } from "@/sync/threader";
+import { describeStoredEmail, errorResult, jsonResult } from "./shared";
+
+export function registerGetThread(server: McpServer): void {
+  server.registerTool(
+    "get_thread",
+    {
+      description:
+        "Return every stored email of a conversation, oldest first, with cleaned bodies, plus the open dashboard todo " +
+        "and QuickBooks alerts for it. Pass a threadKey (from get_email, list_open_todos or list_open_alerts) or the " +
+        "database id of any email in the thread.",
+      inputSchema: {
+        threadKey: z.string().optional(),
+        emailId: z.number().int().optional().describe("Database id of any email in the thread"),
+        maxCharsPerEmail: z.number().int().min(200).max(8000).default(2000),
+        includeDeleted: z.boolean().default(false).describe("Include emails deleted on the server"),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ threadKey, emailId, maxCharsPerEmail, includeDeleted }) => {
+      try {
+        let key = threadKey;
+        if (!key && emailId !== undefined) {
+          const [email] = await db.select().from(schema.emails).where(eq(schema.emails.id, emailId)).limit(1);
+          if (!email) return errorResult(`No email with id ${emailId}`);
+          key = await getThreadKey(email);
+        }
+        if (!key) return errorResult("Pass either threadKey or emailId");
+
+        const [todo] = await db.select().from(schema.dashTodos).where(eq(schema.dashTodos.threadKey, key)).limit(1);
+        const alerts = await db
+          .select()
+          .from(schema.qbSyncAlerts)
+          .where(and(eq(schema.qbSyncAlerts.threadKey, key), eq(schema.qbSyncAlerts.status, "open")));
+
+        const emails = (await findThreadEmails(key, todo?.subject)).filter(
+          (email) => includeDeleted || email.serverState !== "deleted"
+        );
+        if (emails.length === 0 && !todo) return errorResult(`No emails found for thread ${key}`);
+
+        return jsonResult({
+          threadKey: key,
+          emailCount: emails.length,
+          todo: todo
+            ? {
+                id: todo.id,
+                status: todo.status,
+                todoType: todo.todoType,
+                category: todo.category,
+                itemType: todo.itemType,
+                summary: todo.summary,
+                description: todo.description,
+                poDetails: todo.poDetails,
+              }
+            : null,
+          openAlerts: alerts.map((alert) => ({
+            id: alert.id,
+            alertType: alert.alertType,
+            poNumber: alert.poNumber,
+            qbCustomerName: alert.qbCustomerName,
+            detectedAt: alert.detectedAt,
+          })),
+          emails: emails.map((email) =>
+            describeStoredEmail(email, {
+              full: false,
+              includeHeaders: true,
+              includeHtmlAsText: true,
+              maxChars: maxCharsPerEmail,
+            }, key)
+          ),
+        });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
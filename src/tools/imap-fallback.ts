@@ -0,0 +1,179 @@
+/**
+ * Read-only IMAP access for the MCP tools.
+ *
+ * The database is the primary source; IMAP is only consulted for messages the
+ * sync hasn't stored yet (UIDs above email_sync_metadata.last_uid) and for a uid
+ * the database doesn't know. Mailboxes are always opened read-only and bodies
+ * are fetched with BODY.PEEK, so nothing here changes \Seen or any other state.
+ */
+
+import type { ImapFlow, SearchObject } from "imapflow";
+import { withImapClient, fetchBodyPart } from "@/imap/client";
+import {
+  decodeBodyText,
+  extractAttachments,
+  findTextPart,
+  makeSnippet,
+  sanitizeSubject,
+  trimToMaxChars,
+} from "@/imap/parsers";
+import { cleanEmailBody } from "@/imap/body-cleaner";
+import { getSyncState } from "@/sync/syncer";
+import { generateThreadId } from "@/sync/threader";
+import { formatSender, toIsoDate, type EmailSummary } from "./shared";
+
+type Address = { name?: string; address?: string };
+
+function firstSender(addresses?: Address[]): string {
+  const sender = addresses?.[0];
+  return formatSender(sender?.name, sender?.address);
+}
+
+function addressList(addresses?: Address[]): string[] {
+  return (addresses ?? []).map((a) => a.address).filter((a): a is string => !!a);
+}
+
+// Highest UID the sync has stored for this mailbox, or 0 if it has never run
+// (or UIDVALIDITY changed, which makes the stored UIDs meaningless)
+async function getSyncedUidFloor(client: ImapFlow, account: string, mailbox: string): Promise<number> {
+  const state = await getSyncState(account, mailbox);
+  const currentValidity = client.mailbox ? Number(client.mailbox.uidValidity) : null;
+  if (!state?.lastUid || (state.uidValidity != null && state.uidValidity !== currentValidity)) {
+    return 0;
+  }
+  return state.lastUid;
+}
+
+async function searchUids(client: ImapFlow, queries: SearchObject[]): Promise<number[]> {
+  const uids = new Set<number>();
+  for (const query of queries) {
+    const result = await client.search(query, { uid: true });
+    for (const uid of Array.isArray(result) ? result : []) uids.add(uid);
+  }
+  return [...uids].sort((a, b) => a - b);
+}
+
+async function fetchText(client: ImapFlow, uid: number, structure: Parameters<typeof findTextPart>[0], includeHtmlAsText: boolean): Promise<string> {
+  const textPart = findTextPart(structure);
+  if (!textPart) return "";
+  const buffer = await fetchBodyPart(client, uid, textPart.part);
+  return buffer ? decodeBodyText(buffer, textPart.isHtml, includeHtmlAsText, textPart.encoding) : "";
+}
+
+async function summarizeUids(client: ImapFlow, account: string, mailbox: string, uids: number[]): Promise<EmailSummary[]> {
+  const summaries: EmailSummary[] = [];
+  for (const uid of uids) {
+    const msg = await client.fetchOne(uid, { uid: true, envelope: true, bodyStructure: true, internalDate: true }, { uid: true });
+    if (!msg) continue;
+
+    const text = await fetchText(client, uid, msg.bodyStructure, true);
+    const subject = msg.envelope?.subject ?? null;
+    const date = msg.envelope?.date ?? (msg.internalDate ? new Date(msg.internalDate) : null);
+    summaries.push({
+      id: null,
+      account,
+      mailbox,
+      uid,
+      date: toIsoDate(date),
+      from: firstSender(msg.envelope?.from),
+      subject: sanitizeSubject(subject),
+      hasAttachments: extractAttachments(msg.bodyStructure).length > 0,
+      snippet: makeSnippet(cleanEmailBody(text, subject).text || text),
+      source: "imap",
+    });
+  }
+  // Newest first, like the database listings
+  return summaries.reverse();
+}
+
+/**
+ * Messages on the server that the sync hasn't stored yet, optionally narrowed by
+ * search criteria. Multiple criteria are OR-ed unless matchAll is set.
+ */
+export async function listUnsyncedMessages(
+  account: string,
+  mailbox: string,
+  options: { limit: number; criteria?: SearchObject[]; matchAll?: boolean; unreadOnly?: boolean }
+): Promise<EmailSummary[]> {
+  return withImapClient(
+    mailbox,
+    async (client) => {
+      const floor = await getSyncedUidFloor(client, account, mailbox);
+      const base: SearchObject = { uid: `${floor + 1}:*`, ...(options.unreadOnly ? { seen: false } : {}) };
+
+      const criteria = options.criteria ?? [];
+      const queries =
+        criteria.length === 0
+          ? [base]
+          : options.matchAll
+            ? [Object.assign({}, base, ...criteria)]
+            : criteria.map((c) => ({ ...base, ...c }));
+
+      // "N:*" always matches the highest UID, even when it is below N
+      const uids = (await searchUids(client, queries)).filter((uid) => uid > floor);
+      return summarizeUids(client, account, mailbox, uids.slice(-options.limit));
+    },
+    account
+  );
+}
+
+/**
+ * Unread messages, synced or not. \Seen isn't stored in the database, so this
+ * always asks the server.
+ */
+export async function listUnreadMessages(account: string, mailbox: string, limit: number): Promise<EmailSummary[]> {
+  return withImapClient(
+    mailbox,
+    async (client) => {
+      const uids = await searchUids(client, [{ seen: false }]);
+      return summarizeUids(client, account, mailbox, uids.slice(-limit));
+    },
+    account
+  );
+}
+
+/**
+ * Fetch one message straight from the server. Returns null if the uid doesn't exist.
+ */
+export async function fetchImapEmail(
+  account: string,
+  mailbox: string,
+  uid: number,
+  options: { full: boolean; includeHeaders: boolean; includeHtmlAsText: boolean; maxChars: number }
+) {
+  return withImapClient(
+    mailbox,
+    async (client) => {
+      const msg = await client.fetchOne(uid, { uid: true, envelope: true, bodyStructure: true, internalDate: true }, { uid: true });
+      if (!msg) return null;
+
+      const envelope = msg.envelope ?? {};
+      const subject = envelope.subject ?? null;
+      const text = await fetchText(client, uid, msg.bodyStructure, options.includeHtmlAsText);
+      const body = options.full ? text : cleanEmailBody(text, subject).text || text;
+
+      return {
+        id: null,
+        account,
+        mailbox,
+        uid,
+        date: toIsoDate(envelope.date ?? (msg.internalDate ? new Date(msg.internalDate) : null)),
+        from: firstSender(envelope.from),
+        subject: sanitizeSubject(subject),
+        threadKey: generateThreadId(envelope.messageId ?? null, envelope.inReplyTo ?? null, null, subject),
+        ...(options.includeHeaders
+          ? {
+              to: addressList(envelope.to),
+              cc: addressList(envelope.cc),
+              replyTo: addressList(envelope.replyTo),
+              messageId: envelope.messageId ?? null,
+            }
+          : {}),
+        bodyText: trimToMaxChars(body.trim(), options.maxChars),
+        attachments: extractAttachments(msg.bodyStructure),
+        source: "imap" as const,
+      };
+    },
+    account
+  );
+}
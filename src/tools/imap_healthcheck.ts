@@ -0,0 +1,64 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { createImapClient, getDefaultMailbox, getMailAccount } from "@/imap/client";
+import { getSyncHealth } from "@/sync/sync-runs";
+import { errorResult, jsonResult, toIsoDate } from "./shared";
+
+export function registerImapHealthcheck(server: McpServer): void {
+  server.registerTool(
+    "imap_healthcheck",
+    {
+      description:
+        "Tests IMAP connectivity and authentication for a mail account. Returns mailbox names, message counts for the " +
+        "requested mailbox, and when the local email database last synced successfully.",
+      inputSchema: {
+        mailbox: z.string().optional().describe("Mailbox to check (default INBOX)"),
+        account: z.string().optional().describe("Mail account id from MAIL_ACCOUNTS (default: primary account)"),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ mailbox, account }) => {
+      try {
+        const accountId = getMailAccount(account).id;
+        const path = mailbox || getDefaultMailbox();
+
+        const imap: Record<string, unknown> = { account: accountId, connected: false };
+        const client = createImapClient(accountId);
+        try {
+          await client.connect();
+          imap.connected = true;
+
+          const mailboxes = await client.list();
+          imap.mailboxes = mailboxes.map((m) => m.path);
+          imap.mailboxExists = mailboxes.some((m) => m.path === path);
+
+          if (imap.mailboxExists) {
+            // STATUS doesn't select the mailbox, so it can't touch flags
+            const status = await client.status(path, { messages: true, unseen: true });
+            imap.mailbox = { path, messages: status.messages ?? null, unseen: status.unseen ?? null };
+          }
+        } catch (error) {
+          imap.error = error instanceof Error ? error.message : String(error);
+        } finally {
+          await client.logout().catch(() => {});
+        }
+
+        let database: Record<string, unknown>;
+        try {
+          const health = await getSyncHealth();
+          database = {
+            lastSuccessfulSync: toIsoDate(health.lastSuccessfulAt),
+            lastInboundEmail: toIsoDate(health.lastInboundEmailAt),
+            warnings: health.warnings,
+          };
+        } catch (error) {
+          database = { error: error instanceof Error ? error.message : String(error) };
+        }
+
+        return jsonResult({ imap, database });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
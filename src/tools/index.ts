@@ -0,0 +1,18 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerImapHealthcheck } from "./imap_healthcheck";
+import { registerListRecentEmails } from "./list_recent_emails";
+import { registerSearchEmails } from "./search_emails";
+import { registerGetEmail } from "./get_email";
+import { registerGetThread } from "./get_thread";
+import { registerListOpenTodos } from "./list_open_todos";
+import { registerListOpenAlerts } from "./list_open_alerts";
+
+export function registerTools(server: McpServer): void {
+  registerImapHealthcheck(server);
+  registerListRecentEmails(server);
+  registerSearchEmails(server);
+  registerGetEmail(server);
+  registerGetThread(server);
+  registerListOpenTodos(server);
+  registerListOpenAlerts(server);
+}
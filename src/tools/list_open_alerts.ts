@@ -0,0 +1,62 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, desc, eq, type SQL } from "drizzle-orm";
+import { db, schema } from "@/db";
+import { errorResult, jsonResult } from "./shared";
+
+// Alert amounts are stored in cents
+function dollars(cents: number | null): number | null {
+  return cents === null ? null : cents / 100;
+}
+
+export function registerListOpenAlerts(server: McpServer): void {
+  server.registerTool(
+    "list_open_alerts",
+    {
+      description:
+        "List open QuickBooks sync alerts: POs without a sales order, POs from unknown or untrusted senders, and " +
+        "sales orders that should be closed. Newest first. Amounts are in dollars.",
+      inputSchema: {
+        alertType: z.enum(schema.qbSyncAlertTypeEnum.enumValues).optional(),
+        limit: z.number().int().min(1).max(100).default(25),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ alertType, limit }) => {
+      try {
+        const conditions: SQL[] = [eq(schema.qbSyncAlerts.status, "open")];
+        if (alertType) conditions.push(eq(schema.qbSyncAlerts.alertType, alertType));
+
+        const alerts = await db
+          .select()
+          .from(schema.qbSyncAlerts)
+          .where(and(...conditions))
+          .orderBy(desc(schema.qbSyncAlerts.detectedAt))
+          .limit(limit);
+
+        return jsonResult({
+          count: alerts.length,
+          alerts: alerts.map((alert) => ({
+            id: alert.id,
+            alertType: alert.alertType,
+            threadKey: alert.threadKey,
+            subject: alert.subject,
+            contact: alert.contactName ? `${alert.contactName} <${alert.contactEmail ?? ""}>` : alert.contactEmail,
+            qbCustomerName: alert.qbCustomerName,
+            matchConfidence: alert.matchConfidence,
+            poNumber: alert.poNumber,
+            poTotal: dollars(alert.poTotal),
+            salesOrderRef: alert.salesOrderRef,
+            salesOrderTotal: dollars(alert.salesOrderTotal),
+            invoiceRef: alert.invoiceRef,
+            invoiceTotal: dollars(alert.invoiceTotal),
+            detectedAt: alert.detectedAt,
+            escalatedAt: alert.escalatedAt,
+          })),
+        });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,61 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, desc, eq, sql, type SQL } from "drizzle-orm";
+import { db, schema } from "@/db";
+import { errorResult, jsonResult } from "./shared";
+
+export function registerListOpenTodos(server: McpServer): void {
+  server.registerTool(
+    "list_open_todos",
+    {
+      description:
+        "List open dashboard todos: unacknowledged POs, unanswered quotes and emails, and vendor follow-ups, most " +
+        "recent activity first. Use get_thread with the threadKey to read the conversation.",
+      inputSchema: {
+        todoType: z.enum(schema.todoTypeEnum.enumValues).optional(),
+        category: z.enum(schema.categoryEnum.enumValues).optional(),
+        account: z.string().optional().describe("Only todos from threads seen in this mail account"),
+        limit: z.number().int().min(1).max(100).default(25),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ todoType, category, account, limit }) => {
+      try {
+        const conditions: SQL[] = [eq(schema.dashTodos.status, "open")];
+        if (todoType) conditions.push(eq(schema.dashTodos.todoType, todoType));
+        if (category) conditions.push(eq(schema.dashTodos.category, category));
+        if (account) conditions.push(sql`${account} = ANY(${schema.dashTodos.accounts})`);
+
+        const todos = await db
+          .select()
+          .from(schema.dashTodos)
+          .where(and(...conditions))
+          .orderBy(desc(schema.dashTodos.lastEmailDate))
+          .limit(limit);
+
+        return jsonResult({
+          count: todos.length,
+          todos: todos.map((todo) => ({
+            id: todo.id,
+            threadKey: todo.threadKey,
+            todoType: todo.todoType,
+            category: todo.category,
+            itemType: todo.itemType,
+            contact: todo.contactName ? `${todo.contactName} <${todo.contactEmail ?? ""}>` : todo.contactEmail,
+            subject: todo.subject,
+            summary: todo.summary,
+            description: todo.description,
+            lastEmailDate: todo.lastEmailDate,
+            emailCount: todo.emailCount,
+            lastEmailFromUs: todo.lastEmailFromUs,
+            poDetails: todo.poDetails,
+            isSuspicious: todo.isSuspicious,
+            accounts: todo.accounts,
+          })),
+        });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
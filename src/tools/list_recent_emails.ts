@@ -0,0 +1,60 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, desc, eq, ne, type SQL } from "drizzle-orm";
+import { db, schema } from "@/db";
+import { getDefaultMailbox, getMailAccount } from "@/imap/client";
+import { errorResult, jsonResult, summarizeStoredEmail, type EmailSummary } from "./shared";
+import { listUnreadMessages, listUnsyncedMessages } from "./imap-fallback";
+
+export function registerListRecentEmails(server: McpServer): void {
+  server.registerTool(
+    "list_recent_emails",
+    {
+      description:
+        "Lists the most recent emails in a mailbox with metadata and a short snippet (no full body). Reads the local " +
+        "email database and adds messages that arrived on the server since the last sync.",
+      inputSchema: {
+        mailbox: z.string().optional().describe("Mailbox path (default INBOX)"),
+        account: z.string().optional().describe("Mail account id from MAIL_ACCOUNTS (default: primary account)"),
+        limit: z.number().int().min(1).max(20).default(10),
+        unreadOnly: z.boolean().default(false).describe("Only unread messages (always checked on the server)"),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ mailbox, account, limit, unreadOnly }) => {
+      try {
+        const accountId = getMailAccount(account).id;
+        const path = mailbox || getDefaultMailbox();
+
+        if (unreadOnly) {
+          return jsonResult({ emails: await listUnreadMessages(accountId, path, limit) });
+        }
+
+        const notes: string[] = [];
+        let unsynced: EmailSummary[] = [];
+        try {
+          unsynced = await listUnsyncedMessages(accountId, path, { limit });
+        } catch (error) {
+          notes.push(`Could not check the server for unsynced mail: ${error instanceof Error ? error.message : error}`);
+        }
+
+        const conditions: SQL[] = [
+          eq(schema.emails.mailbox, path),
+          ne(schema.emails.serverState, "deleted"),
+          eq(schema.emails.account, accountId),
+        ];
+        const stored = await db
+          .select()
+          .from(schema.emails)
+          .where(and(...conditions))
+          .orderBy(desc(schema.emails.date))
+          .limit(limit);
+
+        const emails = [...unsynced, ...stored.map(summarizeStoredEmail)].slice(0, limit);
+        return jsonResult({ emails, ...(notes.length > 0 ? { notes } : {}) });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,131 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { SearchObject } from "imapflow";
+import { and, desc, eq, gte, ilike, lt, ne, or, type SQL } from "drizzle-orm";
+import { db, schema } from "@/db";
+import { getDefaultMailbox, getMailAccount } from "@/imap/client";
+import { errorResult, jsonResult, summarizeStoredEmail, type EmailSummary } from "./shared";
+import { listUnsyncedMessages } from "./imap-fallback";
+
+// Match the text literally - % and _ in a customer name are not wildcards
+function contains(value: string): string {
+  return `%${value.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+function parseDate(value: string | undefined, name: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid ${name} date "${value}" (use YYYY-MM-DD)`);
+  return date;
+}
+
+// Undated messages sort last
+function timeOf(date: string | null): number {
+  return date ? new Date(date).getTime() : 0;
+}
+
+export function registerSearchEmails(server: McpServer): void {
+  server.registerTool(
+    "search_emails",
+    {
+      description:
+        "Search emails by free text, sender, recipient and/or subject, optionally within a date range. Returns " +
+        "metadata and a snippet, newest first; use get_email with the returned id for the full message. Searches all " +
+        "synced mailboxes unless mailbox/account is given, plus mail that arrived on the server since the last sync.",
+      inputSchema: {
+        query: z.string().optional().describe("Text anywhere in subject, sender, recipients or body"),
+        from: z.string().optional().describe("Sender name or address contains"),
+        to: z.string().optional().describe("To/Cc address contains"),
+        subject: z.string().optional().describe("Subject contains"),
+        since: z.string().optional().describe("On or after this date (YYYY-MM-DD)"),
+        before: z.string().optional().describe("Before this date (YYYY-MM-DD)"),
+        matchAll: z.boolean().default(false).describe("Require every text criterion to match (default: any)"),
+        mailbox: z.string().optional(),
+        account: z.string().optional(),
+        limit: z.number().int().min(1).max(50).default(10),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ query, from, to, subject, since, before, matchAll, mailbox, account, limit }) => {
+      try {
+        const sinceDate = parseDate(since, "since");
+        const beforeDate = parseDate(before, "before");
+
+        const textConditions: SQL[] = [];
+        const imapCriteria: SearchObject[] = [];
+        if (query) {
+          const pattern = contains(query);
+          textConditions.push(
+            or(
+              ilike(schema.emails.subject, pattern),
+              ilike(schema.emails.fromAddress, pattern),
+              ilike(schema.emails.fromName, pattern),
+              ilike(schema.emails.toAddresses, pattern),
+              ilike(schema.emails.ccAddresses, pattern),
+              ilike(schema.emails.bodyText, pattern)
+            )!
+          );
+          imapCriteria.push({ text: query });
+        }
+        if (from) {
+          textConditions.push(or(ilike(schema.emails.fromAddress, contains(from)), ilike(schema.emails.fromName, contains(from)))!);
+          imapCriteria.push({ from });
+        }
+        if (to) {
+          textConditions.push(or(ilike(schema.emails.toAddresses, contains(to)), ilike(schema.emails.ccAddresses, contains(to)))!);
+          imapCriteria.push({ to });
+        }
+        if (subject) {
+          textConditions.push(ilike(schema.emails.subject, contains(subject)));
+          imapCriteria.push({ subject });
+        }
+
+        if (textConditions.length === 0 && !sinceDate && !beforeDate) {
+          return errorResult("Give at least one of query, from, to, subject, since or before");
+        }
+
+        const accountId = account ? getMailAccount(account).id : undefined;
+        const conditions: SQL[] = [ne(schema.emails.serverState, "deleted")];
+        if (textConditions.length > 0) {
+          conditions.push(matchAll ? and(...textConditions)! : or(...textConditions)!);
+        }
+        if (sinceDate) conditions.push(gte(schema.emails.date, sinceDate));
+        if (beforeDate) conditions.push(lt(schema.emails.date, beforeDate));
+        if (mailbox) conditions.push(eq(schema.emails.mailbox, mailbox));
+        if (accountId) conditions.push(eq(schema.emails.account, accountId));
+
+        const stored = await db
+          .select()
+          .from(schema.emails)
+          .where(and(...conditions))
+          .orderBy(desc(schema.emails.date))
+          .limit(limit);
+
+        // Messages not synced yet only exist on the server
+        const notes: string[] = [];
+        let unsynced: EmailSummary[] = [];
+        const dateCriteria: SearchObject = {
+          ...(sinceDate ? { since: sinceDate } : {}),
+          ...(beforeDate ? { before: beforeDate } : {}),
+        };
+        try {
+          unsynced = await listUnsyncedMessages(getMailAccount(accountId).id, mailbox || getDefaultMailbox(), {
+            limit,
+            criteria: imapCriteria.length > 0 ? imapCriteria.map((c) => ({ ...c, ...dateCriteria })) : [dateCriteria],
+            matchAll,
+          });
+        } catch (error) {
+          notes.push(`Could not search the server for unsynced mail: ${error instanceof Error ? error.message : error}`);
+        }
+
+        // Both lists are newest first, but an old unsynced message mustn't push out newer stored ones
+        const emails = [...unsynced, ...stored.map(summarizeStoredEmail)]
+          .sort((a, b) => timeOf(b.date) - timeOf(a.date))
+          .slice(0, limit);
+        return jsonResult({ count: emails.length, emails, ...(notes.length > 0 ? { notes } : {}) });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,105 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { htmlToText } from "html-to-text";
+import type { Email } from "@/db/schema";
+import { getPrimaryAccountId } from "@/imap/client";
+import { makeSnippet, parseAddressList, sanitizeSubject, trimToMaxChars } from "@/imap/parsers";
+import { getCleanBody } from "@/imap/body-cleaner";
+import { generateThreadId } from "@/sync/threader";
+
+// Where a tool result came from: the synced database, or a read-only IMAP fetch
+// for messages the sync hasn't picked up yet
+export type EmailSource = "db" | "imap";
+
+export interface EmailSummary {
+  id: number | null; // email_messages.id (null for unsynced IMAP messages)
+  account: string;
+  mailbox: string;
+  uid: number;
+  date: string | null;
+  from: string;
+  subject: string;
+  hasAttachments: boolean;
+  snippet: string;
+  source: EmailSource;
+}
+
+export function jsonResult(data: unknown): CallToolResult {
+  return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+}
+
+// Human-readable failure. Messages come from our own errors or the IMAP/DB
+// client, none of which include credentials.
+export function errorResult(error: unknown): CallToolResult {
+  const message = error instanceof Error ? error.message : String(error);
+  return { content: [{ type: "text", text: `Error: ${message}` }], isError: true };
+}
+
+export function formatSender(name: string | null | undefined, address: string | null | undefined): string {
+  if (name && address) return `${name} <${address}>`;
+  return name || address || "(unknown sender)";
+}
+
+export function toIsoDate(date: Date | null | undefined): string | null {
+  return date ? date.toISOString() : null;
+}
+
+// Plain-text body of a stored email: cleaned by default, full text (quotes,
+// signature, disclaimer) when asked. HTML-only messages are converted if allowed.
+export function storedEmailBody(email: Email, options: { full: boolean; includeHtmlAsText: boolean; maxChars: number }): string {
+  let body = options.full ? email.bodyText || "" : getCleanBody(email);
+  if (!body.trim() && options.includeHtmlAsText && email.bodyHtml) {
+    body = htmlToText(email.bodyHtml, {
+      wordwrap: false,
+      selectors: [
+        { selector: "a", options: { ignoreHref: true } },
+        { selector: "img", format: "skip" },
+      ],
+    });
+  }
+  return trimToMaxChars(body.trim(), options.maxChars);
+}
+
+export function summarizeStoredEmail(email: Email): EmailSummary {
+  return {
+    id: email.id,
+    account: email.account ?? getPrimaryAccountId(),
+    mailbox: email.mailbox,
+    uid: email.uid,
+    date: toIsoDate(email.date),
+    from: formatSender(email.fromName, email.fromAddress),
+    subject: sanitizeSubject(email.subject),
+    hasAttachments: email.hasAttachments ?? false,
+    snippet: makeSnippet(getCleanBody(email)),
+    source: "db",
+  };
+}
+
+export function describeStoredEmail(
+  email: Email,
+  options: { full: boolean; includeHeaders: boolean; includeHtmlAsText: boolean; maxChars: number },
+  threadKey = generateThreadId(email.messageId, email.inReplyTo, email.references, email.subject)
+) {
+  return {
+    id: email.id,
+    account: email.account ?? getPrimaryAccountId(),
+    mailbox: email.mailbox,
+    uid: email.uid,
+    date: toIsoDate(email.date),
+    from: formatSender(email.fromName, email.fromAddress),
+    subject: sanitizeSubject(email.subject),
+    threadKey,
+    ...(options.includeHeaders
+      ? {
+          to: parseAddressList(email.toAddresses),
+          cc: parseAddressList(email.ccAddresses),
+          replyTo: parseAddressList(email.replyTo),
+          messageId: email.messageId,
+        }
+      : {}),
+    serverState: email.serverState,
+    movedTo: email.movedTo,
+    bodyText: storedEmailBody(email, options),
+    attachments: email.attachments ? JSON.parse(email.attachments) : [],
+    source: "db" as EmailSource,
+  };
+}